@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, Dimensions, Platform } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, Dimensions, Platform, Share } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { Image } from 'expo-image';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -9,7 +9,7 @@ import { useAuthContext } from '../contexts/AuthContext';
 import { useData } from '../contexts/DataContext';
 import { ListRow } from '../components/ListRow';
 import { notificationService } from '../lib/NotificationService';
-import { deleteAccount } from '../frontend-services/backend-bridge';
+import { deleteAccount, regenerateCalendarFeed, revokeCalendarFeed, calendarFeedUrl } from '../frontend-services/backend-bridge';
 import { trackEvent } from '../lib/mixpanel';
 import { resetDailyWelcome } from '../hooks/useDailyWelcome';
 import { AchievementUnlockedSheet } from '../components/AchievementUnlockedSheet';
@@ -17,6 +17,7 @@ import { AchievementsSheet } from '../components/AchievementsSheet';
 import { FigurineSelectorSheet } from '../components/FigurineSelectorSheet';
 import { checkNewAchievements, getAchievements, getPrecreatedFigurines } from '../frontend-services/backend-bridge';
 import { supabaseClient } from '../lib/supabaseClient';
+import { getCalendarFeedToken } from '../lib/calendarFeed';
 import type { AchievementUnlockResult, Achievement, UserAchievement } from '../backend/database/types';
 import { BOTTOM_NAV_PADDING } from '../utils/bottomNavigation';
 
@@ -34,6 +35,7 @@ const AccountPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?:
   const [showAchievementsSheet, setShowAchievementsSheet] = useState(false);
   const [showFigurineSheet, setShowFigurineSheet] = useState(false);
   const [figurineUrl, setFigurineUrl] = useState<string | null>(null);
+  const [calendarFeedToken, setCalendarFeedToken] = useState<string | null>(null);
 
   // Calculate image dimensions - rounded square
   const screenWidth = Dimensions.get('window').width;
@@ -155,6 +157,14 @@ const AccountPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?:
     }, [])
   );
 
+  useFocusEffect(
+    React.useCallback(() => {
+      if (user?.id) {
+        getCalendarFeedToken(user.id).then(setCalendarFeedToken);
+      }
+    }, [user?.id])
+  );
+
 
   const handleLogout = async () => {
     Alert.alert(
@@ -242,6 +252,77 @@ const AccountPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?:
     );
   };
 
+  const shareCalendarFeed = async (feedToken: string) => {
+    try {
+      await Share.share({ message: calendarFeedUrl(feedToken) });
+      trackEvent('account_calendar_feed_shared');
+    } catch (error) {
+      console.error('Error sharing calendar feed:', error);
+    }
+  };
+
+  const createCalendarFeed = async () => {
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      const result = await regenerateCalendarFeed(session?.access_token);
+      setCalendarFeedToken(result.token);
+      trackEvent('account_calendar_feed_created', { replaced: !!calendarFeedToken });
+      await shareCalendarFeed(result.token);
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      Alert.alert('Error', 'Failed to create the calendar link. Please try again.');
+    }
+  };
+
+  const turnOffCalendarFeed = async () => {
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      await revokeCalendarFeed(session?.access_token);
+      setCalendarFeedToken(null);
+      trackEvent('account_calendar_feed_revoked');
+    } catch (error) {
+      console.error('Error turning off calendar feed:', error);
+      Alert.alert('Error', 'Failed to turn off the calendar link. Please try again.');
+    }
+  };
+
+  const handleCalendarFeed = () => {
+    trackEvent('account_setting_pressed', { setting_name: 'calendar_feed' });
+
+    if (!calendarFeedToken) {
+      Alert.alert(
+        'Calendar Feed',
+        'Subscribe to your upcoming actions from Apple Calendar, Google Calendar or Outlook. Anyone with the link can see them.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Create Link', onPress: createCalendarFeed },
+        ]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Calendar Feed',
+      'Your upcoming actions are available as a calendar subscription. Make a new link if you shared it with someone by mistake.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Share Link', onPress: () => shareCalendarFeed(calendarFeedToken) },
+        {
+          text: 'New Link',
+          onPress: () => Alert.alert(
+            'New Link',
+            'Calendars subscribed to the current link will stop updating until you subscribe again with the new one.',
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Make New Link', onPress: createCalendarFeed },
+            ]
+          ),
+        },
+        { text: 'Turn Off', style: 'destructive', onPress: turnOffCalendarFeed },
+      ]
+    );
+  };
+
   const handleForceDailyWelcome = async () => {
     Alert.alert(
       'Force Daily Welcome',
@@ -400,6 +481,20 @@ const AccountPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?:
               navigation?.navigate('NotificationSettings');
             }}
           />
+          <ListRow
+            title="Scheduling"
+            leftIcon="calendar_today"
+            onPress={() => {
+              trackEvent('account_setting_pressed', { setting_name: 'scheduling' });
+              navigation?.navigate('SchedulingSettings');
+            }}
+          />
+          <ListRow
+            title="Calendar Feed"
+            subtitle={calendarFeedToken ? 'On' : 'Off'}
+            leftIcon="event"
+            onPress={handleCalendarFeed}
+          />
           <ListRow
             title="Contact Us"
             leftIcon="contact_support"
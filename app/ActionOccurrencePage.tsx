@@ -57,8 +57,17 @@ import { SheetHeader } from '../components/SheetHeader';
 import { useData } from '../contexts/DataContext';
 import { deleteActionOccurrence, updateActionOccurrence, updateAction, uploadArtifact, getArtifacts, deleteArtifact, completeOccurrence, type Artifact } from '../frontend-services/backend-bridge';
 import { supabaseClient } from '../lib/supabaseClient';
-import type { ActionOccurrenceStatus } from '../backend/database/types';
+import type { Action, ActionOccurrenceStatus, Area, Dream, RecurrenceRule } from '../backend/database/types';
+import { getRecurrence, toRepeatFields } from '../utils/recurrence';
+import { RecurrencePicker } from '../components/RecurrencePicker';
+import { getBlockingActions } from '../utils/prerequisites';
 import { trackEvent } from '../lib/mixpanel';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
+
+// The action behind an occurrence, with its area and dream when it came with the occurrence
+type OccurrenceAction = Action & {
+  areas?: Pick<Area, 'id' | 'title' | 'icon' | 'image_url'> & { dreams?: Pick<Dream, 'id' | 'title'> };
+};
 
 // Edit Action Modal Component (copied from ActionChipsList)
 interface EditActionModalProps {
@@ -67,9 +76,10 @@ interface EditActionModalProps {
   onClose: () => void;
   onSave: (updatedAction: any) => void;
   dreamEndDate?: string;
+  prerequisiteOptions?: { id: string; title: string }[]; // Other actions in the same dream
 }
 
-function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: EditActionModalProps) {
+function EditActionModal({ visible, action, onClose, onSave, dreamEndDate, prerequisiteOptions = [] }: EditActionModalProps) {
   const { theme, isDark } = useTheme();
   const styles = useMemo(() => createEditModalStyles(theme), [theme]);
   const [formData, setFormData] = useState({
@@ -77,8 +87,10 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
     title: '',
     est_minutes: 0,
     difficulty: 'medium' as 'easy' | 'medium' | 'hard',
-    repeat_every_days: undefined as number | undefined,
+    repeat_every_days: undefined as number | null | undefined,
+    recurrence: undefined as RecurrenceRule | null | undefined,
     slice_count_target: undefined as number | undefined,
+    prerequisite_ids: [] as string[],
     acceptance_criteria: [] as { title: string; description: string }[],
     acceptance_intro: '' as string | undefined,
     acceptance_outro: '' as string | undefined,
@@ -101,18 +113,18 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
       // Initialize actionType from incoming values
       if (action.slice_count_target && action.slice_count_target > 0) {
         setActionType('finite');
-      } else if (action.repeat_every_days) {
+      } else if (getRecurrence(action)) {
         setActionType('repeating');
       } else {
         setActionType('one-off');
       }
       // Initialize due date from current occurrence if provided
       if (action.due_on) {
-        setDueDate(new Date(action.due_on));
+        setDueDate(parseLocalDate(action.due_on));
       }
       // Initialize repeat until date
       if (action.repeat_until_date) {
-        setRepeatUntilDate(new Date(action.repeat_until_date));
+        setRepeatUntilDate(parseLocalDate(action.repeat_until_date));
       } else {
         setRepeatUntilDate(undefined);
       }
@@ -133,13 +145,14 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
     const payload = { ...formData } as any;
     if (actionType === 'one-off') {
       payload.repeat_every_days = null;
+      payload.recurrence = null;
       payload.slice_count_target = null;
       payload.repeat_until_date = null;
     } else if (actionType === 'repeating') {
-      // default to 1 if not selected yet
-      payload.repeat_every_days = payload.repeat_every_days ?? 1;
+      // default to daily if no pattern selected yet
+      Object.assign(payload, toRepeatFields(getRecurrence(payload) ?? { type: 'interval', every_days: 1 }));
       payload.slice_count_target = null;
-      payload.repeat_until_date = repeatUntilDate ? repeatUntilDate.toISOString().split('T')[0] : null;
+      payload.repeat_until_date = repeatUntilDate ? toLocalDateString(repeatUntilDate) : null;
     } else if (actionType === 'finite') {
       // validate total steps
       if (!payload.slice_count_target || payload.slice_count_target < 1 || payload.slice_count_target > 32767) {
@@ -147,10 +160,11 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
         return;
       }
       payload.repeat_every_days = null;
+      payload.recurrence = null;
       payload.repeat_until_date = null;
     }
     // Include possibly updated due date for the current occurrence
-    payload.due_on = dueDate.toISOString().split('T')[0];
+    payload.due_on = toLocalDateString(dueDate);
     try {
       setIsSaving(true);
       await Promise.resolve(onSave(payload));
@@ -436,28 +450,11 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
           {actionType === 'repeating' && (
             <View>
               <View style={{ marginBottom: 16 }}>
-                <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: theme.colors.text.primary }}>Repeat Every</Text>
-                <View style={{ flexDirection: 'row', gap: 8 }}>
-                  {[
-                    { value: 1, label: '1 day' },
-                    { value: 2, label: '2 days' },
-                    { value: 3, label: '3 days' }
-                  ].map((option) => (
-                    <TouchableOpacity
-                      key={option.value}
-                      onPress={() => setFormData(prev => ({ ...prev, repeat_every_days: option.value }))}
-                      style={{
-                        flex: 1,
-                        padding: 12,
-                        backgroundColor: formData.repeat_every_days === option.value ? theme.colors.primary[600] : theme.colors.background.card,
-                        borderRadius: 8,
-                        alignItems: 'center'
-                      }}
-                    >
-                      <Text style={{ color: formData.repeat_every_days === option.value ? theme.colors.text.inverse : theme.colors.text.primary, fontWeight: '600', fontSize: 14 }}>{option.label}</Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
+                <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: theme.colors.text.primary }}>Repeat</Text>
+                <RecurrencePicker
+                  value={getRecurrence(formData)}
+                  onChange={(rule) => setFormData(prev => ({ ...prev, ...toRepeatFields(rule) }))}
+                />
               </View>
 
               <View style={{ marginBottom: 16 }}>
@@ -558,6 +555,37 @@ function EditActionModal({ visible, action, onClose, onSave, dreamEndDate }: Edi
             </View>
           )}
 
+          {/* Prerequisites */}
+          {prerequisiteOptions.length > 0 && (
+            <View style={{ marginBottom: 16 }}>
+              <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: theme.colors.text.primary }}>Do After</Text>
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                {prerequisiteOptions.map((option) => {
+                  const selected = (formData.prerequisite_ids || []).includes(option.id);
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      onPress={() => setFormData(prev => ({
+                        ...prev,
+                        prerequisite_ids: selected
+                          ? (prev.prerequisite_ids || []).filter(id => id !== option.id)
+                          : [...(prev.prerequisite_ids || []), option.id]
+                      }))}
+                      style={{
+                        paddingVertical: 8,
+                        paddingHorizontal: 12,
+                        backgroundColor: selected ? theme.colors.primary[600] : theme.colors.background.card,
+                        borderRadius: 8
+                      }}
+                    >
+                      <Text style={{ color: selected ? theme.colors.text.inverse : theme.colors.text.primary, fontWeight: '600', fontSize: 14 }}>{option.title}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
           {/* Difficulty (moved to bottom) */}
           <View style={{ marginBottom: 16 }}>
             <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: theme.colors.text.primary }}>Difficulty</Text>
@@ -646,7 +674,7 @@ function SaveActionSheet({
   const scrollRef = useRef<ScrollView>(null);
   const descriptionSectionRef = useRef<View>(null);
   const descriptionSectionY = useRef<number>(0);
-  const currentDate = new Date().toISOString().split('T')[0];
+  const currentDate = toLocalDateString();
   
   // State for modal view mode
   const [viewMode, setViewMode] = useState<'editing' | 'success'>(initialViewMode);
@@ -1848,11 +1876,11 @@ const ActionOccurrencePage = () => {
   };
 
   const handleDefer = async () => {
-    const currentDate = new Date(currentDueDate || new Date());
+    const currentDate = currentDueDate ? parseLocalDate(currentDueDate) : new Date();
     const newDate = new Date(currentDate);
     newDate.setDate(newDate.getDate() + 1);
     
-    const newDateStr = newDate.toISOString().split('T')[0]; // Format as YYYY-MM-DD
+    const newDateStr = toLocalDateString(newDate); // Format as YYYY-MM-DD
     const formattedNewDate = formatDate(newDateStr);
     
     Alert.alert(
@@ -1888,7 +1916,7 @@ const ActionOccurrencePage = () => {
   };
 
   // Get action data from the occurrence (if it's from today's data)
-  const actionData = useMemo(() => {
+  const actionData = useMemo((): OccurrenceAction | null => {
     if (occurrenceData && 'actions' in occurrenceData) {
       const actions = (occurrenceData as any).actions;
       
@@ -1980,6 +2008,24 @@ const ActionOccurrencePage = () => {
     return null;
   }, [actionData, occurrenceData, params, state.dreamDetail]);
 
+  // Other actions in the same dream: prerequisite choices, and which of this action's are unfinished
+  const { prerequisiteOptions, blockingActions } = useMemo(() => {
+    if (actionData?.id) {
+      for (const dreamId in state.dreamDetail) {
+        const dreamDetail = state.dreamDetail[dreamId];
+        if (dreamDetail?.actions.some(a => a.id === actionData.id)) {
+          return {
+            prerequisiteOptions: dreamDetail.actions
+              .filter(a => a.id !== actionData.id)
+              .map(a => ({ id: a.id, title: a.title })),
+            blockingActions: getBlockingActions(actionData, dreamDetail.actions, dreamDetail.occurrences)
+          };
+        }
+      }
+    }
+    return { prerequisiteOptions: [], blockingActions: [] };
+  }, [actionData, state.dreamDetail]);
+
   // Get areaImageUrl with proper fallback, ensuring it's a non-empty string
   // Priority: params (direct from navigation) > dreamAreaData > actionData
   const areaImageUrl = (() => {
@@ -2151,7 +2197,9 @@ Focus on practical, immediately actionable advice that moves me closer to comple
       est_minutes: actionData.est_minutes || 0,
       difficulty: actionData.difficulty || 'medium',
       repeat_every_days: actionData.repeat_every_days,
+      recurrence: actionData.recurrence,
       repeat_until_date: actionData.repeat_until_date,
+      prerequisite_ids: actionData.prerequisite_ids || [],
       slice_count_target: actionData.slice_count_target,
       acceptance_criteria: actionData.acceptance_criteria || [],
       acceptance_intro: (actionData as any).acceptance_intro,
@@ -2185,7 +2233,9 @@ Focus on practical, immediately actionable advice that moves me closer to comple
         est_minutes?: number; 
         difficulty?: string; 
         repeat_every_days?: number | null; 
+        recurrence?: RecurrenceRule | null;
         repeat_until_date?: string | null;
+        prerequisite_ids?: string[];
         slice_count_target?: number | null; 
         acceptance_criteria?: { title: string; description: string }[]; 
         acceptance_intro?: string; 
@@ -2196,6 +2246,12 @@ Focus on practical, immediately actionable advice that moves me closer to comple
       if (updatedAction.est_minutes !== actionData.est_minutes) updates.est_minutes = updatedAction.est_minutes;
       if (updatedAction.difficulty !== actionData.difficulty) updates.difficulty = updatedAction.difficulty;
       if (updatedAction.repeat_every_days !== actionData.repeat_every_days) updates.repeat_every_days = updatedAction.repeat_every_days;
+      if (JSON.stringify(updatedAction.recurrence ?? null) !== JSON.stringify(actionData.recurrence ?? null)) {
+        updates.recurrence = updatedAction.recurrence ?? null;
+      }
+      if (JSON.stringify(updatedAction.prerequisite_ids || []) !== JSON.stringify(actionData.prerequisite_ids || [])) {
+        updates.prerequisite_ids = updatedAction.prerequisite_ids || [];
+      }
       if (updatedAction.repeat_until_date !== actionData.repeat_until_date) updates.repeat_until_date = updatedAction.repeat_until_date;
       if (updatedAction.slice_count_target !== actionData.slice_count_target) updates.slice_count_target = updatedAction.slice_count_target;
       if (JSON.stringify(updatedAction.acceptance_criteria) !== JSON.stringify(actionData.acceptance_criteria)) {
@@ -2509,6 +2565,16 @@ Focus on practical, immediately actionable advice that moves me closer to comple
 
             {/* Hero Section - removed, content now overlays image */}
 
+        {/* Blocked by unfinished prerequisites */}
+        {!isCompleted && blockingActions.length > 0 && (
+          <View style={styles.blockedBanner}>
+            <Ionicons name="lock-closed-outline" size={16} color={theme.colors.text.secondary} />
+            <Text style={styles.blockedText}>
+              Finish {blockingActions.map(a => `"${a.title}"`).join(', ')} first
+            </Text>
+          </View>
+        )}
+
         {/* Acceptance Criteria Section */}
         <View style={styles.acceptanceSection}>
           <View style={{ 
@@ -2758,6 +2824,7 @@ Focus on practical, immediately actionable advice that moves me closer to comple
         onClose={() => setShowEditModal(false)}
         onSave={handleSaveEdit}
         dreamEndDate={undefined}
+        prerequisiteOptions={prerequisiteOptions}
       />
     </View>
   );
@@ -3009,6 +3076,21 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     paddingTop: 16,
     marginBottom: 8,
   },
+  blockedBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: theme.colors.background.card,
+  },
+  blockedText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text.secondary,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: 'bold',
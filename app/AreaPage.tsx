@@ -15,6 +15,7 @@ import { useData } from '../contexts/DataContext';
 import { supabaseClient } from '../lib/supabaseClient';
 import { upsertActions, generateActions } from '../frontend-services/backend-bridge';
 import type { Dream, Action, ActionOccurrence, Area } from '../backend/database/types';
+import { getBlockingActions } from '../utils/prerequisites';
 import { SheetHeader } from '../components/SheetHeader';
 import { BOTTOM_NAV_PADDING } from '../utils/bottomNavigation';
 import { sanitizeErrorMessage } from '../utils/errorSanitizer';
@@ -125,6 +126,7 @@ const AreaPage: React.FC<AreaPageProps> = ({ route, navigation }) => {
               est_minutes: action.est_minutes || 30,
               difficulty: action.difficulty,
               repeat_every_days: action.repeat_every_days,
+              recurrence: action.recurrence,
               slice_count_target: action.slice_count_target,
               acceptance_criteria: normalizedCriteria,
               area_image: areaImageUrl,
@@ -135,6 +137,7 @@ const AreaPage: React.FC<AreaPageProps> = ({ route, navigation }) => {
               completed_at: occurrence.completed_at,
               is_done: !!occurrence.completed_at,
               is_overdue: new Date(occurrence.due_on) < new Date() && !occurrence.completed_at,
+              blocked_by: getBlockingActions(action, dreamData.actions, dreamData.occurrences).map((a: Action) => a.title),
               // Hide edit buttons on individual actions
               hideEditButtons: true,
             };
@@ -243,6 +246,7 @@ const AreaPage: React.FC<AreaPageProps> = ({ route, navigation }) => {
         est_minutes: action.est_minutes,
         difficulty: action.difficulty,
         repeat_every_days: action.repeat_every_days,
+        recurrence: action.recurrence,
         slice_count_target: action.slice_count_target,
         acceptance_criteria: action.acceptance_criteria || [],
         acceptance_intro: (action as any).acceptance_intro,
@@ -263,6 +267,7 @@ const AreaPage: React.FC<AreaPageProps> = ({ route, navigation }) => {
           est_minutes: a.est_minutes,
           difficulty: a.difficulty,
           repeat_every_days: a.repeat_every_days,
+          recurrence: a.recurrence,
           slice_count_target: a.slice_count_target,
           acceptance_criteria: a.acceptance_criteria,
           acceptance_intro: (a as any).acceptance_intro,
@@ -0,0 +1,604 @@
+import React, { useState, useMemo, useCallback, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert, PanResponder } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { Theme } from '../utils/theme';
+import { useData } from '../contexts/DataContext';
+import { useAuthContext } from '../contexts/AuthContext';
+import { IconButton } from '../components/IconButton';
+import { SegmentedControl } from '../components/SegmentedControl';
+import { trackEvent } from '../lib/mixpanel';
+import { getSchedulingPreferences, DEFAULT_SCHEDULING_PREFERENCES } from '../lib/schedulingPreferences';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
+import {
+  getCalendarRange,
+  shiftAnchor,
+  formatCalendarTitle,
+  summarizeDays,
+  dreamColor,
+  type CalendarView,
+} from '../utils/calendar';
+import type { Action, ActionOccurrence, Area, Dream } from '../backend/database/types';
+
+const VIEWS: CalendarView[] = ['week', 'month'];
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+// Dream dots shown per day before the rest are left out
+const MAX_DOTS = 4;
+
+type Frame = { x: number; y: number; width: number; height: number };
+
+// An occurrence as the calendar loads it (always dated): its status row with the action, area and dream
+type CalendarOccurrence = Omit<ActionOccurrence, 'due_on'> & {
+  due_on: string;
+  is_done: boolean;
+  is_overdue: boolean;
+  actions?: Pick<Action, 'title' | 'est_minutes' | 'difficulty'> & {
+    areas?: Pick<Area, 'title' | 'icon' | 'dream_id'> & { dreams?: Pick<Dream, 'title' | 'image_url'> };
+  };
+};
+
+const CalendarPage = ({ navigation }: { navigation: any }) => {
+  const { theme, isDark } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme, isDark]);
+  const { state, getOccurrenceRange, moveOccurrence } = useData();
+  const { user } = useAuthContext();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selectedDate, setSelectedDate] = useState(() => toLocalDateString());
+  const [restDays, setRestDays] = useState<number[]>(DEFAULT_SCHEDULING_PREFERENCES.rest_days);
+  // Drag and drop (week view): the occurrence being dragged, where the finger is and the day under it
+  const [dragging, setDragging] = useState<{ occurrence: CalendarOccurrence; x: number; y: number } | null>(null);
+  const [dropDate, setDropDate] = useState<string | null>(null);
+  const draggingRef = useRef<{ occurrence: CalendarOccurrence } | null>(null);
+  const dropDateRef = useRef<string | null>(null);
+  const panActiveRef = useRef(false);
+  const containerRef = useRef<View>(null);
+  const weekRowRef = useRef<View>(null);
+  const containerFrame = useRef<Frame>({ x: 0, y: 0, width: 0, height: 0 });
+  const weekRowFrame = useRef<Frame | null>(null);
+
+  const range = useMemo(() => getCalendarRange(anchor, view), [anchor, view]);
+  const fromStr = toLocalDateString(range.from);
+  const toStr = toLocalDateString(range.to);
+  const rangeData = state.occurrenceRanges[`${fromStr}:${toStr}`];
+  const occurrences: CalendarOccurrence[] = rangeData?.occurrences || [];
+  const summaries = useMemo(() => summarizeDays(occurrences), [occurrences]);
+  const todayStr = toLocalDateString();
+
+  // Show the stored copy straight away and refresh it, since actions may have changed elsewhere
+  useFocusEffect(
+    useCallback(() => {
+      getOccurrenceRange(range.from, range.to, { force: true });
+    }, [fromStr, toStr])
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      trackEvent('calendar_viewed', { view });
+      if (!user?.id) return;
+      getSchedulingPreferences(user.id).then(preferences => {
+        if (preferences) setRestDays(preferences.rest_days);
+      });
+    }, [user?.id])
+  );
+
+  const changeView = (index: number) => {
+    const nextView = VIEWS[index];
+    if (nextView === view) return;
+    trackEvent('calendar_view_changed', { view: nextView });
+    // Keep the selected day in sight when switching
+    setAnchor(parseLocalDate(selectedDate));
+    setView(nextView);
+  };
+
+  const navigateRange = (direction: 'prev' | 'next') => {
+    trackEvent('calendar_range_changed', { view, direction });
+    const nextAnchor = shiftAnchor(anchor, view, direction);
+    const nextRange = getCalendarRange(nextAnchor, view);
+    setAnchor(nextAnchor);
+    // Select today when it's in the new range, otherwise the first day of the week or month
+    const nextFrom = view === 'month' ? new Date(nextAnchor.getFullYear(), nextAnchor.getMonth(), 1) : nextRange.from;
+    setSelectedDate(todayStr >= toLocalDateString(nextRange.from) && todayStr <= toLocalDateString(nextRange.to)
+      ? todayStr
+      : toLocalDateString(nextFrom));
+  };
+
+  const startDrag = (occurrence: CalendarOccurrence, pageX: number, pageY: number) => {
+    if (view !== 'week' || occurrence.is_done) return;
+    // Measure once per drag; the grid doesn't move while dragging since scrolling is off
+    containerRef.current?.measureInWindow((x, y, width, height) => {
+      containerFrame.current = { x, y, width, height };
+    });
+    weekRowRef.current?.measureInWindow((x, y, width, height) => {
+      weekRowFrame.current = { x, y, width, height };
+    });
+    draggingRef.current = { occurrence };
+    setDragging({ occurrence, x: pageX, y: pageY });
+    trackEvent('calendar_drag_started', { action_id: occurrence.id });
+  };
+
+  // The day under the finger, if it's one the occurrence could go to
+  const dayAt = (pageX: number, pageY: number): string | null => {
+    const frame = weekRowFrame.current;
+    if (!frame || pageY < frame.y || pageY > frame.y + frame.height || pageX < frame.x || pageX > frame.x + frame.width) return null;
+    const index = Math.min(6, Math.floor((pageX - frame.x) / (frame.width / 7)));
+    const dateStr = toLocalDateString(range.days[index]);
+    return dateStr >= todayStr ? dateStr : null;
+  };
+
+  const endDrag = () => {
+    panActiveRef.current = false;
+    draggingRef.current = null;
+    dropDateRef.current = null;
+    setDragging(null);
+    setDropDate(null);
+  };
+
+  const dropOccurrence = async (occurrence: CalendarOccurrence, dueOn: string) => {
+    try {
+      const { warnings } = await moveOccurrence(occurrence.id, dueOn);
+      trackEvent('calendar_occurrence_moved', {
+        action_id: occurrence.id,
+        direction: dueOn > occurrence.due_on ? 'later' : 'earlier',
+        warning_count: warnings.length,
+      });
+      if (warnings.length > 0) {
+        Alert.alert('Busy day', `${warnings.join('\n')}\n\nThe action was moved anyway. You can drag it somewhere quieter.`);
+      }
+    } catch (error) {
+      console.error('Failed to move occurrence:', error);
+      Alert.alert("Couldn't move this action", error instanceof Error ? error.message : 'Please try again.');
+    } finally {
+      getOccurrenceRange(range.from, range.to, { force: true });
+    }
+  };
+
+  // Takes over the touch once a row has been long-pressed
+  const panResponder = useMemo(() => PanResponder.create({
+    onStartShouldSetPanResponderCapture: () => false,
+    onMoveShouldSetPanResponderCapture: () => !!draggingRef.current,
+    onPanResponderGrant: () => {
+      panActiveRef.current = true;
+    },
+    onPanResponderMove: (_event, gesture) => {
+      if (!draggingRef.current) return;
+      const date = dayAt(gesture.moveX, gesture.moveY);
+      if (date !== dropDateRef.current) {
+        dropDateRef.current = date;
+        setDropDate(date);
+      }
+      setDragging({ occurrence: draggingRef.current.occurrence, x: gesture.moveX, y: gesture.moveY });
+    },
+    onPanResponderRelease: () => {
+      const occurrence = draggingRef.current?.occurrence;
+      const date = dropDateRef.current;
+      endDrag();
+      if (occurrence && date && date !== occurrence.due_on) {
+        dropOccurrence(occurrence, date);
+      }
+    },
+    onPanResponderTerminate: endDrag,
+  }), [range, todayStr, moveOccurrence]);
+
+  const handleOccurrencePress = (occurrence: CalendarOccurrence) => {
+    trackEvent('calendar_action_pressed', { action_id: occurrence.id, view });
+    const action = occurrence.actions;
+    navigation.navigate('ActionOccurrence', {
+      occurrenceId: occurrence.id,
+      actionTitle: action?.title || 'Untitled Action',
+      dreamTitle: action?.areas?.dreams?.title || 'My Dream',
+      areaName: action?.areas?.title || 'Area',
+      areaEmoji: action?.areas?.icon,
+      actionDescription: 'Complete this action to progress toward your goal.',
+      dueDate: occurrence.due_on,
+      estimatedTime: action?.est_minutes || 30,
+      difficulty: action?.difficulty,
+      dreamImage: action?.areas?.dreams?.image_url || '🎯',
+      isCompleted: occurrence.is_done,
+      isOverdue: occurrence.is_overdue,
+      completedAt: occurrence.completed_at,
+    });
+  };
+
+  const selectedOccurrences = occurrences.filter(occurrence => occurrence.due_on === selectedDate);
+  const selectedLabel = parseLocalDate(selectedDate).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+  const isSelectedRestDay = restDays.includes(parseLocalDate(selectedDate).getDay());
+
+  const renderDay = (day: Date) => {
+    const dateStr = toLocalDateString(day);
+    const summary = summaries.get(dateStr);
+    const isRestDay = restDays.includes(day.getDay());
+    const isOutsideMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+    const isSelected = dateStr === selectedDate;
+    const isToday = dateStr === todayStr;
+
+    return (
+      <TouchableOpacity
+        key={dateStr}
+        style={[
+          styles.day,
+          view === 'week' && styles.weekDay,
+          isRestDay && styles.restDay,
+          isSelected && styles.selectedDay,
+          dateStr === dropDate && styles.dropTargetDay,
+        ]}
+        onPress={() => setSelectedDate(dateStr)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.dayNumberContainer, isToday && styles.todayNumberContainer]}>
+          <Text style={[styles.dayNumber, isOutsideMonth && styles.outsideMonthText, isToday && styles.todayNumber]}>
+            {day.getDate()}
+          </Text>
+        </View>
+        {summary ? (
+          <>
+            <Text style={[styles.dayCount, isOutsideMonth && styles.outsideMonthText]}>
+              {view === 'week' ? `${summary.done}/${summary.total}` : summary.total}
+            </Text>
+            <View style={styles.dots}>
+              {summary.dreamIds.slice(0, MAX_DOTS).map(dreamId => (
+                <View key={dreamId} style={[styles.dot, { backgroundColor: dreamColor(dreamId, theme) }]} />
+              ))}
+            </View>
+            {summary.overdue > 0 && <View style={styles.overdueMarker} />}
+          </>
+        ) : isRestDay ? (
+          <Text style={styles.restLabel}>Rest</Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const weeks: Date[][] = [];
+  for (let i = 0; i < range.days.length; i += 7) {
+    weeks.push(range.days.slice(i, i + 7));
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View ref={containerRef} style={styles.container} {...panResponder.panHandlers}>
+        <View style={styles.header}>
+          <IconButton
+            icon="chevron_left"
+            onPress={() => navigation.goBack()}
+            variant="secondary"
+            size="md"
+          />
+          <View style={styles.navigationButtons}>
+            <IconButton
+              icon="chevron_left"
+              onPress={() => navigateRange('prev')}
+              variant="secondary"
+              size="md"
+            />
+            <IconButton
+              icon="chevron_right"
+              onPress={() => navigateRange('next')}
+              variant="secondary"
+              size="md"
+            />
+          </View>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} scrollEnabled={!dragging}>
+          <Text style={styles.title}>{formatCalendarTitle(anchor, view)}</Text>
+
+          <SegmentedControl
+            options={['Week', 'Month']}
+            selectedIndex={VIEWS.indexOf(view)}
+            onSelect={changeView}
+          />
+
+          <View style={styles.grid}>
+            <View style={styles.weekRow}>
+              {WEEKDAY_LABELS.map((label, index) => (
+                <Text key={index} style={styles.weekdayLabel}>{label}</Text>
+              ))}
+            </View>
+            {weeks.map(week => (
+              <View
+                key={toLocalDateString(week[0])}
+                ref={view === 'week' ? weekRowRef : undefined}
+                style={styles.weekRow}
+              >
+                {week.map(renderDay)}
+              </View>
+            ))}
+            {!rangeData && (
+              <ActivityIndicator style={styles.loading} color={theme.colors.primary[500]} />
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>{selectedLabel}</Text>
+          {view === 'week' && selectedOccurrences.some(occurrence => !occurrence.is_done) && (
+            <Text style={styles.hint}>Hold an action and drag it onto another day to move it</Text>
+          )}
+          {selectedOccurrences.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyStateText}>
+                {isSelectedRestDay ? 'Rest day - nothing scheduled' : 'No actions scheduled'}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              {selectedOccurrences.map((occurrence, index) => {
+                const dreamId = occurrence.actions?.areas?.dream_id;
+                return (
+                  <TouchableOpacity
+                    key={occurrence.id}
+                    style={[
+                      styles.occurrenceRow,
+                      index > 0 && styles.occurrenceDivider,
+                      dragging?.occurrence.id === occurrence.id && styles.occurrenceDragging,
+                    ]}
+                    onPress={() => handleOccurrencePress(occurrence)}
+                    onLongPress={(event) => startDrag(occurrence, event.nativeEvent.pageX, event.nativeEvent.pageY)}
+                    delayLongPress={300}
+                  // Let go without moving: the pan responder never took over, so end the drag here
+                  onPressOut={() => requestAnimationFrame(() => {
+                    if (draggingRef.current && !panActiveRef.current) endDrag();
+                  })}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.dreamBar, { backgroundColor: dreamId ? dreamColor(dreamId, theme) : theme.colors.grey[300] }]} />
+                    <View style={styles.occurrenceContent}>
+                      <Text style={[styles.occurrenceTitle, occurrence.is_done && styles.occurrenceDone]} numberOfLines={1}>
+                        {occurrence.actions?.title || 'Untitled Action'}
+                      </Text>
+                      <Text style={styles.occurrenceSubtitle} numberOfLines={1}>
+                        {occurrence.actions?.areas?.dreams?.title}
+                      </Text>
+                    </View>
+                    {occurrence.is_done ? (
+                      <Ionicons name="checkmark-circle" size={20} color={theme.colors.status.completed} />
+                    ) : occurrence.is_overdue ? (
+                      <Text style={styles.overdueText}>Overdue</Text>
+                    ) : null}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+
+        {dragging && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.dragPreview,
+              { left: dragging.x - containerFrame.current.x - 80, top: dragging.y - containerFrame.current.y - 20 },
+            ]}
+          >
+            <Text style={styles.dragPreviewText} numberOfLines={1}>
+              {dragging.occurrence.actions?.title || 'Untitled Action'}
+            </Text>
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background.page,
+  },
+  header: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    paddingBottom: theme.spacing.sm,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  navigationButtons: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+  },
+  content: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: 100, // Extra padding for bottom navigation
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  grid: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    padding: theme.spacing.xs,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.text.tertiary,
+    paddingVertical: theme.spacing.xs,
+  },
+  day: {
+    flex: 1,
+    minHeight: 64,
+    alignItems: 'center',
+    paddingVertical: 4,
+    margin: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  weekDay: {
+    minHeight: 88,
+  },
+  restDay: {
+    backgroundColor: theme.colors.background.hover,
+  },
+  selectedDay: {
+    borderColor: theme.colors.border.selected,
+  },
+  dropTargetDay: {
+    borderColor: theme.colors.primary[500],
+    backgroundColor: theme.colors.primary[50],
+  },
+  dayNumberContainer: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  todayNumberContainer: {
+    backgroundColor: theme.colors.primary[600],
+  },
+  dayNumber: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
+  todayNumber: {
+    color: theme.colors.text.inverse,
+  },
+  outsideMonthText: {
+    color: theme.colors.text.placeholder,
+  },
+  dayCount: {
+    fontSize: 12,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  dots: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 2,
+    marginTop: 3,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  overdueMarker: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.status.overdue,
+  },
+  restLabel: {
+    fontSize: 10,
+    color: theme.colors.text.tertiary,
+    marginTop: 2,
+  },
+  loading: {
+    paddingVertical: theme.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.tertiary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  card: {
+    backgroundColor: theme.colors.background.card,
+    borderRadius: theme.radius.lg,
+    overflow: 'hidden',
+  },
+  occurrenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.sm,
+    paddingRight: theme.spacing.md,
+  },
+  occurrenceDragging: {
+    opacity: 0.4,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    marginBottom: theme.spacing.sm,
+    marginLeft: theme.spacing.xs,
+  },
+  dragPreview: {
+    position: 'absolute',
+    width: 160,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+    shadowOffset: { width: 0, height: 4 },
+    elevation: 6,
+  },
+  dragPreviewText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
+  occurrenceDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: theme.colors.border.default,
+  },
+  dreamBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderTopRightRadius: 2,
+    borderBottomRightRadius: 2,
+  },
+  occurrenceContent: {
+    flex: 1,
+  },
+  occurrenceTitle: {
+    fontSize: 16,
+    color: theme.colors.text.primary,
+  },
+  occurrenceDone: {
+    color: theme.colors.text.tertiary,
+    textDecorationLine: 'line-through',
+  },
+  occurrenceSubtitle: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    marginTop: 2,
+  },
+  overdueText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.status.overdue,
+  },
+  emptyState: {
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.background.card,
+    borderRadius: theme.radius.lg,
+    borderWidth: 2,
+    borderColor: theme.colors.border.default,
+    borderStyle: 'dashed',
+  },
+  emptyStateText: {
+    fontFamily: theme.typography.fontFamily.system,
+    fontSize: theme.typography.fontSize.callout,
+    color: theme.colors.text.tertiary,
+    textAlign: 'center',
+  },
+});
+
+export default CalendarPage;
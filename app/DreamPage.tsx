@@ -15,14 +15,17 @@ import { AreaGrid } from '../components/AreaChips';
 import { OptionsPopover } from '../components/OptionsPopover';
 import { Button } from '../components/Button';
 import { Input } from '../components/Input';
+import { SegmentedControl } from '../components/SegmentedControl';
 import { ProgressPhotosSection } from '../components/progress';
 import { useData } from '../contexts/DataContext';
-import { upsertDream, rescheduleActions, upsertAreas, getDefaultImages, uploadDreamImage, generateAreas, type DreamImage } from '../frontend-services/backend-bridge';
+import { upsertDream, rescheduleActions, previewSchedule, pullForwardActions, upsertAreas, getDefaultImages, uploadDreamImage, generateAreas, type DreamImage, type SchedulingDiagnostics } from '../frontend-services/backend-bridge';
 import { supabaseClient } from '../lib/supabaseClient';
-import type { Dream, Action, ActionOccurrence, Area, DreamWithStats } from '../backend/database/types';
+import type { Dream, DreamPriority, Action, ActionOccurrence, Area, DreamWithStats } from '../backend/database/types';
 import { SheetHeader } from '../components/SheetHeader';
 import { BOTTOM_NAV_PADDING } from '../utils/bottomNavigation';
 import { trackEvent } from '../lib/mixpanel';
+import { parseLocalDate } from '../utils/dates';
+import { DREAM_PRIORITIES, DREAM_PRIORITY_LABELS, describePriority } from '../utils/dreamPriority';
 
 // Popular emojis for area icons
 const POPULAR_EMOJIS = [
@@ -68,7 +71,7 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
   // Calculate image width to extend to screen edges (accounting for content padding)
   const imageWidth = screenWidth + (theme.spacing.md * 2);
   
-  const { state, getDreamDetail, getDreamsWithStats, getProgress, deleteDream, archiveDream, onScreenFocus, isScreenshotMode } = useData();
+  const { state, getDreamDetail, getDreamsWithStats, getToday, getProgress, deleteDream, archiveDream, pauseDream, resumeDream, onScreenFocus, isScreenshotMode } = useData();
   const [showOptionsPopover, setShowOptionsPopover] = useState(false);
   const [optionsTriggerPosition, setOptionsTriggerPosition] = useState<{ x: number; y: number; width: number; height: number } | undefined>();
   const [showEditModal, setShowEditModal] = useState(false);
@@ -76,6 +79,7 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
   const [editStartDate, setEditStartDate] = useState('');
   const [editEndDate, setEditEndDate] = useState('');
   const [editTimeCommitment, setEditTimeCommitment] = useState({ hours: 0, minutes: 30 });
+  const [editPriority, setEditPriority] = useState<DreamPriority>('normal');
   const [timePickerDate, setTimePickerDate] = useState(() => {
     const date = new Date();
     date.setHours(0, 30, 0, 0);
@@ -88,6 +92,7 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [isRescheduling, setIsRescheduling] = useState(false);
+  const [isPullingForward, setIsPullingForward] = useState(false);
   const [showCreateAreaModal, setShowCreateAreaModal] = useState(false);
   const [newAreaTitle, setNewAreaTitle] = useState('');
   const [newAreaIcon, setNewAreaIcon] = useState('🚀');
@@ -310,6 +315,55 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
     );
   };
 
+  const handlePauseDream = () => {
+    Alert.alert(
+      'Pause Dream',
+      `Pause "${title}"? Its actions leave your Today list and your streak is kept as it is. When you resume, the rest of the plan is rebuilt and the end date moves back by the time you were paused.`,
+      [
+        {
+          text: 'Cancel',
+          style: 'cancel',
+        },
+        {
+          text: 'Pause',
+          onPress: async () => {
+            try {
+              if (dreamId) {
+                await pauseDream(dreamId);
+                trackEvent('dream_paused', { dream_id: dreamId });
+              }
+            } catch (error) {
+              console.error('Error pausing dream:', error);
+              Alert.alert('Error', 'Failed to pause dream. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleResumeDream = async () => {
+    if (!dreamId) return;
+
+    try {
+      const result = await resumeDream(dreamId);
+      trackEvent('dream_resumed', { dream_id: dreamId, paused_days: result.paused_days });
+
+      const endDate = result.end_date
+        ? parseLocalDate(result.end_date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+        : null;
+      Alert.alert(
+        'Welcome Back',
+        endDate && result.paused_days > 0
+          ? `Your plan has been rebuilt from today. The end date moved back ${result.paused_days} day${result.paused_days === 1 ? '' : 's'} to ${endDate}.`
+          : 'Your plan has been rebuilt from today.'
+      );
+    } catch (error) {
+      console.error('Error resuming dream:', error);
+      Alert.alert('Error', 'Failed to resume dream. Please try again.');
+    }
+  };
+
   const handleEditDream = () => {
     if (dreamData) {
       setEditTitle(dreamData.title);
@@ -320,6 +374,7 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
       // Initialize time commitment from dreamDetail (which has the full Dream type)
       const timeCommitment = dreamDetail?.time_commitment || { hours: 0, minutes: 30 };
       setEditTimeCommitment(timeCommitment);
+      setEditPriority(dreamDetail?.priority || 'normal');
       
       // Update time picker date
       const date = new Date();
@@ -442,10 +497,11 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
           title: editTitle.trim(),
         };
 
-        // Always include image_url, start_date, and time_commitment
+        // Always include image_url, start_date, time_commitment and priority
         if (editImageUrl) updateData.image_url = editImageUrl;
         updateData.start_date = formatDateForAPI(editStartDate);
         updateData.time_commitment = editTimeCommitment;
+        updateData.priority = editPriority;
         
         // Only include end_date if it has a value
         const formattedEndDate = editEndDate ? formatDateForAPI(editEndDate) : null;
@@ -684,64 +740,137 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
             text: 'Use Old End Date',
             onPress: () => {
               endDateToUse = originalEndDate;
-              performReschedule(endDateToUse);
+              previewReschedule(endDateToUse);
             },
           },
           {
             text: 'Use New End Date',
             onPress: () => {
               endDateToUse = editEndDate;
-              performReschedule(endDateToUse);
+              previewReschedule(endDateToUse);
             },
           },
         ]
       );
     } else {
-      // No change, proceed with normal reschedule
+      // No change, preview the reschedule with the current end date
+      previewReschedule(endDateToUse);
+    }
+  };
+
+  const buildRescheduleOptions = (endDate: string, timeCommitment = editTimeCommitment) => {
+    // Format the end date for the API (convert from display format to API format)
+    const formattedEndDate = formatDateForAPI(endDate);
+    
+    // Determine if we're extending or contracting the end date
+    const originalEndDate = dreamData?.end_date;
+    const options: { extendEndDate?: string; contractEndDate?: string; timeCommitment?: { hours: number; minutes: number } } = {};
+    
+    if (formattedEndDate && formattedEndDate !== originalEndDate) {
+      if (new Date(formattedEndDate) > new Date(originalEndDate || '')) {
+        options.extendEndDate = formattedEndDate;
+      } else {
+        options.contractEndDate = formattedEndDate;
+      }
+    }
+    
+    // Always pass the current time commitment from the edit state
+    options.timeCommitment = timeCommitment;
+    return options;
+  };
+
+  // One-tap fixes for a plan that doesn't fit: apply the change to the edit state and preview again
+  const buildFixButtons = (diagnostics: SchedulingDiagnostics | undefined, endDate: string, timeCommitment: { hours: number; minutes: number }) =>
+    (diagnostics?.fixes ?? []).map(fix => {
+      if (fix.type === 'extend_end_date' && fix.end_date) {
+        const newEnd = parseLocalDate(fix.end_date);
+        const displayEnd = `${newEnd.getDate()} ${newEnd.toLocaleDateString('en-US', { month: 'long' })} ${newEnd.getFullYear()}`;
+        return {
+          text: `End ${newEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+          onPress: () => {
+            trackEvent('dream_reschedule_fix_applied', { dream_id: dreamId, fix: fix.type, extra_days: fix.extra_days });
+            setEditEndDate(displayEnd);
+            previewReschedule(displayEnd, timeCommitment);
+          },
+        };
+      }
+      const newTime = fix.time_commitment!;
+      return {
+        text: `${formatTime(newTime.hours, newTime.minutes)}/day`,
+        onPress: () => {
+          trackEvent('dream_reschedule_fix_applied', { dream_id: dreamId, fix: fix.type });
+          setEditTimeCommitment(newTime);
+          previewReschedule(endDate, newTime);
+        },
+      };
+    });
+
+  // Dry-run the reschedule first so the user can see what will change before anything is written
+  const previewReschedule = async (endDate: string, timeCommitment = editTimeCommitment) => {
+    if (!dreamId) return;
+
+    const options = buildRescheduleOptions(endDate, timeCommitment);
+
+    setIsRescheduling(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      const preview = await previewSchedule(dreamId, session.access_token, { mode: 'incremental', ...options });
+      const { added, moved, removed } = preview.diff;
+      const unplaced = preview.diagnostics?.unplaced_actions ?? [];
+      const cappedDays = preview.diagnostics?.capped_days ?? [];
+
+      const lines = [
+        moved.length > 0 ? `• ${moved.length} action${moved.length === 1 ? '' : 's'} will move to a new day` : null,
+        added.length > 0 ? `• ${added.length} new action${added.length === 1 ? '' : 's'} will be scheduled` : null,
+        removed.length > 0 ? `• ${removed.length} action${removed.length === 1 ? '' : 's'} will be removed` : null,
+        (preview.overloaded_days?.length ?? 0) > 0 ? `• ${preview.overloaded_days!.length} day${preview.overloaded_days!.length === 1 ? '' : 's'} will go over your daily limit` : null,
+        cappedDays.length > 0 ? `• ${cappedDays.length} day${cappedDays.length === 1 ? '' : 's'} will need more than your daily time` : null,
+        unplaced.length > 0 ? `• Won't fit before the end date: ${unplaced.map(action => `"${action.title}"`).join(', ')}` : null,
+      ].filter(Boolean);
+      // Android shows at most three buttons, which leaves room for one fix
+      const fixButtons = buildFixButtons(preview.diagnostics, endDate, timeCommitment).slice(0, Platform.OS === 'android' ? 1 : 2);
+
+      if (lines.length === 0) {
+        Alert.alert('Reschedule Actions', 'Your schedule is already up to date. Nothing would change.');
+        return;
+      }
+
       Alert.alert(
         'Reschedule Actions',
-        'This will reschedule all outstanding actions from today to the end date. Continue?',
+        `Here's what will change:\n\n${lines.join('\n')}\n\n${fixButtons.length > 0 ? 'Make it fit, or continue anyway?' : 'Continue?'}`,
         [
           {
             text: 'Cancel',
             style: 'cancel',
           },
+          ...fixButtons,
           {
-            text: 'Reschedule',
-            onPress: () => performReschedule(endDateToUse),
+            text: fixButtons.length > 0 ? 'Reschedule Anyway' : 'Reschedule',
+            onPress: () => performReschedule(options),
           },
         ]
       );
+    } catch (error) {
+      console.error('Error previewing reschedule:', error);
+      Alert.alert('Error', 'Failed to preview the new schedule. Please try again.');
+    } finally {
+      setIsRescheduling(false);
     }
   };
 
-  const performReschedule = async (endDate: string) => {
+  const performReschedule = async (options: ReturnType<typeof buildRescheduleOptions>) => {
     if (!dreamId) return;
     
     setIsRescheduling(true);
     try {
       const { data: { session } } = await supabaseClient.auth.getSession();
       if (session?.access_token) {
-        // Format the end date for the API (convert from display format to API format)
-        const formattedEndDate = formatDateForAPI(endDate);
-        console.log('📝 [DREAM PAGE] Rescheduling with end date:', formattedEndDate);
-        
-        // Determine if we're extending or contracting the end date
-        const originalEndDate = dreamData?.end_date;
-        let options: { extendEndDate?: string; contractEndDate?: string; timeCommitment?: { hours: number; minutes: number } } | undefined = {};
+        console.log('📝 [DREAM PAGE] Rescheduling with options:', options);
         
-        if (formattedEndDate && formattedEndDate !== originalEndDate) {
-          if (new Date(formattedEndDate) > new Date(originalEndDate || '')) {
-            options.extendEndDate = formattedEndDate;
-          } else {
-            options.contractEndDate = formattedEndDate;
-          }
-        }
-        
-        // Always pass the current time commitment from the edit state
-        options.timeCommitment = editTimeCommitment;
-        
-        const result = await rescheduleActions(dreamId, session.access_token, options);
+        // Incremental: only move what has to move and keep dates the user picked by hand
+        const result = await rescheduleActions(dreamId, session.access_token, { ...options, mode: 'incremental' });
         if (result.success) {
           let extension_days = 0;
           if (options?.extendEndDate && dreamData?.end_date) {
@@ -749,12 +878,27 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
             const newEnd = new Date(options.extendEndDate);
             extension_days = Math.ceil((newEnd.getTime() - oldEnd.getTime()) / (1000 * 60 * 60 * 24));
           }
+          const overloadedDays = result.overloaded_days ?? [];
           trackEvent('dream_reschedule_completed', { 
             dream_id: dreamId,
-            extension_days: extension_days
+            extension_days: extension_days,
+            overloaded_days: overloadedDays.length,
+            changes: result.changes?.length ?? 0
           });
 
-          Alert.alert('Success', 'Rescheduled actions successfully!');
+          if (overloadedDays.length > 0) {
+            const dayList = overloadedDays
+              .slice(0, 5)
+              .map(day => `${parseLocalDate(day.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} (${day.scheduled} actions)`)
+              .join('\n');
+            const more = overloadedDays.length > 5 ? `\n…and ${overloadedDays.length - 5} more` : '';
+            Alert.alert(
+              'Rescheduled',
+              `Some days go over your daily limit because of your other dreams:\n\n${dayList}${more}`
+            );
+          } else {
+            Alert.alert('Success', 'Rescheduled actions successfully!');
+          }
           // Refresh data to show updated schedule
           await getDreamDetail(dreamId, { force: true });
           await getProgress({ force: true });
@@ -777,6 +921,90 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
     setShowCreateAreaModal(true);
   };
 
+  // "Give me more": pull the next upcoming actions into today, previewing the effect first
+  const handleGetAhead = () => {
+    Alert.alert(
+      'Get Ahead',
+      'How many upcoming actions do you want to do today? Later actions move up to keep your plan balanced.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: '1 action', onPress: () => previewPullForward(1) },
+        { text: '3 actions', onPress: () => previewPullForward(3) },
+      ]
+    );
+  };
+
+  const previewPullForward = async (count: number) => {
+    if (!dreamId || isPullingForward) return;
+
+    setIsPullingForward(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      const preview = await pullForwardActions(dreamId, session.access_token, { count, dryRun: true });
+      if (preview.pulled.length === 0) {
+        Alert.alert('Get Ahead', 'There are no upcoming actions to pull forward right now. Repeating actions, actions you moved by hand and actions still waiting on another one stay where they are.');
+        return;
+      }
+
+      const formatDay = (date: string) => parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+      const finishesEarlier = !!preview.projected_end_before && !!preview.projected_end_after && preview.projected_end_after < preview.projected_end_before;
+      const lines = [
+        `• ${preview.pulled.length} action${preview.pulled.length === 1 ? '' : 's'} will move to today`,
+        preview.shifted.length > 0 ? `• ${preview.shifted.length} later action${preview.shifted.length === 1 ? '' : 's'} will move up` : null,
+        finishesEarlier ? `• Your last action will be on ${formatDay(preview.projected_end_after!)} instead of ${formatDay(preview.projected_end_before!)}` : null,
+      ].filter(Boolean);
+
+      const canShortenEndDate = !!dreamData?.end_date && !!preview.projected_end_after && preview.projected_end_after < dreamData.end_date;
+
+      Alert.alert(
+        'Get Ahead',
+        `${lines.join('\n')}\n\nContinue?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Pull Forward', onPress: () => performPullForward(count, false) },
+          ...(canShortenEndDate
+            ? [{ text: `Pull Forward & End ${formatDay(preview.projected_end_after!)}`, onPress: () => performPullForward(count, true) }]
+            : []),
+        ]
+      );
+    } catch (error) {
+      console.error('Error previewing pull forward:', error);
+      Alert.alert('Error', 'Failed to preview pulling actions forward. Please try again.');
+    } finally {
+      setIsPullingForward(false);
+    }
+  };
+
+  const performPullForward = async (count: number, shortenEndDate: boolean) => {
+    if (!dreamId) return;
+
+    setIsPullingForward(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      const result = await pullForwardActions(dreamId, session.access_token, { count, shortenEndDate });
+      trackEvent('dream_pull_forward_completed', {
+        dream_id: dreamId,
+        pulled_count: result.pulled.length,
+        shifted_count: result.shifted.length,
+        shortened_end_date: shortenEndDate,
+      });
+
+      await getDreamDetail(dreamId, { force: true });
+      await getToday({ force: true });
+      await getProgress({ force: true });
+      Alert.alert('Get Ahead', `${result.pulled.length === 1 ? '1 action is' : `${result.pulled.length} actions are`} now on today's list.`);
+    } catch (error) {
+      console.error('Error pulling actions forward:', error);
+      Alert.alert('Error', 'Failed to pull actions forward. Please try again.');
+    } finally {
+      setIsPullingForward(false);
+    }
+  };
+
   const handleRefineAreas = () => {
     if (!dreamId) return;
     setShowOptionsPopover(false);
@@ -933,12 +1161,29 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
       title: isReordering ? 'Done Reordering' : 'Reorder Areas',
       onPress: handleToggleReorder
     },
+    ...(dreamData?.activated_at && !dreamData?.archived_at && !dreamData?.paused_at ? [{
+      id: 'get-ahead',
+      icon: 'fast-forward',
+      title: 'Get Ahead',
+      onPress: handleGetAhead
+    }] : []),
     {
       id: 'edit',
       icon: 'edit',
       title: 'Edit Dream',
       onPress: handleEditDream
     },
+    ...(dreamData?.activated_at && !dreamData?.archived_at ? [dreamData?.paused_at ? {
+      id: 'resume',
+      icon: 'play-arrow',
+      title: 'Resume Dream',
+      onPress: handleResumeDream
+    } : {
+      id: 'pause',
+      icon: 'pause',
+      title: 'Pause Dream',
+      onPress: handlePauseDream
+    }] : []),
     {
       id: 'archive',
       icon: 'archive',
@@ -1457,6 +1702,21 @@ const DreamPage: React.FC<DreamPageProps> = ({ route, navigation }) => {
                 )}
               </View>
 
+              {/* Priority */}
+              <View style={{ marginBottom: 16 }}>
+                <Text style={{ fontSize: 16, fontWeight: '600', marginBottom: 8, color: theme.colors.text.primary }}>Priority</Text>
+                <View style={{ marginHorizontal: -theme.spacing.lg }}>
+                  <SegmentedControl
+                    options={DREAM_PRIORITIES.map(option => DREAM_PRIORITY_LABELS[option])}
+                    selectedIndex={DREAM_PRIORITIES.indexOf(editPriority)}
+                    onSelect={index => setEditPriority(DREAM_PRIORITIES[index])}
+                  />
+                </View>
+                <Text style={{ fontSize: 14, color: theme.colors.text.secondary, lineHeight: 20 }}>
+                  {describePriority(editPriority)}
+                </Text>
+              </View>
+
               {/* Reschedule Actions Section */}
               {dreamData?.activated_at && editEndDate && (
                 <View style={{ marginBottom: 16 }}>
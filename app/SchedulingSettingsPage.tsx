@@ -0,0 +1,669 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, ActivityIndicator, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../contexts/ThemeContext';
+import { Theme } from '../utils/theme';
+import { useAuthContext } from '../contexts/AuthContext';
+import { ListRow } from '../components/ListRow';
+import { IconButton } from '../components/IconButton';
+import { Button } from '../components/Button';
+import { Input } from '../components/Input';
+import { trackEvent } from '../lib/mixpanel';
+import { supabaseClient } from '../lib/supabaseClient';
+import { addAwayPeriod, importBusyDays, updateBusyDay } from '../frontend-services/backend-bridge';
+import { parseClockTime, toClockTime, formatClockTime } from '../utils/timeline';
+import { toLocalDateString } from '../utils/dates';
+import { getAwayPeriods, deleteAwayPeriod, describeAwayPeriod, type AwayPeriodItem } from '../lib/awayPeriods';
+import {
+  getBusyDays,
+  deleteBusyDay,
+  describeBusyDate,
+  describeBusyCapacity,
+  BLOCKED_PERCENT,
+  HALF_DAY_PERCENT,
+  type BusyDayItem,
+} from '../lib/busyDays';
+import {
+  getSchedulingPreferences,
+  updateSchedulingPreferences,
+  DEFAULT_SCHEDULING_PREFERENCES,
+  MAX_GLOBAL_DAILY_CAP,
+  MAX_PER_DREAM_CAP,
+  type EditableSchedulingPreferences,
+} from '../lib/schedulingPreferences';
+
+// Displayed Monday-first; values are JS weekdays (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 0, label: 'Sunday' },
+];
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background.page,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: theme.colors.background.page,
+  },
+  header: {
+    backgroundColor: theme.colors.background.page,
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    paddingBottom: theme.spacing.sm,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 40, // Same width as IconButton to center the title
+  },
+  titleContainer: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.md,
+    paddingBottom: theme.spacing.sm,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: theme.colors.text.primary,
+  },
+  content: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: 40,
+  },
+  section: {
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.tertiary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  card: {
+    backgroundColor: theme.colors.background.card,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 28,
+    textAlign: 'center',
+    fontSize: 17,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
+  awayDate: {
+    fontSize: 17,
+    color: theme.colors.text.primary,
+  },
+  awayButtons: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+  },
+  note: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    textAlign: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    lineHeight: 18,
+  },
+});
+
+const SchedulingSettingsPage = ({ navigation }: { navigation: any }) => {
+  const { theme, isDark } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const { user } = useAuthContext();
+  const [loading, setLoading] = useState(true);
+  const [preferences, setPreferences] = useState<EditableSchedulingPreferences>(DEFAULT_SCHEDULING_PREFERENCES);
+  const [awayPeriods, setAwayPeriods] = useState<AwayPeriodItem[]>([]);
+  const [newAway, setNewAway] = useState<{ start: Date; end: Date } | null>(null);
+  const [pickingAwayDate, setPickingAwayDate] = useState<'start' | 'end' | null>(null);
+  const [savingAway, setSavingAway] = useState(false);
+  const [busyDays, setBusyDays] = useState<BusyDayItem[]>([]);
+  const [icsText, setIcsText] = useState<string | null>(null);
+  const [importingBusy, setImportingBusy] = useState(false);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      if (user?.id) {
+        setLoading(true);
+        const [data, periods, busy] = await Promise.all([
+          getSchedulingPreferences(user.id),
+          getAwayPeriods(user.id),
+          getBusyDays(user.id),
+        ]);
+        if (data) {
+          setPreferences(data);
+        }
+        setAwayPeriods(periods);
+        setBusyDays(busy);
+        setLoading(false);
+      }
+    };
+    loadPreferences();
+  }, [user?.id]);
+
+  const updatePreference = async (updates: Partial<EditableSchedulingPreferences>) => {
+    if (!user?.id) return;
+
+    const previousPreferences = { ...preferences };
+    setPreferences({ ...preferences, ...updates });
+
+    const success = await updateSchedulingPreferences(user.id, updates);
+
+    if (!success) {
+      // Revert on failure
+      setPreferences(previousPreferences);
+      Alert.alert('Error', 'Failed to update scheduling settings');
+    }
+  };
+
+  const toggleRestDay = (day: number, isRestDay: boolean) => {
+    const restDays = isRestDay
+      ? Array.from(new Set([...preferences.rest_days, day]))
+      : preferences.rest_days.filter(d => d !== day);
+
+    if (restDays.length >= 7) {
+      Alert.alert('Keep a working day', 'At least one day of the week needs to be available for actions.');
+      return;
+    }
+
+    trackEvent('scheduling_rest_day_changed', { day, is_rest_day: isRestDay });
+    updatePreference({ rest_days: restDays.sort((a, b) => a - b) });
+  };
+
+  const changeGlobalCap = (delta: number) => {
+    const globalCap = Math.max(1, Math.min(MAX_GLOBAL_DAILY_CAP, preferences.global_daily_cap + delta));
+    if (globalCap === preferences.global_daily_cap) return;
+
+    trackEvent('scheduling_daily_cap_changed', { global_daily_cap: globalCap });
+    // A single dream can't be allowed more actions than the whole day
+    updatePreference({
+      global_daily_cap: globalCap,
+      per_dream_cap: Math.min(preferences.per_dream_cap, globalCap),
+    });
+  };
+
+  const changePerDreamCap = (delta: number) => {
+    const maxPerDream = Math.min(MAX_PER_DREAM_CAP, preferences.global_daily_cap);
+    const perDreamCap = Math.max(1, Math.min(maxPerDream, preferences.per_dream_cap + delta));
+    if (perDreamCap === preferences.per_dream_cap) return;
+
+    trackEvent('scheduling_per_dream_cap_changed', { per_dream_cap: perDreamCap });
+    updatePreference({ per_dream_cap: perDreamCap });
+  };
+
+  const toggleAutoRollForward = (enabled: boolean) => {
+    trackEvent('scheduling_auto_roll_forward_changed', { enabled });
+    updatePreference({ auto_roll_forward: enabled });
+  };
+
+  const togglePlanningPrompt = (enabled: boolean) => {
+    const planningDay = enabled ? DEFAULT_SCHEDULING_PREFERENCES.planning_day : null;
+    trackEvent('scheduling_planning_day_changed', { planning_day: planningDay });
+    updatePreference({ planning_day: planningDay });
+  };
+
+  // Steps through the weekdays in the order they're listed (Monday first)
+  const planningDayIndex = Math.max(0, WEEKDAYS.findIndex(weekday => weekday.value === preferences.planning_day));
+
+  const changePlanningDay = (delta: number) => {
+    const index = Math.max(0, Math.min(WEEKDAYS.length - 1, planningDayIndex + delta));
+    if (index === planningDayIndex) return;
+
+    trackEvent('scheduling_planning_day_changed', { planning_day: WEEKDAYS[index].value });
+    updatePreference({ planning_day: WEEKDAYS[index].value });
+  };
+
+  // Day start moves in half hours
+  const dayStartMinutes = parseClockTime(preferences.day_start_time) ?? parseClockTime(DEFAULT_SCHEDULING_PREFERENCES.day_start_time)!;
+
+  const changeDayStart = (delta: number) => {
+    const minutes = Math.max(0, Math.min(23 * 60 + 30, dayStartMinutes + delta * 30));
+    if (minutes === dayStartMinutes) return;
+
+    trackEvent('scheduling_day_start_changed', { day_start_time: toClockTime(minutes) });
+    updatePreference({ day_start_time: toClockTime(minutes) });
+  };
+
+  const startAddingAway = () => {
+    const start = new Date();
+    start.setDate(start.getDate() + 1);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 6);
+    setNewAway({ start, end });
+  };
+
+  const handleAwayDateChange = (event: any, selectedDate?: Date) => {
+    const which = pickingAwayDate;
+    if (Platform.OS === 'android') {
+      setPickingAwayDate(null);
+    }
+    if (!newAway || !which || !selectedDate || event.type === 'dismissed') return;
+
+    // Keep the range in order when one end passes the other
+    if (which === 'start') {
+      setNewAway({ start: selectedDate, end: selectedDate > newAway.end ? selectedDate : newAway.end });
+    } else {
+      setNewAway({ start: selectedDate < newAway.start ? selectedDate : newAway.start, end: selectedDate });
+    }
+  };
+
+  const saveAwayPeriod = async () => {
+    if (!user?.id || !newAway) return;
+
+    setSavingAway(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      const result = await addAwayPeriod(toLocalDateString(newAway.start), toLocalDateString(newAway.end), session?.access_token);
+
+      const days = Math.round((newAway.end.getTime() - newAway.start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+      trackEvent('scheduling_away_period_added', { days, moved_count: result.moved.length });
+
+      setNewAway(null);
+      setPickingAwayDate(null);
+      setAwayPeriods(await getAwayPeriods(user.id));
+
+      const moved = result.moved.length === 1 ? '1 action' : `${result.moved.length} actions`;
+      Alert.alert(
+        'Enjoy your time away',
+        result.moved.length > 0
+          ? `We moved ${moved} to after you're back. Your streaks are paused while you're away.`
+          : 'Nothing will be scheduled while you\'re away, and your streaks are paused.'
+      );
+    } catch (error) {
+      console.error('Failed to add away period:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add away time');
+    } finally {
+      setSavingAway(false);
+    }
+  };
+
+  const confirmDeleteAwayPeriod = (period: AwayPeriodItem) => {
+    Alert.alert(
+      'Remove away time?',
+      `${describeAwayPeriod(period)} will be available for actions again. Actions that were moved stay where they are.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteAwayPeriod(period.id);
+            if (!success) {
+              Alert.alert('Error', 'Failed to remove away time');
+              return;
+            }
+            trackEvent('scheduling_away_period_removed');
+            setAwayPeriods(awayPeriods.filter(p => p.id !== period.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const importCalendar = async () => {
+    if (!user?.id || !icsText?.trim()) return;
+
+    setImportingBusy(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      const result = await importBusyDays(icsText, session?.access_token);
+
+      trackEvent('scheduling_busy_days_imported', {
+        days: result.days.length,
+        skipped_count: result.skipped_count,
+        skipped_recurring_count: result.skipped_recurring.length,
+        moved_count: result.moved.length,
+      });
+
+      setIcsText(null);
+      setBusyDays(await getBusyDays(user.id));
+
+      const days = result.days.length === 1 ? '1 busy day' : `${result.days.length} busy days`;
+      const moved = result.moved.length === 1 ? '1 action' : `${result.moved.length} actions`;
+      // Monthly and other complex repeats aren't expanded, so say which ones only count once
+      const skipped = result.skipped_recurring.length > 0
+        ? `\n\nOnly the first day of these repeating events was added: ${result.skipped_recurring.join(', ')}.`
+        : '';
+      Alert.alert(
+        'Calendar imported',
+        (result.days.length === 0
+          ? 'Those days were already marked busy.'
+          : result.moved.length > 0
+            ? `Added ${days}. We moved ${moved} to days with more room.`
+            : `Added ${days}. Your plan already fits around them.`) + skipped
+      );
+    } catch (error) {
+      console.error('Failed to import busy days:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to import the calendar');
+    } finally {
+      setImportingBusy(false);
+    }
+  };
+
+  const changeBusyDayCapacity = async (day: BusyDayItem, capacityPercent: number) => {
+    if (capacityPercent === day.capacity_percent) return;
+
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      const result = await updateBusyDay(day.id, capacityPercent, session?.access_token);
+
+      trackEvent('scheduling_busy_day_changed', { capacity_percent: capacityPercent, moved_count: result.moved.length });
+      setBusyDays(busyDays.map(d => d.id === day.id ? { ...d, capacity_percent: capacityPercent } : d));
+
+      if (result.moved.length > 0) {
+        const moved = result.moved.length === 1 ? '1 action' : `${result.moved.length} actions`;
+        Alert.alert('Busy day updated', `We moved ${moved} to days with more room.`);
+      }
+    } catch (error) {
+      console.error('Failed to update busy day:', error);
+      Alert.alert('Error', 'Failed to update the busy day');
+    }
+  };
+
+  const editBusyDay = (day: BusyDayItem) => {
+    Alert.alert(
+      describeBusyDate(day),
+      day.title || 'How much of this day is free for actions?',
+      [
+        { text: 'Blocked', onPress: () => changeBusyDayCapacity(day, BLOCKED_PERCENT) },
+        { text: 'Half day', onPress: () => changeBusyDayCapacity(day, HALF_DAY_PERCENT) },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await deleteBusyDay(day.id);
+            if (!success) {
+              Alert.alert('Error', 'Failed to remove the busy day');
+              return;
+            }
+            trackEvent('scheduling_busy_day_removed');
+            setBusyDays(busyDays.filter(d => d.id !== day.id));
+          },
+        },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const renderStepper = (value: number, onChange: (delta: number) => void, min: number, max: number, label?: string) => (
+    <View style={styles.stepper}>
+      <IconButton icon="remove" onPress={() => onChange(-1)} variant="ghost" size="sm" disabled={value <= min} />
+      <Text style={styles.stepperValue}>{label ?? value}</Text>
+      <IconButton icon="add" onPress={() => onChange(1)} variant="ghost" size="sm" disabled={value >= max} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={theme.colors.primary[500]} />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <IconButton
+          icon="chevron_left"
+          onPress={() => navigation.goBack()}
+          variant="secondary"
+          size="md"
+        />
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>Scheduling</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Rest Days */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Rest Days</Text>
+          <View style={styles.card}>
+            {WEEKDAYS.map((weekday, index) => (
+              <ListRow
+                key={weekday.value}
+                title={weekday.label}
+                rightElement="toggle"
+                toggleValue={preferences.rest_days.includes(weekday.value)}
+                onToggleChange={(value) => toggleRestDay(weekday.value, value)}
+                isFirst={index === 0}
+                isLast={index === WEEKDAYS.length - 1}
+              />
+            ))}
+          </View>
+        </View>
+
+        {/* Daily Caps */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Daily Limits</Text>
+          <View style={styles.card}>
+            <ListRow
+              title="Actions per day"
+              subtitle="Across all dreams"
+              rightElement={renderStepper(preferences.global_daily_cap, changeGlobalCap, 1, MAX_GLOBAL_DAILY_CAP)}
+              isFirst={true}
+            />
+            <ListRow
+              title="Actions per dream per day"
+              subtitle="May be raised when a plan is tight"
+              rightElement={renderStepper(
+                preferences.per_dream_cap,
+                changePerDreamCap,
+                1,
+                Math.min(MAX_PER_DREAM_CAP, preferences.global_daily_cap)
+              )}
+              isLast={true}
+            />
+          </View>
+        </View>
+
+        {/* Day Timeline */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Your Day</Text>
+          <View style={styles.card}>
+            <ListRow
+              title="Day starts at"
+              subtitle="Actions without a start time are laid out from here"
+              rightElement={renderStepper(dayStartMinutes, changeDayStart, 0, 23 * 60 + 30, formatClockTime(dayStartMinutes))}
+              isFirst={true}
+              isLast={true}
+            />
+          </View>
+        </View>
+
+        {/* Away */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Away</Text>
+          <View style={styles.card}>
+            {awayPeriods.map((period, index) => (
+              <ListRow
+                key={period.id}
+                title={describeAwayPeriod(period)}
+                subtitle={period.note || 'Tap to remove'}
+                rightElement={null}
+                onPress={() => confirmDeleteAwayPeriod(period)}
+                isFirst={index === 0}
+              />
+            ))}
+            {newAway ? (
+              <>
+                <ListRow
+                  title="From"
+                  rightElement={<Text style={styles.awayDate}>{newAway.start.toLocaleDateString()}</Text>}
+                  onPress={() => setPickingAwayDate('start')}
+                  isFirst={awayPeriods.length === 0}
+                />
+                <ListRow
+                  title="Until"
+                  rightElement={<Text style={styles.awayDate}>{newAway.end.toLocaleDateString()}</Text>}
+                  onPress={() => setPickingAwayDate('end')}
+                  isLast={true}
+                />
+              </>
+            ) : (
+              <ListRow
+                title="Add time away"
+                subtitle="Nothing is scheduled and streaks are paused"
+                onPress={startAddingAway}
+                isFirst={awayPeriods.length === 0}
+                isLast={true}
+              />
+            )}
+          </View>
+          {newAway && pickingAwayDate && (
+            <DateTimePicker
+              value={pickingAwayDate === 'start' ? newAway.start : newAway.end}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={handleAwayDateChange}
+              minimumDate={new Date()}
+              themeVariant={isDark ? 'dark' : 'light'}
+            />
+          )}
+          {newAway && (
+            <View style={styles.awayButtons}>
+              <Button
+                title="Cancel"
+                variant="secondary"
+                onPress={() => {
+                  setNewAway(null);
+                  setPickingAwayDate(null);
+                }}
+                style={{ flex: 1 }}
+              />
+              <Button
+                title="Save"
+                variant="black"
+                onPress={saveAwayPeriod}
+                loading={savingAway}
+                style={{ flex: 1 }}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Busy Days */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Busy Days</Text>
+          <View style={styles.card}>
+            {busyDays.map((day, index) => (
+              <ListRow
+                key={day.id}
+                title={describeBusyDate(day)}
+                subtitle={day.title ? `${describeBusyCapacity(day)} · ${day.title}` : describeBusyCapacity(day)}
+                rightElement={null}
+                onPress={() => editBusyDay(day)}
+                isFirst={index === 0}
+              />
+            ))}
+            {icsText !== null ? (
+              <Input
+                value={icsText}
+                onChangeText={setIcsText}
+                placeholder="Paste the contents of an .ics file"
+                multiline={true}
+                variant="borderless"
+                autoCapitalize="none"
+              />
+            ) : (
+              <ListRow
+                title="Import from calendar"
+                subtitle="All-day events block a day, others halve it"
+                onPress={() => setIcsText('')}
+                isFirst={busyDays.length === 0}
+                isLast={true}
+              />
+            )}
+          </View>
+          {icsText !== null && (
+            <View style={styles.awayButtons}>
+              <Button
+                title="Cancel"
+                variant="secondary"
+                onPress={() => setIcsText(null)}
+                style={{ flex: 1 }}
+              />
+              <Button
+                title="Import"
+                variant="black"
+                onPress={importCalendar}
+                loading={importingBusy}
+                disabled={!icsText.trim()}
+                style={{ flex: 1 }}
+              />
+            </View>
+          )}
+        </View>
+
+        {/* Weekly Planning */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Weekly Planning</Text>
+          <View style={styles.card}>
+            <ListRow
+              title="Plan the week ahead"
+              subtitle="Review your week and pick a focus dream"
+              rightElement="toggle"
+              toggleValue={preferences.planning_day !== null && preferences.planning_day !== undefined}
+              onToggleChange={togglePlanningPrompt}
+              isFirst={true}
+              isLast={preferences.planning_day === null || preferences.planning_day === undefined}
+            />
+            {preferences.planning_day !== null && preferences.planning_day !== undefined && (
+              <ListRow
+                title="Planning day"
+                subtitle="Today shows a reminder on this day"
+                rightElement={renderStepper(planningDayIndex, changePlanningDay, 0, WEEKDAYS.length - 1, WEEKDAYS[planningDayIndex].label.slice(0, 3))}
+                isLast={true}
+              />
+            )}
+          </View>
+        </View>
+
+        {/* Overdue */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Overdue Actions</Text>
+          <View style={styles.card}>
+            <ListRow
+              title="Move overdue actions forward"
+              subtitle="Each morning, missed actions go to the next day with room"
+              rightElement="toggle"
+              toggleValue={preferences.auto_roll_forward}
+              onToggleChange={toggleAutoRollForward}
+              isFirst={true}
+              isLast={true}
+            />
+          </View>
+        </View>
+
+        <Text style={styles.note}>
+          Changes apply the next time a dream's plan is scheduled or rescheduled.
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+export default SchedulingSettingsPage;
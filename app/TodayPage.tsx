@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ScrollView, View, Text, StyleSheet } from 'react-native';
+import { ScrollView, View, Text, StyleSheet, Alert, Platform, TouchableOpacity } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { useFocusEffect } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
 import { Theme } from '../utils/theme';
@@ -8,10 +9,18 @@ import { ActionChipsList } from '../components/ActionChipsList';
 import { ActionChipSkeleton } from '../components/SkeletonLoader';
 import { useData } from '../contexts/DataContext';
 import { useSession } from '../contexts/SessionContext';
+import { useAuthContext } from '../contexts/AuthContext';
 import { supabaseClient } from '../lib/supabaseClient';
-import { upsertActions } from '../frontend-services/backend-bridge';
-import type { TodayAction, ActionOccurrenceStatus } from '../backend/database/types';
+import { upsertActions, setOccurrenceStartTime } from '../frontend-services/backend-bridge';
+import type { TodayAction, ActionOccurrenceStatus, RecurrenceRule } from '../backend/database/types';
 import { trackEvent } from '../lib/mixpanel';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
+import { getUnseenRollForwards, markRollForwardsSeen, describeRollForwards, type RollForwardSummaryItem } from '../lib/rollForwards';
+import { getSchedulingPreferences } from '../lib/schedulingPreferences';
+import { useWeeklyPlanning } from '../hooks/useWeeklyPlanning';
+import { layoutDay, formatClockTime, toClockTime, type TimelineSlot } from '../utils/timeline';
+import { Button } from '../components/Button';
+import { Ionicons } from '@expo/vector-icons';
 
 interface ActionOccurrenceItem {
   id: string;
@@ -19,13 +28,16 @@ interface ActionOccurrenceItem {
   est_minutes: number;
   difficulty?: 'easy' | 'medium' | 'hard';
   repeat_every_days?: number;
+  recurrence?: RecurrenceRule | null;
   slice_count_target?: number;
-  acceptance_criteria?: string[];
+  acceptance_criteria?: { title: string; description: string }[];
   due_on: string;
+  planned_start_time?: string | null;
   completed_at?: string;
   is_done: boolean;
   is_overdue: boolean;
   occurrence_no?: number;
+  area_image?: string;
   dream_image?: string;
   hideEditButtons?: boolean;
 }
@@ -48,17 +60,22 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
   const [fetchingDates, setFetchingDates] = useState<Set<string>>(new Set());
   const { state, getToday, completeOccurrence, deferOccurrence, onScreenFocus } = useData();
   const { getSessionData, setSessionData } = useSession();
+  const { user } = useAuthContext();
+  const [rollForwards, setRollForwards] = useState<RollForwardSummaryItem[]>([]);
+  const [dayStartTime, setDayStartTime] = useState<string | undefined>(undefined);
+  const [editingStartTime, setEditingStartTime] = useState<{ id: string; value: Date } | null>(null);
+  const weeklyPlanning = useWeeklyPlanning(user?.id);
   
   // Initialize currentDate from session data or default to today
   const [currentDate, setCurrentDate] = useState(() => {
     const savedDate = getSessionData<string>('selectedDate');
-    return savedDate ? new Date(savedDate) : new Date();
+    return savedDate ? parseLocalDate(savedDate) : new Date();
   });
   
   // Convert ActionOccurrenceStatus to ActionOccurrenceItem format for the UI
   // Filter occurrences by the current selected date
-  const currentDateStr = currentDate.toISOString().slice(0, 10);
-  const isCurrentDate = currentDateStr === new Date().toISOString().slice(0, 10);
+  const currentDateStr = toLocalDateString(currentDate);
+  const isCurrentDate = currentDateStr === toLocalDateString();
   
   // Get the correct data source based on whether it's the current date or not
   const todayData = isCurrentDate ? state.today : state.todayByDate[currentDateStr];
@@ -94,9 +111,11 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
         est_minutes: action?.est_minutes || 30,
         difficulty: action?.difficulty,
         repeat_every_days: action?.repeat_every_days,
+        recurrence: action?.recurrence,
         slice_count_target: action?.slice_count_target,
         acceptance_criteria: normalizedCriteria,
         due_on: occurrence.due_on,
+        planned_start_time: occurrence.planned_start_time,
         completed_at: occurrence.completed_at,
         is_done: occurrence.is_done,
         is_overdue: occurrence.is_overdue,
@@ -119,6 +138,15 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
     return new Date(bCreatedAt).getTime() - new Date(aCreatedAt).getTime();
   });
 
+  // Lay the day out as a timeline: picked start times first, the rest back to back from the day start
+  const timelineSlots = layoutDay(sortedActionOccurrences, dayStartTime);
+  const slotsById = new Map<string, TimelineSlot>(timelineSlots.map(slot => [slot.id, slot]));
+  const timelineActions = timelineSlots.map(slot => sortedActionOccurrences.find(a => a.id === slot.id)!);
+  const timeLabels = Object.fromEntries(timelineSlots.map(slot => [
+    slot.id,
+    { label: formatClockTime(slot.start), fixed: slot.fixed }
+  ]));
+
   const getDayOfYear = (date: Date) => {
     const start = new Date(date.getFullYear(), 0, 0);
     const diff = date.getTime() - start.getTime();
@@ -138,9 +166,9 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
     const tomorrow = new Date(centerDate);
     tomorrow.setDate(tomorrow.getDate() + 1);
     
-    const yesterdayStr = yesterday.toISOString().slice(0, 10);
-    const tomorrowStr = tomorrow.toISOString().slice(0, 10);
-    const todayStr = new Date().toISOString().slice(0, 10);
+    const yesterdayStr = toLocalDateString(yesterday);
+    const tomorrowStr = toLocalDateString(tomorrow);
+    const todayStr = toLocalDateString();
     
     // Only prefetch if not already cached and not the current date (which is always loaded)
     const datesToPrefetch = [];
@@ -191,8 +219,8 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
     trackEvent('today_date_changed', { direction });
     const newDate = new Date(currentDate);
     newDate.setDate(newDate.getDate() + (direction === 'next' ? 1 : -1));
-    const newDateStr = newDate.toISOString().slice(0, 10);
-    const isNewDateCurrent = newDateStr === new Date().toISOString().slice(0, 10);
+    const newDateStr = toLocalDateString(newDate);
+    const isNewDateCurrent = newDateStr === toLocalDateString();
     
     setCurrentDate(newDate);
     
@@ -223,6 +251,21 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
 
   // No need for filtering since we're showing all action occurrences
 
+  const openCalendar = () => {
+    trackEvent('today_calendar_opened');
+    navigation?.navigate('Calendar');
+  };
+
+  const openWeeklyPlanning = () => {
+    trackEvent('today_weekly_planning_opened');
+    navigation?.navigate('WeeklyPlanning');
+  };
+
+  const dismissWeeklyPlanning = () => {
+    trackEvent('weekly_planning_prompt_dismissed', { week_start: weeklyPlanning.weekStart });
+    weeklyPlanning.dismiss();
+  };
+
   const handleActionPress = (actionId: string) => {
     trackEvent('today_action_pressed', { action_id: actionId });
     const actionOccurrence = actionOccurrences.find(a => a.id === actionId);
@@ -271,6 +314,96 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
     }, [currentDate, prefetchAdjacentDates]) // Only depend on currentDate - functions are stable from DataContext
   );
 
+  // Overdue actions the nightly job moved forward since the user last dismissed the summary
+  useFocusEffect(
+    React.useCallback(() => {
+      if (!user?.id) return;
+      getUnseenRollForwards(user.id).then(setRollForwards);
+    }, [user?.id])
+  );
+
+  // On the user's planning day, offer to plan the week ahead until it's done or dismissed
+  useFocusEffect(
+    React.useCallback(() => {
+      weeklyPlanning.check();
+    }, [weeklyPlanning.check])
+  );
+
+  // Where the timeline starts for actions without a start time
+  useFocusEffect(
+    React.useCallback(() => {
+      if (!user?.id) return;
+      getSchedulingPreferences(user.id).then(preferences => setDayStartTime(preferences?.day_start_time));
+    }, [user?.id])
+  );
+
+  const saveStartTime = async (occurrenceId: string, startTime: string | null) => {
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      await setOccurrenceStartTime(occurrenceId, startTime, session.access_token);
+      trackEvent('today_start_time_set', { cleared: startTime === null });
+      await getToday({ date: currentDate, force: true });
+    } catch (error) {
+      console.error('Failed to set start time:', error);
+      Alert.alert('Error', 'Failed to set the start time. Please try again.');
+    }
+  };
+
+  const openStartTimePicker = (occurrenceId: string) => {
+    const slot = slotsById.get(occurrenceId);
+    const value = new Date(currentDate);
+    value.setHours(0, slot?.start ?? 9 * 60, 0, 0);
+    setEditingStartTime({ id: occurrenceId, value });
+  };
+
+  const handleTimePress = (occurrenceId: string) => {
+    const slot = slotsById.get(occurrenceId);
+    if (!slot?.fixed) {
+      openStartTimePicker(occurrenceId);
+      return;
+    }
+
+    Alert.alert(
+      'Start Time',
+      `Planned for ${formatClockTime(slot.start)}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Any Time', onPress: () => saveStartTime(occurrenceId, null) },
+        { text: 'Change', onPress: () => openStartTimePicker(occurrenceId) },
+      ]
+    );
+  };
+
+  const handleStartTimeChange = (event: any, selectedDate?: Date) => {
+    if (!editingStartTime) return;
+
+    // Android's dialog closes itself; iOS keeps the spinner open until Save
+    if (Platform.OS === 'android') {
+      setEditingStartTime(null);
+      if (event.type === 'set' && selectedDate) {
+        saveStartTime(editingStartTime.id, toClockTime(selectedDate.getHours() * 60 + selectedDate.getMinutes()));
+      }
+    } else if (selectedDate) {
+      setEditingStartTime({ ...editingStartTime, value: selectedDate });
+    }
+  };
+
+  const confirmStartTime = () => {
+    if (!editingStartTime) return;
+    const { id, value } = editingStartTime;
+    setEditingStartTime(null);
+    saveStartTime(id, toClockTime(value.getHours() * 60 + value.getMinutes()));
+  };
+
+  const dismissRollForwards = async () => {
+    const ids = rollForwards.map(item => item.id);
+    setRollForwards([]);
+    trackEvent('roll_forward_summary_dismissed', { moved_count: ids.length });
+    await markRollForwardsSeen(ids);
+  };
+
   // Clear loading state when data arrives, but ensure it shows for at least 400ms to avoid flash
   useEffect(() => {
     if (todayData && showLoading && loadingStartTime) {
@@ -383,7 +516,7 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
       // Existing actions in the area
       const { data: areaActions } = await supabaseClient
         .from('actions')
-        .select('id, user_id, dream_id, area_id, title, est_minutes, difficulty, repeat_every_days, slice_count_target, acceptance_criteria, position, is_active')
+        .select('id, user_id, dream_id, area_id, title, est_minutes, difficulty, repeat_every_days, recurrence, slice_count_target, acceptance_criteria, position, is_active')
         .eq('area_id', areaId)
         .is('deleted_at', null)
         .order('position');
@@ -398,6 +531,7 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
         est_minutes: newAction.est_minutes,
         difficulty: newAction.difficulty || 'medium',
         repeat_every_days: newAction.repeat_every_days ?? null,
+        recurrence: newAction.recurrence ?? null,
         slice_count_target: newAction.slice_count_target ?? null,
         acceptance_criteria: newAction.acceptance_criteria || [],
         position: nextPosition,
@@ -470,6 +604,12 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
               <View style={styles.dateRow}>
                 <Text style={styles.date}>{getFormattedDate()}</Text>
                 <View style={styles.navigationButtons}>
+                  <IconButton
+                    icon="calendar"
+                    onPress={openCalendar}
+                    variant="secondary"
+                    size="md"
+                  />
                   <IconButton
                     icon="chevron_left"
                     onPress={() => navigateDate('prev')}
@@ -490,6 +630,37 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
 
         <Text style={styles.quote}>{getQuoteOfTheDay()}</Text>
 
+        {isCurrentDate && rollForwards.length > 0 && (
+          <View style={styles.rollForwardBanner}>
+            <Ionicons name="calendar-outline" size={18} color={theme.colors.text.secondary} />
+            <View style={styles.rollForwardContent}>
+              <Text style={styles.rollForwardTitle}>We rearranged your week</Text>
+              <Text style={styles.rollForwardText}>{describeRollForwards(rollForwards)}</Text>
+            </View>
+            <IconButton
+              icon="close"
+              onPress={dismissRollForwards}
+              variant="ghost"
+              size="sm"
+            />
+          </View>
+        )}
+
+        {isCurrentDate && weeklyPlanning.shouldPrompt && (
+          <TouchableOpacity style={styles.rollForwardBanner} onPress={openWeeklyPlanning} activeOpacity={0.7}>
+            <Ionicons name="list-outline" size={18} color={theme.colors.text.secondary} />
+            <View style={styles.rollForwardContent}>
+              <Text style={styles.rollForwardTitle}>Plan your week</Text>
+              <Text style={styles.rollForwardText}>Look back on last week and set up the one ahead</Text>
+            </View>
+            <IconButton
+              icon="close"
+              onPress={dismissWeeklyPlanning}
+              variant="ghost"
+              size="sm"
+            />
+          </TouchableOpacity>
+        )}
 
         <View style={styles.actionsContainer}>
           {isLoading ? (
@@ -502,8 +673,38 @@ const TodayPage = ({ navigation, scrollRef }: { navigation?: any; scrollRef?: Re
             </View>
           ) : (
             <>
+              {editingStartTime && Platform.OS !== 'web' && (
+                Platform.OS === 'ios' ? (
+                  <View style={styles.startTimePanel}>
+                    <Text style={styles.startTimeTitle}>Start time</Text>
+                    <DateTimePicker
+                      value={editingStartTime.value}
+                      mode="time"
+                      display="spinner"
+                      minuteInterval={5}
+                      onChange={handleStartTimeChange}
+                      style={{ width: '100%', height: 150 }}
+                      themeVariant={isDark ? 'dark' : 'light'}
+                    />
+                    <View style={styles.startTimeButtons}>
+                      <Button title="Cancel" variant="secondary" onPress={() => setEditingStartTime(null)} style={{ flex: 1 }} />
+                      <Button title="Save" variant="black" onPress={confirmStartTime} style={{ flex: 1 }} />
+                    </View>
+                  </View>
+                ) : (
+                  <DateTimePicker
+                    value={editingStartTime.value}
+                    mode="time"
+                    display="default"
+                    onChange={handleStartTimeChange}
+                  />
+                )
+              )}
+
               <ActionChipsList
-                actions={sortedActionOccurrences as any}
+                actions={timelineActions}
+                timeLabels={timeLabels}
+                onTimePress={handleTimePress}
                 onEdit={() => {}} // No-op since we hide edit buttons
                 onRemove={() => {}} // No-op since we hide remove buttons
                 onAdd={handleQuickAdd}
@@ -573,9 +774,46 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     lineHeight: 22,
     marginBottom: theme.spacing.lg,
   },
+  rollForwardBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+  },
+  rollForwardContent: {
+    flex: 1,
+  },
+  rollForwardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginBottom: 2,
+  },
+  rollForwardText: {
+    fontSize: 14,
+    color: theme.colors.text.secondary,
+  },
   actionsContainer: {
     flex: 1,
   },
+  startTimePanel: {
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.lg,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+  },
+  startTimeTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
+  startTimeButtons: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
   skeletonContainer: {
     flex: 1,
   },
@@ -0,0 +1,576 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { Theme } from '../utils/theme';
+import { useData } from '../contexts/DataContext';
+import { IconButton } from '../components/IconButton';
+import { Button } from '../components/Button';
+import { trackEvent } from '../lib/mixpanel';
+import { supabaseClient } from '../lib/supabaseClient';
+import { getWeeklyPlan, saveWeeklyPlan, type WeeklyPlanProposal } from '../frontend-services/backend-bridge';
+import { markWeekPlanned } from '../hooks/useWeeklyPlanning';
+import { parseLocalDate } from '../utils/dates';
+import { dreamColor } from '../utils/calendar';
+
+// What the user decided for one occurrence; occurrences without a decision stay as they are
+type Decision = { type: 'keep' } | { type: 'move'; due_on: string } | { type: 'drop' };
+
+const formatDay = (date: string, weekday: 'short' | 'long' = 'short') =>
+  parseLocalDate(date).toLocaleDateString('en-US', { weekday, month: 'short', day: 'numeric' });
+
+const WeeklyPlanningPage = ({ navigation }: { navigation: any }) => {
+  const { theme, isDark } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme, isDark]);
+  const { state, getProgress, getDreamsSummary, refresh } = useData();
+  const [proposal, setProposal] = useState<WeeklyPlanProposal | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [focusDreamId, setFocusDreamId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadProposal = useCallback(async () => {
+    setLoadError(false);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      const result = await getWeeklyPlan(session.access_token);
+      setProposal(result);
+      setDecisions({});
+      setFocusDreamId(result.plan?.focus_dream_id ?? null);
+      trackEvent('weekly_planning_viewed', { week_start: result.week_start, occurrence_count: result.occurrences.length });
+    } catch (error) {
+      console.error('Failed to load the week ahead:', error);
+      setLoadError(true);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadProposal();
+      getProgress();
+      getDreamsSummary();
+    }, [loadProposal])
+  );
+
+  const lastWeek = state.progress?.lastSevenDaysStats;
+  const focusDreams = (state.dreamsSummary?.dreams || []).filter(dream => !dream.archived_at && !dream.paused_at);
+
+  // Load per day once the decisions so far are applied
+  const days = useMemo(() => {
+    if (!proposal) return [];
+    const totals = new Map(proposal.days.map(day => [day.date, day.total]));
+    for (const occurrence of proposal.occurrences) {
+      const decision = decisions[occurrence.id];
+      if (!decision || decision.type === 'keep') continue;
+      totals.set(occurrence.due_on, (totals.get(occurrence.due_on) || 0) - 1);
+      if (decision.type === 'move') totals.set(decision.due_on, (totals.get(decision.due_on) || 0) + 1);
+    }
+    return proposal.days.map(day => ({ ...day, total: totals.get(day.date) || 0 }));
+  }, [proposal, decisions]);
+
+  const decide = (occurrenceId: string, decision: Decision | null) => {
+    setMovingId(null);
+    setDecisions(prev => {
+      const next = { ...prev };
+      if (decision) next[occurrenceId] = decision;
+      else delete next[occurrenceId];
+      return next;
+    });
+  };
+
+  const keepAll = () => {
+    if (!proposal) return;
+    trackEvent('weekly_planning_keep_all', { occurrence_count: proposal.occurrences.length });
+    setMovingId(null);
+    setDecisions(Object.fromEntries(proposal.occurrences.map(occurrence => [occurrence.id, { type: 'keep' } as Decision])));
+  };
+
+  const toggleFocus = (dreamId: string) => {
+    const next = focusDreamId === dreamId ? null : dreamId;
+    trackEvent('weekly_planning_focus_changed', { dream_id: next });
+    setFocusDreamId(next);
+  };
+
+  const handleSave = async () => {
+    if (!proposal) return;
+
+    const entries = Object.entries(decisions);
+    const plan = {
+      week_start: proposal.week_start,
+      focus_dream_id: focusDreamId,
+      keep: entries.filter(([, decision]) => decision.type === 'keep').map(([id]) => id),
+      move: entries.flatMap(([id, decision]) => decision.type === 'move' ? [{ occurrence_id: id, due_on: decision.due_on }] : []),
+      drop: entries.filter(([, decision]) => decision.type === 'drop').map(([id]) => id),
+    };
+
+    setSaving(true);
+    try {
+      const { data: { session } } = await supabaseClient.auth.getSession();
+      if (!session?.access_token) return;
+
+      const result = await saveWeeklyPlan(plan, session.access_token);
+      trackEvent('weekly_plan_saved', {
+        week_start: plan.week_start,
+        kept_count: plan.keep.length,
+        moved_count: plan.move.length,
+        dropped_count: result.dropped.length,
+        has_focus: !!plan.focus_dream_id,
+        warning_count: result.warnings.length,
+      });
+      await markWeekPlanned(plan.week_start);
+      refresh(true);
+
+      if (result.errors.length > 0) {
+        Alert.alert("Some changes didn't go through", result.errors.join('\n'));
+      } else if (result.warnings.length > 0) {
+        Alert.alert('Busy days ahead', result.warnings.join('\n'));
+      }
+      navigation.goBack();
+    } catch (error) {
+      console.error('Failed to save weekly plan:', error);
+      Alert.alert('Error', 'Failed to save your plan. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderDecisionButton = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.decisionButton, active && styles.decisionButtonActive]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.decisionText, active && styles.decisionTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderOccurrence = (occurrence: WeeklyPlanProposal['occurrences'][number], index: number) => {
+    const decision = decisions[occurrence.id];
+    const moveTargets = days.filter(day => !day.day_off && day.date !== occurrence.due_on);
+    return (
+      <View key={occurrence.id} style={[styles.occurrenceRow, index > 0 && styles.occurrenceDivider]}>
+        <View style={styles.occurrenceMain}>
+          <View style={[styles.dreamBar, { backgroundColor: dreamColor(occurrence.dream_id, theme) }]} />
+          <View style={styles.occurrenceContent}>
+            <Text style={[styles.occurrenceTitle, decision?.type === 'drop' && styles.occurrenceDropped]} numberOfLines={1}>
+              {occurrence.action_title}
+            </Text>
+            <Text style={styles.occurrenceSubtitle} numberOfLines={1}>
+              {decision?.type === 'move'
+                ? `${formatDay(occurrence.due_on)} → ${formatDay(decision.due_on)}`
+                : decision?.type === 'drop'
+                  ? 'Moves to a later week'
+                  : `${formatDay(occurrence.due_on)} · ${occurrence.dream_title}`}
+            </Text>
+          </View>
+        </View>
+        <View style={styles.decisionRow}>
+          {renderDecisionButton('Keep', decision?.type === 'keep', () =>
+            decide(occurrence.id, decision?.type === 'keep' ? null : { type: 'keep' }))}
+          {renderDecisionButton('Move', decision?.type === 'move' || movingId === occurrence.id, () =>
+            setMovingId(movingId === occurrence.id ? null : occurrence.id))}
+          {renderDecisionButton('Drop', decision?.type === 'drop', () =>
+            decide(occurrence.id, decision?.type === 'drop' ? null : { type: 'drop' }))}
+        </View>
+        {movingId === occurrence.id && (
+          <View style={styles.moveTargets}>
+            {moveTargets.length === 0 ? (
+              <Text style={styles.hint}>No other days are available this week</Text>
+            ) : moveTargets.map(day => (
+              <TouchableOpacity
+                key={day.date}
+                style={[styles.dayChip, day.total >= day.cap && styles.dayChipFull]}
+                onPress={() => decide(occurrence.id, { type: 'move', due_on: day.date })}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.dayChipText}>{formatDay(day.date)}</Text>
+                <Text style={styles.dayChipLoad}>{day.total}/{day.cap}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <IconButton
+          icon="chevron_left"
+          onPress={() => navigation.goBack()}
+          variant="secondary"
+          size="md"
+        />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <Text style={styles.title}>Plan your week</Text>
+        {proposal && (
+          <Text style={styles.subtitle}>Week of {formatDay(proposal.week_start, 'long')}</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Last 7 days</Text>
+        <View style={styles.statsRow}>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{lastWeek?.actionsComplete ?? '–'}</Text>
+            <Text style={styles.statLabel}>Actions done</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={styles.statValue}>{lastWeek ? `${lastWeek.activeDays}/7` : '–'}</Text>
+            <Text style={styles.statLabel}>Active days</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Text style={[styles.statValue, !!lastWeek?.actionsOverdue && styles.statOverdue]}>{lastWeek?.actionsOverdue ?? '–'}</Text>
+            <Text style={styles.statLabel}>Overdue</Text>
+          </View>
+        </View>
+
+        {loadError ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyStateText}>Couldn't load the week ahead</Text>
+            <Button title="Try again" variant="secondary" size="sm" onPress={loadProposal} style={{ marginTop: theme.spacing.sm }} />
+          </View>
+        ) : !proposal ? (
+          <ActivityIndicator style={styles.loading} color={theme.colors.primary[500]} />
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>The week ahead</Text>
+            <View style={styles.loadRow}>
+              {days.map(day => (
+                <View key={day.date} style={[styles.loadDay, day.day_off && styles.loadDayOff]}>
+                  <Text style={styles.loadWeekday}>{parseLocalDate(day.date).toLocaleDateString('en-US', { weekday: 'narrow' })}</Text>
+                  {day.day_off ? (
+                    <Text style={styles.loadOff}>Off</Text>
+                  ) : (
+                    <Text style={[styles.loadCount, day.total > day.cap && styles.loadOver]}>{day.total}/{day.cap}</Text>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Actions</Text>
+              {proposal.occurrences.length > 0 && (
+                <TouchableOpacity onPress={keepAll} activeOpacity={0.7}>
+                  <Text style={styles.link}>Keep all</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {proposal.occurrences.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyStateText}>Nothing is scheduled for this week yet</Text>
+              </View>
+            ) : (
+              <>
+                <Text style={styles.hint}>Kept and moved actions stay on their day. Dropped ones go to the next week with room.</Text>
+                <View style={styles.card}>
+                  {proposal.occurrences.map(renderOccurrence)}
+                </View>
+              </>
+            )}
+
+            {focusDreams.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Focus dream</Text>
+                <Text style={styles.hint}>Your focus dream gets an extra action a day this week</Text>
+                <View style={styles.focusChips}>
+                  {focusDreams.map(dream => (
+                    <TouchableOpacity
+                      key={dream.id}
+                      style={[styles.focusChip, focusDreamId === dream.id && styles.focusChipSelected]}
+                      onPress={() => toggleFocus(dream.id)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={[styles.dot, { backgroundColor: dreamColor(dream.id, theme) }]} />
+                      <Text style={[styles.focusChipText, focusDreamId === dream.id && styles.focusChipTextSelected]} numberOfLines={1}>
+                        {dream.title}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Button
+              title="Save plan"
+              variant="black"
+              onPress={handleSave}
+              loading={saving}
+              disabled={saving}
+              style={{ marginTop: theme.spacing.lg }}
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background.page,
+  },
+  header: {
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    paddingBottom: theme.spacing.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  content: {
+    paddingHorizontal: theme.spacing.md,
+    paddingBottom: 100, // Extra padding for bottom navigation
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.sm,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.text.tertiary,
+    textTransform: 'uppercase',
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  sectionSpacing: {
+    marginTop: theme.spacing.xl,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary[600],
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.xs,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    marginBottom: theme.spacing.sm,
+    marginLeft: theme.spacing.xs,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  statCard: {
+    flex: 1,
+    padding: theme.spacing.md,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: theme.colors.text.primary,
+  },
+  statOverdue: {
+    color: theme.colors.status.overdue,
+  },
+  statLabel: {
+    fontSize: 13,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  loading: {
+    paddingVertical: theme.spacing.xl,
+  },
+  loadRow: {
+    flexDirection: 'row',
+    padding: theme.spacing.xs,
+    borderRadius: theme.radius.lg,
+    backgroundColor: theme.colors.background.card,
+  },
+  loadDay: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    margin: 1,
+    borderRadius: 8,
+  },
+  loadDayOff: {
+    backgroundColor: theme.colors.background.hover,
+  },
+  loadWeekday: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.text.tertiary,
+  },
+  loadCount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginTop: 4,
+  },
+  loadOver: {
+    color: theme.colors.status.overdue,
+  },
+  loadOff: {
+    fontSize: 12,
+    color: theme.colors.text.tertiary,
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: theme.colors.background.card,
+    borderRadius: theme.radius.lg,
+    overflow: 'hidden',
+  },
+  occurrenceRow: {
+    paddingVertical: theme.spacing.sm,
+    paddingRight: theme.spacing.md,
+  },
+  occurrenceDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: theme.colors.border.default,
+  },
+  occurrenceMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  dreamBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderTopRightRadius: 2,
+    borderBottomRightRadius: 2,
+  },
+  occurrenceContent: {
+    flex: 1,
+  },
+  occurrenceTitle: {
+    fontSize: 16,
+    color: theme.colors.text.primary,
+  },
+  occurrenceDropped: {
+    color: theme.colors.text.tertiary,
+    textDecorationLine: 'line-through',
+  },
+  occurrenceSubtitle: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    marginTop: 2,
+  },
+  decisionRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+    marginLeft: theme.spacing.md,
+  },
+  decisionButton: {
+    paddingVertical: 4,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border.default,
+  },
+  decisionButtonActive: {
+    borderColor: theme.colors.primary[600],
+    backgroundColor: theme.colors.primary[50],
+  },
+  decisionText: {
+    fontSize: 13,
+    color: theme.colors.text.secondary,
+  },
+  decisionTextActive: {
+    fontWeight: '600',
+    color: theme.colors.primary[600],
+  },
+  moveTargets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+    marginLeft: theme.spacing.md,
+  },
+  dayChip: {
+    paddingVertical: 4,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radius.md,
+    backgroundColor: theme.colors.background.hover,
+    alignItems: 'center',
+  },
+  dayChipFull: {
+    borderWidth: 1,
+    borderColor: theme.colors.status.overdue,
+  },
+  dayChipText: {
+    fontSize: 13,
+    color: theme.colors.text.primary,
+  },
+  dayChipLoad: {
+    fontSize: 11,
+    color: theme.colors.text.tertiary,
+  },
+  focusChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  focusChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: '100%',
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.border.default,
+    backgroundColor: theme.colors.background.card,
+  },
+  focusChipSelected: {
+    borderColor: theme.colors.primary[600],
+    backgroundColor: theme.colors.primary[50],
+  },
+  focusChipText: {
+    fontSize: 14,
+    color: theme.colors.text.primary,
+  },
+  focusChipTextSelected: {
+    fontWeight: '600',
+    color: theme.colors.primary[600],
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  emptyState: {
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.background.card,
+    borderRadius: theme.radius.lg,
+    borderWidth: 2,
+    borderColor: theme.colors.border.default,
+    borderStyle: 'dashed',
+  },
+  emptyStateText: {
+    fontFamily: theme.typography.fontFamily.system,
+    fontSize: theme.typography.fontSize.callout,
+    color: theme.colors.text.tertiary,
+    textAlign: 'center',
+  },
+});
+
+export default WeeklyPlanningPage;
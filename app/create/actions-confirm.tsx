@@ -160,6 +160,13 @@ export default function ActionsConfirmStep() {
         paddingBottom: BOTTOM_NAV_PADDING,
         backgroundColor: theme.colors.background.page
       }}>
+        <Button 
+          title="Preview Schedule" 
+          variant="secondary"
+          disabled={isActivating}
+          onPress={() => navigation.navigate('PlanPreview')}
+          style={{ borderRadius: theme.radius.xl, marginBottom: 12 }}
+        />
         <Button 
           title="View Dream" 
           variant="black"
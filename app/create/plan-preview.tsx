@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react'
+import { View, Text, ScrollView, ActivityIndicator } from 'react-native'
+import { useNavigation } from '@react-navigation/native'
+import { useCreateDream } from '../../contexts/CreateDreamContext'
+import { Button } from '../../components/Button'
+import { previewSchedule, type SchedulePreview } from '../../frontend-services/backend-bridge'
+import { supabaseClient } from '../../lib/supabaseClient'
+import { useTheme } from '../../contexts/ThemeContext'
+import { BOTTOM_NAV_PADDING } from '../../utils/bottomNavigation'
+import { parseLocalDate } from '../../utils/dates'
+
+const formatDay = (date: string) =>
+  parseLocalDate(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+
+export default function PlanPreviewStep() {
+  const { theme } = useTheme()
+  const navigation = useNavigation<any>()
+  const { dreamId } = useCreateDream()
+  const [preview, setPreview] = useState<SchedulePreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      if (!dreamId) {
+        setError('No dream ID found')
+        return
+      }
+
+      try {
+        const { data: { session } } = await supabaseClient.auth.getSession()
+        if (!session?.access_token) {
+          throw new Error('No authentication token available')
+        }
+
+        // Dry run only - nothing is scheduled until the dream is activated
+        const result = await previewSchedule(dreamId, session.access_token, { mode: 'schedule' })
+        setPreview(result)
+      } catch (err) {
+        console.error('Failed to preview schedule:', err)
+        setError('We couldn\'t preview your schedule. You can still go back and start your dream.')
+      }
+    }
+
+    loadPreview()
+  }, [dreamId])
+
+  // Group the proposed occurrences by day, alongside that day's load
+  const titlesByDay = new Map<string, string[]>()
+  for (const occurrence of preview?.proposed ?? []) {
+    const titles = titlesByDay.get(occurrence.due_on) ?? []
+    titles.push(occurrence.action_title)
+    titlesByDay.set(occurrence.due_on, titles)
+  }
+
+  const overloadedCount = preview?.overloaded_days?.length ?? 0
+  const unplacedTitles = (preview?.diagnostics?.unplaced_actions ?? []).map(action => action.title)
+
+  return (
+    <View style={{ flex: 1, backgroundColor: theme.colors.background.page }}>
+      <ScrollView
+        contentContainerStyle={{
+          flexGrow: 1,
+          paddingHorizontal: 16,
+          paddingTop: 16,
+          paddingBottom: BOTTOM_NAV_PADDING + 80
+        }}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={{
+          fontSize: 24,
+          fontWeight: 'bold',
+          color: theme.colors.text.primary,
+          marginBottom: 8,
+          textAlign: 'center'
+        }}>
+          Your Schedule
+        </Text>
+
+        {!preview && !error && (
+          <ActivityIndicator size="large" color={theme.colors.text.primary} style={{ marginTop: 32 }} />
+        )}
+
+        {error && (
+          <Text style={{ fontSize: 16, color: theme.colors.text.secondary, textAlign: 'center', marginTop: 16 }}>
+            {error}
+          </Text>
+        )}
+
+        {preview && (
+          <>
+            <Text style={{
+              fontSize: 16,
+              color: theme.colors.text.primary,
+              textAlign: 'center',
+              lineHeight: 22,
+              marginBottom: 16
+            }}>
+              {preview.proposed.length} actions spread over {preview.daily_load.length} days
+            </Text>
+
+            {(preview.too_tight || overloadedCount > 0) && (
+              <View style={{
+                backgroundColor: theme.colors.statusBackground.overdue,
+                borderRadius: theme.radius.lg,
+                padding: 12,
+                marginBottom: 16
+              }}>
+                {preview.too_tight && (
+                  <Text style={{ fontSize: 14, color: theme.colors.text.primary, lineHeight: 20 }}>
+                    Your timeline is tight for this plan.
+                    {preview.recommended_end ? ` Consider ending on ${formatDay(preview.recommended_end)}.` : ''}
+                  </Text>
+                )}
+                {unplacedTitles.length > 0 && (
+                  <Text style={{ fontSize: 14, color: theme.colors.text.primary, lineHeight: 20 }}>
+                    Won't fit before your end date: {unplacedTitles.join(', ')}. Go back to Timeline to make it fit.
+                  </Text>
+                )}
+                {overloadedCount > 0 && (
+                  <Text style={{ fontSize: 14, color: theme.colors.text.primary, lineHeight: 20 }}>
+                    {overloadedCount} day{overloadedCount === 1 ? '' : 's'} go over your daily limit because of your other dreams.
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {preview.daily_load.map(day => (
+              <View
+                key={day.date}
+                style={{
+                  backgroundColor: theme.colors.background.card,
+                  borderRadius: theme.radius.lg,
+                  padding: 12,
+                  marginBottom: 8
+                }}
+              >
+                <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 }}>
+                  <Text style={{ fontSize: 15, fontWeight: '600', color: theme.colors.text.primary }}>
+                    {formatDay(day.date)}
+                  </Text>
+                  <Text style={{
+                    fontSize: 13,
+                    color: day.total > day.cap ? theme.colors.status.overdue : theme.colors.text.tertiary
+                  }}>
+                    {day.total} of {day.cap} slots{day.other_dreams > 0 ? ` (${day.other_dreams} from other dreams)` : ''}
+                  </Text>
+                </View>
+                {(titlesByDay.get(day.date) ?? []).map((title, index) => (
+                  <Text key={`${day.date}-${index}`} style={{ fontSize: 14, color: theme.colors.text.secondary, lineHeight: 20 }}>
+                    • {title}
+                  </Text>
+                ))}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+
+      {/* Sticky bottom button */}
+      <View style={{
+        position: 'absolute',
+        bottom: 0,
+        left: 0,
+        right: 0,
+        padding: 16,
+        paddingBottom: BOTTOM_NAV_PADDING,
+        backgroundColor: theme.colors.background.page
+      }}>
+        <Button
+          title="Looks Good"
+          variant="black"
+          onPress={() => navigation.goBack()}
+          style={{ borderRadius: theme.radius.xl }}
+        />
+      </View>
+    </View>
+  )
+}
@@ -4,9 +4,11 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native'
 import DateTimePicker from '@react-native-community/datetimepicker'
 import { useCreateDream } from '../../contexts/CreateDreamContext'
 import { Button } from '../../components/Button'
+import { SegmentedControl } from '../../components/SegmentedControl'
 import { useTheme } from '../../contexts/ThemeContext'
 import { Theme } from '../../utils/theme'
 import { BOTTOM_NAV_PADDING } from '../../utils/bottomNavigation'
+import { DREAM_PRIORITIES, DREAM_PRIORITY_LABELS, describePriority } from '../../utils/dreamPriority'
 
 export default function TimeCommitmentStep() {
   const { theme, isDark } = useTheme()
@@ -14,6 +16,7 @@ export default function TimeCommitmentStep() {
   const navigation = useNavigation<any>()
   const { 
     timeCommitment, 
+    priority = 'normal',
     setField 
   } = useCreateDream()
   
@@ -126,6 +129,16 @@ export default function TimeCommitmentStep() {
         <Text style={styles.helpText}>
           This helps us create a realistic action plan that fits your schedule.
         </Text>
+
+        <Text style={styles.sectionTitle}>How important is this dream?</Text>
+        <SegmentedControl
+          options={DREAM_PRIORITIES.map(option => DREAM_PRIORITY_LABELS[option])}
+          selectedIndex={DREAM_PRIORITIES.indexOf(priority)}
+          onSelect={index => setField('priority', DREAM_PRIORITIES[index])}
+        />
+        <Text style={styles.helpText}>
+          {describePriority(priority)}
+        </Text>
       </ScrollView>
       
       {/* Footer with button */}
@@ -177,6 +190,12 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   timePicker: {
     height: 200,
   },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    textAlign: 'center',
+  },
   helpText: {
     fontSize: 14,
     color: theme.colors.text.secondary,
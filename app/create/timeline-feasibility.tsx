@@ -4,10 +4,11 @@ import { useNavigation, useFocusEffect } from '@react-navigation/native'
 import DateTimePicker from '@react-native-community/datetimepicker'
 import { useCreateDream } from '../../contexts/CreateDreamContext'
 import { Button } from '../../components/Button'
-import { runTimelineFeasibility, upsertDream } from '../../frontend-services/backend-bridge'
+import { runTimelineFeasibility, upsertDream, previewSchedule, type SchedulingDiagnostics, type SchedulingFix } from '../../frontend-services/backend-bridge'
 import { supabaseClient } from '../../lib/supabaseClient'
 import { useTheme } from '../../contexts/ThemeContext'
 import { Theme } from '../../utils/theme'
+import { toLocalDateString, parseLocalDate } from '../../utils/dates'
 
 export default function TimelineFeasibilityStep() {
   const { theme, isDark } = useTheme()
@@ -23,10 +24,12 @@ export default function TimelineFeasibilityStep() {
     obstacles, 
     enjoyment, 
     timeCommitment,
+    priority,
     timelineFeasibility,
     timelineFeasibilityAnalyzed,
     originalEndDateForFeasibility,
     originalTimeCommitmentForFeasibility,
+    actions,
     setField,
     setTimelineFeasibilityAnalyzed
   } = useCreateDream()
@@ -67,6 +70,7 @@ export default function TimelineFeasibilityStep() {
   const [selectedDays, setSelectedDays] = useState<number>(90)
   const [daysInputText, setDaysInputText] = useState<string>('90')
   const [isUpdatingFromDays, setIsUpdatingFromDays] = useState(false)
+  const [diagnostics, setDiagnostics] = useState<SchedulingDiagnostics | undefined>(undefined)
   const daysInputRef = useRef<TextInput>(null)
 
   const formatDate = (dateString: string) => {
@@ -116,7 +120,7 @@ export default function TimelineFeasibilityStep() {
         if (start_date) {
           setCurrentStartDate(start_date)
         } else {
-          const today = new Date().toISOString().split('T')[0]
+          const today = toLocalDateString()
           setCurrentStartDate(today)
         }
 
@@ -160,7 +164,7 @@ export default function TimelineFeasibilityStep() {
         setCurrentStartDate(startDate)
       } else {
         // Default to today if no start date
-        const today = new Date().toISOString().split('T')[0]
+        const today = toLocalDateString()
         startDate = today
         setCurrentStartDate(today)
         setField('start_date', today)
@@ -266,7 +270,7 @@ export default function TimelineFeasibilityStep() {
           setTimelineFeasibilityAnalyzed(true)
           
           // Fallback to default values if AI fails
-          const defaultEndDate = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0] // 90 days from now
+          const defaultEndDate = toLocalDateString(new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)) // 90 days from now
           const formattedDefaultDate = formatDate(defaultEndDate)
           const fallbackAssessment = createConciseAssessment(
             timeCommitment,
@@ -300,7 +304,7 @@ export default function TimelineFeasibilityStep() {
 
   const getStartDateValue = (): Date => {
     if (currentStartDate) {
-      const date = new Date(currentStartDate)
+      const date = parseLocalDate(currentStartDate)
       date.setHours(0, 0, 0, 0)
       return date
     }
@@ -311,7 +315,7 @@ export default function TimelineFeasibilityStep() {
 
   const getEndDateValue = (): Date => {
     if (currentEndDate) {
-      const date = new Date(currentEndDate)
+      const date = parseLocalDate(currentEndDate)
       date.setHours(0, 0, 0, 0)
       return date
     }
@@ -335,14 +339,14 @@ export default function TimelineFeasibilityStep() {
         return
       }
       
-      const dateString = selectedDate.toISOString().split('T')[0]
+      const dateString = toLocalDateString(selectedDate)
       setCurrentStartDate(dateString)
       setField('start_date', dateString)
       
-      if (currentEndDate && selectedDate >= new Date(currentEndDate)) {
+      if (currentEndDate && selectedDate >= parseLocalDate(currentEndDate)) {
         const newEndDate = new Date(selectedDate)
         newEndDate.setDate(newEndDate.getDate() + 1)
-        const newEndDateString = newEndDate.toISOString().split('T')[0]
+        const newEndDateString = toLocalDateString(newEndDate)
         setCurrentEndDate(newEndDateString)
         setField('end_date', newEndDateString)
         if (!isUpdatingFromDays) {
@@ -364,9 +368,9 @@ export default function TimelineFeasibilityStep() {
     }
 
     if (event.type === 'set' && selectedDate) {
-      const dateString = selectedDate.toISOString().split('T')[0]
+      const dateString = toLocalDateString(selectedDate)
       
-      if (currentStartDate && selectedDate <= new Date(currentStartDate)) {
+      if (currentStartDate && selectedDate <= parseLocalDate(currentStartDate)) {
         return
       }
       
@@ -401,10 +405,10 @@ export default function TimelineFeasibilityStep() {
     setDaysInputText(days.toString())
     
     // Calculate new end date = start date + (days - 1) to make it inclusive
-    const startDate = new Date(currentStartDate)
+    const startDate = parseLocalDate(currentStartDate)
     const newEndDate = new Date(startDate)
     newEndDate.setDate(newEndDate.getDate() + days - 1)
-    const newEndDateString = newEndDate.toISOString().split('T')[0]
+    const newEndDateString = toLocalDateString(newEndDate)
     
     setCurrentEndDate(newEndDateString)
     setField('end_date', newEndDateString)
@@ -437,6 +441,55 @@ export default function TimelineFeasibilityStep() {
     }
   }, [currentStartDate, currentEndDate, isUpdatingFromDays])
 
+  // Coming back to this step once actions exist: dry-run the schedule with the chosen dates so we
+  // can say whether the plan fits, and offer the smallest change that would make it fit
+  useEffect(() => {
+    if (!dreamId || actions.length === 0 || !currentEndDate || isLoading) {
+      setDiagnostics(undefined)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const { data: { session } } = await supabaseClient.auth.getSession()
+        if (!session?.access_token) return
+
+        const result = await previewSchedule(dreamId, session.access_token, {
+          mode: 'schedule',
+          extendEndDate: currentEndDate,
+          timeCommitment: timeCommitment
+        })
+        if (!cancelled) setDiagnostics(result.diagnostics)
+      } catch (error) {
+        console.error('Failed to check the plan fits:', error)
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [dreamId, actions.length, currentEndDate, timeCommitment, isLoading])
+
+  const applyFix = (fix: SchedulingFix) => {
+    if (fix.type === 'extend_end_date' && fix.end_date) {
+      setCurrentEndDate(fix.end_date)
+      setField('end_date', fix.end_date)
+    } else if (fix.type === 'increase_time_commitment' && fix.time_commitment) {
+      // The timeline analysis is about the goal, not this plan - keep it instead of re-running it
+      setField('timeCommitment', fix.time_commitment)
+      setField('originalTimeCommitmentForFeasibility', fix.time_commitment)
+    }
+  }
+
+  const describeFix = (fix: SchedulingFix) => {
+    if (fix.type === 'extend_end_date' && fix.end_date) {
+      return `End on ${formatDate(fix.end_date)} (+${fix.extra_days} ${fix.extra_days === 1 ? 'day' : 'days'})`
+    }
+    return `Spend ${formatTimeCommitment(fix.time_commitment)} a day`
+  }
+
   const handleContinue = async () => {
     // Use current date values
     const updatedStartDate = currentStartDate
@@ -459,7 +512,9 @@ export default function TimelineFeasibilityStep() {
             image_url,
             baseline,
             obstacles,
-            enjoyment
+            enjoyment,
+            time_commitment: timeCommitment,
+            priority: priority || 'normal'
           }, session.access_token)
         }
       } catch (error) {
@@ -630,7 +685,7 @@ export default function TimelineFeasibilityStep() {
                     mode="date"
                     display="compact"
                     onChange={handleEndDateChange}
-                    minimumDate={currentStartDate ? new Date(currentStartDate) : new Date()}
+                    minimumDate={currentStartDate ? parseLocalDate(currentStartDate) : new Date()}
                     style={styles.datePickerCompact}
                     themeVariant={isDark ? 'dark' : 'light'}
                   />
@@ -649,7 +704,7 @@ export default function TimelineFeasibilityStep() {
                         mode="date"
                         display="default"
                         onChange={handleEndDateChange}
-                        minimumDate={currentStartDate ? new Date(currentStartDate) : new Date()}
+                        minimumDate={currentStartDate ? parseLocalDate(currentStartDate) : new Date()}
                         themeVariant={isDark ? 'dark' : 'light'}
                       />
                     )}
@@ -659,6 +714,33 @@ export default function TimelineFeasibilityStep() {
             </View>
           </View>
         </View>
+
+        {/* Plan Fit Section - only once the dream has actions */}
+        {diagnostics && (
+          <View style={styles.fitCard}>
+            <Text style={styles.fitTitle}>Your plan doesn't fit these dates</Text>
+            {diagnostics.unplaced_actions.length > 0 && (
+              <Text style={styles.fitText}>
+                Won't fit before the end date: {diagnostics.unplaced_actions.map(action => action.title).join(', ')}
+              </Text>
+            )}
+            {diagnostics.capped_days.length > 0 && (
+              <Text style={styles.fitText}>
+                {diagnostics.capped_days.length} {diagnostics.capped_days.length === 1 ? 'day needs' : 'days need'} more than your daily time.
+              </Text>
+            )}
+            {diagnostics.fixes.map(fix => (
+              <TouchableOpacity
+                key={fix.type}
+                style={styles.fixButton}
+                onPress={() => applyFix(fix)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.fixButtonText}>{describeFix(fix)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </ScrollView>
       
       {/* Footer with button */}
@@ -759,4 +841,35 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: theme.colors.text.secondary,
     marginLeft: 4,
   },
+  fitCard: {
+    backgroundColor: theme.colors.statusBackground.overdue,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 32,
+  },
+  fitTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginBottom: 8,
+  },
+  fitText: {
+    fontSize: 14,
+    color: theme.colors.text.primary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  fixButton: {
+    backgroundColor: theme.colors.background.card,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginTop: 4,
+    alignItems: 'center',
+  },
+  fixButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.text.primary,
+  },
 })
\ No newline at end of file
@@ -17,7 +17,7 @@ import { StatusBar } from 'expo-status-bar';
 import { BlurView } from 'expo-blur';
 import { OnboardingHeader } from '../../components/onboarding';
 import { Button } from '../../components/Button';
-import { getPrecreatedFigurines, uploadSelfieForFigurine, type Figurine } from '../../frontend-services/backend-bridge';
+import { getPrecreatedFigurines, uploadSelfieForFigurine, AIQuotaExceededError, type Figurine } from '../../frontend-services/backend-bridge';
 import { supabaseClient } from '../../lib/supabaseClient';
 import { useTheme } from '../../contexts/ThemeContext';
 import { Theme } from '../../utils/theme';
@@ -213,7 +213,11 @@ const CreateFigurineStep: React.FC = () => {
       }
     } catch (error) {
       console.error('Error uploading selfie:', error);
-      Alert.alert('Error', 'Failed to generate figurine. Please try again.');
+      if (error instanceof AIQuotaExceededError) {
+        Alert.alert('Daily limit reached', error.message);
+      } else {
+        Alert.alert('Error', 'Failed to generate figurine. Please try again.');
+      }
     } finally {
       setIsUploading(false);
       setIsGenerating(false);
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../../lib/supabaseServer';
-import { generateJson } from '../../../../../lib/ai/gemini';
+import { generateJson } from '../../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../../lib/ai/responses';
 import { AI_REVIEW_SCHEMA } from '../../../../../lib/ai/schemas';
 import { AI_REVIEW_SYSTEM } from '../../../../../lib/ai/prompts';
 
@@ -158,13 +160,17 @@ Please review this submission against the action criteria and provide a rating a
       }
     }
 
+    const { data: { user } } = await supabase.auth.getUser();
+    await enforceAIQuota(request, 'action_review', user?.id);
+
     // Generate AI review
-    const { data: review, usage } = await generateJson({
+    const { data: review } = await generateJson({
       system: AI_REVIEW_SYSTEM,
       messages: messages,
       schema: AI_REVIEW_SCHEMA,
       maxOutputTokens: 1500,
-      enableThinking: false
+      enableThinking: false,
+      event: user ? { userId: user.id, kind: 'action_review' } : undefined
     });
 
     // Update the occurrence with AI review
@@ -185,20 +191,6 @@ Please review this submission against the action criteria and provide a rating a
       );
     }
 
-    // Log AI usage
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
-      await supabase.from('ai_events').insert({
-        user_id: user.id,
-        kind: 'action_review',
-        model: 'gemini-3-flash-preview',
-        prompt_tokens: usage?.promptTokenCount || 0,
-        output_tokens: usage?.candidatesTokenCount || 0,
-        total_tokens: usage?.totalTokenCount || 0,
-        latency_ms: 0 // Usage metadata doesn't include timing
-      });
-    }
-
     return NextResponse.json({
       success: true,
       data: {
@@ -209,6 +201,9 @@ Please review this submission against the action criteria and provide a rating a
     });
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('AI review error:', error);
     return NextResponse.json(
       { error: 'Failed to generate AI review' },
@@ -45,7 +45,7 @@ export async function POST(req: Request) {
     // Check if occurrence exists and user has access to it
     const { data: owns, error: checkError } = await sb
       .from('action_occurrences')
-      .select('id, dream_id')
+      .select('id, dream_id, defer_count')
       .eq('id', occurrenceId)
       .maybeSingle();
     
@@ -59,13 +59,16 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
-    // Update the action occurrence with the new due date
+    // Update the action occurrence with the new due date, pinned so rescheduling won't move it back
     console.log('⏰ [DEFER API] Deferring occurrence:', occurrenceId, 'to:', newDueDate);
+    const now = new Date().toISOString();
     const { data, error } = await sb
       .from('action_occurrences')
       .update({ 
         due_on: newDueDate,
-        updated_at: new Date().toISOString()
+        defer_count: (owns.defer_count ?? 0) + 1,
+        pinned_at: now,
+        updated_at: now
       })
       .eq('id', occurrenceId)
       .select()
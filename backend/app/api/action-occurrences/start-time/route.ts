@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer';
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','');
+  if (!token) return null;
+  const sb = supabaseServer();
+  const { data, error } = await sb.auth.getUser(token);
+  if (error) return null;
+  return data.user ?? null;
+}
+
+// 24-hour HH:MM, local time
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Set (or clear, with startTime null) the time of day an occurrence is planned to start.
+ * The day itself is unchanged, so the occurrence isn't pinned.
+ */
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','');
+    if (!token) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const user = await getUser(req);
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { occurrenceId, startTime } = await req.json();
+
+    if (!occurrenceId || startTime === undefined) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (startTime !== null && (typeof startTime !== 'string' || !START_TIME_PATTERN.test(startTime))) {
+      return NextResponse.json({ error: 'startTime must be HH:MM or null' }, { status: 400 });
+    }
+
+    // Use authenticated client that respects RLS
+    const sb = supabaseServerAuth(token);
+
+    const { data, error } = await sb
+      .from('action_occurrences')
+      .update({
+        planned_start_time: startTime,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', occurrenceId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      console.error('❌ [START TIME API] Update error:', error);
+      return NextResponse.json({ error: 'Failed to set start time' }, { status: 500 });
+    }
+
+    if (!data) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    return NextResponse.json({
+      success: true,
+      data,
+      message: startTime ? 'Start time set' : 'Start time cleared'
+    });
+
+  } catch (error) {
+    console.error('💥 [START TIME API] Unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
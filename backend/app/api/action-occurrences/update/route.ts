@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '../../../../lib/supabaseServer';
+import { moveOccurrence } from '../../../../lib/scheduling/move';
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','');
+  if (!token) return null;
+  const sb = supabaseServer();
+  const { data, error } = await sb.auth.getUser(token);
+  if (error) return null;
+  return data.user ?? null;
+}
 
 export async function PUT(request: NextRequest) {
   try {
-    const { occurrenceId, updates } = await request.json();
+    let { occurrenceId, updates } = await request.json();
 
     if (!occurrenceId) {
       return NextResponse.json(
@@ -31,6 +41,39 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Moving to another day is checked against the user's rest days and caps
+    let warnings: string[] = [];
+    if (updates.due_on) {
+      const token = request.headers.get('authorization')?.replace('Bearer ','');
+      const user = await getUser(request);
+      if (!token || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+
+      const moved = await moveOccurrence(user.id, token, occurrenceId, updates.due_on);
+      if (!moved.success) {
+        return NextResponse.json(
+          { error: moved.errors[0] || 'Failed to move action occurrence', details: moved.errors },
+          { status: moved.not_found ? 404 : moved.invalid ? 400 : 500 }
+        );
+      }
+
+      const { due_on, ...otherUpdates } = updates;
+      if (Object.keys(otherUpdates).length === 0) {
+        return NextResponse.json({
+          success: true,
+          data: moved.occurrence,
+          warnings: moved.warnings,
+          message: 'Action occurrence moved successfully'
+        });
+      }
+      updates = otherUpdates;
+      warnings = moved.warnings;
+    }
+
     const supabase = supabaseServer();
 
     // Get the occurrence to verify it exists
@@ -47,12 +90,12 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Update the occurrence
+    const now = new Date().toISOString();
     const { data: updatedOccurrence, error: updateError } = await supabase
       .from('action_occurrences')
       .update({
         ...updates,
-        updated_at: new Date().toISOString()
+        updated_at: now
       })
       .eq('id', occurrenceId)
       .select()
@@ -69,6 +112,7 @@ export async function PUT(request: NextRequest) {
     return NextResponse.json({ 
       success: true, 
       data: updatedOccurrence,
+      warnings,
       message: 'Action occurrence updated successfully' 
     });
 
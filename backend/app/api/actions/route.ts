@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { supabaseServer, supabaseServerAuth } from '../../../lib/supabaseServer'
+import { parseRecurrenceRule } from '../../../lib/scheduling/recurrence'
 
 async function getUser(req: Request) {
   const token = req.headers.get('authorization')?.replace('Bearer ','')
@@ -134,6 +135,7 @@ export async function POST(req: Request) {
               est_minutes: action.est_minutes || null,
               difficulty: action.difficulty || 'medium',
               repeat_every_days: action.repeat_every_days || null,
+              recurrence: parseRecurrenceRule(action.recurrence),
               slice_count_target: action.slice_count_target || null,
               acceptance_criteria: action.acceptance_criteria || null,
               position: newPosition,
@@ -172,6 +174,7 @@ export async function POST(req: Request) {
             est_minutes: action.est_minutes || null,
             difficulty: action.difficulty || 'medium',
             repeat_every_days: action.repeat_every_days || null,
+            recurrence: parseRecurrenceRule(action.recurrence),
             slice_count_target: action.slice_count_target || null,
             acceptance_criteria: action.acceptance_criteria || null,
             position: -1, // Temporary negative position
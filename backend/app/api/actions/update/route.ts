@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServer } from '../../../../lib/supabaseServer';
+import { fetchSchedulingPreferences } from '../../../../lib/scheduling/preferences';
+import { parseRecurrenceRule, resolveRecurrence, expandRecurrence } from '../../../../lib/scheduling/recurrence';
+import { orderByPrerequisites } from '../../../../lib/scheduling/prerequisites';
 
 export async function PUT(request: NextRequest) {
   try {
@@ -20,7 +23,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Validate allowed fields
-    const allowedFields = ['title', 'est_minutes', 'difficulty', 'repeat_every_days', 'repeat_until_date', 'slice_count_target', 'acceptance_criteria', 'acceptance_intro', 'acceptance_outro'];
+    const allowedFields = ['title', 'est_minutes', 'difficulty', 'repeat_every_days', 'repeat_until_date', 'recurrence', 'slice_count_target', 'prerequisite_ids', 'acceptance_criteria', 'acceptance_intro', 'acceptance_outro'];
     const updateFields = Object.keys(updates);
     const invalidFields = updateFields.filter(field => !allowedFields.includes(field));
     
@@ -31,12 +34,34 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // null clears the rule; anything else has to be a valid rule
+    if (updates.prerequisite_ids !== undefined) {
+      if (!Array.isArray(updates.prerequisite_ids) || !updates.prerequisite_ids.every((id: unknown) => typeof id === 'string')) {
+        return NextResponse.json(
+          { error: 'prerequisite_ids must be an array of action IDs' },
+          { status: 400 }
+        );
+      }
+      updates.prerequisite_ids = Array.from(new Set(updates.prerequisite_ids));
+    }
+
+    if (updates.recurrence !== undefined && updates.recurrence !== null) {
+      const recurrence = parseRecurrenceRule(updates.recurrence);
+      if (!recurrence) {
+        return NextResponse.json(
+          { error: 'Invalid recurrence rule' },
+          { status: 400 }
+        );
+      }
+      updates.recurrence = recurrence;
+    }
+
     const supabase = supabaseServer();
 
     // Get the action to verify it exists
     const { data: action, error: fetchError } = await supabase
       .from('actions')
-      .select('id')
+      .select('id, dream_id')
       .eq('id', actionId)
       .single();
 
@@ -47,6 +72,33 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Prerequisites have to be other live actions in the same dream, without forming a loop
+    if (updates.prerequisite_ids?.length > 0) {
+      const { data: dreamActions } = await supabase
+        .from('actions')
+        .select('id, prerequisite_ids')
+        .eq('dream_id', action.dream_id)
+        .is('deleted_at', null);
+
+      const dreamActionIds = new Set((dreamActions || []).map(a => a.id));
+      if (updates.prerequisite_ids.some((id: string) => id === actionId || !dreamActionIds.has(id))) {
+        return NextResponse.json(
+          { error: 'Prerequisites must be other actions in the same dream' },
+          { status: 400 }
+        );
+      }
+
+      const withUpdate = (dreamActions || []).map(a =>
+        a.id === actionId ? { ...a, prerequisite_ids: updates.prerequisite_ids } : a
+      );
+      if (orderByPrerequisites(withUpdate).cyclic.length > 0) {
+        return NextResponse.json(
+          { error: 'Prerequisites cannot depend on each other in a loop' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Update the action
     const { data: updatedAction, error: updateError } = await supabase
       .from('actions')
@@ -67,7 +119,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Handle rescheduling if repeat settings changed
-    if (updates.repeat_every_days !== undefined || updates.repeat_until_date !== undefined) {
+    if (updates.repeat_every_days !== undefined || updates.repeat_until_date !== undefined || updates.recurrence !== undefined) {
       try {
         // Fetch dream to get end_date
         const { data: dream } = await supabase
@@ -143,40 +195,30 @@ export async function PUT(request: NextRequest) {
             }
 
             // 4. Generate new occurrences if repeating
-            if (updatedAction.repeat_every_days && anchorOccurrence) {
-              const frequency = updatedAction.repeat_every_days;
+            const recurrence = resolveRecurrence(updatedAction);
+            if (recurrence && anchorOccurrence) {
               const anchorDate = new Date(anchorOccurrence.due_on); // Use due_on or planned_due_on? due_on tracks current reality.
               
-              let nextDate = new Date(anchorDate);
-              nextDate.setDate(nextDate.getDate() + frequency);
-              
               let nextOccurrenceNo = anchorOccurrence.occurrence_no + 1;
               const newOccurrences = [];
 
-              while (nextDate <= effectiveEndDate) {
-              // Skip rest days (Sunday=0) if we want to mimic scheduler exactly, 
-              // but for simple update logic we might skip this complexity or implement simple check.
-              // Scheduler uses REST_DAYS = [0]. Let's respect it.
-              if (nextDate.getDay() === 0) {
-                nextDate.setDate(nextDate.getDate() + 1);
-                if (nextDate > effectiveEndDate) break;
+              // Mimic the scheduler by skipping the user's rest days
+              const { rest_days: restDays } = await fetchSchedulingPreferences(supabase, updatedAction.user_id);
+
+              for (const nextDate of expandRecurrence(recurrence, anchorDate, effectiveEndDate, restDays)) {
+                newOccurrences.push({
+                  action_id: updatedAction.id,
+                  dream_id: updatedAction.dream_id,
+                  area_id: updatedAction.area_id,
+                  user_id: updatedAction.user_id,
+                  occurrence_no: nextOccurrenceNo,
+                  planned_due_on: nextDate.toISOString().split('T')[0],
+                  due_on: nextDate.toISOString().split('T')[0],
+                  defer_count: 0
+                });
+                nextOccurrenceNo++;
               }
 
-              newOccurrences.push({
-                action_id: updatedAction.id,
-                dream_id: updatedAction.dream_id,
-                area_id: updatedAction.area_id,
-                user_id: updatedAction.user_id,
-                occurrence_no: nextOccurrenceNo,
-                planned_due_on: nextDate.toISOString().split('T')[0],
-                due_on: nextDate.toISOString().split('T')[0],
-                defer_count: 0
-              });
-
-              nextDate.setDate(nextDate.getDate() + frequency);
-              nextOccurrenceNo++;
-            }
-
               if (newOccurrences.length > 0) {
                 await supabase
                   .from('action_occurrences')
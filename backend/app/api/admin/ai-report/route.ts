@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../../lib/supabaseServer'
+import { buildAIReport, getAIPrices, type AIEventRow } from '../../../../lib/ai/report'
+
+const PAGE_SIZE = 1000
+// User ids per profiles query; each is ~37 characters of query string, so 100 stays well under URL limits
+const PROFILE_CHUNK_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Admins are listed by user id in ADMIN_USER_IDS (comma-separated)
+function isAdmin(userId: string) {
+  const adminIds: string[] = (process.env.ADMIN_USER_IDS || '').split(',').map((id: string) => id.trim()).filter(Boolean)
+  return adminIds.includes(userId)
+}
+
+function parseDate(value: string | null, fallback: Date) {
+  if (!value) return fallback
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// AI cost, latency and error rates by model, kind, day and signup cohort, for ?from=&to= (ISO dates, default the last 30 days)
+export async function GET(req: Request) {
+  try {
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    if (!isAdmin(user.id)) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const to = parseDate(searchParams.get('to'), new Date())
+    const from = to && parseDate(searchParams.get('from'), new Date(to.getTime() - 30 * DAY_MS))
+    if (!from || !to || from >= to) {
+      return NextResponse.json(
+        { error: 'from and to must be ISO dates with from before to' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = supabaseServer()
+
+    // Page through the range; a month of events is well over one response's worth of rows
+    const events: AIEventRow[] = []
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('ai_events')
+        .select('user_id, kind, model, prompt_tokens, output_tokens, latency_ms, cache_hit, error, created_at')
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true }) // Rows sharing a timestamp must not shift between pages
+        .range(offset, offset + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching AI events:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch AI events' },
+          { status: 500 }
+        )
+      }
+      events.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    // Signup dates for the cohort breakdown
+    const signupByUser = new Map<string, string>()
+    const userIds = [...new Set(events.map(event => event.user_id))]
+    for (let i = 0; i < userIds.length; i += PROFILE_CHUNK_SIZE) {
+      const { data: profiles, error } = await supabase
+        .from('profiles')
+        .select('user_id, created_at')
+        .in('user_id', userIds.slice(i, i + PROFILE_CHUNK_SIZE))
+
+      if (error) {
+        console.error('Error fetching profiles for AI report:', error)
+        return NextResponse.json(
+          { error: 'Failed to fetch profiles' },
+          { status: 500 }
+        )
+      }
+      for (const profile of profiles || []) signupByUser.set(profile.user_id, profile.created_at)
+    }
+
+    const report = buildAIReport(events, signupByUser, getAIPrices(), {
+      from: from.toISOString(),
+      to: to.toISOString()
+    })
+
+    return NextResponse.json(report)
+
+  } catch (error) {
+    console.error('AI report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
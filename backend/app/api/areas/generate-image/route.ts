@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../lib/supabaseServer';
-import { generateImage } from '../../../../lib/ai/gemini';
+import { generateImage } from '../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../lib/ai/responses';
 import { v4 as uuidv4 } from 'uuid';
 
 async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType: string }> {
@@ -95,11 +97,14 @@ export async function POST(request: NextRequest) {
     console.log('🎨 Generating area-specific image...');
     const prompt = `Tweak this dream image to represent the area: "${area_title}". Keep the same style, isometric perspective, and figurine, but adapt the scene and background to match this specific area.`;
     
+    await enforceAIQuota(request, 'image', user.id);
+
     let generatedImageData: string;
     try {
       const result = await generateImage({
         prompt,
-        referenceImage: dreamImage
+        referenceImage: dreamImage,
+        event: { userId: user.id, kind: 'image' }
       });
       generatedImageData = result.imageData;
       console.log('✅ Area image generated successfully');
@@ -171,6 +176,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('Error in area image generation:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
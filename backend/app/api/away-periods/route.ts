@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../lib/supabaseServer'
+import { addAwayPeriod } from '../../../lib/scheduling/away'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Add an away period (vacation mode) and move the user's occurrences out of it
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { start_date, end_date, note } = await req.json()
+
+    if (!start_date || !end_date) {
+      return NextResponse.json(
+        { error: 'start_date and end_date are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await addAwayPeriod(user.id, token, { start_date, end_date, note })
+
+    // The period is saved even when moving some occurrences failed
+    if (!result.success && !result.period) {
+      const error = result.errors[0] || 'Failed to add away period'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: result.invalid ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Add away period error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
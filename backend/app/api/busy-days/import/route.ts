@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../../lib/supabaseServer'
+import { importBusyDays } from '../../../../lib/scheduling/busy'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Import busy days from an ICS file: an uploaded `file` (multipart) or pasted `{ ics }` (JSON)
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let ics: unknown
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form: any = await req.formData()
+      const file = form.get('file')
+      ics = file instanceof Blob ? await file.text() : undefined
+    } else {
+      ics = (await req.json()).ics
+    }
+
+    if (typeof ics !== 'string' || ics.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'An .ics file or its contents are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await importBusyDays(user.id, token, ics)
+
+    // The days are saved even when moving some occurrences failed
+    if (!result.success && result.days.length === 0) {
+      const error = result.errors[0] || 'Failed to import busy days'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: result.invalid ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Import busy days error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
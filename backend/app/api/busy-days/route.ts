@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../lib/supabaseServer'
+import { updateBusyDay } from '../../../lib/scheduling/busy'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Change a busy day's capacity and move the user's occurrences off it if it no longer fits them
+export async function PATCH(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { id, capacity_percent } = await req.json()
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'id is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateBusyDay(user.id, token, id, capacity_percent)
+
+    // The day is saved even when moving some occurrences failed
+    if (!result.success && !result.day) {
+      const error = result.errors[0] || 'Failed to update the busy day'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: result.invalid ? 400 : result.not_found ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Update busy day error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseServer } from '../../../../lib/supabaseServer'
+import { fetchFeedOccurrences, renderCalendarFeed } from '../../../../lib/calendar/feed'
+
+// ICS feed of a user's upcoming occurrences. Calendar apps can't send a session, so the secret
+// token in the URL is the only credential; it is looked up with the service role.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const feedToken = token?.replace(/\.ics$/, '')
+
+    if (!feedToken) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const supabase = supabaseServer()
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', feedToken)
+      .maybeSingle()
+
+    if (feedError) {
+      console.error('❌ Error looking up calendar feed:', feedError)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+    }
+
+    // Same response for revoked and made-up tokens
+    if (!feed) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const { timezone, occurrences } = await fetchFeedOccurrences(supabase, feed.user_id)
+
+    const { error: touchError } = await supabase
+      .from('calendar_feeds')
+      .update({ last_fetched_at: new Date().toISOString() })
+      .eq('user_id', feed.user_id)
+
+    if (touchError) console.error('Failed to record calendar feed fetch:', touchError)
+
+    console.log(`📅 Served calendar feed with ${occurrences.length} events for user ${feed.user_id}`)
+
+    return new NextResponse(renderCalendarFeed(occurrences, timezone), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="dreamer.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
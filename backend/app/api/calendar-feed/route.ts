@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer, supabaseServerAuth } from '../../../lib/supabaseServer'
+import { generateFeedToken } from '../../../lib/calendar/feed'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Create the user's calendar feed token, or replace it so links shared before stop working
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const sb = supabaseServerAuth(token)
+    const feedToken = generateFeedToken()
+
+    const { error } = await sb
+      .from('calendar_feeds')
+      .upsert(
+        { user_id: user.id, token: feedToken, created_at: new Date().toISOString(), last_fetched_at: null },
+        { onConflict: 'user_id' }
+      )
+
+    if (error) {
+      console.error('Error saving calendar feed token:', error)
+      return NextResponse.json(
+        { error: 'Failed to create calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    console.log(`📅 New calendar feed token for user ${user.id}`)
+
+    return NextResponse.json({ success: true, token: feedToken })
+
+  } catch (error) {
+    console.error('Create calendar feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Turn the feed off; the old URL returns 404 from now on
+export async function DELETE(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const sb = supabaseServerAuth(token)
+
+    const { error } = await sb
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('Error deleting calendar feed token:', error)
+      return NextResponse.json(
+        { error: 'Failed to turn off calendar feed' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Revoke calendar feed error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -77,7 +77,9 @@ export async function POST(req: Request) {
         warnings: schedulingResult.warnings,
         auto_compacted: schedulingResult.auto_compacted,
         too_tight: schedulingResult.too_tight,
-        recommended_end: schedulingResult.recommended_end
+        recommended_end: schedulingResult.recommended_end,
+        overloaded_days: schedulingResult.overloaded_days,
+        diagnostics: schedulingResult.diagnostics
       }
     })
 
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server'
-import { generateJson, GEMINI_MODEL } from '../../../../lib/ai/gemini'
+import { generateJson } from '../../../../lib/ai/provider'
+import { AIValidationError } from '../../../../lib/ai/validate'
+import { enforceAIQuota } from '../../../../lib/ai/quota'
+import { aiErrorResponse } from '../../../../lib/ai/responses'
+import { GEMINI_MODEL } from '../../../../lib/ai/gemini'
 import { GOAL_FEASIBILITY_SYSTEM } from '../../../../lib/ai/prompts'
 import { GOAL_FEASIBILITY_SCHEMA } from '../../../../lib/ai/schemas'
-import { saveAIEvent } from '../../../../lib/ai/telemetry'
-import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer'
+import { supabaseServer } from '../../../../lib/supabaseServer'
 
 async function getUser(req: Request) {
   const token = req.headers.get('authorization')?.replace('Bearer ','')
@@ -14,8 +17,6 @@ async function getUser(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const startTime = Date.now()
-  
   try {
     const token = req.headers.get('authorization')?.replace('Bearer ','')
     if (!token) {
@@ -51,17 +52,19 @@ Please provide:
 1. Up to 4 improved title suggestions that are more specific and actionable (max 10 words each)
 2. An assessment of whether the timeline is realistic and a suggested end date if needed`
 
-    let data, usage
+    await enforceAIQuota(req, 'feasibility', user.id)
+
+    let data
     try {
       const result = await generateJson({
         system: GOAL_FEASIBILITY_SYSTEM,
         messages: [{ text: prompt }],
         schema: GOAL_FEASIBILITY_SCHEMA,
         maxOutputTokens: 2000,
-        modelId: GEMINI_MODEL // Using Flash Lite model without thinking
+        modelId: GEMINI_MODEL, // Using Flash Lite model without thinking
+        event: { userId: user.id, kind: 'feasibility' }
       })
       data = result.data
-      usage = result.usage
       console.log('[FEASIBILITY] AI Response:', JSON.stringify(data, null, 2))
     } catch (aiError) {
       // Enhanced error logging for Vercel visibility
@@ -74,26 +77,18 @@ Please provide:
         timestamp: new Date().toISOString()
       }));
       
+      if (aiError instanceof AIValidationError) throw aiError
+
       const aiErrorMessage = aiError instanceof Error ? aiError.message : String(aiError)
       throw new Error(`AI generation failed: ${aiErrorMessage}`)
     }
 
-    const latencyMs = Date.now() - startTime
-
-    // Save telemetry using authenticated client
-    const sb = supabaseServerAuth(token)
-    await saveAIEvent(
-      user.id,
-      'feasibility',
-      'gemini-3-flash-preview',
-      usage,
-      latencyMs,
-      sb
-    )
-
     return NextResponse.json(data)
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error)
+    if (aiResponse) return aiResponse
+
     // Enhanced error logging for Vercel visibility
     console.error('[FEASIBILITY] Top-level error caught');
     console.error('[FEASIBILITY] Error type:', error instanceof Error ? error.constructor.name : typeof error);
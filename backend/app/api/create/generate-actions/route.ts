@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server'
-import { generateJson, GEMINI_FLASH_MODEL, THINKING_BUDGETS } from '../../../../lib/ai/gemini'
+import { generateJson } from '../../../../lib/ai/provider'
+import { GEMINI_FLASH_MODEL, THINKING_BUDGETS } from '../../../../lib/ai/gemini'
 import { ACTIONS_SYSTEM } from '../../../../lib/ai/prompts'
 import { ACTIONS_SCHEMA } from '../../../../lib/ai/schemas'
-import { saveAIEvent } from '../../../../lib/ai/telemetry'
+import { aiErrorResponse } from '../../../../lib/ai/responses'
 import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer'
 
 async function getUser(req: Request) {
@@ -14,8 +15,6 @@ async function getUser(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const startTime = Date.now()
-  
   try {
     const token = req.headers.get('authorization')?.replace('Bearer ','')
     const user = token ? await getUser(req) : null
@@ -150,43 +149,37 @@ Each action should be atomic, measurable, and bounded.`
       return requestedAreaIds.filter((id: string) => (counts.get(id) ?? 0) < minActionsPerArea)
     }
 
+    // The retry is part of the same request, so the quota counts at most one model call. Either
+    // attempt may be answered from the cache, which doesn't count.
+    let quotaCounted = false
+
     const runGenerationAttempt = async (attempt: number, forceMinPerArea: boolean) => {
       const prompt = buildPrompt({ attempt, forceMinPerArea })
       console.log('📝 Prompt being sent to AI:', prompt)
 
-      const { data, usage } = await generateJson({
+      const { data, cached } = await generateJson({
         system: ACTIONS_SYSTEM,
         messages: [{ text: prompt }],
         schema: ACTIONS_SCHEMA,
         maxOutputTokens: 16384, // Increased for generating 8-16 actions (2-4 per area × 4 areas)
         modelId: GEMINI_FLASH_MODEL, // Using Flash model (not lite)
         enableThinking: true,
-        thinkingBudget: THINKING_BUDGETS.MODERATE // Moderate budget for action planning
+        thinkingBudget: THINKING_BUDGETS.MODERATE, // Moderate budget for action planning
+        // Going back and forth re-sends identical inputs; feedback asks for a fresh answer
+        cache: feedback ? undefined : { ttlSeconds: 24 * 60 * 60 },
+        quota: quotaCounted ? undefined : { request: req, kind: 'actions', userId: user?.id },
+        event: user ? { userId: user.id, kind: 'actions' } : undefined // Onboarding calls aren't recorded
       })
+      if (!cached) quotaCounted = true
 
-      return { data, usage }
+      return { data }
     }
 
     // Attempt 1: normal prompt
-    let { data, usage } = await runGenerationAttempt(1, false)
+    let { data } = await runGenerationAttempt(1, false)
 
     console.log('🤖 AI Response:', JSON.stringify(data, null, 2))
 
-    const latencyMs = Date.now() - startTime
-
-    // Save telemetry only for authenticated users
-    if (!isOnboarding && user && token) {
-      const sb = supabaseServerAuth(token)
-      await saveAIEvent(
-        user.id,
-        'actions',
-        'gemini-3-flash-preview',
-        usage,
-        latencyMs,
-        sb
-      )
-    }
-
     // Check if AI returned valid data
     if (!data || !data.actions || !Array.isArray(data.actions) || data.actions.length === 0) {
       console.error('❌ AI returned invalid or empty actions data:', data)
@@ -206,7 +199,7 @@ Each action should be atomic, measurable, and bounded.`
         areasNeedingMoreBeforeMap,
         totalActions: data.actions.length
       })
-      ;({ data, usage } = await runGenerationAttempt(2, true))
+      ;({ data } = await runGenerationAttempt(2, true))
       console.log('🤖 AI Response (retry):', JSON.stringify(data, null, 2))
       if (!data || !data.actions || !Array.isArray(data.actions) || data.actions.length === 0) {
         console.error('❌ AI retry returned invalid or empty actions data:', data)
@@ -378,6 +371,9 @@ Each action should be atomic, measurable, and bounded.`
     return NextResponse.json(savedActions ?? [])
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error)
+    if (aiResponse) return aiResponse
+
     console.error('Actions generation error:', error)
     return NextResponse.json(
       { error: 'Failed to generate actions' }, 
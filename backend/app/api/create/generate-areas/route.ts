@@ -1,8 +1,11 @@
 import { NextResponse } from 'next/server'
-import { generateJson, GEMINI_MODEL } from '../../../../lib/ai/gemini'
+import { generateJson } from '../../../../lib/ai/provider'
+import { AIValidationError } from '../../../../lib/ai/validate'
+import { AIQuotaError } from '../../../../lib/ai/quota'
+import { aiErrorResponse } from '../../../../lib/ai/responses'
+import { GEMINI_MODEL } from '../../../../lib/ai/gemini'
 import { AREAS_SYSTEM } from '../../../../lib/ai/prompts'
 import { AREAS_SCHEMA } from '../../../../lib/ai/schemas'
-import { saveAIEvent } from '../../../../lib/ai/telemetry'
 import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer'
 
 async function getUser(req: Request) {
@@ -52,7 +55,6 @@ export async function GET() {
 }
 
 export async function POST(req: Request) {
-  const startTime = Date.now()
   console.log('🚀 [GENERATE-AREAS] Request received at', new Date().toISOString())
   
   // Get the request URL for constructing baseUrl
@@ -154,17 +156,20 @@ Please create the appropriate number of orthogonal, stage-based areas (2-6) that
 
     console.log('📝 Prompt being sent to AI:', prompt)
 
-    let data, usage
+    let data
     try {
       const result = await generateJson({
         system: AREAS_SYSTEM,
         messages: [{ text: prompt }],
         schema: AREAS_SCHEMA,
         maxOutputTokens: 2000,
-        modelId: GEMINI_MODEL // Using Flash Lite model without thinking
+        modelId: GEMINI_MODEL, // Using Flash Lite model without thinking
+        // Going back and forth re-sends identical inputs; feedback asks for a fresh answer
+        cache: feedback ? undefined : { ttlSeconds: 24 * 60 * 60 },
+        quota: { request: req, kind: 'areas', userId: user?.id },
+        event: user ? { userId: user.id, kind: 'areas' } : undefined // Onboarding calls aren't recorded
       })
       data = result.data
-      usage = result.usage
       console.log('🤖 AI Response:', JSON.stringify(data, null, 2))
     } catch (aiError) {
       // Enhanced error logging for Vercel visibility
@@ -177,25 +182,12 @@ Please create the appropriate number of orthogonal, stage-based areas (2-6) that
         timestamp: new Date().toISOString()
       }));
       
+      if (aiError instanceof AIValidationError || aiError instanceof AIQuotaError) throw aiError
+
       const aiErrorMessage = aiError instanceof Error ? aiError.message : String(aiError)
       throw new Error(`AI generation failed: ${aiErrorMessage}`)
     }
 
-    const latencyMs = Date.now() - startTime
-
-    // Save telemetry only for authenticated users
-    if (!isOnboarding && user && token) {
-      const sb = supabaseServerAuth(token)
-      await saveAIEvent(
-        user.id,
-        'areas',
-        'gemini-3-flash-preview',
-        usage,
-        latencyMs,
-        sb
-      )
-    }
-
     // Check if AI returned valid data
     if (!data || !data.areas || !Array.isArray(data.areas) || data.areas.length === 0) {
       console.error('❌ AI returned invalid or empty areas data:', data)
@@ -406,6 +398,9 @@ Please create the appropriate number of orthogonal, stage-based areas (2-6) that
     return NextResponse.json(savedAreas ?? [])
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error)
+    if (aiResponse) return aiResponse
+
     // Enhanced error logging for Vercel visibility
     console.error('[GENERATE-AREAS] Top-level error caught');
     console.error('[GENERATE-AREAS] Error type:', error instanceof Error ? error.constructor.name : typeof error);
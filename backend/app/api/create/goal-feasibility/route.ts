@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server'
-import { generateJson, GEMINI_MODEL } from '../../../../lib/ai/gemini'
+import { generateJson } from '../../../../lib/ai/provider'
+import { AIValidationError } from '../../../../lib/ai/validate'
+import { AIQuotaError } from '../../../../lib/ai/quota'
+import { aiErrorResponse } from '../../../../lib/ai/responses'
+import { GEMINI_MODEL } from '../../../../lib/ai/gemini'
 import { GOAL_FEASIBILITY_SYSTEM } from '../../../../lib/ai/prompts'
 import { GOAL_FEASIBILITY_SCHEMA } from '../../../../lib/ai/schemas'
-import { saveAIEvent } from '../../../../lib/ai/telemetry'
-import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer'
+import { supabaseServer } from '../../../../lib/supabaseServer'
 
 async function getUser(req: Request) {
   const token = req.headers.get('authorization')?.replace('Bearer ','')
@@ -14,8 +17,6 @@ async function getUser(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const startTime = Date.now()
-  
   try {
     const token = req.headers.get('authorization')?.replace('Bearer ','')
     if (!token) {
@@ -51,17 +52,19 @@ Please provide:
 
 Remember: Frame everything as enhancement and possibility, not criticism.`
 
-    let data, usage
+    let data
     try {
       const result = await generateJson({
         system: GOAL_FEASIBILITY_SYSTEM,
         messages: [{ text: prompt }],
         schema: GOAL_FEASIBILITY_SCHEMA,
         maxOutputTokens: 2000,
-        modelId: GEMINI_MODEL
+        modelId: GEMINI_MODEL,
+        cache: { ttlSeconds: 24 * 60 * 60 }, // Going back to this step re-sends the same title
+        quota: { request: req, kind: 'goal-feasibility', userId: user.id },
+        event: { userId: user.id, kind: 'goal-feasibility' }
       })
       data = result.data
-      usage = result.usage
       console.log('[GOAL-FEASIBILITY] AI Response:', JSON.stringify(data, null, 2))
     } catch (aiError) {
       // Enhanced error logging for Vercel visibility
@@ -74,26 +77,18 @@ Remember: Frame everything as enhancement and possibility, not criticism.`
         timestamp: new Date().toISOString()
       }));
       
+      if (aiError instanceof AIValidationError || aiError instanceof AIQuotaError) throw aiError
+
       const aiErrorMessage = aiError instanceof Error ? aiError.message : String(aiError)
       throw new Error(`AI generation failed: ${aiErrorMessage}`)
     }
 
-    const latencyMs = Date.now() - startTime
-
-    // Save telemetry using authenticated client
-    const sb = supabaseServerAuth(token)
-    await saveAIEvent(
-      user.id,
-      'goal-feasibility',
-      'gemini-3-flash-preview',
-      usage,
-      latencyMs,
-      sb
-    )
-
     return NextResponse.json(data)
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error)
+    if (aiResponse) return aiResponse
+
     // Enhanced error logging for Vercel visibility
     console.error('[GOAL-FEASIBILITY] Top-level error caught');
     console.error('[GOAL-FEASIBILITY] Error type:', error instanceof Error ? error.constructor.name : typeof error);
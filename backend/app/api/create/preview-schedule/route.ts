@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../../lib/supabaseServer'
+import { previewDreamSchedule } from '../../../../lib/scheduling/preview'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// Dry run of schedule-actions / reschedule-actions: returns the proposed plan and what would change, writes nothing
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { dream_id, mode, extend_end_date, contract_end_date, reset_completed, time_commitment } = await req.json()
+    
+    if (!dream_id) {
+      return NextResponse.json(
+        { error: 'dream_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (mode !== undefined && !['schedule', 'reschedule', 'incremental'].includes(mode)) {
+      return NextResponse.json(
+        { error: "mode must be 'schedule', 'reschedule' or 'incremental'" },
+        { status: 400 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const preview = await previewDreamSchedule(dream_id, user.id, token, {
+      mode,
+      extendEndDate: extend_end_date,
+      contractEndDate: contract_end_date,
+      resetCompleted: reset_completed || false,
+      timeCommitment: time_commitment
+    })
+
+    if (!preview.success) {
+      const error = preview.errors[0] || 'Preview failed'
+      return NextResponse.json(
+        { error, details: preview.errors },
+        { status: error === 'Dream not found' ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json(preview)
+
+  } catch (error) {
+    console.error('Schedule preview error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
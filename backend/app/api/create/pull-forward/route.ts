@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../../lib/supabaseServer'
+import { pullForwardDreamActions, MAX_PULL_FORWARD_COUNT } from '../../../../lib/scheduling/pullForward'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+// "Give me more": pull the dream's next one-off actions into today and move the rest of the plan up
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { dream_id, count, shorten_end_date, dry_run } = await req.json()
+
+    if (!dream_id) {
+      return NextResponse.json(
+        { error: 'dream_id is required' },
+        { status: 400 }
+      )
+    }
+
+    if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_PULL_FORWARD_COUNT)) {
+      return NextResponse.json(
+        { error: `count must be a whole number from 1 to ${MAX_PULL_FORWARD_COUNT}` },
+        { status: 400 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await pullForwardDreamActions(dream_id, user.id, token, {
+      count,
+      shortenEndDate: shorten_end_date || false,
+      dryRun: dry_run || false
+    })
+
+    if (!result.success) {
+      const error = result.errors[0] || 'Pull forward failed'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: error === 'Dream not found' ? 404 : error === 'Dream is not active' ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Pull forward error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
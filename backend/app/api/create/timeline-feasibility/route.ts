@@ -1,9 +1,13 @@
 import { NextResponse } from 'next/server'
-import { generateJson, GEMINI_MODEL } from '../../../../lib/ai/gemini'
+import { generateJson } from '../../../../lib/ai/provider'
+import { AIValidationError } from '../../../../lib/ai/validate'
+import { enforceAIQuota } from '../../../../lib/ai/quota'
+import { aiErrorResponse } from '../../../../lib/ai/responses'
+import { GEMINI_MODEL } from '../../../../lib/ai/gemini'
 import { TIMELINE_FEASIBILITY_SYSTEM } from '../../../../lib/ai/prompts'
 import { TIMELINE_FEASIBILITY_SCHEMA } from '../../../../lib/ai/schemas'
-import { saveAIEvent } from '../../../../lib/ai/telemetry'
 import { supabaseServer, supabaseServerAuth } from '../../../../lib/supabaseServer'
+import { fetchUserTimezone, localDateInTimezone } from '../../../../lib/scheduling/timezone'
 
 async function getUser(req: Request) {
   const token = req.headers.get('authorization')?.replace('Bearer ','')
@@ -14,8 +18,6 @@ async function getUser(req: Request) {
 }
 
 export async function POST(req: Request) {
-  const startTime = Date.now()
-  
   try {
     const token = req.headers.get('authorization')?.replace('Bearer ','')
     if (!token) {
@@ -50,7 +52,7 @@ export async function POST(req: Request) {
 
     const contextString = contextInfo.length > 0 ? `\n\nAdditional context:\n${contextInfo.join('\n')}` : ''
 
-    const today = new Date().toISOString().split('T')[0]
+    const today = localDateInTimezone(await fetchUserTimezone(supabaseServerAuth(token), user.id))
     
     const prompt = `Analyze this dream timeline and provide realistic suggestions:
 
@@ -63,17 +65,19 @@ Please provide:
 2. A suggested end date based on their daily time commitment
 3. Clear reasoning for your assessment`
 
-    let data, usage
+    await enforceAIQuota(req, 'timeline-feasibility', user.id)
+
+    let data
     try {
       const result = await generateJson({
         system: TIMELINE_FEASIBILITY_SYSTEM,
         messages: [{ text: prompt }],
         schema: TIMELINE_FEASIBILITY_SCHEMA,
         maxOutputTokens: 2000,
-        modelId: GEMINI_MODEL
+        modelId: GEMINI_MODEL,
+        event: { userId: user.id, kind: 'timeline-feasibility' }
       })
       data = result.data
-      usage = result.usage
       console.log('[TIMELINE-FEASIBILITY] AI Response:', JSON.stringify(data, null, 2))
     } catch (aiError) {
       // Enhanced error logging for Vercel visibility
@@ -86,26 +90,18 @@ Please provide:
         timestamp: new Date().toISOString()
       }));
       
+      if (aiError instanceof AIValidationError) throw aiError
+
       const aiErrorMessage = aiError instanceof Error ? aiError.message : String(aiError)
       throw new Error(`AI generation failed: ${aiErrorMessage}`)
     }
 
-    const latencyMs = Date.now() - startTime
-
-    // Save telemetry using authenticated client
-    const sb = supabaseServerAuth(token)
-    await saveAIEvent(
-      user.id,
-      'timeline-feasibility',
-      'gemini-3-flash-preview',
-      usage,
-      latencyMs,
-      sb
-    )
-
     return NextResponse.json(data)
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error)
+    if (aiResponse) return aiResponse
+
     // Enhanced error logging for Vercel visibility
     console.error('[TIMELINE-FEASIBILITY] Top-level error caught');
     console.error('[TIMELINE-FEASIBILITY] Error type:', error instanceof Error ? error.constructor.name : typeof error);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../../lib/supabaseServer';
+import { extendHabitHorizon, HORIZON_WEEKS } from '../../../../lib/scheduling/horizon';
+
+/**
+ * Cron job to keep ongoing habits scheduled a few weeks ahead (see lib/scheduling/horizon.ts)
+ * Should be called daily; each user's "today" comes from their own timezone
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = supabaseServer();
+
+    console.log(`🔁 Extending habits to a ${HORIZON_WEEKS}-week horizon...`);
+
+    const { data: dreams, error: fetchError } = await supabase
+      .from('dreams')
+      .select('user_id')
+      .not('activated_at', 'is', null)
+      .is('archived_at', null)
+      .is('paused_at', null);
+
+    if (fetchError) {
+      console.error('❌ Error fetching users with active dreams:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+    }
+
+    const userIds = Array.from(new Set((dreams || []).map(dream => dream.user_id as string)));
+
+    if (userIds.length === 0) {
+      console.log('✅ No users have active dreams');
+      return NextResponse.json({
+        success: true,
+        message: 'No users to extend',
+        added_count: 0
+      });
+    }
+
+    console.log(`📊 Found ${userIds.length} users with active dreams`);
+
+    let addedCount = 0;
+    const failedUsers: string[] = [];
+
+    for (const userId of userIds) {
+      try {
+        const added = await extendHabitHorizon(supabase, userId);
+        if (added.length > 0) {
+          addedCount += added.length;
+          console.log(`➕ Added ${added.length} habit occurrences for user ${userId}`);
+        }
+      } catch (error) {
+        // One user's failure shouldn't stop the rest
+        console.error(`❌ Error extending habits for user ${userId}:`, error);
+        failedUsers.push(userId);
+      }
+    }
+
+    console.log(`✅ Habit horizon extended. ${addedCount} occurrences added.`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${userIds.length} users`,
+      added_count: addedCount,
+      failed_users: failedUsers
+    });
+
+  } catch (error) {
+    console.error('❌ Error extending habit horizon:', error);
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Allow POST as well for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseServer } from '../../../../lib/supabaseServer';
+import { rollForwardOverdue } from '../../../../lib/scheduling/rollForward';
+
+/**
+ * Cron job to move overdue occurrences forward for users who opted in (scheduling_preferences.auto_roll_forward)
+ * Should be called daily; each user's "today" comes from their own timezone
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = supabaseServer();
+
+    console.log('🔄 Rolling overdue occurrences forward...');
+
+    const { data: optedIn, error: fetchError } = await supabase
+      .from('scheduling_preferences')
+      .select('user_id')
+      .eq('auto_roll_forward', true);
+
+    if (fetchError) {
+      console.error('❌ Error fetching roll-forward users:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+    }
+
+    if (!optedIn || optedIn.length === 0) {
+      console.log('✅ No users have automatic roll-forward on');
+      return NextResponse.json({
+        success: true,
+        message: 'No users to roll forward',
+        moved_count: 0
+      });
+    }
+
+    console.log(`📊 Found ${optedIn.length} users with automatic roll-forward on`);
+
+    let movedCount = 0;
+    const failedUsers: string[] = [];
+
+    for (const { user_id } of optedIn) {
+      try {
+        const moves = await rollForwardOverdue(supabase, user_id);
+        if (moves.length > 0) {
+          movedCount += moves.length;
+          console.log(`⏩ Moved ${moves.length} overdue occurrences for user ${user_id}`);
+        }
+      } catch (error) {
+        // One user's failure shouldn't stop the rest
+        console.error(`❌ Error rolling forward for user ${user_id}:`, error);
+        failedUsers.push(user_id);
+      }
+    }
+
+    console.log(`✅ Roll-forward completed. ${movedCount} occurrences moved.`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${optedIn.length} users`,
+      moved_count: movedCount,
+      failed_users: failedUsers
+    });
+
+  } catch (error) {
+    console.error('❌ Error in overdue roll-forward:', error);
+    return NextResponse.json({
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Allow POST as well for manual triggers
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth, supabaseServer } from '../../../../../lib/supabaseServer';
-import { generateJson, GEMINI_MODEL } from '../../../../../lib/ai/gemini';
+import { generateJson } from '../../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../../lib/ai/responses';
+import { GEMINI_MODEL } from '../../../../../lib/ai/gemini';
 import { CELEBRITY_DREAMS_SYSTEM } from '../../../../../lib/ai/prompts';
 import { CELEBRITY_DREAMS_SCHEMA } from '../../../../../lib/ai/schemas';
 
@@ -120,6 +123,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Generate new dreams
+    await enforceAIQuota(req, 'celebrity-dreams', user?.id);
     console.error(`[CELEBRITY-GENERATE] [${requestId}] [INFO] Generating new dreams for celebrity: ${normalizedName}`);
     const prompt = `Generate 3-5 distinct, concrete dreams for someone inspired by ${name}. Avoid duplicates and keep them actionable.`;
 
@@ -131,6 +135,7 @@ export async function POST(req: NextRequest) {
         schema: CELEBRITY_DREAMS_SCHEMA,
         maxOutputTokens: 2000,
         modelId: GEMINI_MODEL,
+        event: user ? { userId: user.id, kind: 'celebrity-dreams' } : undefined,
       });
       data = result.data;
       console.error(`[CELEBRITY-GENERATE] [${requestId}] AI generation successful, got ${data?.dreams?.length || 0} dreams`);
@@ -186,6 +191,9 @@ export async function POST(req: NextRequest) {
     console.error(`[CELEBRITY-GENERATE] [${requestId}] [INFO] Request completed successfully in ${duration}ms`);
     return NextResponse.json({ success: true, data: { dreams } });
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     const duration = Date.now() - startTime;
     
     // Comprehensive error logging - use multiple formats to ensure Vercel captures it
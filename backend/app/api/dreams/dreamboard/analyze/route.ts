@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../../lib/supabaseServer';
-import { generateJson, GEMINI_FLASH_MODEL } from '../../../../../lib/ai/gemini';
+import { generateJson } from '../../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../../lib/ai/responses';
+import { GEMINI_FLASH_MODEL } from '../../../../../lib/ai/gemini';
 import { DREAMBOARD_ANALYSIS_SYSTEM } from '../../../../../lib/ai/prompts';
 import { DREAMBOARD_ANALYSIS_SCHEMA } from '../../../../../lib/ai/schemas';
 
@@ -32,6 +35,8 @@ export async function POST(req: NextRequest) {
     const file = (form as any).get('file') as File | null;
     if (!file) return NextResponse.json({ error: 'Missing file' }, { status: 400 });
 
+    await enforceAIQuota(req, 'dreamboard', user?.id);
+
     // Store the image only if authenticated
     if (!isOnboarding && user && sb) {
       const ext = (file.name?.split('.').pop() || 'jpg').toLowerCase();
@@ -65,6 +70,7 @@ export async function POST(req: NextRequest) {
         schema: DREAMBOARD_ANALYSIS_SCHEMA,
         maxOutputTokens: 6000,
         modelId: GEMINI_FLASH_MODEL,
+        event: user ? { userId: user.id, kind: 'dreamboard' } : undefined,
       });
       console.log('✅ Successfully generated dreams:', result?.data?.dreams?.length || 0);
     } catch (generateError) {
@@ -95,6 +101,9 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json({ success: true, data: { dreams, image_url: signedUrl ?? null } });
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('❌ Dreamboard analysis error:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('❌ Error details:', {
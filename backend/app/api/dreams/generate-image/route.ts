@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../lib/supabaseServer';
-import { generateImage } from '../../../../lib/ai/gemini';
+import { generateImage } from '../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../lib/ai/responses';
 import { v4 as uuidv4 } from 'uuid';
 
 async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType: string }> {
@@ -95,11 +97,14 @@ export async function POST(request: NextRequest) {
     console.log('🎨 Generating dream-specific image...');
     const prompt = `Create a scene featuring this miniature figurine that represents the dream: "${dream_title}". ${dream_context ? `Context: ${dream_context}.` : ''} Adapt the figurine's outfit and pose to match the dream theme. Create an appropriate background that fits the dream context on a dark blue background. Make it isometric, realistic, 4K resolution, studio lighting, soft shadows, no text/logos. Make the person slightly more attractive and fashionable.`;
     
+    await enforceAIQuota(request, 'image', user.id);
+
     let generatedImageData: string;
     try {
       const result = await generateImage({
         prompt,
-        referenceImage: figurineImage
+        referenceImage: figurineImage,
+        event: { userId: user.id, kind: 'image' }
       });
       generatedImageData = result.imageData;
       console.log('✅ Dream image generated successfully');
@@ -171,6 +176,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('Error in dream image generation:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
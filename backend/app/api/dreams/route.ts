@@ -1,5 +1,10 @@
 import { NextResponse } from 'next/server'
 import { supabaseServer, supabaseServerAuth } from '../../../lib/supabaseServer'
+import { fetchUserTimezone, localDateInTimezone } from '../../../lib/scheduling/timezone'
+import { resumeDream } from '../../../lib/scheduling/pause'
+import { moveWorkOutOf } from '../../../lib/scheduling/away'
+
+const DREAM_PRIORITIES = ['high', 'normal', 'low']
 
 async function getUser(req: Request) {
   const token = req.headers.get('authorization')?.replace('Bearer ','')
@@ -31,7 +36,12 @@ export async function POST(req: Request) {
     const body = await req.json()
     console.log('📝 [DREAMS API] Request body:', JSON.stringify(body, null, 2))
     
-    const { id, title, start_date = null, end_date = null, image_url = null, baseline = null, obstacles = null, enjoyment = null, time_commitment = null } = body
+    const { id, title, start_date = null, end_date = null, image_url = null, baseline = null, obstacles = null, enjoyment = null, time_commitment = null, priority = null } = body
+
+    if (priority !== null && priority !== undefined && !DREAM_PRIORITIES.includes(priority)) {
+      console.error('❌ [DREAMS API] Invalid priority:', priority)
+      return NextResponse.json({ error: 'priority must be high, normal or low' }, { status: 400 })
+    }
 
     // Use authenticated client that respects RLS
     const sb = supabaseServerAuth(token)
@@ -45,7 +55,8 @@ export async function POST(req: Request) {
       }
       
       // Provide default start_date if not provided (required by database schema)
-      const defaultStartDate = start_date || new Date().toISOString().split('T')[0]
+      // "Today" is the user's local date, not the server's
+      const defaultStartDate = start_date || localDateInTimezone(await fetchUserTimezone(sb, user.id))
       
       const insertData = {
         user_id: user.id, 
@@ -57,6 +68,7 @@ export async function POST(req: Request) {
         obstacles,
         enjoyment,
         time_commitment,
+        priority: priority || 'normal',
         activated_at: null
       }
       console.log('💾 [DREAMS API] Inserting dream:', JSON.stringify(insertData, null, 2))
@@ -75,7 +87,7 @@ export async function POST(req: Request) {
 
     console.log('🔄 [DREAMS API] Updating existing dream:', id)
     // RLS will automatically filter by user_id, so we don't need .eq('user_id', user.id)
-    const { data: owns } = await sb.from('dreams').select('id, activated_at').eq('id', id).maybeSingle()
+    const { data: owns } = await sb.from('dreams').select('id, activated_at, priority').eq('id', id).maybeSingle()
     if (!owns) {
       console.error('❌ [DREAMS API] Dream not found or access denied')
       return NextResponse.json({ error: 'Not found' }, { status: 404 })
@@ -129,6 +141,10 @@ export async function POST(req: Request) {
       }
     }
 
+    if (priority !== null && priority !== undefined) {
+      patch.priority = priority
+    }
+
     if (isActivated) {
       console.log('📝 [DREAMS API] Dream is activated, allowing limited updates')
       console.log('✅ [DREAMS API] Only allowed fields being updated for activated dream')
@@ -141,6 +157,27 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
     
+    // A change of priority changes who wins the days this dream shares with others, from today
+    // until its last scheduled action
+    if (isActivated && patch.priority && patch.priority !== owns.priority) {
+      const today = localDateInTimezone(await fetchUserTimezone(sb, user.id))
+      const { data: last } = await sb
+        .from('action_occurrences')
+        .select('due_on')
+        .eq('dream_id', id)
+        .is('completed_at', null)
+        .gte('due_on', today)
+        .order('due_on', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (last?.due_on) {
+        const { moved, errors } = await moveWorkOutOf(sb, user.id, token, { from: today, to: last.due_on, reason: 'priority' })
+        console.log(`⚖️ [DREAMS API] Priority changed to ${patch.priority}, moved ${moved.length} occurrence(s)`)
+        if (errors.length > 0) console.error('❌ [DREAMS API] Failed to rebalance after priority change:', errors)
+      }
+    }
+
     console.log('✅ [DREAMS API] Dream updated successfully')
     return NextResponse.json({ id })
     
@@ -253,7 +290,7 @@ export async function PATCH(req: Request) {
     // Check if dream exists and user owns it
     const { data: owns, error: checkError } = await sb
       .from('dreams')
-      .select('id, activated_at')
+      .select('id, activated_at, archived_at, paused_at')
       .eq('id', id)
       .maybeSingle()
     
@@ -275,6 +312,27 @@ export async function PATCH(req: Request) {
     } else if (action === 'unarchive') {
       updateData.archived_at = null
       console.log('📤 [DREAMS API] Unarchiving dream:', id)
+    } else if (action === 'pause') {
+      if (!owns.activated_at || owns.archived_at) {
+        return NextResponse.json({ error: 'Only active dreams can be paused' }, { status: 400 })
+      }
+      if (owns.paused_at) {
+        return NextResponse.json({ error: 'Dream is already paused' }, { status: 400 })
+      }
+      updateData.paused_at = new Date().toISOString()
+      console.log('⏸️ [DREAMS API] Pausing dream:', id)
+    } else if (action === 'resume') {
+      if (!owns.paused_at) {
+        return NextResponse.json({ error: 'Dream is not paused' }, { status: 400 })
+      }
+      // Resuming also rebuilds the plan, so it has its own flow
+      console.log('▶️ [DREAMS API] Resuming dream:', id)
+      const result = await resumeDream(id, user.id, token)
+      if (!result.success) {
+        console.error('❌ [DREAMS API] Resume error:', result.errors)
+        return NextResponse.json({ error: result.errors[0] || 'Failed to resume dream', details: result.errors }, { status: 500 })
+      }
+      return NextResponse.json(result)
     } else {
       console.error('❌ [DREAMS API] Invalid action:', action)
       return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../lib/supabaseServer';
-import { generateImage } from '../../../../lib/ai/gemini';
+import { generateImage } from '../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../lib/ai/responses';
 import { v4 as uuidv4 } from 'uuid';
 
 async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType: string }> {
@@ -171,11 +173,14 @@ Based on the skill levels and dreams, evolve the figurine by:
 Keep the same isometric, realistic style on a solid dark blue background. Maintain 4K resolution, studio lighting, soft shadows, no text/logos. The evolution should be noticeable but not dramatic - show growth and refinement. Make the person slightly more attractive and fashionable.`;
 
     console.log('🎨 Generating evolved figurine...');
+    await enforceAIQuota(request, 'image', user.id);
+
     let generatedImageData: string;
     try {
       const result = await generateImage({
         prompt,
-        referenceImage: originalFigurineImage
+        referenceImage: originalFigurineImage,
+        event: { userId: user.id, kind: 'image' }
       });
       generatedImageData = result.imageData;
       console.log('✅ Evolved figurine generated successfully');
@@ -270,6 +275,9 @@ Keep the same isometric, realistic style on a solid dark blue background. Mainta
     });
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('Error in evolution generation:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseServerAuth } from '../../../../lib/supabaseServer';
-import { generateImage } from '../../../../lib/ai/gemini';
+import { generateImage } from '../../../../lib/ai/provider';
+import { enforceAIQuota } from '../../../../lib/ai/quota';
+import { aiErrorResponse } from '../../../../lib/ai/responses';
 import { v4 as uuidv4 } from 'uuid';
 
 async function fileToBase64(file: File): Promise<string> {
@@ -89,6 +91,8 @@ export async function POST(request: NextRequest) {
     console.log('🎨 Generating figurine from selfie...');
     const prompt = `Make a miniature, full-body, isometric, realistic figurine of this person facing straight on with their arms down by their sides with a kind face on a dark blue background. Dress the figurine in a plain white crew-neck t-shirt, mid-blue straight-leg jeans, and clean white trainers. Minimal, 4K resolution, studio lighting, soft shadows, no text/logos. Make the person slightly more attractive and fashionable.`;
     
+    await enforceAIQuota(request, 'image', user.id);
+
     let generatedImageData: string;
     try {
       const result = await generateImage({
@@ -96,7 +100,8 @@ export async function POST(request: NextRequest) {
         referenceImage: {
           data: base64Image,
           mimeType: mimeType
-        }
+        },
+        event: { userId: user.id, kind: 'image' }
       });
       generatedImageData = result.imageData;
       console.log('✅ Figurine generated successfully');
@@ -167,6 +172,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    const aiResponse = aiErrorResponse(error);
+    if (aiResponse) return aiResponse;
+
     console.error('Error in figurine upload:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server'
+import { supabaseServer } from '../../../lib/supabaseServer'
+import { getWeeklyPlan, saveWeeklyPlan } from '../../../lib/scheduling/weeklyPlan'
+
+async function getUser(req: Request) {
+  const token = req.headers.get('authorization')?.replace('Bearer ','')
+  if (!token) return null
+  const supabase = supabaseServer()
+  const { data, error } = await supabase.auth.getUser(token)
+  return data.user ?? null
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string')
+
+// The week ahead for the planning screen: its occurrences, load per day and any saved plan
+export async function GET(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await getWeeklyPlan(user.id, token)
+
+    if (!result.success) {
+      const error = result.errors[0] || 'Failed to load the week ahead'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Get weekly plan error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Save the weekly plan: keep, move or drop the week's occurrences and set its focus dream
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get('authorization')?.replace('Bearer ','')
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const user = await getUser(req)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { week_start, focus_dream_id, keep = [], move = [], drop = [] } = await req.json()
+
+    if (!week_start) {
+      return NextResponse.json(
+        { error: 'week_start is required' },
+        { status: 400 }
+      )
+    }
+
+    const validMoves = Array.isArray(move) && move.every(
+      (item: any) => typeof item?.occurrence_id === 'string' && typeof item?.due_on === 'string'
+    )
+    if (!isStringArray(keep) || !isStringArray(drop) || !validMoves) {
+      return NextResponse.json(
+        { error: 'keep and drop must be lists of occurrence ids, and move a list of { occurrence_id, due_on }' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveWeeklyPlan(user.id, token, { week_start, focus_dream_id, keep, move, drop })
+
+    // The plan is saved even when some of the changes failed
+    if (!result.success && !result.plan) {
+      const error = result.errors[0] || 'Failed to save the weekly plan'
+      return NextResponse.json(
+        { error, details: result.errors },
+        { status: result.invalid ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Save weekly plan error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
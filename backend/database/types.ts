@@ -35,6 +35,7 @@ export interface Profile {
   figurine_url?: string;
   original_figurine_url?: string;
   current_evolution_level?: number;
+  timezone: string; // IANA timezone, e.g. 'Europe/London'
   created_at: string;
   updated_at: string;
 }
@@ -51,6 +52,74 @@ export interface NotificationPreferences {
   updated_at: string;
 }
 
+export interface SchedulingPreferences {
+  id: string;
+  user_id: string;
+  rest_days: number[]; // Weekdays with no scheduled actions (0 = Sunday ... 6 = Saturday)
+  global_daily_cap: number; // Max actions per day across all dreams
+  per_dream_cap: number; // Default max actions per day for a single dream
+  auto_roll_forward: boolean; // Move overdue occurrences forward automatically every day
+  day_start_time: string; // HH:MM:SS - where the Today timeline starts placing occurrences without a start time
+  planning_day?: number | null; // Weekday the app prompts for weekly planning (0 = Sunday); null = never
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OccurrenceRollForward {
+  id: string;
+  user_id: string;
+  occurrence_id: string;
+  dream_id: string;
+  from_date: string; // Date string YYYY-MM-DD
+  to_date: string; // Date string YYYY-MM-DD
+  rolled_at: string;
+  seen_at?: string; // Set when the user dismisses the summary
+}
+
+export interface AwayPeriod {
+  id: string;
+  user_id: string;
+  start_date: string; // Date string YYYY-MM-DD, first away day
+  end_date: string; // Date string YYYY-MM-DD, last away day (inclusive)
+  note?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BusyDay {
+  id: string;
+  user_id: string;
+  date: string; // Date string YYYY-MM-DD (user's local calendar date)
+  capacity_percent: number; // Share of the day's capacity left: 0 = blocked, 50 = half
+  title?: string | null; // Event name(s) that made the day busy
+  source: 'ics' | 'manual';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WeeklyPlan {
+  id: string;
+  user_id: string;
+  week_start: string; // YYYY-MM-DD, the Monday of the planned week
+  focus_dream_id?: string | null; // Gets an extra slot per day that week
+  kept_count: number;
+  moved_count: number;
+  dropped_count: number;
+  completed_at: string; // Last time the plan was saved
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CalendarFeed {
+  user_id: string;
+  token: string; // Secret part of the feed URL
+  created_at: string;
+  last_fetched_at?: string | null;
+}
+
+// Which dream wins a day when the user-wide daily cap is contested
+export type DreamPriority = 'high' | 'normal' | 'low';
+
 export interface Dream {
   id: string;
   user_id: string;
@@ -65,7 +134,9 @@ export interface Dream {
   obstacles?: string;
   enjoyment?: string;
   time_commitment?: { hours: number; minutes: number };
+  priority?: DreamPriority; // 'normal' when unset
   archived_at?: string;
+  paused_at?: string; // Set while the dream is paused
   created_at: string;
   updated_at: string;
 }
@@ -118,6 +189,13 @@ export interface AcceptanceCriterion {
   description: string;
 }
 
+// How a repeating action recurs. Weekdays use 0 = Sunday ... 6 = Saturday
+export type RecurrenceRule =
+  | { type: 'interval'; every_days: number }
+  | { type: 'weekdays'; days: number[] }
+  | { type: 'times_per_week'; count: number }
+  | { type: 'monthly'; week: 1 | 2 | 3 | 4 | -1; weekday: number }; // week -1 = last
+
 export interface Action {
   id: string;
   user_id: string;
@@ -128,7 +206,9 @@ export interface Action {
   difficulty: 'easy' | 'medium' | 'hard';
   repeat_every_days?: 1 | 2 | 3;
   repeat_until_date?: string;
+  recurrence?: RecurrenceRule | null; // Takes precedence over repeat_every_days
   slice_count_target?: number;
+  prerequisite_ids?: string[]; // Actions in the same dream to finish first
   acceptance_criteria?: AcceptanceCriterion[];
   acceptance_intro?: string;
   acceptance_outro?: string;
@@ -151,6 +231,8 @@ export interface ActionOccurrence {
   planned_due_on?: string; // Date string YYYY-MM-DD
   due_on?: string; // Date string YYYY-MM-DD
   defer_count: number;
+  pinned_at?: string; // Set when the user picks the due date by hand
+  planned_start_time?: string | null; // HH:MM:SS local time; null = anywhere in the day
   note?: string;
   completed_at?: string;
   ai_rating?: number; // 1-5
@@ -272,6 +354,16 @@ export interface Database {
         Insert: Omit<NotificationPreferences, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<NotificationPreferences, 'id' | 'created_at' | 'updated_at'>>;
       };
+      scheduling_preferences: {
+        Row: SchedulingPreferences;
+        Insert: Omit<SchedulingPreferences, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<SchedulingPreferences, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      occurrence_roll_forwards: {
+        Row: OccurrenceRollForward;
+        Insert: Omit<OccurrenceRollForward, 'id' | 'rolled_at'>;
+        Update: Partial<Pick<OccurrenceRollForward, 'seen_at'>>;
+      };
       dreams: {
         Row: Dream;
         Insert: Omit<Dream, 'id' | 'created_at' | 'updated_at'>;
@@ -408,6 +500,10 @@ export interface Database {
         Args: { p_occurrence_id: string };
         Returns: void;
       };
+      user_local_date: {
+        Args: { p_user_id: string };
+        Returns: string;
+      };
       check_new_achievements: {
         Args: Record<string, never>;
         Returns: {
@@ -463,6 +559,7 @@ export interface DreamWithStats {
   enjoyment?: string;
   time_commitment?: { hours: number; minutes: number };
   archived_at?: string;
+  paused_at?: string;
   created_at: string;
   updated_at: string;
   streak: number;
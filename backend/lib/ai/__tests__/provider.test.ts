@@ -0,0 +1,402 @@
+import { generateJson, generateImage, getProvider, setProvider, type AIProvider, type GenerateJsonOptions } from '../provider'
+import { IMAGE_FIXTURE } from '../fixtures'
+import { LOCAL_MODEL } from '../local'
+import { AREAS_SCHEMA, ACTIONS_SCHEMA, AI_REVIEW_SCHEMA } from '../schemas'
+import { validateAgainstSchema, AIValidationError } from '../validate'
+import { setCacheStore, type CachedGeneration } from '../cache'
+import { enforceAIQuota, setQuotaStore, getAIQuotaLimit, AIQuotaError, DEFAULT_AI_QUOTAS } from '../quota'
+import { buildAIReport, getAIPrices, DEFAULT_AI_PRICES, type AIEventRow } from '../report'
+import { aiErrorResponse } from '../responses'
+
+describe('AI Providers', () => {
+  const originalProvider = process.env.AI_PROVIDER
+
+  beforeEach(() => {
+    process.env.AI_PROVIDER = 'local'
+  })
+
+  afterAll(() => {
+    process.env.AI_PROVIDER = originalProvider
+    setProvider(null)
+  })
+
+  it('should pick the provider from AI_PROVIDER', () => {
+    expect(getProvider().name).toBe('local')
+
+    process.env.AI_PROVIDER = 'gemini'
+    expect(getProvider().name).toBe('gemini')
+
+    process.env.AI_PROVIDER = 'nope'
+    expect(() => getProvider()).toThrow(/Unknown AI_PROVIDER/)
+  })
+
+  it('should replay the same fixture for the same request', async () => {
+    const request = { system: 'Plan areas', messages: [{ text: 'Dream Title: "Run a marathon"' }], schema: AREAS_SCHEMA }
+
+    const first = await generateJson(request)
+    const second = await generateJson(request)
+
+    expect(first.model).toBe(LOCAL_MODEL)
+    expect(first.data.areas).toHaveLength(4)
+    expect(second).toEqual(first)
+    expect(first.usage?.totalTokenCount).toBeGreaterThan(0)
+  })
+
+  it('should give every area in an actions prompt at least two actions', async () => {
+    const prompt = 'Create execution-focused actions for this dream:\n\nAreas to work within:\n1. Running Base (🏃)\n2. Race Prep (🏁)\n\nPlease create 2-4 actions per area.'
+    const { data } = await generateJson({ messages: [{ text: prompt }], schema: ACTIONS_SCHEMA })
+
+    expect(data.actions.filter((action: any) => action.area_id === 'Running Base')).toHaveLength(2)
+    expect(data.actions.filter((action: any) => action.area_id === 'Race Prep')).toHaveLength(2)
+  })
+
+  it('should reject schemas without a fixture and return the image fixture', async () => {
+    await expect(generateJson({ messages: [{ text: 'hi' }], schema: { type: 'object' } })).rejects.toThrow(/No local AI fixture/)
+    expect((await generateImage({ prompt: 'A figurine' })).imageData).toBe(IMAGE_FIXTURE)
+  })
+})
+
+describe('Response Validation', () => {
+  const action = {
+    area_id: 'Running Base',
+    title: 'Run an easy mile',
+    est_minutes: 20,
+    difficulty: 'easy',
+    primary_skill: 'Fitness',
+    acceptance_criteria: [{ title: 'Run', description: 'Run one mile at an easy pace.' }],
+    position: 1,
+  }
+
+  // Answers each call with the next response in the list
+  const fakeProvider = (responses: any[]) => {
+    const calls: GenerateJsonOptions[] = []
+    const provider: AIProvider = {
+      name: 'local',
+      resolveModel: () => 'fake',
+      generateJson: async opts => {
+        calls.push(opts)
+        return { data: responses[calls.length - 1], usage: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 }, model: 'fake' }
+      },
+      generateImage: async () => ({ imageData: IMAGE_FIXTURE, model: 'fake' }),
+    }
+    return { provider, calls }
+  }
+
+  afterEach(() => {
+    setProvider(null)
+  })
+
+  it('should repair enum casing, stray optional fields and out-of-range numbers', () => {
+    const { data, repairs, issues } = validateAgainstSchema({
+      actions: [
+        { ...action, difficulty: ' Medium', primary_skill: 'fitness', secondary_skill: 'Juggling', repeat_every_days: 7, slice_count_target: null, est_minutes: '2.6' },
+        action,
+      ],
+    }, ACTIONS_SCHEMA)
+
+    expect(issues).toEqual([])
+    expect(data.actions[0]).toMatchObject({ difficulty: 'medium', primary_skill: 'Fitness', est_minutes: 5 })
+    expect(data.actions[0]).not.toHaveProperty('secondary_skill')
+    expect(data.actions[0]).not.toHaveProperty('repeat_every_days')
+    expect(data.actions[0]).not.toHaveProperty('slice_count_target')
+    expect(repairs.length).toBeGreaterThan(0)
+
+    const review = validateAgainstSchema({ rating: 140, feedback: 'x'.repeat(250) }, AI_REVIEW_SCHEMA).data
+    expect(review.rating).toBe(100)
+    expect(review.feedback).toHaveLength(200)
+  })
+
+  it('should drop out-of-range optional numbers instead of clamping them', () => {
+    const { data, issues } = validateAgainstSchema({
+      actions: [
+        { ...action, repeat_every_days: 0 },
+        { ...action, slice_count_target: 0 },
+      ],
+    }, ACTIONS_SCHEMA)
+
+    // 0 means "doesn't repeat"; raising it to 1 would make a one-off task a daily habit
+    expect(issues).toEqual([])
+    expect(data.actions[0]).not.toHaveProperty('repeat_every_days')
+    expect(data.actions[0].repeat_every_days || null).toBeNull()
+    expect(data.actions[1]).not.toHaveProperty('slice_count_target')
+  })
+
+  it('should report what cannot be repaired', () => {
+    const { issues } = validateAgainstSchema({
+      actions: [{ ...action, title: undefined, difficulty: 'brutal' }],
+    }, ACTIONS_SCHEMA)
+
+    expect(issues).toEqual([
+      { path: 'actions', message: 'should have at least 2 items, got 1' },
+      { path: 'actions[0].title', message: 'is required' },
+      { path: 'actions[0].difficulty', message: 'should be one of easy, medium, hard, got "brutal"' },
+    ])
+  })
+
+  it('should re-ask once with the problems and add up usage', async () => {
+    const { provider, calls } = fakeProvider([{ areas: [{ title: 'Base' }] }, { areas: [{ title: 'Base', reasoning: 'a' }, { title: 'Speed', reasoning: 'b' }] }])
+    setProvider(provider)
+
+    const result = await generateJson({ messages: [{ text: 'Plan areas' }], schema: AREAS_SCHEMA })
+
+    expect(calls).toHaveLength(2)
+    expect(calls[1].messages[1].text).toContain('areas[0].reasoning is required')
+    expect(result.data.areas).toHaveLength(2)
+    expect(result.usage?.totalTokenCount).toBe(30)
+  })
+
+  it('should throw AIValidationError when the re-ask is still invalid', async () => {
+    const { provider, calls } = fakeProvider([{ areas: [] }, { areas: [] }])
+    setProvider(provider)
+
+    const error = await generateJson({ messages: [{ text: 'Plan areas' }], schema: AREAS_SCHEMA }).catch(e => e)
+
+    expect(calls).toHaveLength(2)
+    expect(error).toBeInstanceOf(AIValidationError)
+    expect(error.code).toBe('ai_invalid_response')
+    expect(error.issues).toEqual([{ path: 'areas', message: 'should have at least 2 items, got 0' }])
+  })
+})
+
+describe('Response Cache', () => {
+  const entries = new Map<string, CachedGeneration>()
+  const request = { system: 'Plan areas', messages: [{ text: 'Dream Title: "Run a marathon"' }], schema: AREAS_SCHEMA, cache: { ttlSeconds: 60 } }
+  let calls = 0
+
+  beforeEach(() => {
+    entries.clear()
+    calls = 0
+    setCacheStore({
+      get: async key => entries.get(key) ?? null,
+      set: async (key, entry) => { entries.set(key, entry) },
+    })
+    setProvider({
+      name: 'local',
+      resolveModel: () => 'fake',
+      generateJson: async () => {
+        calls++
+        return { data: { areas: [{ title: 'Base', reasoning: 'a' }, { title: `Speed ${calls}`, reasoning: 'b' }] }, usage: { totalTokenCount: 15 }, model: 'fake' }
+      },
+      generateImage: async () => ({ imageData: IMAGE_FIXTURE, model: 'fake' }),
+    })
+  })
+
+  afterAll(() => {
+    setCacheStore(null)
+    setProvider(null)
+  })
+
+  it('should answer an identical request from the cache', async () => {
+    const first = await generateJson(request)
+    const second = await generateJson(request)
+
+    expect(calls).toBe(1)
+    expect(first.cached).toBeUndefined()
+    expect(second).toEqual({ ...first, cached: true })
+  })
+
+  it('should call the model when the request differs or does not opt in', async () => {
+    await generateJson(request)
+    await generateJson({ ...request, messages: [{ text: 'Dream Title: "Run a half marathon"' }] })
+    await generateJson({ ...request, cache: undefined })
+
+    expect(calls).toBe(3)
+    expect(entries.size).toBe(2)
+  })
+
+  it('should fall back to the model when the cache fails', async () => {
+    setCacheStore({
+      get: async () => { throw new Error('offline') },
+      set: async () => { throw new Error('offline') },
+    })
+
+    const result = await generateJson(request)
+
+    expect(calls).toBe(1)
+    expect(result.data.areas).toHaveLength(2)
+  })
+})
+
+describe('AI Quotas', () => {
+  const originalQuotas = process.env.AI_QUOTAS
+  const counts = new Map<string, number>()
+  const request = (headers: Record<string, string>) => new Request('http://localhost/api/create/generate-areas', { method: 'POST', headers })
+
+  beforeEach(() => {
+    counts.clear()
+    delete process.env.AI_QUOTAS
+    setQuotaStore({
+      consume: async (subject, kind, limit) => {
+        const key = `${subject}|${kind}`
+        const used = counts.get(key) ?? 0
+        if (used >= limit) return false
+        counts.set(key, used + 1)
+        return true
+      },
+    })
+  })
+
+  afterAll(() => {
+    process.env.AI_QUOTAS = originalQuotas
+    setQuotaStore(null)
+  })
+
+  it('should count anonymous calls per device and stop at the limit', async () => {
+    const limit = DEFAULT_AI_QUOTAS.anonymous.areas
+    for (let i = 0; i < limit; i++) await enforceAIQuota(request({ 'X-Device-Id': 'device-a' }), 'areas')
+
+    const error = await enforceAIQuota(request({ 'X-Device-Id': 'device-a' }), 'areas').catch(e => e)
+    expect(error).toBeInstanceOf(AIQuotaError)
+    expect(error).toMatchObject({ code: 'ai_quota_exceeded', kind: 'areas', tier: 'anonymous', limit })
+    expect(new Date(error.resetAt).getTime()).toBeGreaterThan(Date.now())
+
+    // Another device and another kind have their own counts
+    await expect(enforceAIQuota(request({ 'X-Device-Id': 'device-b' }), 'areas')).resolves.toBeUndefined()
+    await expect(enforceAIQuota(request({ 'X-Device-Id': 'device-a' }), 'actions')).resolves.toBeUndefined()
+  })
+
+  it('should take overrides from AI_QUOTAS and treat 0 as off', async () => {
+    process.env.AI_QUOTAS = JSON.stringify({ trial: { image: 3 }, anonymous: { dreamboard: 0 } })
+
+    expect(getAIQuotaLimit('trial', 'image')).toBe(3)
+    expect(getAIQuotaLimit('pro', 'image')).toBe(DEFAULT_AI_QUOTAS.pro.image)
+    await expect(enforceAIQuota(request({ 'X-Device-Id': 'device-a' }), 'dreamboard')).rejects.toThrow(AIQuotaError)
+    expect(counts.size).toBe(0)
+
+    process.env.AI_QUOTAS = 'not json'
+    expect(() => getAIQuotaLimit('trial', 'image')).toThrow(/Invalid AI_QUOTAS/)
+  })
+
+  it('should not count cache hits against the quota', async () => {
+    const entries = new Map<string, CachedGeneration>()
+    let calls = 0
+    setCacheStore({
+      get: async key => entries.get(key) ?? null,
+      set: async (key, entry) => { entries.set(key, entry) },
+    })
+    setProvider({
+      name: 'local',
+      resolveModel: () => 'fake',
+      generateJson: async () => {
+        calls++
+        return { data: { areas: [{ title: 'Base', reasoning: 'a' }, { title: 'Speed', reasoning: 'b' }] }, model: 'fake' }
+      },
+      generateImage: async () => ({ imageData: IMAGE_FIXTURE, model: 'fake' }),
+    })
+    process.env.AI_QUOTAS = JSON.stringify({ anonymous: { areas: 1 } })
+
+    try {
+      const options = {
+        messages: [{ text: 'Dream Title: "Run a marathon"' }],
+        schema: AREAS_SCHEMA,
+        cache: { ttlSeconds: 60 },
+        quota: { request: request({ 'X-Device-Id': 'device-a' }), kind: 'areas' as const },
+      }
+      await generateJson(options)
+      const second = await generateJson(options)
+
+      expect(second.cached).toBe(true)
+      expect(calls).toBe(1)
+      expect(counts.get('device:device-a|areas')).toBe(1)
+
+      // A miss still counts, and this device is at its limit of 1
+      await expect(generateJson({ ...options, messages: [{ text: 'Dream Title: "Swim a mile"' }] })).rejects.toThrow(AIQuotaError)
+      expect(calls).toBe(1)
+    } finally {
+      setCacheStore(null)
+      setProvider(null)
+    }
+  })
+
+  it('should let the call through when the count fails', async () => {
+    setQuotaStore({ consume: async () => { throw new Error('offline') } })
+
+    await expect(enforceAIQuota(request({}), 'celebrity-dreams')).resolves.toBeUndefined()
+  })
+
+  it('should answer quota and validation errors the same way in every route', async () => {
+    const quota = aiErrorResponse(new AIQuotaError('image', 'trial', 30, new Date(Date.now() + 60_000).toISOString()))!
+    expect(quota.status).toBe(429)
+    expect(Number(quota.headers.get('Retry-After'))).toBeGreaterThan(0)
+    expect(await quota.json()).toMatchObject({ code: 'ai_quota_exceeded', kind: 'image', tier: 'trial', limit: 30 })
+
+    const invalid = aiErrorResponse(new AIValidationError([{ path: 'areas', message: 'is required' }]))!
+    expect(invalid.status).toBe(502)
+    expect(await invalid.json()).toMatchObject({ code: 'ai_invalid_response', issues: [{ path: 'areas', message: 'is required' }] })
+
+    expect(aiErrorResponse(new Error('offline'))).toBeNull()
+  })
+})
+
+describe('AI Cost Report', () => {
+  const originalPrices = process.env.AI_PRICES
+  const range = { from: '2026-03-01T00:00:00.000Z', to: '2026-03-03T00:00:00.000Z' }
+  const prices = { 'model-a': { input: 1, output: 2 }, 'image-model': { input: 0, output: 0, per_call: 0.04 } }
+
+  const event = (overrides: Partial<AIEventRow>): AIEventRow => ({
+    user_id: 'user-1',
+    kind: 'areas',
+    model: 'model-a',
+    prompt_tokens: 1000,
+    output_tokens: 500,
+    latency_ms: 1000,
+    cache_hit: false,
+    error: null,
+    created_at: '2026-03-01T10:00:00.000Z',
+    ...overrides,
+  })
+
+  afterAll(() => {
+    process.env.AI_PRICES = originalPrices
+  })
+
+  it('should add up cost, error rate and latency percentiles per model', () => {
+    const latencies = [100, 200, 300, 400, 500, 600, 700, 800, 900, 5000]
+    const events = [
+      ...latencies.map(latency_ms => event({ latency_ms })),
+      event({ cache_hit: true, prompt_tokens: 0, output_tokens: 0, latency_ms: 5 }),
+      event({ error: 'Gemini timed out', prompt_tokens: null, output_tokens: null, latency_ms: 30000 }),
+      event({ model: 'image-model', kind: 'image', prompt_tokens: null, output_tokens: null }),
+      event({ model: 'image-model', kind: 'image', error: 'No image data', prompt_tokens: null, output_tokens: null }),
+    ]
+
+    const report = buildAIReport(events, new Map(), prices, range)
+    const modelA = report.by_model.find(row => row.key === 'model-a')!
+
+    // 10 model calls at 1000 input and 500 output tokens, $1 and $2 per million
+    expect(modelA).toMatchObject({ calls: 12, errors: 1, error_rate: 0.0833, cache_hits: 1, cost_usd: 0.02 })
+    expect(modelA.p50_latency_ms).toBe(600)
+    expect(modelA.p95_latency_ms).toBe(30000)
+
+    // Image calls are charged per successful call
+    expect(report.by_model.find(row => row.key === 'image-model')).toMatchObject({ calls: 2, errors: 1, cost_usd: 0.04 })
+    expect(report.totals).toMatchObject({ key: 'all', calls: 14, errors: 2, cost_usd: 0.06 })
+    expect(report.by_kind.map(row => row.key)).toEqual(['areas', 'image'])
+  })
+
+  it('should group by UTC day and signup cohort and list unpriced models', () => {
+    const events = [
+      event({ user_id: 'user-1', created_at: '2026-03-01T23:30:00.000-02:00' }),
+      event({ user_id: 'user-2', created_at: '2026-03-01T08:00:00.000Z' }),
+      event({ user_id: 'user-3', model: 'new-model' }),
+    ]
+    const signups = new Map([['user-1', '2026-01-15T12:00:00Z'], ['user-2', '2026-02-03T12:00:00Z']])
+
+    const report = buildAIReport(events, signups, prices, range)
+
+    expect(report.by_day.map(row => [row.key, row.calls])).toEqual([['2026-03-01', 2], ['2026-03-02', 1]])
+    expect(report.by_cohort.map(row => row.key)).toEqual(['2026-01', '2026-02', 'unknown'])
+    expect(report.unpriced_models).toEqual(['new-model'])
+    expect(report.by_model.find(row => row.key === 'new-model')!.cost_usd).toBe(0)
+  })
+
+  it('should take prices from AI_PRICES', () => {
+    process.env.AI_PRICES = JSON.stringify({ 'new-model': { input: 1, output: 1 } })
+
+    expect(getAIPrices()['new-model']).toEqual({ input: 1, output: 1 })
+    expect(getAIPrices()['gpt-4.1-mini']).toEqual(DEFAULT_AI_PRICES['gpt-4.1-mini'])
+
+    process.env.AI_PRICES = 'not json'
+    expect(() => getAIPrices()).toThrow(/Invalid AI_PRICES/)
+  })
+})
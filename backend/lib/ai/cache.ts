@@ -0,0 +1,91 @@
+// lib/ai/cache.ts
+// Content-addressed cache of generateJson results. Routes opt in per call with `cache`; the same
+// model, system prompt, schema and messages then get the stored answer until it expires.
+import { createHash } from "crypto";
+import { supabaseServer } from "../supabaseServer";
+import type { AIUsage, GenerateJsonOptions } from "./provider";
+
+export type CachedGeneration = {
+  data: any;
+  usage?: AIUsage;
+  model: string;
+};
+
+/**
+ * Where cached generations live: the ai_cache table by default, swappable with setCacheStore
+ */
+export interface AICacheStore {
+  get(key: string): Promise<CachedGeneration | null>;
+  set(key: string, entry: CachedGeneration, ttlSeconds: number): Promise<void>;
+}
+
+// Service role only: onboarding requests have no user, and entries aren't tied to one
+const supabaseStore: AICacheStore = {
+  async get(key) {
+    const { data, error } = await supabaseServer()
+      .from("ai_cache")
+      .select("response, usage, model")
+      .eq("key", key)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+    if (error) throw error;
+    return data ? { data: data.response, usage: data.usage ?? undefined, model: data.model } : null;
+  },
+
+  async set(key, entry, ttlSeconds) {
+    const sb = supabaseServer();
+    const now = new Date();
+    const { error } = await sb.from("ai_cache").upsert({
+      key,
+      response: entry.data,
+      usage: entry.usage ?? null,
+      model: entry.model,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    });
+    if (error) throw error;
+
+    // Keep the table small; expired rows are never read again
+    await sb.from("ai_cache").delete().lt("expires_at", now.toISOString());
+  },
+};
+
+let storeOverride: AICacheStore | null = null;
+
+/**
+ * Swap the cache store in-process (e.g. for tests); pass null to go back to ai_cache
+ */
+export function setCacheStore(store: AICacheStore | null) {
+  storeOverride = store;
+}
+
+const getStore = () => storeOverride ?? supabaseStore;
+
+/**
+ * SHA-256 of everything that decides the answer: provider and model, system prompt, schema and
+ * messages (images included). Token limits and thinking settings are left out.
+ */
+export function cacheKey(provider: string, opts: GenerateJsonOptions): string {
+  return createHash("sha256")
+    .update(JSON.stringify([provider, opts.modelId ?? null, opts.system ?? null, opts.schema, opts.messages]))
+    .digest("hex");
+}
+
+// Cache problems never fail a generation; they only cost the saving
+
+export async function readCache(key: string): Promise<CachedGeneration | null> {
+  try {
+    return await getStore().get(key);
+  } catch (error) {
+    console.error("[AI-CACHE] Read failed:", error);
+    return null;
+  }
+}
+
+export async function writeCache(key: string, entry: CachedGeneration, ttlSeconds: number) {
+  try {
+    await getStore().set(key, entry, ttlSeconds);
+  } catch (error) {
+    console.error("[AI-CACHE] Write failed:", error);
+  }
+}
@@ -0,0 +1,141 @@
+// lib/ai/fixtures.ts
+// Canned responses the local provider replays, one per response schema. Each is built from the
+// prompt text only, so the same request always gets the same answer.
+import {
+  PLAN_SCHEMA,
+  GOAL_FEASIBILITY_SCHEMA,
+  TIMELINE_FEASIBILITY_SCHEMA,
+  AREAS_SCHEMA,
+  ACTIONS_SCHEMA,
+  AI_REVIEW_SCHEMA,
+  CELEBRITY_DREAMS_SCHEMA,
+  DREAMBOARD_ANALYSIS_SCHEMA,
+} from "./schemas";
+
+export type JsonFixture = {
+  name: string; // File name (without .json) an AI_FIXTURES_DIR override is read from
+  respond: (prompt: string) => unknown;
+};
+
+// 1x1 transparent PNG
+export const IMAGE_FIXTURE = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+// Area titles from the numbered list the actions prompts send, e.g. "1. Running Base (🏃)"
+function promptAreaTitles(prompt: string): string[] {
+  const list = prompt.split(/Areas? to (?:work within|regenerate)[^\n]*:\n/)[1]?.split("\n\n")[0] ?? "";
+  const titles = list
+    .split("\n")
+    .map(line => line.match(/^\d+\.\s*(.+?)(?:\s*\([^)]*\))?\s*$/)?.[1])
+    .filter((title): title is string => !!title);
+  return titles.length > 0 ? titles : ["Foundations"];
+}
+
+const lastDateIn = (prompt: string) => prompt.match(/\d{4}-\d{2}-\d{2}/g)?.pop() ?? "2030-01-01";
+
+const criteria = (what: string) => [
+  { title: `Start ${what}`, description: `Set aside the time and begin ${what}.` },
+  { title: `Finish ${what}`, description: `Complete ${what} and note what you learned.` },
+];
+
+export const JSON_FIXTURES = new Map<object, JsonFixture>([
+  [GOAL_FEASIBILITY_SCHEMA, {
+    name: "goal-feasibility",
+    respond: () => ({
+      summary: "This is a meaningful goal with a clear direction. Making it a little more specific will make progress easier to see.",
+      titleSuggestions: [
+        { title: "Build a steady weekly habit", emoji: "🎯", reasoning: "A habit framing makes progress measurable." },
+        { title: "Reach a clear first milestone", emoji: "🚀", reasoning: "A concrete milestone gives the plan a target." },
+      ],
+    }),
+  }],
+  [TIMELINE_FEASIBILITY_SCHEMA, {
+    name: "timeline-feasibility",
+    respond: prompt => ({
+      assessment: "The timeline is realistic with steady daily effort.",
+      suggestedEndDate: lastDateIn(prompt),
+      reasoning: "The daily time commitment leaves enough room for the planned work before the end date.",
+    }),
+  }],
+  [AREAS_SCHEMA, {
+    name: "areas",
+    respond: () => ({
+      areas: [
+        { title: "Foundations", reasoning: "Set up what everything else depends on." },
+        { title: "Skill Building", reasoning: "Learn the core skills the dream needs." },
+        { title: "Practice", reasoning: "Put the skills to work regularly." },
+        { title: "Milestones", reasoning: "Mark and celebrate visible progress." },
+      ],
+    }),
+  }],
+  [ACTIONS_SCHEMA, {
+    name: "actions",
+    respond: prompt => ({
+      actions: promptAreaTitles(prompt).flatMap((area, index) => [
+        {
+          area_id: area,
+          title: `Plan ${area.toLowerCase()}`,
+          est_minutes: 30,
+          difficulty: "easy",
+          primary_skill: "Learning",
+          acceptance_intro: `Get ${area.toLowerCase()} started.`,
+          acceptance_criteria: criteria("the plan"),
+          acceptance_outro: "Done when the plan is written down.",
+          position: index * 2 + 1,
+        },
+        {
+          area_id: area,
+          title: `Work on ${area.toLowerCase()}`,
+          est_minutes: 45,
+          difficulty: "medium",
+          primary_skill: "Learning",
+          repeat_every_days: 2,
+          acceptance_intro: `Keep ${area.toLowerCase()} moving.`,
+          acceptance_criteria: criteria("a session"),
+          acceptance_outro: "Done when the session is complete.",
+          position: index * 2 + 2,
+        },
+      ]),
+    }),
+  }],
+  [AI_REVIEW_SCHEMA, {
+    name: "review",
+    respond: () => ({ rating: 80, feedback: "Solid work that meets the criteria. Add a little more detail next time." }),
+  }],
+  [CELEBRITY_DREAMS_SCHEMA, {
+    name: "celebrity-dreams",
+    respond: () => ({
+      dreams: [
+        { title: "Run a marathon", emoji: "🏃", reasoning: "Known for endurance training." },
+        { title: "Write a memoir", emoji: "📖", reasoning: "Has shared their story widely." },
+        { title: "Learn a new language", emoji: "🗣️", reasoning: "Works with people around the world." },
+        { title: "Start a business", emoji: "💼", reasoning: "Has built ventures of their own." },
+        { title: "Master an instrument", emoji: "🎸", reasoning: "Music is part of their life." },
+        { title: "Travel the world", emoji: "✈️", reasoning: "Often on the road." },
+      ],
+    }),
+  }],
+  [DREAMBOARD_ANALYSIS_SCHEMA, {
+    name: "dreamboard-analysis",
+    respond: () => ({
+      dreams: [
+        { title: "Get fit and strong", emoji: "💪", interpretation: "Images of training and healthy food." },
+        { title: "Travel more", emoji: "🌍", interpretation: "Beaches, mountains and maps." },
+        { title: "Grow my career", emoji: "📈", interpretation: "Office and success imagery." },
+        { title: "Build a calm home", emoji: "🏡", interpretation: "Cozy interiors and plants." },
+        { title: "Learn to cook", emoji: "🍳", interpretation: "Kitchens and plated dishes." },
+      ],
+    }),
+  }],
+  [PLAN_SCHEMA, {
+    name: "plan",
+    respond: () => ({
+      dreamTitle: "My dream",
+      areas: [
+        {
+          title: "Foundations",
+          actions: [{ title: "Write down the goal", est_minutes: 15, difficulty: "easy", primary_skill: "Writing", acceptance_criteria: criteria("the goal") }],
+        },
+      ],
+    }),
+  }],
+]);
@@ -1,7 +1,6 @@
 // lib/ai/gemini.ts
 import { GoogleGenerativeAI } from "@google/generative-ai";
-
-if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY missing");
+import type { AIProvider, GenerateJsonOptions, GenerateJsonResult, GenerateImageOptions, GenerateImageResult } from "./provider";
 
 export const GEMINI_MODEL = "gemini-3-flash-preview";
 export const GEMINI_FLASH_MODEL = "gemini-3-flash-preview";
@@ -17,11 +16,23 @@ export const THINKING_BUDGETS = {
   DISABLED: 0        // Disable thinking entirely
 } as const;
 
-const client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+let client: GoogleGenerativeAI | null = null;
+
+// Created on first use, so other providers run without a Gemini key
+function getClient() {
+  if (!process.env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY missing");
+  if (!client) client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  return client;
+}
+
+// Model ids meant for another provider fall back to the Gemini default
+function resolveModelId(modelId: string | undefined, fallback: string) {
+  return modelId && modelId.startsWith("gemini") ? modelId : fallback;
+}
 
 export function getModel(systemInstruction?: string, modelId = GEMINI_MODEL) {
   try {
-    const model = client.getGenerativeModel({
+    const model = getClient().getGenerativeModel({
       model: modelId,
       ...(systemInstruction ? { systemInstruction } : {}),
     });
@@ -162,18 +173,10 @@ function validateResponseCompleteness(text: string): { isValid: boolean; reason?
  * @param opts.modelId Model to use (default: GEMINI_MODEL)
  * @param opts.enableThinking Enable thinking mode (default: false)
  * @param opts.thinkingBudget Number of tokens to allocate for thinking (default: THINKING_BUDGETS.MODERATE)
- * @returns Promise with parsed JSON data and usage metadata
+ * @returns Promise with parsed JSON data, usage metadata and the model used
  */
-export async function generateJson(opts: {
-  system?: string;
-  messages: Array<{ text?: string; inlineData?: { data: string; mimeType: string } }>;
-  schema: any;
-  maxOutputTokens?: number;
-  modelId?: string;
-  enableThinking?: boolean;
-  thinkingBudget?: number;
-}) {
-  const modelId = opts.modelId ?? GEMINI_MODEL;
+async function generateJsonWithGemini(opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const modelId = resolveModelId(opts.modelId, GEMINI_MODEL);
   const MAX_RETRIES = 2;
   const MAX_OUTPUT_TOKENS_CAP = 16384; // Increased for large action generation (8-16 actions)
   let currentMaxOutputTokens = opts.maxOutputTokens ?? 600;
@@ -348,7 +351,7 @@ export async function generateJson(opts: {
         .replace(/:\s*([0-9]+)\s*\n\s*,\s*\n\s*([a-zA-Z_])/g, ': $1,\n      "$2')
       
       const parsedData = JSON.parse(cleanedText);
-      return { data: parsedData, usage };
+      return { data: parsedData, usage, model: modelId };
     } catch (parseError) {
       // If we get an "unterminated string" error, try to fix it
       if (parseError instanceof Error && parseError.message.includes('Unterminated string')) {
@@ -403,7 +406,7 @@ export async function generateJson(opts: {
                 try {
                   const parsedData = JSON.parse(fixedText);
                   console.log('[GEMINI] Successfully fixed unterminated string by escaping quotes');
-                  return { data: parsedData, usage };
+                  return { data: parsedData, usage, model: modelId };
                 } catch (fixError) {
                   console.error('[GEMINI] Fix attempt failed:', fixError);
                 }
@@ -481,7 +484,7 @@ export async function generateJson(opts: {
         
         const parsedData = JSON.parse(aggressiveCleanup);
         console.log('✅ Successfully parsed after aggressive cleanup');
-        return { data: parsedData, usage };
+        return { data: parsedData, usage, model: modelId };
       } catch (secondParseError) {
         console.error('[GEMINI] Second parse attempt failed:', secondParseError instanceof Error ? secondParseError.message : String(secondParseError));
         console.error('[GEMINI] Second parse stack:', secondParseError instanceof Error ? secondParseError.stack : 'N/A');
@@ -505,7 +508,8 @@ export async function generateJson(opts: {
               rating: 50, 
               feedback: "Unable to process review due to technical issues." 
             }, 
-            usage 
+            usage,
+            model: modelId
           };
         }
         
@@ -541,14 +545,10 @@ export async function generateJson(opts: {
  * @param opts.prompt Text prompt describing the image to generate
  * @param opts.referenceImage Optional base64-encoded reference image (for figurine adaptation)
  * @param opts.modelId Model to use (default: GEMINI_IMAGE_MODEL)
- * @returns Promise with image data as base64 string and usage metadata
+ * @returns Promise with image data as base64 string, usage metadata and the model used
  */
-export async function generateImage(opts: {
-  prompt: string;
-  referenceImage?: { data: string; mimeType: string };
-  modelId?: string;
-}): Promise<{ imageData: string; usage: any }> {
-  const modelId = opts.modelId ?? GEMINI_IMAGE_MODEL;
+async function generateImageWithGemini(opts: GenerateImageOptions): Promise<GenerateImageResult> {
+  const modelId = resolveModelId(opts.modelId, GEMINI_IMAGE_MODEL);
   const model = getModel(undefined, modelId);
   
   try {
@@ -816,9 +816,16 @@ export async function generateImage(opts: {
       totalTokens: usage?.totalTokenCount || 0
     });
     
-    return { imageData, usage };
+    return { imageData, usage, model: modelId };
   } catch (error) {
     console.error('[GEMINI] Image generation failed:', error);
     throw new Error(`Gemini image generation failed: ${error instanceof Error ? error.message : String(error)}`);
   }
-}
\ No newline at end of file
+}
+
+export const geminiProvider: AIProvider = {
+  name: "gemini",
+  resolveModel: (modelId, type) => resolveModelId(modelId, type === "image" ? GEMINI_IMAGE_MODEL : GEMINI_MODEL),
+  generateJson: generateJsonWithGemini,
+  generateImage: generateImageWithGemini,
+};
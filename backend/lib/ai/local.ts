@@ -0,0 +1,54 @@
+// lib/ai/local.ts
+import fs from "fs";
+import path from "path";
+import { JSON_FIXTURES, IMAGE_FIXTURE } from "./fixtures";
+import type { AIProvider, AIUsage, GenerateJsonOptions, GenerateJsonResult, GenerateImageOptions, GenerateImageResult } from "./provider";
+
+export const LOCAL_MODEL = "local-fixtures";
+
+// Rough token count (≈ 4 characters per token), so telemetry has something to record
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+function usageFor(input: string, output: string): AIUsage {
+  const promptTokenCount = estimateTokens(input);
+  const candidatesTokenCount = estimateTokens(output);
+  return { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount };
+}
+
+// A recorded response in AI_FIXTURES_DIR replaces the built-in one with the same name
+function readOverride(name: string): unknown | undefined {
+  const dir = process.env.AI_FIXTURES_DIR;
+  if (!dir) return undefined;
+
+  const file = path.join(dir, `${name}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Answer from the fixture for the request's schema. No network, and the same request always
+ * gets the same response.
+ */
+async function generateJsonLocally(opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const fixture = JSON_FIXTURES.get(opts.schema);
+  if (!fixture) throw new Error("No local AI fixture for this schema. Add one to lib/ai/fixtures.ts.");
+
+  const prompt = opts.messages.map(part => part.text ?? "").join("\n");
+  const data = readOverride(fixture.name) ?? fixture.respond(prompt);
+  console.log(`[LOCAL-AI] Replaying "${fixture.name}" fixture`);
+
+  return { data, usage: usageFor(`${opts.system ?? ""}${prompt}`, JSON.stringify(data)), model: LOCAL_MODEL };
+}
+
+async function generateImageLocally(opts: GenerateImageOptions): Promise<GenerateImageResult> {
+  console.log('[LOCAL-AI] Replaying "image" fixture');
+  const imageData = (readOverride("image") as { imageData?: string } | undefined)?.imageData ?? IMAGE_FIXTURE;
+  return { imageData, usage: usageFor(opts.prompt, ""), model: LOCAL_MODEL };
+}
+
+export const localProvider: AIProvider = {
+  name: "local",
+  resolveModel: () => LOCAL_MODEL,
+  generateJson: generateJsonLocally,
+  generateImage: generateImageLocally,
+};
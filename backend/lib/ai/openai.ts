@@ -0,0 +1,125 @@
+// lib/ai/openai.ts
+import OpenAI, { toFile } from "openai";
+import type { AIProvider, AIUsage, GenerateJsonOptions, GenerateJsonResult, GenerateImageOptions, GenerateImageResult } from "./provider";
+
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4.1-mini";
+export const OPENAI_IMAGE_MODEL = process.env.OPENAI_IMAGE_MODEL || "gpt-image-1";
+
+const MAX_RETRIES = 2;
+const MAX_OUTPUT_TOKENS_CAP = 16384;
+
+let client: OpenAI | null = null;
+
+// Created on first use, so other providers run without an OpenAI key
+function getClient() {
+  if (!process.env.OPENAI_API_KEY) throw new Error("OPENAI_API_KEY missing");
+  if (!client) client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  return client;
+}
+
+// Routes pass Gemini model ids; those map to the OpenAI default
+function resolveModelId(modelId: string | undefined, fallback: string) {
+  return modelId && !modelId.startsWith("gemini") ? modelId : fallback;
+}
+
+function toUsage(usage?: { prompt_tokens?: number; completion_tokens?: number; input_tokens?: number; output_tokens?: number; total_tokens?: number } | null): AIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokenCount: usage.prompt_tokens ?? usage.input_tokens,
+    candidatesTokenCount: usage.completion_tokens ?? usage.output_tokens,
+    totalTokenCount: usage.total_tokens,
+  };
+}
+
+/**
+ * Generate JSON with an OpenAI chat model using structured outputs. Responses cut off at the token
+ * limit are retried with double the limit, like the Gemini provider. Thinking options are ignored.
+ */
+async function generateJsonWithOpenAI(opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const model = resolveModelId(opts.modelId, OPENAI_MODEL);
+  let maxOutputTokens = opts.maxOutputTokens ?? 600;
+
+  const content = opts.messages.map(part =>
+    part.inlineData
+      ? { type: "image_url" as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+      : { type: "text" as const, text: part.text ?? "" }
+  );
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      console.log(`[OPENAI] Retry attempt ${attempt}/${MAX_RETRIES} with max_completion_tokens=${maxOutputTokens}`);
+    }
+
+    let resp;
+    try {
+      resp = await getClient().chat.completions.create({
+        model,
+        messages: [
+          ...(opts.system ? [{ role: "system" as const, content: opts.system }] : []),
+          { role: "user" as const, content },
+        ],
+        response_format: { type: "json_schema", json_schema: { name: "response", schema: opts.schema, strict: false } },
+        max_completion_tokens: maxOutputTokens,
+      });
+      console.log(`[OPENAI] API call successful (attempt ${attempt + 1})`);
+    } catch (apiError) {
+      console.error(`[OPENAI] API call failed (attempt ${attempt + 1}):`, apiError);
+      throw new Error(`OpenAI API call failed: ${apiError instanceof Error ? apiError.message : String(apiError)}`);
+    }
+
+    const choice = resp.choices[0];
+    const usage = toUsage(resp.usage);
+    const text = (choice?.message?.content ?? "").trim().replace(/^```(?:json)?\s*\n?/, "").replace(/\n?```\s*$/, "");
+
+    if (choice?.finish_reason === "length" && attempt < MAX_RETRIES && maxOutputTokens < MAX_OUTPUT_TOKENS_CAP) {
+      maxOutputTokens = Math.min(maxOutputTokens * 2, MAX_OUTPUT_TOKENS_CAP);
+      console.warn(`[OPENAI] Response truncated. Retrying with max_completion_tokens=${maxOutputTokens}`);
+      continue;
+    }
+
+    try {
+      return { data: JSON.parse(text), usage, model };
+    } catch (parseError) {
+      console.error(`[OPENAI] JSON Parse Error (attempt ${attempt + 1}):`, parseError instanceof Error ? parseError.message : String(parseError));
+      console.error("[OPENAI] First 500 chars:", text.substring(0, 500));
+      throw new Error(`AI returned invalid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}. Finish reason: ${choice?.finish_reason ?? "unknown"}`);
+    }
+  }
+
+  throw new Error("Failed to generate JSON after all retry attempts");
+}
+
+/**
+ * Generate an image with an OpenAI image model. A reference image (e.g. the user's figurine) is
+ * sent through the edit endpoint so the result is adapted from it.
+ */
+async function generateImageWithOpenAI(opts: GenerateImageOptions): Promise<GenerateImageResult> {
+  const model = resolveModelId(opts.modelId, OPENAI_IMAGE_MODEL);
+
+  try {
+    console.log(`[OPENAI] Generating image with model: ${model}`);
+    const result = opts.referenceImage
+      ? await getClient().images.edit({
+          model,
+          prompt: opts.prompt,
+          image: await toFile(Buffer.from(opts.referenceImage.data, "base64"), "reference.png", { type: opts.referenceImage.mimeType }),
+        })
+      : await getClient().images.generate({ model, prompt: opts.prompt });
+
+    const imageData = result.data?.[0]?.b64_json;
+    if (!imageData) throw new Error("No image data found in OpenAI response");
+
+    console.log(`[OPENAI] Successfully generated image (${imageData.length} bytes)`);
+    return { imageData, usage: toUsage(result.usage), model };
+  } catch (error) {
+    console.error("[OPENAI] Image generation failed:", error);
+    throw new Error(`OpenAI image generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export const openaiProvider: AIProvider = {
+  name: "openai",
+  resolveModel: (modelId, type) => resolveModelId(modelId, type === "image" ? OPENAI_IMAGE_MODEL : OPENAI_MODEL),
+  generateJson: generateJsonWithOpenAI,
+  generateImage: generateImageWithOpenAI,
+};
@@ -0,0 +1,220 @@
+// lib/ai/provider.ts
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { localProvider } from "./local";
+import { cacheKey, readCache, writeCache } from "./cache";
+import { saveAIEvent } from "./telemetry";
+import { enforceAIQuota, AIQuotaError, type AIQuotaKind } from "./quota";
+import { validateAgainstSchema, describeIssue, AIValidationError, type AIValidationIssue } from "./validate";
+
+/**
+ * Token usage, in the shape ai_events is recorded with (Gemini's usageMetadata field names)
+ */
+export type AIUsage = {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+};
+
+export type AIMessagePart = { text?: string; inlineData?: { data: string; mimeType: string } };
+
+/**
+ * Who a call is for; with it, the call is recorded in ai_events whether it succeeds or fails
+ */
+export type AIEventContext = { userId: string; kind: string };
+
+/**
+ * The request a call is counted against in enforceAIQuota; userId is unset for onboarding calls
+ */
+export type AIQuotaContext = { request: Request; kind: AIQuotaKind; userId?: string | null };
+
+export interface GenerateJsonOptions {
+  system?: string;
+  messages: AIMessagePart[];
+  schema: any; // JSON schema for the response
+  maxOutputTokens?: number;
+  modelId?: string; // Providers fall back to their own default for another provider's model
+  enableThinking?: boolean;
+  thinkingBudget?: number;
+  cache?: { ttlSeconds: number }; // Reuse an identical earlier answer for this long (see cache.ts)
+  quota?: AIQuotaContext; // Checked on a cache miss only, so cached answers don't use up the quota
+  event?: AIEventContext;
+}
+
+export interface GenerateImageOptions {
+  prompt: string;
+  referenceImage?: { data: string; mimeType: string }; // base64
+  modelId?: string;
+  event?: AIEventContext;
+}
+
+export interface GenerateJsonResult {
+  data: any;
+  usage?: AIUsage;
+  model: string; // The model that actually answered
+  cached?: boolean; // Served from the cache; usage is that of the original call
+}
+
+export interface GenerateImageResult {
+  imageData: string; // base64
+  usage?: AIUsage;
+  model: string;
+}
+
+/**
+ * A backend that can answer generateJson and generateImage
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  resolveModel(modelId: string | undefined, type: "json" | "image"): string; // The model a call with this modelId goes to
+  generateJson(opts: GenerateJsonOptions): Promise<GenerateJsonResult>;
+  generateImage(opts: GenerateImageOptions): Promise<GenerateImageResult>;
+}
+
+export type AIProviderName = "gemini" | "openai" | "local";
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  local: localProvider,
+};
+
+let override: AIProvider | null = null;
+
+/**
+ * The provider every route goes through: AI_PROVIDER (gemini, openai or local), Gemini by default
+ */
+export function getProvider(): AIProvider {
+  if (override) return override;
+
+  const name = (process.env.AI_PROVIDER || "gemini").toLowerCase();
+  const provider = PROVIDERS[name as AIProviderName];
+  if (!provider) throw new Error(`Unknown AI_PROVIDER "${name}". Use gemini, openai or local.`);
+  return provider;
+}
+
+/**
+ * Swap the provider in-process (e.g. for tests); pass null to go back to AI_PROVIDER
+ */
+export function setProvider(provider: AIProvider | null) {
+  override = provider;
+}
+
+// Tells the model exactly what was wrong with its last answer
+function reaskPart(issues: AIValidationIssue[], previous: unknown): AIMessagePart {
+  return {
+    text: `Your previous response did not match the required JSON schema:
+${issues.map(issue => `- ${describeIssue(issue)}`).join("\n")}
+
+Previous response:
+${JSON.stringify(previous)}
+
+Return the complete response again with these problems fixed.`,
+  };
+}
+
+function addUsage(a?: AIUsage, b?: AIUsage): AIUsage | undefined {
+  if (!a || !b) return a ?? b;
+  const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x ?? 0) + (y ?? 0));
+  return {
+    promptTokenCount: sum(a.promptTokenCount, b.promptTokenCount),
+    candidatesTokenCount: sum(a.candidatesTokenCount, b.candidatesTokenCount),
+    totalTokenCount: sum(a.totalTokenCount, b.totalTokenCount),
+  };
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Generate a JSON response matching `schema` with the configured provider. The response is
+ * validated against the schema and small slips are repaired (see validate.ts). If anything can't
+ * be repaired, the model is asked once more with the list of problems; a second bad answer throws
+ * AIValidationError. Usage covers both calls.
+ *
+ * With `cache`, an identical request answered within the TTL is returned from the cache
+ * (`cached: true`) without calling the model. Only validated answers are cached. With `quota`, a
+ * cache miss is counted by enforceAIQuota before the model is called.
+ *
+ * With `event`, the call is recorded in ai_events: the model, usage and latency, or the error.
+ */
+export async function generateJson(opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const provider = getProvider();
+  const startTime = Date.now();
+
+  let result: GenerateJsonResult;
+  try {
+    result = await generateCachedJson(provider, opts);
+  } catch (error) {
+    // Over-quota calls never reached the model
+    if (opts.event && !(error instanceof AIQuotaError)) {
+      await saveAIEvent({ ...opts.event, model: provider.resolveModel(opts.modelId, "json"), latencyMs: Date.now() - startTime, error: errorMessage(error) });
+    }
+    throw error;
+  }
+
+  if (opts.event) {
+    await saveAIEvent({ ...opts.event, model: result.model, usage: result.usage, latencyMs: Date.now() - startTime, cacheHit: result.cached });
+  }
+  return result;
+}
+
+async function generateCachedJson(provider: AIProvider, opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const key = opts.cache ? cacheKey(provider.name, opts) : null;
+  if (key) {
+    const hit = await readCache(key);
+    if (hit) {
+      console.log("[AI] Cache hit");
+      return { ...hit, cached: true };
+    }
+  }
+
+  if (opts.quota) await enforceAIQuota(opts.quota.request, opts.quota.kind, opts.quota.userId);
+
+  const result = await generateValidJson(provider, opts);
+  if (key) await writeCache(key, result, opts.cache!.ttlSeconds);
+  return result;
+}
+
+async function generateValidJson(provider: AIProvider, opts: GenerateJsonOptions): Promise<GenerateJsonResult> {
+  const first = await provider.generateJson(opts);
+
+  let checked = validateAgainstSchema(first.data, opts.schema);
+  if (checked.repairs.length > 0) console.log("[AI] Repaired response:", checked.repairs);
+  if (checked.issues.length === 0) return { ...first, data: checked.data };
+
+  console.warn("[AI] Response failed schema validation, asking again:", checked.issues.map(describeIssue));
+  const retry = await provider.generateJson({ ...opts, messages: [...opts.messages, reaskPart(checked.issues, first.data)] });
+
+  checked = validateAgainstSchema(retry.data, opts.schema);
+  if (checked.repairs.length > 0) console.log("[AI] Repaired response:", checked.repairs);
+  if (checked.issues.length > 0) {
+    console.error("[AI] Response failed schema validation again:", checked.issues.map(describeIssue));
+    throw new AIValidationError(checked.issues);
+  }
+
+  return { data: checked.data, usage: addUsage(first.usage, retry.usage), model: retry.model };
+}
+
+/**
+ * Generate an image with the configured provider. With `event`, the call is recorded in ai_events
+ * like generateJson.
+ */
+export async function generateImage(opts: GenerateImageOptions): Promise<GenerateImageResult> {
+  const provider = getProvider();
+  const startTime = Date.now();
+
+  let result: GenerateImageResult;
+  try {
+    result = await provider.generateImage(opts);
+  } catch (error) {
+    if (opts.event) {
+      await saveAIEvent({ ...opts.event, model: provider.resolveModel(opts.modelId, "image"), latencyMs: Date.now() - startTime, error: errorMessage(error) });
+    }
+    throw error;
+  }
+
+  if (opts.event) {
+    await saveAIEvent({ ...opts.event, model: result.model, usage: result.usage, latencyMs: Date.now() - startTime });
+  }
+  return result;
+}
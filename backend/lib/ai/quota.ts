@@ -0,0 +1,188 @@
+// lib/ai/quota.ts
+// Daily limits on AI calls per route kind and entitlement tier. Routes call enforceAIQuota right
+// before they call the model; over the limit it throws AIQuotaError, which routes return as a 429.
+import { supabaseServer } from "../supabaseServer";
+
+export type AIQuotaKind =
+  | "goal-feasibility"
+  | "feasibility"
+  | "timeline-feasibility"
+  | "areas"
+  | "actions"
+  | "action_review"
+  | "celebrity-dreams"
+  | "dreamboard"
+  | "image";
+
+export type AIQuotaTier = "anonymous" | "trial" | "pro";
+
+// Calls per UTC day. Only areas, actions, celebrity-dreams and dreamboard allow onboarding calls
+// without an account; anonymous callers are counted by the X-Device-Id header.
+export const DEFAULT_AI_QUOTAS: Record<AIQuotaTier, Record<AIQuotaKind, number>> = {
+  anonymous: {
+    "goal-feasibility": 0,
+    feasibility: 0,
+    "timeline-feasibility": 0,
+    areas: 10,
+    actions: 10,
+    action_review: 0,
+    "celebrity-dreams": 10,
+    dreamboard: 5,
+    image: 0,
+  },
+  trial: {
+    "goal-feasibility": 30,
+    feasibility: 30,
+    "timeline-feasibility": 30,
+    areas: 20,
+    actions: 40,
+    action_review: 30,
+    "celebrity-dreams": 20,
+    dreamboard: 10,
+    image: 30,
+  },
+  pro: {
+    "goal-feasibility": 100,
+    feasibility: 100,
+    "timeline-feasibility": 100,
+    areas: 60,
+    actions: 120,
+    action_review: 100,
+    "celebrity-dreams": 60,
+    dreamboard: 30,
+    image: 100,
+  },
+};
+
+/**
+ * Thrown by enforceAIQuota when the caller has used up today's calls of this kind. Routes return
+ * it as a 429 with `code`, `kind`, `tier`, `limit` and `reset_at`.
+ */
+export class AIQuotaError extends Error {
+  readonly code = "ai_quota_exceeded";
+  readonly kind: AIQuotaKind;
+  readonly tier: AIQuotaTier;
+  readonly limit: number;
+  readonly resetAt: string; // Next UTC midnight
+
+  constructor(kind: AIQuotaKind, tier: AIQuotaTier, limit: number, resetAt: string) {
+    super(limit === 0 ? `AI ${kind} requests aren't available on the ${tier} tier` : `Daily limit of ${limit} AI ${kind} requests reached`);
+    this.name = "AIQuotaError";
+    this.kind = kind;
+    this.tier = tier;
+    this.limit = limit;
+    this.resetAt = resetAt;
+  }
+
+  // Seconds until the quota resets, for the Retry-After header
+  get retryAfterSeconds() {
+    return Math.max(1, Math.ceil((new Date(this.resetAt).getTime() - Date.now()) / 1000));
+  }
+}
+
+/**
+ * Counts calls per subject, kind and UTC day
+ */
+export interface AIQuotaStore {
+  // Count one call unless `limit` is already reached; false when it was
+  consume(subject: string, kind: AIQuotaKind, limit: number): Promise<boolean>;
+}
+
+// consume_ai_quota checks and increments in one statement, so parallel calls can't overshoot
+const supabaseStore: AIQuotaStore = {
+  async consume(subject, kind, limit) {
+    const { data, error } = await supabaseServer().rpc("consume_ai_quota", { p_subject: subject, p_kind: kind, p_limit: limit });
+    if (error) throw error;
+    return data !== null;
+  },
+};
+
+let storeOverride: AIQuotaStore | null = null;
+
+/**
+ * Swap the quota store in-process (e.g. for tests); pass null to go back to ai_quota_usage
+ */
+export function setQuotaStore(store: AIQuotaStore | null) {
+  storeOverride = store;
+}
+
+/**
+ * The limit for a tier and kind: DEFAULT_AI_QUOTAS, with any overrides from the AI_QUOTAS env
+ * variable (JSON such as {"trial":{"image":10}})
+ */
+export function getAIQuotaLimit(tier: AIQuotaTier, kind: AIQuotaKind): number {
+  const raw = process.env.AI_QUOTAS;
+  if (raw) {
+    let overrides: any;
+    try {
+      overrides = JSON.parse(raw);
+    } catch {
+      throw new Error(`Invalid AI_QUOTAS: ${raw}. Use JSON like {"trial":{"image":10}}.`);
+    }
+    const override = overrides?.[tier]?.[kind];
+    if (typeof override === "number") return override;
+  }
+  return DEFAULT_AI_QUOTAS[tier][kind];
+}
+
+/**
+ * Pro with an active paid subscription, otherwise trial
+ */
+export async function getAIQuotaTier(userId: string): Promise<AIQuotaTier> {
+  const { data: subscriptions, error } = await supabaseServer()
+    .from("user_subscriptions")
+    .select("is_active, is_trial, current_period_end")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const now = new Date();
+  const paid = (subscriptions ?? []).some(sub => sub.is_active && !sub.is_trial && new Date(sub.current_period_end) > now);
+  return paid ? "pro" : "trial";
+}
+
+// Anonymous callers by device id, falling back to their IP for app builds that don't send one
+function anonymousSubject(req: Request): string {
+  const deviceId = req.headers.get("x-device-id")?.trim();
+  if (deviceId) return `device:${deviceId.slice(0, 128)}`;
+  const ip = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim() || req.headers.get("x-real-ip");
+  return `ip:${ip || "unknown"}`;
+}
+
+function nextUtcMidnight(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+}
+
+/**
+ * Count one AI call of `kind` for the signed-in user (or the anonymous device) and throw
+ * AIQuotaError if today's limit is already used up. Call it right before the model call, after
+ * input checks and cached results, so only real calls count; generateJson does this itself when
+ * given `quota`. If the quota can't be read the call is let through.
+ */
+export async function enforceAIQuota(req: Request, kind: AIQuotaKind, userId?: string | null): Promise<void> {
+  let tier: AIQuotaTier = "anonymous";
+  if (userId) {
+    try {
+      tier = await getAIQuotaTier(userId);
+    } catch (error) {
+      console.error("[AI-QUOTA] Tier lookup failed, allowing the call:", error);
+      return;
+    }
+  }
+
+  const limit = getAIQuotaLimit(tier, kind);
+  let allowed = limit > 0;
+  if (allowed) {
+    try {
+      allowed = await (storeOverride ?? supabaseStore).consume(userId ? `user:${userId}` : anonymousSubject(req), kind, limit);
+    } catch (error) {
+      console.error("[AI-QUOTA] Quota check failed, allowing the call:", error);
+      return;
+    }
+  }
+
+  if (!allowed) {
+    console.warn(`[AI-QUOTA] ${tier} ${userId ? `user ${userId}` : "device"} is over the ${kind} limit (${limit}/day)`);
+    throw new AIQuotaError(kind, tier, limit, nextUtcMidnight());
+  }
+}
@@ -0,0 +1,144 @@
+// lib/ai/report.ts
+// Cost and latency of AI calls, built from ai_events rows. The admin ai-report route fetches the
+// rows; everything here is pure so it can be tested without a database.
+
+/**
+ * USD per million tokens, plus an optional flat price per successful call for models billed per
+ * image rather than per token
+ */
+export type AIPrice = { input: number; output: number; per_call?: number };
+
+// List prices at the time of writing. Image models bill output tokens at the image rate.
+export const DEFAULT_AI_PRICES: Record<string, AIPrice> = {
+  "gemini-3-flash-preview": { input: 0.5, output: 3 },
+  "gemini-3-pro-image-preview": { input: 2, output: 120 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-image-1": { input: 5, output: 40 },
+  "local-fixtures": { input: 0, output: 0 },
+};
+
+/**
+ * DEFAULT_AI_PRICES, with models added or replaced by the AI_PRICES env variable (JSON such as
+ * {"gpt-4.1-mini":{"input":0.4,"output":1.6}})
+ */
+export function getAIPrices(): Record<string, AIPrice> {
+  const raw = process.env.AI_PRICES;
+  if (!raw) return DEFAULT_AI_PRICES;
+  try {
+    return { ...DEFAULT_AI_PRICES, ...JSON.parse(raw) };
+  } catch {
+    throw new Error(`Invalid AI_PRICES: ${raw}. Use JSON like {"gpt-4.1-mini":{"input":0.4,"output":1.6}}.`);
+  }
+}
+
+/**
+ * The ai_events columns the report reads
+ */
+export type AIEventRow = {
+  user_id: string;
+  kind: string;
+  model: string;
+  prompt_tokens: number | null;
+  output_tokens: number | null;
+  latency_ms: number | null;
+  cache_hit: boolean | null;
+  error: string | null;
+  created_at: string;
+};
+
+export type AIReportRow = {
+  key: string; // The model, kind, day (YYYY-MM-DD, UTC) or cohort
+  calls: number;
+  errors: number;
+  error_rate: number; // errors / calls
+  cache_hits: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  p50_latency_ms: number | null; // Model calls only; cache hits would hide how slow the model is
+  p95_latency_ms: number | null;
+};
+
+export type AIReport = {
+  from: string;
+  to: string;
+  totals: AIReportRow;
+  by_model: AIReportRow[];
+  by_kind: AIReportRow[];
+  by_day: AIReportRow[];
+  by_cohort: AIReportRow[]; // Signup month (YYYY-MM) of the user, or "unknown"
+  unpriced_models: string[]; // Models with calls but no price; their cost is counted as 0
+};
+
+/**
+ * What one call cost. Cache hits and failed calls have no tokens and aren't charged per call.
+ */
+export function eventCost(event: AIEventRow, price: AIPrice | undefined): number {
+  if (!price || event.cache_hit) return 0;
+  const tokens = ((event.prompt_tokens ?? 0) * price.input + (event.output_tokens ?? 0) * price.output) / 1_000_000;
+  return tokens + (event.error ? 0 : price.per_call ?? 0);
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+function summarize(key: string, events: AIEventRow[], prices: Record<string, AIPrice>): AIReportRow {
+  const latencies = events
+    .filter(event => !event.cache_hit && event.latency_ms !== null)
+    .map(event => event.latency_ms!)
+    .sort((a, b) => a - b);
+  const errors = events.filter(event => event.error).length;
+
+  return {
+    key,
+    calls: events.length,
+    errors,
+    error_rate: events.length ? round(errors / events.length, 4) : 0,
+    cache_hits: events.filter(event => event.cache_hit).length,
+    prompt_tokens: events.reduce((sum, event) => sum + (event.prompt_tokens ?? 0), 0),
+    output_tokens: events.reduce((sum, event) => sum + (event.output_tokens ?? 0), 0),
+    cost_usd: round(events.reduce((sum, event) => sum + eventCost(event, prices[event.model]), 0), 6),
+    p50_latency_ms: percentile(latencies, 50),
+    p95_latency_ms: percentile(latencies, 95),
+  };
+}
+
+function groupBy(events: AIEventRow[], keyOf: (event: AIEventRow) => string, prices: Record<string, AIPrice>): AIReportRow[] {
+  const groups = new Map<string, AIEventRow[]>();
+  for (const event of events) {
+    const key = keyOf(event);
+    const group = groups.get(key);
+    if (group) group.push(event);
+    else groups.set(key, [event]);
+  }
+  return [...groups.keys()].sort().map(key => summarize(key, groups.get(key)!, prices));
+}
+
+/**
+ * Aggregate ai_events rows by model, kind, UTC day and signup cohort. `signupByUser` maps user ids
+ * to profiles.created_at; users missing from it land in the "unknown" cohort.
+ */
+export function buildAIReport(
+  events: AIEventRow[],
+  signupByUser: Map<string, string>,
+  prices: Record<string, AIPrice>,
+  range: { from: string; to: string }
+): AIReport {
+  const cohortOf = (event: AIEventRow) => signupByUser.get(event.user_id)?.slice(0, 7) ?? "unknown";
+
+  return {
+    from: range.from,
+    to: range.to,
+    totals: summarize("all", events, prices),
+    by_model: groupBy(events, event => event.model, prices),
+    by_kind: groupBy(events, event => event.kind, prices),
+    by_day: groupBy(events, event => new Date(event.created_at).toISOString().slice(0, 10), prices),
+    by_cohort: groupBy(events, cohortOf, prices),
+    unpriced_models: [...new Set(events.map(event => event.model))].filter(model => !prices[model]).sort(),
+  };
+}
@@ -0,0 +1,24 @@
+// lib/ai/responses.ts
+// How routes answer with the AI layer's own errors, so every route reports them the same way.
+import { NextResponse } from "next/server";
+import { AIValidationError } from "./validate";
+import { AIQuotaError } from "./quota";
+
+/**
+ * The response for an error thrown by the AI layer: a 502 when the model's answer failed
+ * validation, a 429 with Retry-After when the caller is over the daily quota. Null for any other
+ * error, which the route handles as before.
+ */
+export function aiErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof AIValidationError) {
+    console.error("❌ AI response failed validation:", error.issues);
+    return NextResponse.json({ error: error.message, code: error.code, issues: error.issues }, { status: 502 });
+  }
+  if (error instanceof AIQuotaError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, kind: error.kind, tier: error.tier, limit: error.limit, reset_at: error.resetAt },
+      { status: 429, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+    );
+  }
+  return null;
+}
@@ -65,7 +65,7 @@ export const GOAL_FEASIBILITY_SCHEMA = {
       items: {
         type: "object",
         properties: {
-          title: { type: "string", maxLength: 10 },
+          title: { type: "string", description: "Improved dream title (max 10 words)" },
           emoji: { type: "string" },
           reasoning: { type: "string" }
         },
@@ -126,8 +126,8 @@ export const ACTIONS_SCHEMA = {
         properties: {
           area_id: { type: "string" },
           title: { type: "string" },
-          est_minutes: { type: "integer" },
-          difficulty: { type: "string" },
+          est_minutes: { type: "integer", minimum: 5 },
+          difficulty: { type: "string", enum: ["easy", "medium", "hard"] },
           primary_skill: { type: "string", enum: [
             'Fitness', 'Strength', 'Nutrition', 'Writing', 'Learning', 'Languages',
             'Music', 'Creativity', 'Business', 'Marketing', 'Sales', 'Mindfulness',
@@ -138,9 +138,9 @@ export const ACTIONS_SCHEMA = {
             'Music', 'Creativity', 'Business', 'Marketing', 'Sales', 'Mindfulness',
             'Communication', 'Finance', 'Travel', 'Career', 'Coding'
           ] },
-          repeat_every_days: { type: "integer" },
+          repeat_every_days: { type: "integer", minimum: 1, maximum: 3 },
           repeat_until_date: { type: "string", description: "Optional end date for the repeating action in YYYY-MM-DD format" },
-          slice_count_target: { type: "integer" },
+          slice_count_target: { type: "integer", minimum: 1 },
           acceptance_criteria: {
             type: "array",
             items: { 
@@ -3,17 +3,36 @@ import type { SupabaseClient } from "@supabase/supabase-js";
 
 type Usage = { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number; };
 
-export async function saveAIEvent(userId: string, kind: string, model: string, usage?: Usage, latencyMs?: number, client?: SupabaseClient) {
-  const sb = client || supabaseServer();
-  await sb
-    .from("ai_events")
-    .insert({
-      user_id: userId,
-      kind,
-      model,
-      prompt_tokens: usage?.promptTokenCount ?? null,
-      output_tokens: usage?.candidatesTokenCount ?? null,
-      total_tokens: usage?.totalTokenCount ?? null,
-      latency_ms: latencyMs ?? null,
-    });
+export type AIEvent = {
+  userId: string;
+  kind: string;
+  model: string;
+  usage?: Usage;
+  latencyMs?: number;
+  cacheHit?: boolean; // Recorded with zero tokens, since no model was called
+  error?: string; // Set when the call failed
+};
+
+// Never throws: a lost event shouldn't fail the request it describes
+export async function saveAIEvent(event: AIEvent, client?: SupabaseClient) {
+  try {
+    const sb = client || supabaseServer();
+    const usage = event.cacheHit ? { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 } : event.usage;
+    const { error } = await sb
+      .from("ai_events")
+      .insert({
+        user_id: event.userId,
+        kind: event.kind,
+        model: event.model,
+        prompt_tokens: usage?.promptTokenCount ?? null,
+        output_tokens: usage?.candidatesTokenCount ?? null,
+        total_tokens: usage?.totalTokenCount ?? null,
+        latency_ms: event.latencyMs ?? null,
+        cache_hit: event.cacheHit ?? false,
+        error: event.error?.slice(0, 1000) ?? null,
+      });
+    if (error) console.error("[AI-EVENTS] Failed to record event:", error);
+  } catch (error) {
+    console.error("[AI-EVENTS] Failed to record event:", error);
+  }
 }
@@ -0,0 +1,187 @@
+// lib/ai/validate.ts
+// Checks generateJson results against the JSON schemas in schemas.ts. Small slips a model makes
+// are repaired in place; anything that can't be repaired comes back as an issue.
+
+export type AIValidationIssue = {
+  path: string; // e.g. "actions[3].difficulty"
+  message: string;
+};
+
+export type AIValidationResult = {
+  data: any;
+  repairs: string[]; // What was changed, for logging
+  issues: AIValidationIssue[]; // What couldn't be fixed
+};
+
+/**
+ * Thrown by generateJson when a response still breaks its schema after the re-ask. Routes turn it
+ * into a 502 with `code` and `issues`, so the app can tell it apart from other failures.
+ */
+export class AIValidationError extends Error {
+  readonly code = "ai_invalid_response";
+  readonly issues: AIValidationIssue[];
+
+  constructor(issues: AIValidationIssue[]) {
+    super(`AI response did not match the expected format: ${issues.map(describeIssue).join("; ")}`);
+    this.name = "AIValidationError";
+    this.issues = issues;
+  }
+}
+
+export const describeIssue = (issue: AIValidationIssue) => `${issue.path || "response"} ${issue.message}`;
+
+const MISSING = Symbol("missing");
+
+type Walk = { repairs: string[]; issues: AIValidationIssue[] };
+
+const join = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const typeOf = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value);
+
+// Returns the repaired value, or MISSING when an optional field should be dropped
+function check(value: any, schema: any, path: string, optional: boolean, walk: Walk): any {
+  if (!schema || typeof schema !== "object") return value;
+
+  switch (schema.type) {
+    case "object": {
+      if (typeOf(value) !== "object") {
+        walk.issues.push({ path, message: `should be an object, got ${typeOf(value)}` });
+        return value;
+      }
+      const result: Record<string, any> = { ...value };
+      const required: string[] = schema.required ?? [];
+      for (const [key, propSchema] of Object.entries<any>(schema.properties ?? {})) {
+        const isRequired = required.includes(key);
+        const propPath = join(path, key);
+
+        if (result[key] === undefined || result[key] === null) {
+          if (isRequired) {
+            walk.issues.push({ path: propPath, message: "is required" });
+          } else if (result[key] === null) {
+            delete result[key];
+            walk.repairs.push(`${propPath}: dropped null`);
+          }
+          continue;
+        }
+
+        const checked = check(result[key], propSchema, propPath, !isRequired, walk);
+        if (checked === MISSING) delete result[key];
+        else result[key] = checked;
+      }
+      return result;
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        walk.issues.push({ path, message: `should be an array, got ${typeOf(value)}` });
+        return value;
+      }
+      let items = value;
+      if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+        walk.repairs.push(`${path}: kept the first ${schema.maxItems} of ${items.length} items`);
+        items = items.slice(0, schema.maxItems);
+      }
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        walk.issues.push({ path, message: `should have at least ${schema.minItems} items, got ${items.length}` });
+      }
+      return items.map((item, index) => {
+        const checked = check(item, schema.items, join(path, index), false, walk);
+        return checked === MISSING ? item : checked;
+      });
+    }
+
+    case "string": {
+      let text = value;
+      if (typeof text === "number" || typeof text === "boolean") {
+        text = String(text);
+        walk.repairs.push(`${path}: converted ${typeOf(value)} to string`);
+      }
+      if (typeof text !== "string") {
+        walk.issues.push({ path, message: `should be a string, got ${typeOf(value)}` });
+        return value;
+      }
+
+      if (schema.enum && !schema.enum.includes(text)) {
+        const normalized = text.trim().toLowerCase();
+        const match = schema.enum.find((option: string) => option.toLowerCase() === normalized);
+        if (match) {
+          walk.repairs.push(`${path}: "${text}" → "${match}"`);
+          return match;
+        }
+        if (optional) {
+          walk.repairs.push(`${path}: dropped unknown value "${text}"`);
+          return MISSING;
+        }
+        walk.issues.push({ path, message: `should be one of ${schema.enum.join(", ")}, got "${text}"` });
+        return text;
+      }
+
+      // maxLength counts characters, not UTF-16 units, so emoji aren't split
+      const chars = Array.from(text);
+      if (schema.maxLength !== undefined && chars.length > schema.maxLength) {
+        walk.repairs.push(`${path}: truncated to ${schema.maxLength} characters`);
+        return chars.slice(0, schema.maxLength).join("").trimEnd();
+      }
+      return text;
+    }
+
+    case "integer":
+    case "number": {
+      let num = value;
+      if (typeof num === "string" && num.trim() !== "" && !isNaN(Number(num))) {
+        num = Number(num);
+        walk.repairs.push(`${path}: converted "${value}" to a number`);
+      }
+      if (typeof num !== "number" || !isFinite(num)) {
+        walk.issues.push({ path, message: `should be a number, got ${typeOf(value)}` });
+        return value;
+      }
+      if (schema.type === "integer" && !Number.isInteger(num)) {
+        walk.repairs.push(`${path}: rounded ${num}`);
+        num = Math.round(num);
+      }
+      // An optional number out of range is dropped rather than clamped: 0 repeats means "doesn't
+      // repeat", and raising it to 1 would turn a one-off task into a daily habit
+      const outOfRange = (schema.minimum !== undefined && num < schema.minimum) || (schema.maximum !== undefined && num > schema.maximum);
+      if (outOfRange && optional) {
+        walk.repairs.push(`${path}: dropped out-of-range ${num}`);
+        return MISSING;
+      }
+      if (schema.minimum !== undefined && num < schema.minimum) {
+        walk.repairs.push(`${path}: raised ${num} to ${schema.minimum}`);
+        num = schema.minimum;
+      }
+      if (schema.maximum !== undefined && num > schema.maximum) {
+        walk.repairs.push(`${path}: lowered ${num} to ${schema.maximum}`);
+        num = schema.maximum;
+      }
+      return num;
+    }
+
+    case "boolean": {
+      if (value === "true" || value === "false") {
+        walk.repairs.push(`${path}: converted "${value}" to a boolean`);
+        return value === "true";
+      }
+      if (typeof value !== "boolean") walk.issues.push({ path, message: `should be a boolean, got ${typeOf(value)}` });
+      return value;
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check `data` against a response schema, repairing what can be repaired without guessing:
+ * enum casing and whitespace, null, unknown or out-of-range optional fields, numeric strings,
+ * non-integers, required numbers outside minimum/maximum (clamped), and strings or arrays over their
+ * max length. Missing required
+ * fields, wrong types and too few items are returned as issues.
+ */
+export function validateAgainstSchema(data: unknown, schema: any): AIValidationResult {
+  const walk: Walk = { repairs: [], issues: [] };
+  const checked = check(data, schema, "", false, walk);
+  return { data: checked === MISSING ? data : checked, ...walk };
+}
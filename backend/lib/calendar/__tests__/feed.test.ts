@@ -0,0 +1,79 @@
+import { renderCalendarFeed, foldLine, occurrenceLink, type FeedOccurrence } from '../feed'
+import { localTimeToUtc } from '../../scheduling/timezone'
+
+describe('Calendar Feed', () => {
+  const now = new Date('2026-03-01T09:30:00Z')
+
+  const occurrence = (overrides: Partial<FeedOccurrence> = {}): FeedOccurrence => ({
+    id: 'occ-1',
+    due_on: '2026-03-02',
+    planned_start_time: null,
+    est_minutes: 45,
+    action_title: 'Run an easy mile',
+    area_title: 'Running Base',
+    dream_title: 'Run a marathon',
+    ...overrides,
+  })
+
+  // Unfolded content lines of the feed
+  const contentLines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n')
+
+  it('should write all-day events on the due date', () => {
+    const ics = renderCalendarFeed([occurrence()], 'Europe/London', now)
+    const lines = contentLines(ics)
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(lines).toEqual(expect.arrayContaining([
+      'UID:occ-1@dreamer',
+      'DTSTAMP:20260301T093000Z',
+      'DTSTART;VALUE=DATE:20260302',
+      'DTEND;VALUE=DATE:20260303',
+      'TRANSP:TRANSPARENT',
+      `URL:${occurrenceLink('occ-1')}`,
+    ]))
+  })
+
+  it('should write timed events in UTC for the user\'s timezone', () => {
+    const ics = renderCalendarFeed([
+      occurrence({ planned_start_time: '07:15:00' }),
+      occurrence({ id: 'occ-2', due_on: '2026-07-02', planned_start_time: '23:30', est_minutes: null }),
+    ], 'America/New_York', now)
+    const lines = contentLines(ics)
+
+    // EST in March, EDT in July; 30 minutes without an estimate
+    expect(lines).toEqual(expect.arrayContaining([
+      'DTSTART:20260302T121500Z',
+      'DTEND:20260302T130000Z',
+      'DTSTART:20260703T033000Z',
+      'DTEND:20260703T040000Z',
+    ]))
+    expect(ics).not.toContain('TZID')
+  })
+
+  it('should convert local times across DST changes', () => {
+    expect(localTimeToUtc('2026-03-29', '09:00', 'Europe/London').toISOString()).toBe('2026-03-29T08:00:00.000Z')
+    expect(localTimeToUtc('2026-03-28', '09:00', 'Europe/London').toISOString()).toBe('2026-03-28T09:00:00.000Z')
+    expect(localTimeToUtc('2026-03-02', '09:00', 'Not/A_Zone').toISOString()).toBe('2026-03-02T09:00:00.000Z')
+  })
+
+  it('should escape text', () => {
+    const ics = renderCalendarFeed([occurrence({ action_title: 'Stretch; rest, then\\ repeat\nnext day' })], 'UTC', now)
+
+    expect(contentLines(ics)).toContain('SUMMARY:Stretch\\; rest\\, then\\\\ repeat\\nnext day')
+  })
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const title = '🏃 Run '.repeat(20)
+    const ics = renderCalendarFeed([occurrence({ action_title: title, dream_title: 'Café › Crème brûlée '.repeat(5) })], 'UTC', now)
+
+    for (const line of ics.split('\r\n')) expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    expect(ics).not.toContain('�')
+    expect(contentLines(ics)).toContain(`SUMMARY:${title}`)
+
+    // Every piece is whole characters, so it survives a UTF-8 round trip
+    const folded = foldLine(`SUMMARY:${title}`)
+    expect(Buffer.from(folded, 'utf8').toString('utf8')).toBe(folded)
+    expect(folded.split('\r\n ').join('')).toBe(`SUMMARY:${title}`)
+    expect(foldLine('SUMMARY:short')).toBe('SUMMARY:short')
+  })
+})
@@ -0,0 +1,165 @@
+import { randomBytes } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchUserTimezone, localDateInTimezone, localTimeToUtc } from '../scheduling/timezone'
+
+// How far ahead the feed lists occurrences
+export const FEED_DAYS = 60
+
+// Used for timed events when the action has no estimate
+const DEFAULT_EVENT_MINUTES = 30
+
+// Opens the occurrence in the app (handled in navigation/index.tsx)
+export const occurrenceLink = (occurrenceId: string) => `dreamer://occurrence/${occurrenceId}`
+
+/**
+ * An occurrence as it appears in the feed
+ */
+export interface FeedOccurrence {
+  id: string
+  due_on: string
+  planned_start_time?: string | null // HH:MM[:SS] local time
+  est_minutes?: number | null
+  action_title: string
+  area_title: string
+  dream_title: string
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * A new feed token: 32 random bytes, URL-safe
+ */
+export function generateFeedToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+// RFC 5545 text escaping
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+/**
+ * RFC 5545 folding: lines are at most 75 octets of UTF-8, continuing after CRLF and a space.
+ * Folds fall between characters, so multi-byte characters and emoji are never split.
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8')
+    // The leading space of a continuation line counts toward its 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const compactDate = (date: string) => date.replace(/-/g, '')
+
+const utcStamp = (at: Date) => at.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+
+/**
+ * Render occurrences as an ICS calendar. Occurrences with a start time become timed events
+ * (lasting est_minutes) at that time in the user's timezone, written in UTC so clients don't need
+ * a VTIMEZONE; the rest are all-day events on their due date.
+ */
+export function renderCalendarFeed(occurrences: FeedOccurrence[], timezone: string, now: Date = new Date()): string {
+  const stamp = utcStamp(now)
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Dreamer//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Dreamer',
+    `X-WR-TIMEZONE:${timezone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H'
+  ]
+
+  for (const occ of occurrences) {
+    const link = occurrenceLink(occ.id)
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${occ.id}@dreamer`,
+      `DTSTAMP:${stamp}`
+    )
+
+    if (occ.planned_start_time) {
+      const minutes = occ.est_minutes && occ.est_minutes > 0 ? occ.est_minutes : DEFAULT_EVENT_MINUTES
+      const start = localTimeToUtc(occ.due_on, occ.planned_start_time, timezone)
+      lines.push(
+        `DTSTART:${utcStamp(start)}`,
+        `DTEND:${utcStamp(new Date(start.getTime() + minutes * 60 * 1000))}`
+      )
+    } else {
+      lines.push(
+        `DTSTART;VALUE=DATE:${compactDate(occ.due_on)}`,
+        `DTEND;VALUE=DATE:${compactDate(addDays(occ.due_on, 1))}`,
+        'TRANSP:TRANSPARENT'
+      )
+    }
+
+    lines.push(
+      `SUMMARY:${escapeText(occ.action_title)}`,
+      `DESCRIPTION:${escapeText(`${occ.dream_title} › ${occ.area_title}\n\nOpen in Dreamer: ${link}`)}`,
+      `URL:${link}`,
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Load the feed for a user: incomplete occurrences due from their local today through FEED_DAYS
+ * ahead, for active actions in activated, unarchived, unpaused dreams. Returns the timezone the
+ * events are written in along with them.
+ */
+export async function fetchFeedOccurrences(
+  sb: SupabaseClient,
+  userId: string
+): Promise<{ timezone: string; occurrences: FeedOccurrence[] }> {
+  const timezone = await fetchUserTimezone(sb, userId)
+  const today = localDateInTimezone(timezone)
+
+  const { data, error } = await sb
+    .from('action_occurrences')
+    .select('id, due_on, planned_start_time, actions!inner(title, est_minutes, is_active, deleted_at), areas!inner(title), dreams!inner(title, activated_at, archived_at, paused_at)')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .gte('due_on', today)
+    .lte('due_on', addDays(today, FEED_DAYS))
+    .eq('actions.is_active', true)
+    .is('actions.deleted_at', null)
+    .not('dreams.activated_at', 'is', null)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null)
+    .order('due_on', { ascending: true })
+    .order('planned_start_time', { ascending: true, nullsFirst: true })
+
+  if (error) throw new Error(`Failed to fetch feed occurrences: ${error.message}`)
+
+  const occurrences = (data || []).map((row: any) => ({
+    id: row.id,
+    due_on: row.due_on,
+    planned_start_time: row.planned_start_time,
+    est_minutes: row.actions.est_minutes,
+    action_title: row.actions.title,
+    area_title: row.areas.title,
+    dream_title: row.dreams.title
+  }))
+
+  return { timezone, occurrences }
+}
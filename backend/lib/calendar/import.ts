@@ -0,0 +1,210 @@
+import { localDateInTimezone } from '../scheduling/timezone'
+import type { BusyDay } from '../../database/types'
+
+// Imported days further out than this are ignored
+export const MAX_IMPORT_DAYS_AHEAD = 366
+// Capacity left on a day with a timed event; all-day events block the day
+export const REDUCED_CAPACITY_PERCENT = 50
+
+const MAX_TITLE_LENGTH = 200
+
+export type ImportedBusyDay = Pick<BusyDay, 'date' | 'capacity_percent' | 'title'>
+
+/**
+ * A VEVENT reduced to what busy days need. A recurring event becomes one of these per instance.
+ */
+export interface IcsEvent {
+  summary: string | null
+  start: string // YYYY-MM-DD, in the user's timezone for UTC times
+  end: string // Last day the event covers, inclusive
+  all_day: boolean
+  unsupported_rule?: boolean // A recurring event whose RRULE can't be expanded; only its first instance is here
+}
+
+export interface IcsBusyDays {
+  days: ImportedBusyDay[]
+  skipped_recurring: string[] // Recurring events that only counted their first day (see expandRule)
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim()
+
+/**
+ * A DATE or DATE-TIME value as a calendar date and whether it had a time. UTC times (ending in Z)
+ * are converted to the user's timezone; floating and TZID times keep their own date.
+ */
+function parseIcsDate(value: string, timezone: string): { date: string; time: string | null } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  if (!hours) return { date: `${year}-${month}-${day}`, time: null }
+
+  if (utc) {
+    const at = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    const local = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(at)
+    return { date: localDateInTimezone(timezone, at), time: local }
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` }
+}
+
+const daysBetween = (from: string, to: string) => Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS)
+
+/**
+ * Start dates of a recurring event's instances, up to `until` (inclusive). Covers DAILY and WEEKLY
+ * rules with INTERVAL, COUNT, UNTIL and plain BYDAY (e.g. MO,WE); returns null for anything else
+ * (monthly, yearly, BYSETPOS, ...). EXDATE dates are left out.
+ */
+export function expandRule(rule: string, start: string, until: string, timezone: string, exdates: Set<string> = new Set()): string[] | null {
+  const parts = new Map(rule.toUpperCase().split(';').map(part => part.split('=') as [string, string]))
+  const freq = parts.get('FREQ')
+  if (freq !== 'DAILY' && freq !== 'WEEKLY') return null
+  if ([...parts.keys()].some(key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'WKST'].includes(key))) return null
+
+  const interval = Number(parts.get('INTERVAL') ?? 1)
+  const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : Infinity
+  if (!Number.isInteger(interval) || interval < 1 || !(count > 0)) return null
+
+  const ruleUntil = parts.has('UNTIL') ? parseIcsDate(parts.get('UNTIL')!, timezone)?.date : undefined
+  if (parts.has('UNTIL') && !ruleUntil) return null
+  const last = ruleUntil && ruleUntil < until ? ruleUntil : until
+
+  let byDay: number[] = [new Date(start).getUTCDay()]
+  if (parts.has('BYDAY')) {
+    if (freq !== 'WEEKLY') return null
+    byDay = parts.get('BYDAY')!.split(',').map(day => WEEKDAYS.indexOf(day))
+    if (byDay.some(day => day < 0)) return null // e.g. 1MO, only valid for monthly rules
+  }
+
+  // Weeks are counted from the Monday on or before the start
+  const firstMonday = daysBetween('1970-01-05', start) - ((new Date(start).getUTCDay() + 6) % 7)
+
+  const dates: string[] = []
+  let seen = 0
+  for (let date = start; date <= last && seen < count; date = addDays(date, 1)) {
+    const offset = daysBetween(start, date)
+    const matches = freq === 'DAILY'
+      ? offset % interval === 0
+      : byDay.includes(new Date(date).getUTCDay()) && Math.floor((daysBetween('1970-01-05', date) - firstMonday) / 7) % interval === 0
+    if (!matches) continue
+    seen++
+    if (!exdates.has(date)) dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Read the events out of an ICS file. Cancelled events and events marked free (TRANSP:TRANSPARENT)
+ * are skipped. Recurring events are expanded up to `until` (see expandRule); one whose rule can't
+ * be expanded contributes its first instance, marked `unsupported_rule`.
+ */
+export function parseIcsEvents(ics: string, timezone: string, until: string): IcsEvent[] {
+  // Long lines continue on the next line after a space or tab
+  const lines = ics.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+
+  const events: IcsEvent[] = []
+  let current: Record<string, { params: string; value: string }> | null = null
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {}
+      continue
+    }
+    if (line === 'END:VEVENT') {
+      if (current) events.push(...toEvents(current, timezone, until))
+      current = null
+      continue
+    }
+    if (!current) continue
+
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const [name, ...params] = line.slice(0, colon).split(';')
+    const key = name.toUpperCase()
+    const value = line.slice(colon + 1)
+    // An event can list several EXDATE lines
+    if (key === 'EXDATE' && current.EXDATE) current.EXDATE.value += `,${value}`
+    else current[key] = { params: params.join(';').toUpperCase(), value }
+  }
+
+  return events
+}
+
+function toEvents(props: Record<string, { params: string; value: string }>, timezone: string, until: string): IcsEvent[] {
+  if (props.STATUS?.value.toUpperCase() === 'CANCELLED') return []
+  if (props.TRANSP?.value.toUpperCase() === 'TRANSPARENT') return []
+  if (!props.DTSTART) return []
+
+  const start = parseIcsDate(props.DTSTART.value, timezone)
+  if (!start) return []
+
+  const allDay = start.time === null
+  const endValue = props.DTEND && parseIcsDate(props.DTEND.value, timezone)
+  let end = start.date
+  if (endValue && endValue.date > start.date) {
+    // All-day ends are exclusive, and so is a timed end at midnight
+    end = allDay || endValue.time === '00:00' ? addDays(endValue.date, -1) : endValue.date
+  }
+
+  const first: IcsEvent = {
+    summary: props.SUMMARY ? unescapeText(props.SUMMARY.value) || null : null,
+    start: start.date,
+    end: end < start.date ? start.date : end,
+    all_day: allDay
+  }
+  if (!props.RRULE) return [first]
+
+  const exdates = new Set((props.EXDATE?.value ?? '').split(',').map(value => parseIcsDate(value, timezone)?.date).filter((date): date is string => !!date))
+  const starts = expandRule(props.RRULE.value, first.start, until, timezone, exdates)
+  if (!starts) return [{ ...first, unsupported_rule: true }]
+
+  // Every instance lasts as many days as the first
+  const length = daysBetween(first.start, first.end)
+  return starts.map(date => ({ ...first, start: date, end: addDays(date, length) }))
+}
+
+/**
+ * Turn an ICS file into busy days from today on: days covered by an all-day event are blocked,
+ * days with only timed events keep REDUCED_CAPACITY_PERCENT. Several events on one day are merged
+ * (the lowest capacity wins, titles are listed). Recurring events count every instance; those
+ * with a rule that can't be expanded are listed in `skipped_recurring`. Returns null when the
+ * text isn't a calendar.
+ */
+export function busyDaysFromIcs(ics: string, timezone: string, today: string): IcsBusyDays | null {
+  if (!/BEGIN:VCALENDAR/i.test(ics)) return null
+
+  const lastDay = addDays(today, MAX_IMPORT_DAYS_AHEAD)
+  const days = new Map<string, { capacity_percent: number; titles: string[] }>()
+  const skipped = new Set<string>()
+
+  for (const event of parseIcsEvents(ics, timezone, lastDay)) {
+    if (event.unsupported_rule) skipped.add(event.summary || 'Untitled event')
+    const capacity = event.all_day ? 0 : REDUCED_CAPACITY_PERCENT
+    for (let date = event.start < today ? today : event.start; date <= event.end && date <= lastDay; date = addDays(date, 1)) {
+      const day = days.get(date) ?? { capacity_percent: 100, titles: [] }
+      day.capacity_percent = Math.min(day.capacity_percent, capacity)
+      if (event.summary && !day.titles.includes(event.summary)) day.titles.push(event.summary)
+      days.set(date, day)
+    }
+  }
+
+  return {
+    days: Array.from(days)
+      .map(([date, day]) => ({
+        date,
+        capacity_percent: day.capacity_percent,
+        title: day.titles.length > 0 ? day.titles.join(', ').slice(0, MAX_TITLE_LENGTH) : null
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    skipped_recurring: Array.from(skipped)
+  }
+}
@@ -1,4 +1,19 @@
 import { scheduleDreamActions } from '../scheduler'
+import { resolveSchedulingPreferences, perDreamCap } from '../preferences'
+import { localDateInTimezone } from '../timezone'
+import { diffOccurrences, calculateDailyLoad } from '../preview'
+import { planIncrementalReschedule, habitsToContinue } from '../incremental'
+import { parseRecurrenceRule, expandRecurrence } from '../recurrence'
+import { orderByPrerequisites, enforcePrerequisiteOrder } from '../prerequisites'
+import { planRollForward } from '../rollForward'
+import { planPullForward } from '../pullForward'
+import { suggestFixes } from '../diagnostics'
+import { pausedDays } from '../pause'
+import { planHorizonExtension, horizonHabit } from '../horizon'
+import { busyDaysFromIcs } from '../../calendar/import'
+import { importBusyDays, updateBusyDay, MAX_ICS_BYTES } from '../busy'
+import { checkOccurrenceMove } from '../move'
+import { planningWeekStart, planWeekDrops } from '../weeklyPlan'
 import type { Dream, Area, Action, ActionOccurrence } from '../../../database/types'
 
 // Mock data for testing
@@ -51,6 +66,21 @@ const createMockAction = (overrides: Partial<Action> = {}): Action => ({
   ...overrides
 })
 
+// A daily habit's occurrences 1 to count from 2024-01-01, the first `done` of them completed
+const dailyHabitRows = (count: number, done = 0) => Array.from({ length: count }, (_, index) => {
+  const dueOn = `2024-01-${String(index + 1).padStart(2, '0')}`
+  return {
+    id: `occ-${index + 1}`,
+    action_id: 'habit',
+    occurrence_no: index + 1,
+    due_on: dueOn,
+    completed_at: index < done ? `${dueOn}T10:00:00Z` : undefined,
+    pinned_at: undefined
+  }
+})
+
+const dailyHabit = createMockAction({ id: 'habit', title: 'Habit', repeat_every_days: 1 })
+
 describe('Scheduling Logic', () => {
   const context = {
     user_id: 'user-1',
@@ -265,6 +295,1068 @@ describe('Scheduling Logic', () => {
     })
   })
 
+  describe('Scheduling Preferences', () => {
+    it('should skip all user-chosen rest days', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-31'
+      })
+
+      const area = createMockArea()
+      const actions = Array.from({ length: 6 }, (_, i) =>
+        createMockAction({ id: `action-${i + 1}`, position: i + 1 })
+      )
+
+      const result = await scheduleDreamActions(
+        { ...context, preferences: resolveSchedulingPreferences({ rest_days: [0, 6] }) },
+        { dream, areas: [area], actions, existing_occurrences: [] }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(6)
+      for (const occurrence of result.occurrences) {
+        const day = new Date(occurrence.due_on!).getDay()
+        expect(day).not.toBe(0)
+        expect(day).not.toBe(6)
+      }
+    })
+
+    it('should keep repeats off rest days', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-31'
+      })
+
+      const result = await scheduleDreamActions(
+        { ...context, preferences: resolveSchedulingPreferences({ rest_days: [3] }) },
+        {
+          dream,
+          areas: [createMockArea()],
+          actions: [createMockAction({ repeat_every_days: 1 })],
+          existing_occurrences: []
+        }
+      )
+
+      expect(result.success).toBe(true)
+      for (const occurrence of result.occurrences) {
+        expect(new Date(occurrence.due_on!).getDay()).not.toBe(3) // Wednesday
+      }
+    })
+
+    it('should fall back to defaults for missing or invalid preferences', () => {
+      const defaults = resolveSchedulingPreferences(null)
+      expect(Array.from(defaults.rest_days)).toEqual([0])
+      expect(defaults.global_daily_cap).toBe(5)
+      expect(defaults.per_dream_cap).toBe(1)
+
+      const invalid = resolveSchedulingPreferences({
+        rest_days: [0, 1, 2, 3, 4, 5, 6],
+        global_daily_cap: 0,
+        per_dream_cap: 99
+      })
+      expect(Array.from(invalid.rest_days)).toEqual([0])
+      expect(invalid.global_daily_cap).toBe(1)
+      expect(invalid.per_dream_cap).toBe(1) // Never above the global cap
+    })
+  })
+
+  describe('Cross-Dream Capacity', () => {
+    it('should avoid days already filled by other dreams', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-13'
+      })
+
+      // Another dream already uses the whole daily cap on Mon-Wed of the first week
+      const otherDreamOccurrences = ['2024-01-01', '2024-01-02', '2024-01-03'].flatMap(date =>
+        Array.from({ length: 2 }, () => ({ dream_id: 'dream-2', due_on: date }))
+      )
+
+      const actions = Array.from({ length: 3 }, (_, i) =>
+        createMockAction({ id: `action-${i + 1}`, position: i + 1 })
+      )
+
+      const result = await scheduleDreamActions(
+        { ...context, preferences: resolveSchedulingPreferences({ global_daily_cap: 2 }) },
+        { dream, areas: [createMockArea()], actions, existing_occurrences: [], other_dream_occurrences: otherDreamOccurrences }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(3)
+      for (const occurrence of result.occurrences) {
+        expect(['2024-01-01', '2024-01-02', '2024-01-03']).not.toContain(occurrence.due_on)
+      }
+      expect(result.overloaded_days).toEqual([])
+    })
+
+    it('should report days that absorb extra load', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-02'
+      })
+
+      // Every day in the window is already full
+      const otherDreamOccurrences = ['2024-01-01', '2024-01-02'].map(date => ({ dream_id: 'dream-2', due_on: date }))
+
+      const result = await scheduleDreamActions(
+        { ...context, preferences: resolveSchedulingPreferences({ global_daily_cap: 1 }) },
+        {
+          dream,
+          areas: [createMockArea()],
+          actions: [createMockAction()],
+          existing_occurrences: [],
+          other_dream_occurrences: otherDreamOccurrences
+        }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(1)
+      expect(result.overloaded_days).toEqual([
+        { date: result.occurrences[0].due_on, scheduled: 2, cap: 1, other_dreams: 1 }
+      ])
+    })
+  })
+
+  describe('Timezones', () => {
+    it('should resolve the local date in the user timezone', () => {
+      const instant = new Date('2024-01-15T23:30:00Z')
+      expect(localDateInTimezone('UTC', instant)).toBe('2024-01-15')
+      expect(localDateInTimezone('Asia/Tokyo', instant)).toBe('2024-01-16')
+      expect(localDateInTimezone('America/Los_Angeles', instant)).toBe('2024-01-15')
+      expect(localDateInTimezone('Not/AZone', instant)).toBe('2024-01-15') // Falls back to UTC
+    })
+
+    it('should not schedule anything before the user\'s local today', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-31'
+      })
+
+      const actions = Array.from({ length: 3 }, (_, i) =>
+        createMockAction({ id: `action-${i + 1}`, position: i + 1 })
+      )
+
+      const result = await scheduleDreamActions(
+        { ...context, timezone: 'Asia/Tokyo', today: '2024-01-10' },
+        { dream, areas: [createMockArea()], actions, existing_occurrences: [] }
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(3)
+      for (const occurrence of result.occurrences) {
+        expect(occurrence.due_on! >= '2024-01-10').toBe(true)
+      }
+    })
+  })
+
+  describe('Schedule Preview', () => {
+    it('should diff proposed occurrences against the current ones', () => {
+      const current = [
+        { action_id: 'action-1', occurrence_no: 1, due_on: '2024-01-02' },
+        { action_id: 'action-1', occurrence_no: 2, due_on: '2024-01-05' },
+        { action_id: 'action-2', occurrence_no: 1, due_on: '2024-01-03' }
+      ]
+      const proposed = [
+        { action_id: 'action-1', action_title: 'First', occurrence_no: 1, due_on: '2024-01-02' },
+        { action_id: 'action-1', action_title: 'First', occurrence_no: 2, due_on: '2024-01-08' },
+        { action_id: 'action-3', action_title: 'Third', occurrence_no: 1, due_on: '2024-01-04' }
+      ]
+      const titles = new Map([['action-1', 'First'], ['action-2', 'Second'], ['action-3', 'Third']])
+
+      const diff = diffOccurrences(current, proposed, current, titles)
+
+      expect(diff.unchanged_count).toBe(1)
+      expect(diff.added).toEqual([{ action_id: 'action-3', action_title: 'Third', occurrence_no: 1, to: '2024-01-04' }])
+      expect(diff.moved).toEqual([{ action_id: 'action-1', action_title: 'First', occurrence_no: 2, from: '2024-01-05', to: '2024-01-08' }])
+      expect(diff.removed).toEqual([{ action_id: 'action-2', action_title: 'Second', occurrence_no: 1, from: '2024-01-03' }])
+    })
+
+    it('should report per-day load against the daily cap', () => {
+      const proposed = [
+        { action_id: 'action-1', action_title: 'First', occurrence_no: 1, due_on: '2024-01-01' }, // Before today
+        { action_id: 'action-1', action_title: 'First', occurrence_no: 2, due_on: '2024-01-06' },
+        { action_id: 'action-2', action_title: 'Second', occurrence_no: 1, due_on: '2024-01-07' } // Sunday
+      ]
+      const otherDreamOccurrences = [{ dream_id: 'dream-2', due_on: '2024-01-06' }]
+
+      const load = calculateDailyLoad(proposed, otherDreamOccurrences, resolveSchedulingPreferences({ global_daily_cap: 3 }), '2024-01-02')
+
+      expect(load).toEqual([
+        { date: '2024-01-06', this_dream: 1, other_dreams: 1, total: 2, cap: 3 },
+        { date: '2024-01-07', this_dream: 1, other_dreams: 0, total: 1, cap: 0 }
+      ])
+    })
+  })
+
+  describe('Incremental Rescheduling', () => {
+    it('should only move occurrences that have to move and leave pinned ones alone', () => {
+      const occurrence = (id: string, action_id: string, due_on: string, extra: Partial<ActionOccurrence> = {}) => ({
+        id, action_id, occurrence_no: 1, due_on, completed_at: undefined, pinned_at: undefined, ...extra
+      })
+      const current = [
+        occurrence('occ-a', 'action-a', '2024-01-02', { completed_at: '2024-01-02T10:00:00Z' }),
+        occurrence('occ-b', 'action-b', '2024-01-20', { pinned_at: '2024-01-05T10:00:00Z' }), // Moved by hand
+        occurrence('occ-c', 'action-c', '2024-01-03'), // Overdue
+        occurrence('occ-d', 'action-d', '2024-01-12'), // Still fine where it is
+        occurrence('occ-e', 'action-e', '2024-01-18'), // After the new end date
+        occurrence('occ-f', 'action-f', '2024-01-11') // No longer in the plan
+      ]
+      const planned = [
+        { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-10' },
+        { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-11' },
+        { action_id: 'action-c', occurrence_no: 1, due_on: '2024-01-11' },
+        { action_id: 'action-d', occurrence_no: 1, due_on: '2024-01-13' },
+        { action_id: 'action-e', occurrence_no: 1, due_on: '2024-01-15' },
+        { action_id: 'action-g', occurrence_no: 1, due_on: '2024-01-12' } // New action
+      ]
+
+      const plan = planIncrementalReschedule(
+        current,
+        planned,
+        { today: '2024-01-10', end_date: '2024-01-15' },
+        resolveSchedulingPreferences({ global_daily_cap: 1 })
+      )
+
+      expect(plan.pinned_count).toBe(1)
+      expect(plan.deletes).toEqual(['occ-f'])
+      expect(plan.updates).toEqual([
+        { id: 'occ-c', due_on: '2024-01-11' },
+        { id: 'occ-e', due_on: '2024-01-15' }
+      ])
+      // 2024-01-12 is taken by the occurrence that stayed put, so the new one goes to the next free day
+      expect(plan.inserts).toEqual([{ action_id: 'action-g', occurrence_no: 1, due_on: '2024-01-13' }])
+      expect(plan.changes.filter(change => change.type === 'moved').map(change => change.reason))
+        .toEqual(['overdue', 'after_end_date'])
+    })
+
+    it('should keep a habit\'s repeats and number new ones on from its last occurrence', () => {
+      const current = dailyHabitRows(14, 5)
+      const endDate = '2024-01-17'
+      // The fresh plan starts the habit over from today
+      const planned = Array.from({ length: 12 }, (_, index) => ({
+        action_id: 'habit', occurrence_no: index + 1, due_on: `2024-01-${String(index + 6).padStart(2, '0')}`
+      }))
+
+      const plan = planIncrementalReschedule(
+        current,
+        planned,
+        { today: '2024-01-06', end_date: endDate },
+        resolveSchedulingPreferences({ rest_days: [] }),
+        [],
+        'normal',
+        habitsToContinue(createMockDream(), [dailyHabit], current, endDate)
+      )
+
+      expect(plan.deletes).toEqual([])
+      expect(plan.updates).toEqual([])
+      expect(plan.inserts).toEqual([
+        { action_id: 'habit', occurrence_no: 15, due_on: '2024-01-15' },
+        { action_id: 'habit', occurrence_no: 16, due_on: '2024-01-16' },
+        { action_id: 'habit', occurrence_no: 17, due_on: '2024-01-17' }
+      ])
+    })
+
+    it('should move overdue repeats onto the habit\'s next days and leave the rest unplaced', () => {
+      const current = dailyHabitRows(10, 5)
+      const endDate = '2024-01-14'
+
+      const plan = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-11', end_date: endDate },
+        resolveSchedulingPreferences({ rest_days: [] }),
+        [],
+        'normal',
+        habitsToContinue(createMockDream(), [dailyHabit], current, endDate)
+      )
+
+      // Never two on one day: four days are left for five overdue repeats
+      expect(plan.deletes).toEqual([])
+      expect(plan.inserts).toEqual([])
+      expect(plan.updates).toEqual([
+        { id: 'occ-6', due_on: '2024-01-11' },
+        { id: 'occ-7', due_on: '2024-01-12' },
+        { id: 'occ-8', due_on: '2024-01-13' },
+        { id: 'occ-9', due_on: '2024-01-14' }
+      ])
+      expect(plan.changes.filter(change => change.type === 'unplaced')).toEqual([
+        { type: 'unplaced', occurrence_id: 'occ-10', action_id: 'habit', occurrence_no: 10, from: '2024-01-10', reason: 'overdue' }
+      ])
+    })
+
+    it('should leave an occurrence where it is when no day up to the end date has room', () => {
+      const plan = planIncrementalReschedule(
+        [
+          { id: 'occ-a', action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-09', completed_at: undefined, pinned_at: undefined },
+          { id: 'occ-b', action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-11', completed_at: undefined, pinned_at: undefined }
+        ],
+        [
+          { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-11' },
+          { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-11' }
+        ],
+        { today: '2024-01-11', end_date: '2024-01-11' },
+        resolveSchedulingPreferences({ global_daily_cap: 1 })
+      )
+
+      expect(plan.updates).toEqual([])
+      expect(plan.changes).toEqual([
+        { type: 'unplaced', occurrence_id: 'occ-a', action_id: 'action-a', occurrence_no: 1, from: '2024-01-09', reason: 'overdue' }
+      ])
+    })
+  })
+
+  describe('Recurrence Rules', () => {
+    const day = (date: string) => new Date(`${date}T00:00:00Z`)
+    const dates = (list: Date[]) => list.map(date => date.toISOString().split('T')[0])
+
+    it('should only schedule weekday rules on the chosen days', async () => {
+      const dream = createMockDream({ start_date: '2024-01-01', end_date: '2024-01-14' })
+      const action = createMockAction({ recurrence: { type: 'weekdays', days: [1, 3, 5] } })
+
+      const result = await scheduleDreamActions(context, {
+        dream,
+        areas: [createMockArea()],
+        actions: [action],
+        existing_occurrences: []
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences.length).toBeGreaterThan(0)
+      for (const occurrence of result.occurrences) {
+        expect([1, 3, 5]).toContain(new Date(occurrence.due_on!).getUTCDay())
+      }
+    })
+
+    it('should place N-per-week repeats inside each week, counting the seed', () => {
+      const repeats = expandRecurrence({ type: 'times_per_week', count: 3 }, day('2024-01-01'), day('2024-01-14'), new Set([0]))
+
+      expect(dates(repeats)).toEqual(['2024-01-03', '2024-01-05', '2024-01-09', '2024-01-11', '2024-01-13'])
+    })
+
+    it('should repeat monthly rules on the nth weekday', () => {
+      const repeats = expandRecurrence({ type: 'monthly', week: 1, weekday: 6 }, day('2024-01-06'), day('2024-04-30'), new Set())
+
+      expect(dates(repeats)).toEqual(['2024-02-03', '2024-03-02', '2024-04-06'])
+    })
+
+    it('should reject malformed rules', () => {
+      expect(parseRecurrenceRule({ type: 'weekdays', days: [5, 1, 1] })).toEqual({ type: 'weekdays', days: [1, 5] })
+      expect(parseRecurrenceRule({ type: 'weekdays', days: [] })).toBeNull()
+      expect(parseRecurrenceRule({ type: 'times_per_week', count: 8 })).toBeNull()
+      expect(parseRecurrenceRule({ type: 'monthly', week: 5, weekday: 6 })).toBeNull()
+      expect(parseRecurrenceRule({ type: 'yearly' })).toBeNull()
+    })
+  })
+
+  describe('Prerequisites', () => {
+    it('should seed an action after its prerequisite even when it comes first by position', async () => {
+      const dream = createMockDream({ start_date: '2024-01-01', end_date: '2024-01-31' })
+      const areas = [createMockArea({ id: 'area-1', position: 1 }), createMockArea({ id: 'area-2', position: 2 })]
+      const actions = [
+        createMockAction({ id: 'action-run', title: 'Run 5k', area_id: 'area-1', position: 1, prerequisite_ids: ['action-shoes'] }),
+        createMockAction({ id: 'action-stretch', title: 'Stretch', area_id: 'area-1', position: 2 }),
+        createMockAction({ id: 'action-shoes', title: 'Buy shoes', area_id: 'area-2', position: 1 })
+      ]
+
+      const result = await scheduleDreamActions(context, { dream, areas, actions, existing_occurrences: [] })
+
+      expect(result.success).toBe(true)
+      const dueOn = (actionId: string) => result.occurrences.find(occ => occ.action_id === actionId)!.due_on!
+      expect(dueOn('action-run') > dueOn('action-shoes')).toBe(true)
+    })
+
+    it('should keep position order apart from prerequisites and report cycles', () => {
+      const node = (id: string, prerequisite_ids: string[] = []) => ({ id, prerequisite_ids })
+
+      const { ordered } = orderByPrerequisites([node('a', ['c']), node('b'), node('c'), node('d', ['missing'])])
+      expect(ordered.map(a => a.id)).toEqual(['b', 'c', 'a', 'd'])
+
+      const { ordered: withCycle, cyclic } = orderByPrerequisites([node('a', ['b']), node('b', ['a']), node('c')])
+      expect(withCycle.map(a => a.id)).toEqual(['c', 'a', 'b'])
+      expect(cyclic.map(a => a.id)).toEqual(['a', 'b'])
+    })
+
+    it('should move a series that ended up before its prerequisite, keeping its spacing', () => {
+      const placement = (action_id: string, occurrence_no: number, due_on: string) =>
+        ({ action_id, occurrence_no, due_on, planned_due_on: due_on })
+      const placements = [
+        placement('action-a', 1, '2024-01-04'),
+        placement('action-b', 1, '2024-01-02'),
+        placement('action-b', 2, '2024-01-04') // Moves three days on to a Sunday, so rolls to Monday
+      ]
+
+      const moved = enforcePrerequisiteOrder(
+        placements,
+        [{ id: 'action-a' }, { id: 'action-b', prerequisite_ids: ['action-a'] }],
+        () => false,
+        new Set([0])
+      )
+
+      expect(moved).toEqual(['action-b'])
+      expect(placements.map(p => p.due_on)).toEqual(['2024-01-04', '2024-01-05', '2024-01-08'])
+    })
+  })
+
+  describe('Overdue Roll-Forward', () => {
+    const overdueOccurrence = (id: string, action_id: string, dream_id: string, due_on: string) =>
+      ({ id, action_id, dream_id, occurrence_no: 1, due_on, defer_count: 0 })
+
+    it('should move overdue occurrences to the next days with room, oldest first', () => {
+      const preferences = resolveSchedulingPreferences({ rest_days: [0], global_daily_cap: 2, per_dream_cap: 1 })
+      const scheduled = [
+        { action_id: 'action-x', dream_id: 'dream-2', due_on: '2024-01-10' },
+        { action_id: 'action-y', dream_id: 'dream-3', due_on: '2024-01-10' } // Wednesday is full
+      ]
+
+      const moves = planRollForward(
+        [
+          overdueOccurrence('occ-2', 'action-b', 'dream-1', '2024-01-08'),
+          overdueOccurrence('occ-1', 'action-a', 'dream-1', '2024-01-05'),
+          overdueOccurrence('occ-3', 'action-c', 'dream-1', '2024-01-09')
+        ],
+        scheduled,
+        '2024-01-10',
+        preferences
+      )
+
+      expect(moves.map(move => [move.occurrence_id, move.from_date, move.to_date])).toEqual([
+        ['occ-1', '2024-01-05', '2024-01-11'],
+        ['occ-2', '2024-01-08', '2024-01-12'],
+        ['occ-3', '2024-01-09', '2024-01-13']
+      ])
+    })
+
+    it('should share a day between dreams and skip rest days and days the action already has', () => {
+      const preferences = resolveSchedulingPreferences({ rest_days: [0], global_daily_cap: 3, per_dream_cap: 1 })
+
+      const moves = planRollForward(
+        [
+          overdueOccurrence('occ-1', 'action-a', 'dream-1', '2024-01-12'),
+          overdueOccurrence('occ-2', 'action-b', 'dream-2', '2024-01-12')
+        ],
+        [{ action_id: 'action-a', dream_id: 'dream-1', due_on: '2024-01-13' }],
+        '2024-01-13', // Saturday; Sunday is a rest day
+        preferences
+      )
+
+      expect(moves.find(move => move.occurrence_id === 'occ-1')!.to_date).toBe('2024-01-15')
+      expect(moves.find(move => move.occurrence_id === 'occ-2')!.to_date).toBe('2024-01-13')
+    })
+  })
+
+  describe('Pull Forward', () => {
+    const occurrence = (id: string, action_id: string, due_on: string, extra: Partial<ActionOccurrence> = {}) =>
+      ({ id, action_id, occurrence_no: 1, due_on, ...extra })
+    const actions = [
+      createMockAction({ id: 'action-a' }),
+      createMockAction({ id: 'action-b' }),
+      createMockAction({ id: 'action-c' }),
+      createMockAction({ id: 'action-d', prerequisite_ids: ['action-a'] }),
+      createMockAction({ id: 'action-e' }),
+      createMockAction({ id: 'action-habit', repeat_every_days: 1 })
+    ]
+    const current = [
+      occurrence('occ-d', 'action-d', '2024-01-16'),
+      occurrence('occ-a', 'action-a', '2024-01-11'),
+      occurrence('occ-habit', 'action-habit', '2024-01-11'),
+      occurrence('occ-b', 'action-b', '2024-01-12'),
+      occurrence('occ-e', 'action-e', '2024-01-13', { pinned_at: '2024-01-05T10:00:00Z' }),
+      occurrence('occ-c', 'action-c', '2024-01-15'),
+      occurrence('occ-done', 'action-c', '2024-01-09', { occurrence_no: 0, completed_at: '2024-01-09T10:00:00Z' })
+    ]
+
+    it('should pull the next one-off action into today and move the rest up into the freed days', () => {
+      const plan = planPullForward(current, actions, '2024-01-10', 1)
+
+      expect(plan.pulled.map(move => [move.occurrence_id, move.to])).toEqual([['occ-a', '2024-01-10']])
+      expect(plan.shifted.map(move => [move.occurrence_id, move.from, move.to])).toEqual([
+        ['occ-b', '2024-01-12', '2024-01-11'],
+        ['occ-c', '2024-01-15', '2024-01-12'],
+        ['occ-d', '2024-01-16', '2024-01-15']
+      ])
+      expect(plan.projected_end_before).toBe('2024-01-16')
+      expect(plan.projected_end_after).toBe('2024-01-15')
+    })
+
+    it('should not pull actions whose prerequisites still have work left', () => {
+      const plan = planPullForward(current, actions, '2024-01-10', 5)
+
+      expect(plan.pulled.map(move => move.occurrence_id)).toEqual(['occ-a', 'occ-b', 'occ-c'])
+      expect(plan.shifted.map(move => [move.occurrence_id, move.to])).toEqual([['occ-d', '2024-01-11']])
+      expect(plan.projected_end_after).toBe('2024-01-13') // The pinned occurrence stays put
+    })
+  })
+
+  describe('Tight Plans', () => {
+    const fitInput = {
+      start_date: '2024-01-01',
+      end_date: '2024-01-05',
+      rest_days: new Set<number>(),
+      daily_minutes: 45, // One action a day
+      global_daily_cap: 3,
+      other_dream_load: new Map<string, number>(),
+      one_off: { occurrences: 8, minutes: 240 },
+      recurring: { occurrences: 0, minutes: 0 }
+    }
+
+    it('should suggest the shortest end date extension and the smallest time commitment that fit', () => {
+      expect(suggestFixes(fitInput)).toEqual([
+        { type: 'extend_end_date', end_date: '2024-01-08', extra_days: 3 },
+        { type: 'increase_time_commitment', time_commitment: { hours: 1, minutes: 30 } }
+      ])
+
+      // Prerequisites running past the end can only be fixed by moving the end date
+      expect(suggestFixes({ ...fitInput, latest_due_on: '2024-01-09' })).toEqual([
+        { type: 'extend_end_date', end_date: '2024-01-09', extra_days: 4 }
+      ])
+    })
+
+    it('should report capped days and fixes when the actions do not fit before the end date', async () => {
+      const dream = createMockDream({
+        start_date: '2024-01-01',
+        end_date: '2024-01-05',
+        time_commitment: { hours: 0, minutes: 45 }
+      })
+      const actions = Array.from({ length: 8 }, (_, index) =>
+        createMockAction({ id: `action-${index + 1}`, title: `Action ${index + 1}`, position: index + 1 }))
+      const preferences = resolveSchedulingPreferences({ rest_days: [], global_daily_cap: 3, per_dream_cap: 1 })
+
+      const result = await scheduleDreamActions({ ...context, preferences }, {
+        dream,
+        areas: [createMockArea()],
+        actions,
+        existing_occurrences: []
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.diagnostics!.capped_days.length).toBeGreaterThan(0)
+      expect(result.diagnostics!.capped_days.every(day => day.scheduled > day.cap)).toBe(true)
+      expect(result.diagnostics!.fixes).toEqual([
+        { type: 'extend_end_date', end_date: '2024-01-08', extra_days: 3 },
+        { type: 'increase_time_commitment', time_commitment: { hours: 1, minutes: 30 } }
+      ])
+
+      const roomy = await scheduleDreamActions({ ...context, preferences }, {
+        dream: createMockDream({ start_date: '2024-01-01', end_date: '2024-01-31', time_commitment: { hours: 0, minutes: 45 } }),
+        areas: [createMockArea()],
+        actions: actions.slice(0, 4),
+        existing_occurrences: []
+      })
+      expect(roomy.diagnostics).toBeUndefined()
+    })
+  })
+
+  describe('Time of Day', () => {
+    const preferences = resolveSchedulingPreferences({ rest_days: [], global_daily_cap: 5, per_dream_cap: 2 })
+
+    it('should report days that run over the time commitment in minutes', async () => {
+      const actions = Array.from({ length: 4 }, (_, index) =>
+        createMockAction({ id: `action-${index + 1}`, title: `Action ${index + 1}`, position: index + 1, est_minutes: 60 }))
+
+      const result = await scheduleDreamActions({ ...context, preferences }, {
+        dream: createMockDream({ start_date: '2024-01-01', end_date: '2024-01-02', time_commitment: { hours: 1, minutes: 30 } }),
+        areas: [createMockArea()],
+        actions,
+        existing_occurrences: []
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(4)
+      expect(result.diagnostics!.capped_days.length).toBeGreaterThan(0)
+      for (const day of result.diagnostics!.capped_days) {
+        expect(day.minutes_cap).toBe(90)
+        expect(day.minutes).toBe(day.scheduled * 60)
+        expect(day.minutes).toBeGreaterThan(day.minutes_cap)
+      }
+    })
+
+    it('should still place an action longer than the whole time commitment', async () => {
+      const result = await scheduleDreamActions({ ...context, preferences }, {
+        dream: createMockDream({ start_date: '2024-01-01', end_date: '2024-01-31', time_commitment: { hours: 0, minutes: 45 } }),
+        areas: [createMockArea()],
+        actions: [createMockAction({ id: 'action-1', est_minutes: 120 })],
+        existing_occurrences: []
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences).toHaveLength(1)
+      expect(result.diagnostics).toBeUndefined()
+    })
+  })
+
+  describe('Away Periods', () => {
+    const preferences = resolveSchedulingPreferences(
+      { rest_days: [], global_daily_cap: 5, per_dream_cap: 1 },
+      [{ start_date: '2024-01-08', end_date: '2024-01-14' }]
+    )
+
+    it('should schedule nothing on away days and skip repeats there', async () => {
+      const actions = [
+        ...Array.from({ length: 6 }, (_, index) =>
+          createMockAction({ id: `action-${index + 1}`, title: `Action ${index + 1}`, position: index + 1 })),
+        createMockAction({ id: 'habit', title: 'Habit', position: 7, repeat_every_days: 2 })
+      ]
+
+      const result = await scheduleDreamActions({ ...context, preferences }, {
+        dream: createMockDream({ start_date: '2024-01-01', end_date: '2024-01-21' }),
+        areas: [createMockArea()],
+        actions,
+        existing_occurrences: []
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.occurrences.length).toBeGreaterThan(6)
+      expect(result.occurrences.filter(occ => occ.due_on! >= '2024-01-08' && occ.due_on! <= '2024-01-14')).toEqual([])
+    })
+
+    it('should move outstanding occurrences out of the away days', () => {
+      const plan = planIncrementalReschedule(
+        [
+          { id: 'occ-a', action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-09', completed_at: undefined, pinned_at: undefined },
+          { id: 'occ-b', action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-16', completed_at: undefined, pinned_at: undefined }
+        ],
+        [
+          { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-15' },
+          { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-16' }
+        ],
+        { today: '2024-01-05', end_date: '2024-01-31' },
+        preferences
+      )
+
+      expect(plan.updates).toEqual([{ id: 'occ-a', due_on: '2024-01-15' }])
+      expect(plan.changes.map(change => change.reason)).toEqual(['away'])
+    })
+
+    it('should move pinned occurrences off away days too', () => {
+      const plan = planIncrementalReschedule(
+        [
+          { id: 'occ-a', action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-10', completed_at: undefined, pinned_at: '2024-01-02T10:00:00Z' },
+          { id: 'occ-b', action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-20', completed_at: undefined, pinned_at: '2024-01-02T10:00:00Z' }
+        ],
+        [
+          { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-06' },
+          { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-07' }
+        ],
+        { today: '2024-01-05', end_date: '2024-01-31' },
+        preferences
+      )
+
+      // The first day after the trip, not the earlier planned date; the pin elsewhere holds
+      expect(plan.updates).toEqual([{ id: 'occ-a', due_on: '2024-01-15' }])
+      expect(plan.changes.map(change => change.reason)).toEqual(['away'])
+      expect(plan.pinned_count).toBe(1)
+    })
+
+    it('should move a partly completed habit out of the away days without removing any repeats', () => {
+      const current = dailyHabitRows(10, 5)
+      const endDate = '2024-01-20'
+
+      const plan = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-06', end_date: endDate },
+        preferences,
+        [],
+        'normal',
+        habitsToContinue(createMockDream(), [dailyHabit], current, endDate)
+      )
+
+      expect(plan.deletes).toEqual([])
+      expect(plan.updates).toEqual([
+        { id: 'occ-8', due_on: '2024-01-15' },
+        { id: 'occ-9', due_on: '2024-01-16' },
+        { id: 'occ-10', due_on: '2024-01-17' }
+      ])
+      expect(plan.inserts.map(occ => [occ.occurrence_no, occ.due_on])).toEqual([
+        [11, '2024-01-18'],
+        [12, '2024-01-19'],
+        [13, '2024-01-20']
+      ])
+    })
+  })
+
+  describe('Paused Dreams', () => {
+    it('should count whole days between pausing and resuming', () => {
+      expect(pausedDays('2024-01-10', '2024-01-24')).toBe(14)
+      expect(pausedDays('2024-02-28', '2024-03-01')).toBe(2)
+      expect(pausedDays('2024-01-10', '2024-01-10')).toBe(0)
+    })
+
+    it('should carry a partly completed habit on past the pushed-back end date when resuming', () => {
+      // Paused on the 6th and resumed on the 11th, so the end date moves from the 20th to the 25th
+      const current = dailyHabitRows(15, 5)
+      const endDate = '2024-01-25'
+
+      const plan = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-11', end_date: endDate },
+        resolveSchedulingPreferences({ rest_days: [] }),
+        [],
+        'normal',
+        habitsToContinue(createMockDream({ end_date: endDate }), [dailyHabit], current, endDate)
+      )
+
+      // The repeats missed while paused move after the last one; nothing is removed
+      expect(plan.deletes).toEqual([])
+      expect(plan.updates).toEqual([
+        { id: 'occ-6', due_on: '2024-01-16' },
+        { id: 'occ-7', due_on: '2024-01-17' },
+        { id: 'occ-8', due_on: '2024-01-18' },
+        { id: 'occ-9', due_on: '2024-01-19' },
+        { id: 'occ-10', due_on: '2024-01-20' }
+      ])
+      expect(plan.inserts.map(occ => [occ.occurrence_no, occ.due_on])).toEqual([
+        [16, '2024-01-21'],
+        [17, '2024-01-22'],
+        [18, '2024-01-23'],
+        [19, '2024-01-24'],
+        [20, '2024-01-25']
+      ])
+    })
+  })
+
+  describe('Rolling Horizon', () => {
+    const preferences = resolveSchedulingPreferences({ rest_days: [0], global_daily_cap: 2, per_dream_cap: 1 })
+    const habit = {
+      action_id: 'habit',
+      dream_id: 'dream-123',
+      area_id: 'area-123',
+      recurrence: { type: 'interval' as const, every_days: 2 },
+      last_occurrence_no: 5,
+      last_due_on: '2024-01-10', // Wednesday
+      last_week_count: 3,
+      until: '2024-01-20'
+    }
+
+    it('should continue the series from its last occurrence up to the horizon', () => {
+      const planned = planHorizonExtension([habit], [], '2024-01-11', preferences)
+
+      // Sunday the 14th is a rest day, so that repeat rolls to Monday
+      expect(planned.map(occ => [occ.occurrence_no, occ.due_on])).toEqual([
+        [6, '2024-01-12'],
+        [7, '2024-01-15'],
+        [8, '2024-01-17'],
+        [9, '2024-01-19']
+      ])
+    })
+
+    it('should move repeats off full days and drop them when there is no room', () => {
+      const scheduled = [
+        { dream_id: 'dream-123', due_on: '2024-01-12' },
+        { dream_id: 'dream-other', due_on: '2024-01-17' },
+        { dream_id: 'dream-other', due_on: '2024-01-17' },
+        { dream_id: 'dream-other', due_on: '2024-01-18' },
+        { dream_id: 'dream-other', due_on: '2024-01-18' }
+      ]
+
+      const planned = planHorizonExtension([habit], scheduled, '2024-01-11', preferences)
+
+      expect(planned.map(occ => [occ.occurrence_no, occ.due_on])).toEqual([
+        [6, '2024-01-13'],
+        [7, '2024-01-15'],
+        [8, '2024-01-19']
+      ])
+    })
+
+    it('should number repeats the way an incremental reschedule expects them', () => {
+      const rows = dailyHabitRows(10, 5)
+      const extended = planHorizonExtension(
+        [horizonHabit(dailyHabit, 'dream-1', { type: 'interval', every_days: 1 }, rows, '2024-01-20')!],
+        [],
+        '2024-01-06',
+        resolveSchedulingPreferences({ rest_days: [] })
+      )
+      expect(extended.map(occ => occ.occurrence_no)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20])
+
+      // Rescheduling the extended series afterwards leaves it exactly as it is
+      const current = [
+        ...rows,
+        ...extended.map(occ => ({ ...occ, id: `occ-${occ.occurrence_no}`, completed_at: undefined, pinned_at: undefined }))
+      ]
+      const plan = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-06', end_date: '2024-01-20' },
+        resolveSchedulingPreferences({ rest_days: [] }),
+        [],
+        'normal',
+        habitsToContinue(createMockDream(), [dailyHabit], current, '2024-01-20')
+      )
+      expect(plan.changes).toEqual([])
+    })
+  })
+
+  describe('Busy Days', () => {
+    const preferences = resolveSchedulingPreferences(
+      { rest_days: [], global_daily_cap: 4, per_dream_cap: 1 },
+      [],
+      [{ date: '2024-01-09', capacity_percent: 0 }, { date: '2024-01-10', capacity_percent: 50 }]
+    )
+
+    it('should block days with all-day events and halve days with timed events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'SUMMARY:Conference',
+        'DTSTART;VALUE=DATE:20240109',
+        'DTEND;VALUE=DATE:20240111',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Dentist',
+        'DTSTART:20240110T140000Z',
+        'DTEND:20240110T150000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Flight',
+        'DTSTART:20240112T080000Z',
+        'DTEND:20240112T110000Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Focus time',
+        'TRANSP:TRANSPARENT',
+        'DTSTART:20240113T080000Z',
+        'DTEND:20240113T110000Z',
+        'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n')
+
+      expect(busyDaysFromIcs(ics, 'UTC', '2024-01-05')).toEqual({
+        days: [
+          { date: '2024-01-09', capacity_percent: 0, title: 'Conference' },
+          { date: '2024-01-10', capacity_percent: 0, title: 'Conference, Dentist' },
+          { date: '2024-01-12', capacity_percent: 50, title: 'Flight' }
+        ],
+        skipped_recurring: []
+      })
+      expect(busyDaysFromIcs('not a calendar', 'UTC', '2024-01-05')).toBeNull()
+    })
+
+    it('should expand daily and weekly recurring events and report the rest', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'SUMMARY:Volunteering',
+        'DTSTART;VALUE=DATE:20240102',
+        'DTEND;VALUE=DATE:20240103',
+        'RRULE:FREQ=WEEKLY;COUNT=4',
+        'EXDATE;VALUE=DATE:20240116',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Class',
+        'DTSTART:20240108T180000Z',
+        'DTEND:20240108T200000Z',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20240125T235959Z',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:Board meeting',
+        'DTSTART;VALUE=DATE:20240111',
+        'RRULE:FREQ=MONTHLY;BYDAY=2TH',
+        'END:VEVENT',
+        'END:VCALENDAR'
+      ].join('\r\n')
+
+      const result = busyDaysFromIcs(ics, 'UTC', '2024-01-05')!
+
+      // The 2nd is before today and the 16th is excluded; classes every other week, Monday and Thursday
+      expect(result.days.map(day => [day.date, day.capacity_percent])).toEqual([
+        ['2024-01-08', 50],
+        ['2024-01-09', 0],
+        ['2024-01-11', 0],
+        ['2024-01-22', 50],
+        ['2024-01-23', 0],
+        ['2024-01-25', 50]
+      ])
+      expect(result.skipped_recurring).toEqual(['Board meeting'])
+    })
+
+    it('should move occurrences off blocked days and reduced days over their cap', () => {
+      const plan = planIncrementalReschedule(
+        [
+          { id: 'occ-a', action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-09', completed_at: undefined, pinned_at: undefined },
+          { id: 'occ-b', action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-10', completed_at: undefined, pinned_at: undefined }
+        ],
+        [
+          { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-09' },
+          { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-10' }
+        ],
+        { today: '2024-01-05', end_date: '2024-01-31' },
+        preferences,
+        // Half of 4 is 2, which the other dreams already use on the 10th
+        [{ dream_id: 'dream-other', due_on: '2024-01-10' }, { dream_id: 'dream-other', due_on: '2024-01-10' }]
+      )
+
+      expect(plan.changes.map(change => change.reason)).toEqual(['busy', 'busy'])
+      expect(plan.updates.map(update => update.due_on).every(date => date !== '2024-01-09' && date !== '2024-01-10')).toBe(true)
+    })
+
+    it('should move a partly completed habit off busy days without removing any repeats', () => {
+      const current = dailyHabitRows(10, 5)
+      const endDate = '2024-01-14'
+
+      const plan = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-06', end_date: endDate },
+        preferences,
+        [{ dream_id: 'dream-other', due_on: '2024-01-10' }, { dream_id: 'dream-other', due_on: '2024-01-10' }],
+        'normal',
+        habitsToContinue(createMockDream(), [dailyHabit], current, endDate)
+      )
+
+      expect(plan.deletes).toEqual([])
+      expect(plan.updates).toEqual([
+        { id: 'occ-9', due_on: '2024-01-11' },
+        { id: 'occ-10', due_on: '2024-01-12' }
+      ])
+      expect(plan.changes.filter(change => change.type === 'moved').map(change => change.reason)).toEqual(['busy', 'busy'])
+      expect(plan.inserts.map(occ => [occ.occurrence_no, occ.due_on])).toEqual([
+        [11, '2024-01-13'],
+        [12, '2024-01-14']
+      ])
+    })
+
+    it('should reject oversized calendars and invalid capacities before saving anything', async () => {
+      const imported = await importBusyDays('user-1', 'token', 'x'.repeat(MAX_ICS_BYTES + 1))
+      expect(imported).toMatchObject({ success: false, invalid: true, days: [], moved: [] })
+
+      for (const capacity of [150, -10, 12.5, '50']) {
+        const updated = await updateBusyDay('user-1', 'token', 'busy-1', capacity)
+        expect(updated).toMatchObject({ success: false, invalid: true, moved: [] })
+      }
+    })
+  })
+
+  describe('Moving Occurrences', () => {
+    const preferences = resolveSchedulingPreferences(
+      { rest_days: [0], global_daily_cap: 3, per_dream_cap: 1 },
+      [{ start_date: '2024-01-18', end_date: '2024-01-19' }]
+    )
+
+    it('should reject past dates and days off', () => {
+      const empty = { total: 0, this_dream: 0 }
+      expect(checkOccurrenceMove({ to: '2024-01-09' }, empty, '2024-01-10', preferences).error).toMatch(/past/)
+      expect(checkOccurrenceMove({ to: '2024-01-14' }, empty, '2024-01-10', preferences).error).toMatch(/rest day/) // Sunday
+      expect(checkOccurrenceMove({ to: '2024-01-18' }, empty, '2024-01-10', preferences).error).not.toBeNull()
+      expect(checkOccurrenceMove({ to: '2024-01-11' }, empty, '2024-01-10', preferences)).toEqual({ error: null, warnings: [] })
+    })
+
+    it('should allow over-capacity days with warnings', () => {
+      const result = checkOccurrenceMove(
+        { to: '2024-01-11', dream_end_date: '2024-01-10' },
+        { total: 3, this_dream: 1 },
+        '2024-01-10',
+        preferences
+      )
+
+      expect(result.error).toBeNull()
+      expect(result.warnings).toHaveLength(3)
+    })
+  })
+
+  describe('Weekly Planning', () => {
+    const focus = [{ week_start: '2024-01-15', focus_dream_id: 'dream-a' }]
+
+    it('should plan the current week on a Monday and the next week otherwise', () => {
+      expect(planningWeekStart('2024-01-14')).toBe('2024-01-15') // Sunday
+      expect(planningWeekStart('2024-01-15')).toBe('2024-01-15') // Monday
+      expect(planningWeekStart('2024-01-17')).toBe('2024-01-22')
+    })
+
+    it('should give the focus dream an extra slot per day during its week', () => {
+      const preferences = resolveSchedulingPreferences({ global_daily_cap: 3, per_dream_cap: 1 }, [], [], focus)
+
+      expect(perDreamCap(preferences, 'dream-a', '2024-01-17')).toBe(2)
+      expect(perDreamCap(preferences, 'dream-b', '2024-01-17')).toBe(1)
+      expect(perDreamCap(preferences, 'dream-a', '2024-01-22')).toBe(1)
+      // Never more than the whole day
+      const tight = resolveSchedulingPreferences({ global_daily_cap: 1, per_dream_cap: 1 }, [], [], focus)
+      expect(perDreamCap(tight, 'dream-a', '2024-01-17')).toBe(1)
+    })
+
+    it('should roll dropped occurrences out of the week, using the focus slot', () => {
+      const dropped = [{ id: 'occ-1', action_id: 'action-1', dream_id: 'dream-a', occurrence_no: 1, due_on: '2024-01-10', defer_count: 0 }]
+      const scheduled = [{ id: 'occ-2', action_id: 'action-2', dream_id: 'dream-a', occurrence_no: 1, due_on: '2024-01-15', defer_count: 0 }]
+
+      const plain = resolveSchedulingPreferences({ rest_days: [0], global_daily_cap: 3, per_dream_cap: 1 })
+      expect(planWeekDrops(dropped, scheduled, '2024-01-08', plain)[0].to_date).toBe('2024-01-16')
+
+      const focused = resolveSchedulingPreferences({ rest_days: [0], global_daily_cap: 3, per_dream_cap: 1 }, [], [], focus)
+      expect(planWeekDrops(dropped, scheduled, '2024-01-08', focused)[0].to_date).toBe('2024-01-15')
+    })
+  })
+
+  describe('Dream Priority', () => {
+    const preferences = resolveSchedulingPreferences({ global_daily_cap: 1 })
+    const fullDays = (priority: 'high' | 'normal' | 'low') =>
+      ['2024-01-01', '2024-01-02'].map(date => ({ dream_id: 'dream-2', due_on: date, priority }))
+
+    it('should take days held by lower-priority dreams, but not by higher ones', async () => {
+      // Every day in the window is already full
+      const dream = createMockDream({ start_date: '2024-01-01', end_date: '2024-01-02', priority: 'high' })
+      const dreamData = { dream, areas: [createMockArea()], actions: [createMockAction()], existing_occurrences: [] }
+
+      const main = await scheduleDreamActions({ ...context, preferences }, { ...dreamData, other_dream_occurrences: fullDays('low') })
+      expect(main.occurrences).toHaveLength(1)
+      expect(main.overloaded_days).toEqual([
+        { date: main.occurrences[0].due_on, scheduled: 2, cap: 1, other_dreams: 1, lower_priority: 1 }
+      ])
+      expect(main.warnings.some(warning => warning.includes('exceed your limit'))).toBe(false)
+
+      const side = await scheduleDreamActions(
+        { ...context, preferences },
+        { ...dreamData, dream: { ...dream, priority: 'low' }, other_dream_occurrences: fullDays('normal') }
+      )
+      expect(side.overloaded_days).toEqual([
+        { date: side.occurrences[0].due_on, scheduled: 2, cap: 1, other_dreams: 1 }
+      ])
+      expect(side.warnings.some(warning => warning.includes('exceed your limit'))).toBe(true)
+    })
+
+    it('should move lower-priority work off full days a higher-priority dream holds', () => {
+      const current = [
+        { id: 'occ-a', action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-01', completed_at: undefined, pinned_at: undefined },
+        { id: 'occ-b', action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-02', completed_at: undefined, pinned_at: '2024-01-01T00:00:00Z' }
+      ]
+      const planned = [
+        { action_id: 'action-a', occurrence_no: 1, due_on: '2024-01-03' },
+        { action_id: 'action-b', occurrence_no: 1, due_on: '2024-01-04' }
+      ]
+      const window = { today: '2024-01-01', end_date: '2024-01-31' }
+
+      const side = planIncrementalReschedule(current, planned, window, preferences, fullDays('high'), 'low')
+      expect(side.changes).toEqual([
+        { type: 'moved', occurrence_id: 'occ-a', action_id: 'action-a', occurrence_no: 1, from: '2024-01-01', to: '2024-01-03', reason: 'priority' }
+      ])
+      expect(side.pinned_count).toBe(1) // Pinned work stays put
+
+      // Equal priorities keep the day they already share
+      expect(planIncrementalReschedule(current, planned, window, preferences, fullDays('normal')).changes).toEqual([])
+    })
+
+    it('should move a lower-priority habit off claimed days without removing any repeats', () => {
+      // What a higher-priority dream's scheduling, or raising its priority, hands the dream it claimed days from
+      const current = dailyHabitRows(4, 1)
+      const endDate = '2024-01-06'
+
+      const side = planIncrementalReschedule(
+        current,
+        [],
+        { today: '2024-01-02', end_date: endDate },
+        preferences,
+        fullDays('high'),
+        'low',
+        habitsToContinue(createMockDream(), [dailyHabit], current, endDate)
+      )
+
+      expect(side.deletes).toEqual([])
+      expect(side.changes).toEqual([
+        { type: 'moved', occurrence_id: 'occ-2', action_id: 'habit', occurrence_no: 2, from: '2024-01-02', to: '2024-01-05', reason: 'priority' },
+        { type: 'added', action_id: 'habit', occurrence_no: 5, to: '2024-01-06' }
+      ])
+    })
+  })
+
   describe('Idempotency', () => {
     it('should not create duplicate seeds for existing occurrences', async () => {
       const dream = createMockDream()
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { rescheduleDreamActions } from './rescheduler'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import type { MoveReason, RescheduleChange } from './incremental'
+import type { AwayPeriod } from '../../database/types'
+
+// Matches the CHECK constraint on away_periods
+export const MAX_AWAY_DAYS = 366
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface AddAwayPeriodResult {
+  success: boolean
+  period?: AwayPeriod
+  moved: (RescheduleChange & { dream_id: string })[] // Occurrences moved out of the away days
+  errors: string[]
+  invalid?: boolean // The dates were rejected; nothing was saved
+}
+
+/**
+ * Check an away period's dates: YYYY-MM-DD, in order, at most a year long and not over yet.
+ * Returns an error message, or null when they're fine.
+ */
+export function validateAwayPeriod(startDate: unknown, endDate: unknown, today: string): string | null {
+  if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) || isNaN(new Date(startDate).getTime())) {
+    return 'start_date must be a YYYY-MM-DD date'
+  }
+  if (typeof endDate !== 'string' || !DATE_PATTERN.test(endDate) || isNaN(new Date(endDate).getTime())) {
+    return 'end_date must be a YYYY-MM-DD date'
+  }
+  if (endDate < startDate) return 'end_date must not be before start_date'
+  if (endDate < today) return 'The away period is already over'
+
+  const days = Math.round((new Date(endDate).getTime() - new Date(startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1
+  if (days > MAX_AWAY_DAYS) return `An away period can be at most ${MAX_AWAY_DAYS} days`
+
+  return null
+}
+
+/**
+ * Save an away period and move the user's work out of it. Every active, unpaused dream with incomplete
+ * occurrences in the range gets an incremental reschedule, which now sees the days as away:
+ * occurrences there, pinned or not, move to the first days with room; everything else stays put.
+ */
+export async function addAwayPeriod(
+  userId: string,
+  userToken: string,
+  input: { start_date: string; end_date: string; note?: string | null }
+): Promise<AddAwayPeriodResult> {
+  const failed = (error: string): AddAwayPeriodResult => ({ success: false, moved: [], errors: [error] })
+
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    const today = localDateInTimezone(await fetchUserTimezone(sb, userId))
+    const invalid = validateAwayPeriod(input.start_date, input.end_date, today)
+    if (invalid) return { ...failed(invalid), invalid: true }
+
+    const { data: period, error: insertError } = await sb
+      .from('away_periods')
+      .insert({
+        user_id: userId,
+        start_date: input.start_date,
+        end_date: input.end_date,
+        note: input.note?.trim() || null
+      })
+      .select()
+      .single()
+
+    if (insertError || !period) return failed('Failed to save the away period')
+
+    const { moved, errors } = await moveWorkOutOf(sb, userId, userToken, {
+      from: input.start_date < today ? today : input.start_date,
+      to: input.end_date,
+      reason: 'away'
+    })
+
+    console.log(`🏖️ Away ${input.start_date} to ${input.end_date}: moved ${moved.length} occurrences`)
+
+    return { success: errors.length === 0, period: period as AwayPeriod, moved, errors }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+/**
+ * Run an incremental reschedule of every active, unpaused dream with incomplete occurrences between
+ * two dates, after days in that range lost capacity. Returns the occurrences moved for `reason`.
+ */
+export async function moveWorkOutOf(
+  sb: SupabaseClient,
+  userId: string,
+  userToken: string,
+  range: { from: string; to: string; reason: MoveReason }
+): Promise<{ moved: (RescheduleChange & { dream_id: string })[]; errors: string[] }> {
+  const { data: affected, error: affectedError } = await sb
+    .from('action_occurrences')
+    .select('dream_id, dreams!inner(activated_at, archived_at, paused_at)')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .gte('due_on', range.from)
+    .lte('due_on', range.to)
+    .not('dreams.activated_at', 'is', null)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null)
+
+  if (affectedError) return { moved: [], errors: ['Failed to find occurrences to move'] }
+
+  const dreamIds = Array.from(new Set((affected || []).map(row => row.dream_id as string)))
+  const moved: (RescheduleChange & { dream_id: string })[] = []
+  const errors: string[] = []
+
+  // One dream at a time, so each reschedule sees the dates the previous ones took
+  for (const dreamId of dreamIds) {
+    const result = await rescheduleDreamActions(dreamId, userId, userToken, { mode: 'incremental' })
+    if (!result.success) {
+      errors.push(...result.errors)
+      continue
+    }
+    for (const change of result.changes || []) {
+      if (change.type === 'moved' && change.reason === range.reason) moved.push({ ...change, dream_id: dreamId })
+    }
+  }
+
+  return { moved, errors }
+}
@@ -0,0 +1,128 @@
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { busyDaysFromIcs } from '../calendar/import'
+import { moveWorkOutOf } from './away'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import type { RescheduleChange } from './incremental'
+import type { BusyDay } from '../../database/types'
+
+// Larger files are rejected before parsing
+export const MAX_ICS_BYTES = 2 * 1024 * 1024
+
+export interface ImportBusyDaysResult {
+  success: boolean
+  days: BusyDay[] // Busy days added by this import
+  skipped_count: number // Days that already had a busy day, left as the user set them
+  skipped_recurring: string[] // Recurring events with a rule that couldn't be expanded; only their first day counted
+  moved: (RescheduleChange & { dream_id: string })[] // Occurrences moved off blocked or full days
+  errors: string[]
+  invalid?: boolean // The file was rejected; nothing was saved
+}
+
+export interface UpdateBusyDayResult {
+  success: boolean
+  day?: BusyDay
+  moved: (RescheduleChange & { dream_id: string })[] // Occurrences moved off the day
+  errors: string[]
+  invalid?: boolean // The capacity was rejected; nothing was saved
+  not_found?: boolean
+}
+
+/**
+ * Import busy days from an ICS file and move the user's work off them. Days that already have a
+ * busy day keep it, so edits made in the app survive a re-import. Every active, unpaused dream with
+ * incomplete occurrences in the imported range then gets an incremental reschedule: occurrences on
+ * blocked days, and on reduced days beyond their cap, move to the first days with room.
+ */
+export async function importBusyDays(
+  userId: string,
+  userToken: string,
+  ics: string
+): Promise<ImportBusyDaysResult> {
+  const failed = (error: string): ImportBusyDaysResult => ({ success: false, days: [], skipped_count: 0, skipped_recurring: [], moved: [], errors: [error] })
+
+  try {
+    if (ics.length > MAX_ICS_BYTES) return { ...failed('The calendar file is too large'), invalid: true }
+
+    const sb = supabaseServerAuth(userToken)
+
+    const timezone = await fetchUserTimezone(sb, userId)
+    const today = localDateInTimezone(timezone)
+    const parsed = busyDaysFromIcs(ics, timezone, today)
+    if (!parsed) return { ...failed("That doesn't look like a calendar (.ics) file"), invalid: true }
+    if (parsed.days.length === 0) return { ...failed('The calendar has no busy days from today on'), invalid: true }
+
+    const { skipped_recurring } = parsed
+    const { data: saved, error: saveError } = await sb
+      .from('busy_days')
+      .upsert(
+        parsed.days.map(day => ({ ...day, user_id: userId, source: 'ics' })),
+        { onConflict: 'user_id,date', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (saveError) return failed('Failed to save busy days')
+
+    const days = ((saved || []) as BusyDay[]).sort((a, b) => a.date.localeCompare(b.date))
+    if (days.length === 0) {
+      return { success: true, days, skipped_count: parsed.days.length, skipped_recurring, moved: [], errors: [] }
+    }
+
+    const { moved, errors } = await moveWorkOutOf(sb, userId, userToken, {
+      from: days[0].date,
+      to: days[days.length - 1].date,
+      reason: 'busy'
+    })
+
+    console.log(`📆 Imported ${days.length} busy days (${parsed.days.length - days.length} already set): moved ${moved.length} occurrences`)
+
+    return { success: errors.length === 0, days, skipped_count: parsed.days.length - days.length, skipped_recurring, moved, errors }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+/**
+ * Change how much of a busy day is free and move the user's work to fit, exactly like an import
+ * does: occurrences on a blocked day, or beyond a reduced day's cap, move to the first days with room.
+ */
+export async function updateBusyDay(
+  userId: string,
+  userToken: string,
+  id: string,
+  capacityPercent: unknown
+): Promise<UpdateBusyDayResult> {
+  const failed = (error: string): UpdateBusyDayResult => ({ success: false, moved: [], errors: [error] })
+
+  try {
+    if (typeof capacityPercent !== 'number' || !Number.isInteger(capacityPercent) || capacityPercent < 0 || capacityPercent > 100) {
+      return { ...failed('capacity_percent must be a whole number from 0 to 100'), invalid: true }
+    }
+
+    const sb = supabaseServerAuth(userToken)
+
+    // RLS will automatically filter by user_id
+    const { data: day, error: updateError } = await sb
+      .from('busy_days')
+      .update({ capacity_percent: capacityPercent, source: 'manual' })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (updateError) return failed('Failed to update the busy day')
+    if (!day) return { ...failed('Busy day not found'), not_found: true }
+
+    const { moved, errors } = await moveWorkOutOf(sb, userId, userToken, {
+      from: day.date,
+      to: day.date,
+      reason: 'busy'
+    })
+
+    console.log(`📆 Busy day ${day.date} set to ${capacityPercent}%: moved ${moved.length} occurrences`)
+
+    return { success: errors.length === 0, day: day as BusyDay, moved, errors }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
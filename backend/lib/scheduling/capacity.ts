@@ -0,0 +1,75 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ActionOccurrence, DreamPriority } from '../../database/types'
+
+/**
+ * An occurrence from another of the user's dreams that already uses a slot on its day
+ */
+export type OtherDreamOccurrence = Pick<ActionOccurrence, 'dream_id' | 'due_on'> & {
+  priority?: DreamPriority // Of its dream; 'normal' when unset
+}
+
+const PRIORITY_RANK: Record<DreamPriority, number> = { low: 0, normal: 1, high: 2 }
+
+/**
+ * Whether another dream's occurrence gives up its slot to a dream of the given priority.
+ * Only lower-priority work yields; work from dreams of the same or higher priority holds its day.
+ */
+export function yieldsTo(occurrence: Pick<OtherDreamOccurrence, 'priority'>, priority: DreamPriority = 'normal'): boolean {
+  return PRIORITY_RANK[occurrence.priority ?? 'normal'] < PRIORITY_RANK[priority]
+}
+
+/**
+ * Whether another dream's occurrence outranks a dream of the given priority
+ */
+export function outranks(occurrence: Pick<OtherDreamOccurrence, 'priority'>, priority: DreamPriority = 'normal'): boolean {
+  return PRIORITY_RANK[occurrence.priority ?? 'normal'] > PRIORITY_RANK[priority]
+}
+
+/**
+ * A day where the user-wide daily cap had to be exceeded to fit this dream
+ */
+export interface OverloadedDay {
+  date: string
+  scheduled: number // Total incomplete occurrences across all dreams
+  cap: number // The user's global daily cap (0 on rest days)
+  other_dreams: number // How many of those belong to other dreams
+  lower_priority?: number // How many of those yield to this dream and get moved off the day; set when any do
+}
+
+/**
+ * Load the user's incomplete occurrences from their other non-archived, unpaused dreams, from a date onwards.
+ * These are preloaded into the capacity tracker so the global daily cap is enforced user-wide.
+ * Each carries its dream's priority so a higher-priority dream can claim the day.
+ */
+export async function fetchOtherDreamOccurrences(
+  sb: SupabaseClient,
+  userId: string,
+  dreamId: string,
+  fromDate: string
+): Promise<OtherDreamOccurrence[]> {
+  const { data, error } = await sb
+    .from('action_occurrences')
+    .select('dream_id, due_on, dreams!inner(archived_at, paused_at, priority), actions!inner(is_active, deleted_at)')
+    .eq('user_id', userId)
+    .neq('dream_id', dreamId)
+    .is('completed_at', null)
+    .not('due_on', 'is', null)
+    .gte('due_on', fromDate)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null)
+    .eq('actions.is_active', true)
+    .is('actions.deleted_at', null)
+
+  if (error) {
+    // Scheduling still works without this, it just can't see the other dreams' load
+    console.error('Failed to fetch other dream occurrences, scheduling this dream in isolation:', error)
+    return []
+  }
+
+  type OccurrenceRow = Pick<ActionOccurrence, 'dream_id' | 'due_on'> & { dreams: { priority?: DreamPriority | null } | null }
+  return ((data || []) as unknown as OccurrenceRow[]).map(occ => ({
+    dream_id: occ.dream_id,
+    due_on: occ.due_on,
+    priority: occ.dreams?.priority ?? 'normal'
+  }))
+}
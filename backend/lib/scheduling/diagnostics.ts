@@ -0,0 +1,162 @@
+// Conservative estimate of how long an action takes, used to turn a time commitment into daily slots
+export const ESTIMATED_MINUTES_PER_ACTION = 45
+
+// How far the end-date search looks before giving up
+const MAX_EXTENSION_DAYS = 730
+// Time commitment suggestions are rounded up to this many minutes
+const TIME_COMMITMENT_STEP_MINUTES = 5
+const MAX_DAILY_MINUTES = 24 * 60
+
+/**
+ * An action the scheduler couldn't place inside the window
+ */
+export interface UnplacedAction {
+  action_id: string
+  title: string
+  reason: 'no_room' | 'waiting_on_prerequisites'
+}
+
+/**
+ * A day where this dream needed more slots than its time commitment and the user-wide cap allow,
+ * or more minutes than its time commitment (a single action longer than that doesn't count)
+ */
+export interface CappedDay {
+  date: string
+  scheduled: number // This dream's occurrences on the day
+  cap: number // Slots the dream had that day, after the user's other dreams
+  minutes: number // Estimated minutes of this dream's occurrences on the day
+  minutes_cap: number // The dream's daily time commitment
+}
+
+/**
+ * A change that would make the plan fit, ready to apply as-is
+ */
+export type SchedulingFix =
+  | { type: 'extend_end_date'; end_date: string; extra_days: number }
+  | { type: 'increase_time_commitment'; time_commitment: { hours: number; minutes: number } }
+
+export interface SchedulingDiagnostics {
+  unplaced_actions: UnplacedAction[]
+  capped_days: CappedDay[]
+  fixes: SchedulingFix[]
+}
+
+/**
+ * What a plan needs and what the user has, for working out the smallest change that fits it
+ */
+export interface FitInput {
+  start_date: string
+  end_date: string // Current window end
+  rest_days: Set<number>
+  away_dates?: Set<string>
+  daily_minutes: number
+  global_daily_cap: number
+  other_dream_load: Map<string, number> // date -> occurrences from the user's other dreams
+  one_off: { occurrences: number; minutes: number }
+  recurring: { occurrences: number; minutes: number } // Within the current window; grows with the window
+  latest_due_on?: string // Prerequisite chains can't finish before this day, whatever the capacity
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000))
+
+/**
+ * Slots a dream has on a day: its time commitment in actions (at least one), limited by
+ * what the user's other dreams left of the user-wide cap. Rest days and away days have none.
+ */
+export function slotsForDay(
+  date: string,
+  dailyMinutes: number,
+  globalDailyCap: number,
+  otherDreamLoad: Map<string, number>,
+  restDays: Set<number>,
+  awayDates: Set<string> = new Set()
+): number {
+  if (restDays.has(new Date(date).getUTCDay()) || awayDates.has(date)) return 0
+  const timeBasedCap = Math.max(1, Math.floor(dailyMinutes / ESTIMATED_MINUTES_PER_ACTION))
+  const effectiveCap = Math.min(timeBasedCap, globalDailyCap)
+  return Math.max(0, Math.min(effectiveCap, globalDailyCap - (otherDreamLoad.get(date) || 0)))
+}
+
+/**
+ * Whether the plan fits between the start date and `endDate` with `dailyMinutes` a day.
+ * Repeats are assumed to keep the density they have in the current window.
+ */
+function fits(input: FitInput, endDate: string, dailyMinutes: number): boolean {
+  if (input.latest_due_on && input.latest_due_on > endDate) return false
+
+  let workdays = 0
+  let currentWorkdays = 0
+  let slots = 0
+  for (let date = input.start_date; date <= endDate || date <= input.end_date; date = addDays(date, 1)) {
+    if (input.rest_days.has(new Date(date).getUTCDay()) || input.away_dates?.has(date)) continue
+    if (date <= input.end_date) currentWorkdays++
+    if (date <= endDate) {
+      workdays++
+      slots += slotsForDay(date, dailyMinutes, input.global_daily_cap, input.other_dream_load, input.rest_days)
+    }
+  }
+
+  const recurringScale = currentWorkdays > 0 ? workdays / currentWorkdays : 1
+  const occurrences = input.one_off.occurrences + input.recurring.occurrences * recurringScale
+  const minutes = input.one_off.minutes + input.recurring.minutes * recurringScale
+
+  return slots >= Math.ceil(occurrences) && dailyMinutes * workdays >= minutes
+}
+
+/**
+ * The earliest end date after the current one that fits the plan, or null if it already fits
+ * (the overflow came from how it was spread) or nothing within two years does
+ */
+export function minimumEndDate(input: FitInput): string | null {
+  if (fits(input, input.end_date, input.daily_minutes)) return null
+
+  for (let extra = 1; extra <= MAX_EXTENSION_DAYS; extra++) {
+    const endDate = addDays(input.end_date, extra)
+    if (fits(input, endDate, input.daily_minutes)) return endDate
+  }
+  return null
+}
+
+/**
+ * The smallest daily time commitment (in 5-minute steps) that fits the plan by the current
+ * end date, or null when more time can't help (the user-wide cap or prerequisites are the limit)
+ */
+export function minimumDailyMinutes(input: FitInput): number | null {
+  if (input.latest_due_on && input.latest_due_on > input.end_date) return null
+
+  const first = Math.ceil((input.daily_minutes + 1) / TIME_COMMITMENT_STEP_MINUTES) * TIME_COMMITMENT_STEP_MINUTES
+  for (let minutes = first; minutes <= MAX_DAILY_MINUTES; minutes += TIME_COMMITMENT_STEP_MINUTES) {
+    if (fits(input, input.end_date, minutes)) return minutes
+  }
+  return null
+}
+
+/**
+ * One-tap fixes for a plan that doesn't fit: the shortest end-date extension and the smallest
+ * time commitment increase that would each make it fit on their own
+ */
+export function suggestFixes(input: FitInput): SchedulingFix[] {
+  const fixes: SchedulingFix[] = []
+
+  const endDate = minimumEndDate(input)
+  if (endDate) {
+    fixes.push({ type: 'extend_end_date', end_date: endDate, extra_days: daysBetween(input.end_date, endDate) })
+  }
+
+  const minutes = minimumDailyMinutes(input)
+  if (minutes) {
+    fixes.push({
+      type: 'increase_time_commitment',
+      time_commitment: { hours: Math.floor(minutes / 60), minutes: minutes % 60 }
+    })
+  }
+
+  return fixes
+}
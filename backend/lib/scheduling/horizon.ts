@@ -0,0 +1,250 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Action, ActionOccurrence, RecurrenceRule } from '../../database/types'
+import { fetchSchedulingPreferences, isDayOff, dailyCap, perDreamCap, type ResolvedSchedulingPreferences } from './preferences'
+import { expandRecurrence, resolveRecurrence, spreadEvenly } from './recurrence'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+
+// How far ahead ongoing habits are kept scheduled
+export const HORIZON_WEEKS = 4
+
+/**
+ * A repeating action and where its series currently ends
+ */
+export interface HorizonHabit {
+  action_id: string
+  dream_id: string
+  area_id: string
+  recurrence: RecurrenceRule
+  last_occurrence_no: number
+  last_due_on: string
+  last_week_count: number // Occurrences already in last_due_on's Monday-Sunday week (times-per-week rules)
+  until: string // Last day it may repeat: the horizon end, repeat_until_date or the dream's end date, whichever is first
+}
+
+export type HorizonOccurrence = Pick<ActionOccurrence, 'action_id' | 'dream_id' | 'area_id' | 'occurrence_no' | 'due_on'>
+
+type ScheduledOccurrence = Pick<ActionOccurrence, 'dream_id' | 'due_on'>
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0]
+
+const earliestDate = (...dates: (string | null | undefined)[]) =>
+  dates.filter((date): date is string => !!date).reduce((earliest, date) => date < earliest ? date : earliest)
+
+/**
+ * Where a habit's series stands, from its dated occurrences, to carry it on to `until`. Null when it
+ * has none yet - seeding it is the scheduler's job.
+ */
+export function horizonHabit(
+  action: Pick<Action, 'id' | 'area_id'>,
+  dreamId: string,
+  recurrence: RecurrenceRule,
+  occurrences: Pick<ActionOccurrence, 'occurrence_no' | 'due_on'>[],
+  until: string
+): HorizonHabit | null {
+  const dated = occurrences.filter(occ => occ.due_on)
+  if (dated.length === 0) return null
+
+  const last = dated.reduce((latest, occ) => occ.occurrence_no > latest.occurrence_no ? occ : latest)
+  const lastDay = new Date(last.due_on!).getUTCDay()
+  const weekStart = addDays(last.due_on!, -((lastDay + 6) % 7))
+
+  return {
+    action_id: action.id,
+    dream_id: dreamId,
+    area_id: action.area_id,
+    recurrence,
+    last_occurrence_no: last.occurrence_no,
+    last_due_on: last.due_on!,
+    last_week_count: dated.filter(occ => occ.due_on! >= weekStart && occ.due_on! <= last.due_on!).length,
+    until
+  }
+}
+
+/**
+ * Plan the repeats that carry each habit's series on to its `until` date, numbered on from its
+ * last occurrence. Only days from today are used and away and blocked days are skipped. Caps are respected:
+ * a repeat whose day is full moves to the next day with room before the following repeat, and is
+ * dropped if there is none. The load includes everything already scheduled and earlier repeats.
+ */
+export function planHorizonExtension(
+  habits: HorizonHabit[],
+  scheduled: ScheduledOccurrence[],
+  today: string,
+  preferences: ResolvedSchedulingPreferences
+): HorizonOccurrence[] {
+  const dayLoad = new Map<string, number>()
+  const dreamLoad = new Map<string, number>()
+
+  const book = (dreamId: string, date: string) => {
+    dayLoad.set(date, (dayLoad.get(date) || 0) + 1)
+    dreamLoad.set(`${dreamId}-${date}`, (dreamLoad.get(`${dreamId}-${date}`) || 0) + 1)
+  }
+  const hasRoom = (dreamId: string, date: string) =>
+    !isDayOff(preferences, date) &&
+    (dayLoad.get(date) || 0) < dailyCap(preferences, date) &&
+    (dreamLoad.get(`${dreamId}-${date}`) || 0) < perDreamCap(preferences, dreamId, date)
+
+  for (const occ of scheduled) {
+    if (occ.due_on && occ.due_on >= today) book(occ.dream_id, occ.due_on)
+  }
+
+  const planned: HorizonOccurrence[] = []
+
+  for (const habit of habits) {
+    if (habit.until <= habit.last_due_on) continue
+
+    // "N times a week" habits take the days with room, spread through the week
+    const pickDaysWithRoom = (candidates: Date[], count: number) => {
+      const picked = new Set<Date>()
+      for (const preferred of spreadEvenly(candidates, count)) {
+        const day = hasRoom(habit.dream_id, toDateString(preferred)) && !picked.has(preferred)
+          ? preferred
+          : candidates.find(candidate => !picked.has(candidate) && hasRoom(habit.dream_id, toDateString(candidate))) ?? candidates.find(candidate => !picked.has(candidate))!
+        picked.add(day)
+      }
+      return Array.from(picked)
+    }
+
+    let dates = expandRecurrence(
+      habit.recurrence,
+      new Date(habit.last_due_on),
+      new Date(habit.until),
+      preferences.rest_days,
+      pickDaysWithRoom
+    ).map(toDateString)
+
+    // The series may end mid-week: only top that week up to the weekly count
+    if (habit.recurrence.type === 'times_per_week') {
+      const lastDay = new Date(habit.last_due_on).getUTCDay()
+      const nextMonday = addDays(habit.last_due_on, 7 - (lastDay + 6) % 7)
+      const sameWeek = dates.filter(date => date < nextMonday)
+      const wanted = Math.max(0, habit.recurrence.count - habit.last_week_count)
+      dates = [...sameWeek.slice(0, wanted), ...dates.filter(date => date >= nextMonday)]
+    }
+
+    let occurrenceNo = habit.last_occurrence_no + 1
+    dates.forEach((date, index) => {
+      if (date < today || isDayOff(preferences, date)) return
+
+      // A full day hands the repeat to the next day with room before the following one
+      let target: string | undefined = date
+      const nextDate = dates[index + 1] ?? addDays(habit.until, 1)
+      while (target && !hasRoom(habit.dream_id, target)) {
+        const next = addDays(target, 1)
+        target = next < nextDate && next <= habit.until ? next : undefined
+      }
+      if (!target) return
+
+      book(habit.dream_id, target)
+      planned.push({
+        action_id: habit.action_id,
+        dream_id: habit.dream_id,
+        area_id: habit.area_id,
+        occurrence_no: occurrenceNo++,
+        due_on: target
+      })
+    })
+  }
+
+  return planned
+}
+
+/**
+ * Keep a user's ongoing habits scheduled HORIZON_WEEKS ahead: every active repeating action in an
+ * activated, unarchived, unpaused dream gets repeats past its last occurrence, stopping at its
+ * repeat_until_date or the dream's end date. The end date cap is intended - a dream's habits end
+ * with it - and is read on every run, so a pushed-back end date is filled in next time. Deactivated or deleted actions (and deleted areas)
+ * are left alone, so their series simply stops. Returns the occurrences that were added.
+ */
+export async function extendHabitHorizon(sb: SupabaseClient, userId: string): Promise<HorizonOccurrence[]> {
+  const [timezone, preferences] = await Promise.all([
+    fetchUserTimezone(sb, userId),
+    fetchSchedulingPreferences(sb, userId)
+  ])
+  const today = localDateInTimezone(timezone)
+  const horizonEnd = addDays(today, HORIZON_WEEKS * 7)
+
+  const { data: actionRows, error: actionsError } = await sb
+    .from('actions')
+    .select('id, area_id, recurrence, repeat_every_days, repeat_until_date, areas!inner(dream_id, deleted_at, dreams!inner(end_date, activated_at, archived_at, paused_at))')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+    .is('areas.deleted_at', null)
+    .not('areas.dreams.activated_at', 'is', null)
+    .is('areas.dreams.archived_at', null)
+    .is('areas.dreams.paused_at', null) // Paused dreams are rebuilt when they resume
+    .or('recurrence.not.is.null,repeat_every_days.not.is.null')
+
+  if (actionsError) throw new Error(`Failed to fetch repeating actions: ${actionsError.message}`)
+
+  type ActionRow = Pick<Action, 'id' | 'area_id' | 'recurrence' | 'repeat_every_days' | 'repeat_until_date'> & {
+    areas: { dream_id: string; dreams: { end_date?: string | null } }
+  }
+  const actions = ((actionRows || []) as unknown as ActionRow[])
+    .map(action => ({ action, recurrence: resolveRecurrence(action) }))
+    .filter((entry): entry is { action: ActionRow; recurrence: RecurrenceRule } => entry.recurrence !== null)
+  if (actions.length === 0) return []
+
+  const { data: seriesRows, error: seriesError } = await sb
+    .from('action_occurrences')
+    .select('action_id, occurrence_no, due_on')
+    .in('action_id', actions.map(({ action }) => action.id))
+    .not('due_on', 'is', null)
+
+  if (seriesError) throw new Error(`Failed to fetch habit occurrences: ${seriesError.message}`)
+
+  const series = new Map<string, Pick<ActionOccurrence, 'occurrence_no' | 'due_on'>[]>()
+  for (const occ of seriesRows || []) {
+    if (!series.has(occ.action_id)) series.set(occ.action_id, [])
+    series.get(occ.action_id)!.push(occ)
+  }
+
+  const habits: HorizonHabit[] = []
+  for (const { action, recurrence } of actions) {
+    const until = earliestDate(horizonEnd, action.repeat_until_date, action.areas.dreams.end_date)
+    const habit = horizonHabit(action, action.areas.dream_id, recurrence, series.get(action.id) || [], until)
+    if (habit) habits.push(habit)
+  }
+
+  if (habits.length === 0) return []
+
+  const { data: scheduled, error: scheduledError } = await sb
+    .from('action_occurrences')
+    .select('dream_id, due_on, dreams!inner(archived_at, paused_at), actions!inner(is_active, deleted_at)')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .gte('due_on', today)
+    .lte('due_on', horizonEnd)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null)
+    .eq('actions.is_active', true)
+    .is('actions.deleted_at', null)
+
+  if (scheduledError) throw new Error(`Failed to fetch scheduled occurrences: ${scheduledError.message}`)
+
+  const planned = planHorizonExtension(habits, (scheduled || []) as unknown as ScheduledOccurrence[], today, preferences)
+  if (planned.length === 0) return []
+
+  // ignoreDuplicates: a concurrent reschedule that already numbered these repeats wins
+  const { error: insertError } = await sb
+    .from('action_occurrences')
+    .upsert(
+      planned.map(occ => ({
+        ...occ,
+        user_id: userId,
+        planned_due_on: occ.due_on
+      })),
+      { onConflict: 'action_id,occurrence_no', ignoreDuplicates: true }
+    )
+
+  if (insertError) throw new Error(`Failed to add habit occurrences: ${insertError.message}`)
+
+  return planned
+}
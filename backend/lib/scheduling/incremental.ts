@@ -0,0 +1,308 @@
+import type { Dream, DreamPriority, Action, ActionOccurrence } from '../../database/types'
+import { dailyCap, type ResolvedSchedulingPreferences } from './preferences'
+import { yieldsTo, outranks, type OtherDreamOccurrence } from './capacity'
+import { resolveRecurrence } from './recurrence'
+import { horizonHabit, planHorizonExtension, type HorizonHabit } from './horizon'
+
+/**
+ * Why an existing occurrence had to move during an incremental reschedule
+ */
+export type MoveReason = 'overdue' | 'after_end_date' | 'rest_day' | 'away' | 'busy' | 'priority'
+
+/**
+ * A single change made (or, in a preview, that would be made) by an incremental reschedule
+ */
+export interface RescheduleChange {
+  type: 'added' | 'moved' | 'removed' | 'unplaced' // Unplaced: had to move, but no day up to the end date has room
+  occurrence_id?: string // Existing occurrence (moved, removed, unplaced)
+  action_id: string
+  occurrence_no: number
+  from?: string
+  to?: string
+  reason?: MoveReason // Only set for moved and unplaced occurrences
+}
+
+export interface IncrementalPlan {
+  updates: { id: string; due_on: string }[]
+  inserts: { action_id: string; occurrence_no: number; due_on: string }[]
+  deletes: string[]
+  changes: RescheduleChange[]
+  pinned_count: number // Incomplete occurrences left alone because the user set their date
+}
+
+type CurrentOccurrence = Pick<ActionOccurrence, 'id' | 'action_id' | 'occurrence_no' | 'due_on' | 'completed_at' | 'pinned_at'>
+type PlannedOccurrence = Pick<ActionOccurrence, 'action_id' | 'occurrence_no' | 'due_on'>
+
+const occurrenceKey = (actionId: string, occurrenceNo: number) => `${actionId}-${occurrenceNo}`
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * An occurrence the user has dated by hand (deferred or edited) - rescheduling never moves it
+ */
+export function isPinned(occurrence: Pick<ActionOccurrence, 'pinned_at'>): boolean {
+  return !!occurrence.pinned_at
+}
+
+/**
+ * Last day an occurrence may stay on: the dream's end date, or the end of the generated plan for open-ended dreams
+ */
+export function incrementalEndDate(dream: Pick<Dream, 'end_date'>, planned: Pick<ActionOccurrence, 'due_on'>[]): string {
+  if (dream.end_date) return dream.end_date
+  return planned.reduce((latest, occ) => (occ.due_on && occ.due_on > latest ? occ.due_on : latest), '')
+}
+
+/**
+ * The habits whose series an incremental reschedule carries on: every repeating action that already
+ * has occurrences, up to the end date (or its repeat_until_date, if earlier)
+ */
+export function habitsToContinue(
+  dream: Pick<Dream, 'id'>,
+  actions: Pick<Action, 'id' | 'area_id' | 'recurrence' | 'repeat_every_days' | 'repeat_until_date'>[],
+  occurrences: Pick<ActionOccurrence, 'action_id' | 'occurrence_no' | 'due_on'>[],
+  endDate: string
+): HorizonHabit[] {
+  const habits: HorizonHabit[] = []
+  for (const action of actions) {
+    const recurrence = resolveRecurrence(action)
+    if (!recurrence) continue
+    const until = action.repeat_until_date && action.repeat_until_date < endDate ? action.repeat_until_date : endDate
+    const habit = horizonHabit(action, dream.id, recurrence, occurrences.filter(occ => occ.action_id === action.id), until)
+    if (habit) habits.push(habit)
+  }
+  return habits
+}
+
+/**
+ * Work out the smallest set of changes that turns the current occurrences into a valid schedule,
+ * using a freshly generated plan for where things should go.
+ *
+ * - Completed occurrences are never touched, and pinned ones only move off days the user is away
+ * - Other incomplete occurrences stay on their date unless it is before today, after the end date, a rest day,
+ *   a day the user is away, a busy day that is blocked or already full at its reduced cap, or a full day
+ *   a higher-priority dream has work on
+ * - Occurrences that must move (and new ones) take their planned date, or the next workday with room
+ * - Incomplete occurrences the plan no longer has (e.g. repeats past a shorter end date) are removed
+ * - An occurrence that must move but finds no day with room up to the end date stays where it is
+ *   and is reported as `unplaced`
+ *
+ * The fresh plan starts each habit over from today, so it is only used for habits with no occurrences
+ * yet. The series of the ones in `habits` (see habitsToContinue) is carried on from its last occurrence
+ * by the horizon planner instead: a repeat that must move takes the earliest of those days, and the
+ * rest are added, numbered on from the last occurrence just as the horizon job numbers them.
+ *
+ * Moved occurrences keep their id, so notes, artifacts and defer history survive.
+ */
+export function planIncrementalReschedule(
+  current: CurrentOccurrence[],
+  planned: PlannedOccurrence[],
+  window: { today: string; end_date: string },
+  preferences: ResolvedSchedulingPreferences,
+  otherDreamOccurrences: OtherDreamOccurrence[] = [],
+  priority: DreamPriority = 'normal',
+  habits: HorizonHabit[] = []
+): IncrementalPlan {
+  const plan: IncrementalPlan = { updates: [], inserts: [], deletes: [], changes: [], pinned_count: 0 }
+
+  const isRestDay = (date: string) => preferences.rest_days.has(new Date(date).getUTCDay())
+  const capFor = (date: string) => dailyCap(preferences, date)
+  const habitIds = new Set(habits.map(habit => habit.action_id))
+
+  // Load per day across all dreams, built up as occurrences are kept or placed. Lower-priority
+  // dreams' work doesn't count: it gives up its slots to this dream.
+  const load = new Map<string, number>()
+  const addLoad = (date: string) => load.set(date, (load.get(date) || 0) + 1)
+  const higherPriorityDates = new Set<string>()
+  for (const occurrence of otherDreamOccurrences) {
+    if (!occurrence.due_on || yieldsTo(occurrence, priority)) continue
+    addLoad(occurrence.due_on)
+    if (outranks(occurrence, priority)) higherPriorityDates.add(occurrence.due_on)
+  }
+
+  const plannedByKey = new Map<string, PlannedOccurrence>()
+  for (const occurrence of planned) {
+    if (habitIds.has(occurrence.action_id)) continue // Carried on from their own series below
+    const key = occurrenceKey(occurrence.action_id, occurrence.occurrence_no)
+    if (occurrence.due_on && !plannedByKey.has(key)) plannedByKey.set(key, occurrence)
+  }
+
+  const toPlace: { current?: CurrentOccurrence; planned: PlannedOccurrence; reason?: MoveReason }[] = []
+  const habitMoves: { current: CurrentOccurrence; reason: MoveReason }[] = []
+  const unplaced: { current: CurrentOccurrence; reason?: MoveReason }[] = []
+  const keptDays: string[] = [] // This dream's incomplete occurrences that stay put
+  const currentKeys = new Set<string>()
+
+  for (const occurrence of current) {
+    const key = occurrenceKey(occurrence.action_id, occurrence.occurrence_no)
+    currentKeys.add(key)
+
+    if (occurrence.completed_at) continue
+
+    if (isPinned(occurrence)) {
+      // Being away overrides a date picked by hand, like rest days do in the scheduler; the
+      // occurrence moves to the first day with room from its pinned date
+      const dueOn = occurrence.due_on
+      if (dueOn && dueOn >= window.today && preferences.away_dates.has(dueOn)) {
+        const planned = { action_id: occurrence.action_id, occurrence_no: occurrence.occurrence_no, due_on: dueOn }
+        if (habitIds.has(occurrence.action_id)) habitMoves.push({ current: occurrence, reason: 'away' })
+        else toPlace.push({ current: occurrence, planned, reason: 'away' })
+        continue
+      }
+      plan.pinned_count++
+      if (occurrence.due_on) {
+        addLoad(occurrence.due_on)
+        keptDays.push(occurrence.due_on)
+      }
+      continue
+    }
+
+    const dueOn = occurrence.due_on
+    const reason: MoveReason | undefined = !dueOn || dueOn < window.today ? 'overdue'
+      : dueOn > window.end_date ? 'after_end_date'
+      : isRestDay(dueOn) ? 'rest_day'
+      : preferences.away_dates.has(dueOn) ? 'away'
+      : preferences.busy_days.has(dueOn) && (load.get(dueOn) || 0) >= capFor(dueOn) ? 'busy'
+      : higherPriorityDates.has(dueOn) && (load.get(dueOn) || 0) >= capFor(dueOn) ? 'priority'
+      : undefined
+
+    // A habit's repeats stay on any day that's fine; the ones past the end date are no longer wanted
+    const plannedOccurrence = plannedByKey.get(key)
+    const wanted = habitIds.has(occurrence.action_id) ? reason !== 'after_end_date' : !!plannedOccurrence
+
+    if (!wanted) {
+      plan.deletes.push(occurrence.id)
+      plan.changes.push({
+        type: 'removed',
+        occurrence_id: occurrence.id,
+        action_id: occurrence.action_id,
+        occurrence_no: occurrence.occurrence_no,
+        from: occurrence.due_on
+      })
+      continue
+    }
+
+    if (!reason) {
+      addLoad(dueOn!)
+      keptDays.push(dueOn!)
+    } else if (habitIds.has(occurrence.action_id)) {
+      habitMoves.push({ current: occurrence, reason })
+    } else {
+      toPlace.push({ current: occurrence, planned: plannedOccurrence!, reason })
+    }
+  }
+
+  // Carry each habit's series on around what stays put. All of `habits` belong to this dream.
+  const dreamId = habits[0]?.dream_id ?? ''
+  const continuation = planHorizonExtension(
+    habits,
+    [
+      ...keptDays.map(due_on => ({ dream_id: dreamId, due_on })),
+      ...otherDreamOccurrences.filter(occurrence => !yieldsTo(occurrence, priority))
+    ],
+    window.today,
+    preferences
+  )
+
+  // Repeats that must move take the habit's next days, earliest first; the rest are added
+  const nextDays = new Map<string, string[]>()
+  for (const occurrence of continuation) {
+    if (!nextDays.has(occurrence.action_id)) nextDays.set(occurrence.action_id, [])
+    nextDays.get(occurrence.action_id)!.push(occurrence.due_on!)
+  }
+
+  habitMoves.sort((a, b) => (a.current.due_on || '').localeCompare(b.current.due_on || ''))
+  for (const { current: occurrence, reason } of habitMoves) {
+    const dueOn = nextDays.get(occurrence.action_id)?.shift()
+    if (!dueOn) {
+      unplaced.push({ current: occurrence, reason })
+      continue
+    }
+    addLoad(dueOn)
+    plan.updates.push({ id: occurrence.id, due_on: dueOn })
+    plan.changes.push({
+      type: 'moved',
+      occurrence_id: occurrence.id,
+      action_id: occurrence.action_id,
+      occurrence_no: occurrence.occurrence_no,
+      from: occurrence.due_on,
+      to: dueOn,
+      reason
+    })
+  }
+
+  for (const habit of habits) {
+    let occurrenceNo = habit.last_occurrence_no
+    for (const dueOn of nextDays.get(habit.action_id) || []) {
+      occurrenceNo++
+      addLoad(dueOn)
+      plan.inserts.push({ action_id: habit.action_id, occurrence_no: occurrenceNo, due_on: dueOn })
+      plan.changes.push({ type: 'added', action_id: habit.action_id, occurrence_no: occurrenceNo, to: dueOn })
+    }
+  }
+
+  for (const [key, plannedOccurrence] of plannedByKey) {
+    if (!currentKeys.has(key)) toPlace.push({ planned: plannedOccurrence })
+  }
+
+  // Place in plan order so earlier occurrences get first pick of the free days
+  toPlace.sort((a, b) => a.planned.due_on!.localeCompare(b.planned.due_on!))
+
+  for (const item of toPlace) {
+    const target = item.planned.due_on!
+    let dueOn: string | undefined
+    for (let date = target; date <= window.end_date; date = addDays(date, 1)) {
+      if ((load.get(date) || 0) < capFor(date)) {
+        dueOn = date
+        break
+      }
+    }
+
+    if (item.current && !dueOn) {
+      unplaced.push({ current: item.current, reason: item.reason })
+      continue
+    }
+
+    // New work goes on its planned date even when no day has room; the plan reports the overload
+    dueOn = dueOn ?? target
+    addLoad(dueOn)
+
+    if (item.current) {
+      plan.updates.push({ id: item.current.id, due_on: dueOn })
+      plan.changes.push({
+        type: 'moved',
+        occurrence_id: item.current.id,
+        action_id: item.current.action_id,
+        occurrence_no: item.current.occurrence_no,
+        from: item.current.due_on,
+        to: dueOn,
+        reason: item.reason
+      })
+    } else {
+      plan.inserts.push({ action_id: item.planned.action_id, occurrence_no: item.planned.occurrence_no, due_on: dueOn })
+      plan.changes.push({
+        type: 'added',
+        action_id: item.planned.action_id,
+        occurrence_no: item.planned.occurrence_no,
+        to: dueOn
+      })
+    }
+  }
+
+  // Left where they are, and not written
+  for (const { current: occurrence, reason } of unplaced) {
+    plan.changes.push({
+      type: 'unplaced',
+      occurrence_id: occurrence.id,
+      action_id: occurrence.action_id,
+      occurrence_no: occurrence.occurrence_no,
+      from: occurrence.due_on,
+      reason
+    })
+  }
+
+  return plan
+}
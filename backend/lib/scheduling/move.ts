@@ -0,0 +1,138 @@
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { fetchSchedulingPreferences, isDayOff, dailyCap, perDreamCap, type ResolvedSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import type { ActionOccurrence } from '../../database/types'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface MoveOccurrenceResult {
+  success: boolean
+  occurrence?: ActionOccurrence
+  deferred: boolean // Moved later than it was due, so defer_count went up
+  warnings: string[] // Over-capacity and past-end-date notices; the move still happened
+  errors: string[]
+  invalid?: boolean // The move was rejected; nothing was saved
+  not_found?: boolean
+}
+
+/**
+ * What the target day already holds, not counting the occurrence being moved
+ */
+export interface TargetDayLoad {
+  total: number // Incomplete occurrences across all of the user's active dreams
+  this_dream: number
+}
+
+/**
+ * Check moving an occurrence by hand. Past dates and days off (rest, away and blocked busy days)
+ * are rejected, like the scheduler never uses them. A day that would go over the global or
+ * per-dream cap, or a date past the dream's end, only produces a warning: the user chose the day.
+ */
+export function checkOccurrenceMove(
+  move: { to: string; dream_id?: string; dream_end_date?: string | null },
+  load: TargetDayLoad,
+  today: string,
+  preferences: ResolvedSchedulingPreferences
+): { error: string | null; warnings: string[] } {
+  if (!DATE_PATTERN.test(move.to) || isNaN(new Date(move.to).getTime())) {
+    return { error: 'due_on must be a YYYY-MM-DD date', warnings: [] }
+  }
+  if (move.to < today) return { error: "Actions can't be moved into the past", warnings: [] }
+  if (preferences.rest_days.has(new Date(move.to).getUTCDay())) return { error: 'That day is one of your rest days', warnings: [] }
+  if (isDayOff(preferences, move.to)) return { error: "You're not available that day", warnings: [] }
+
+  const warnings: string[] = []
+  const cap = dailyCap(preferences, move.to)
+  if (load.total + 1 > cap) {
+    warnings.push(`${move.to} now has ${load.total + 1} actions, over your limit of ${cap} a day`)
+  }
+  const dreamCap = move.dream_id ? perDreamCap(preferences, move.dream_id, move.to) : preferences.per_dream_cap
+  if (load.this_dream + 1 > dreamCap) {
+    warnings.push(`${move.to} now has ${load.this_dream + 1} actions from this dream, over your limit of ${dreamCap}`)
+  }
+  if (move.dream_end_date && move.to > move.dream_end_date) {
+    warnings.push(`${move.to} is after the dream's end date (${move.dream_end_date})`)
+  }
+
+  return { error: null, warnings }
+}
+
+/**
+ * Move one incomplete occurrence to another day, earlier or later. The new date is pinned so
+ * rescheduling leaves it alone, and defer_count only goes up when the occurrence moves later than
+ * it was due; pulling it earlier isn't a deferral.
+ */
+export async function moveOccurrence(
+  userId: string,
+  userToken: string,
+  occurrenceId: string,
+  dueOn: string
+): Promise<MoveOccurrenceResult> {
+  const failed = (error: string): MoveOccurrenceResult => ({ success: false, deferred: false, warnings: [], errors: [error] })
+
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    const { data: occurrence, error: occurrenceError } = await sb
+      .from('action_occurrences')
+      .select('id, dream_id, due_on, completed_at, defer_count, dreams!inner(end_date)')
+      .eq('id', occurrenceId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (occurrenceError) return failed('Failed to load the occurrence')
+    if (!occurrence) return { ...failed('Action occurrence not found'), not_found: true }
+    if (occurrence.completed_at) return { ...failed('Completed actions stay on the day they were done'), invalid: true }
+
+    const [timezone, preferences] = await Promise.all([
+      fetchUserTimezone(sb, userId),
+      fetchSchedulingPreferences(sb, userId)
+    ])
+    const today = localDateInTimezone(timezone)
+
+    const { data: sameDay, error: loadError } = await sb
+      .from('action_occurrences')
+      .select('id, dream_id, dreams!inner(archived_at, paused_at), actions!inner(is_active, deleted_at)')
+      .eq('user_id', userId)
+      .eq('due_on', dueOn)
+      .is('completed_at', null)
+      .neq('id', occurrenceId)
+      .is('dreams.archived_at', null)
+      .is('dreams.paused_at', null)
+      .eq('actions.is_active', true)
+      .is('actions.deleted_at', null)
+
+    if (loadError) return failed("Failed to check the day's capacity")
+
+    const load: TargetDayLoad = {
+      total: (sameDay || []).length,
+      this_dream: (sameDay || []).filter(row => row.dream_id === occurrence.dream_id).length
+    }
+    const dream = occurrence.dreams as unknown as { end_date?: string | null }
+    const { error: invalid, warnings } = checkOccurrenceMove({ to: dueOn, dream_id: occurrence.dream_id, dream_end_date: dream?.end_date }, load, today, preferences)
+    if (invalid) return { ...failed(invalid), invalid: true }
+
+    const deferred = !!occurrence.due_on && dueOn > occurrence.due_on
+    const now = new Date().toISOString()
+    const { data: updated, error: updateError } = await sb
+      .from('action_occurrences')
+      .update({
+        due_on: dueOn,
+        ...(deferred ? { defer_count: (occurrence.defer_count ?? 0) + 1 } : {}),
+        pinned_at: now,
+        updated_at: now
+      })
+      .eq('id', occurrenceId)
+      .select()
+      .single()
+
+    if (updateError || !updated) return failed('Failed to move the occurrence')
+
+    console.log(`📅 Moved occurrence ${occurrenceId} from ${occurrence.due_on} to ${dueOn}${warnings.length > 0 ? ` (${warnings.length} warnings)` : ''}`)
+
+    return { success: true, occurrence: updated as ActionOccurrence, deferred, warnings, errors: [] }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,104 @@
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { rescheduleDreamActions } from './rescheduler'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+
+export interface ResumeDreamResult {
+  success: boolean
+  paused_days: number // Whole days between the pause and the resume, in the user's timezone
+  end_date?: string // The dream's end date after it was pushed back
+  scheduled_count: number
+  warnings: string[]
+  errors: string[]
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * Days a dream spent paused: from the user's local date when it was paused to today
+ */
+export function pausedDays(pausedOn: string, today: string): number {
+  const days = Math.round((new Date(today).getTime() - new Date(pausedOn).getTime()) / (24 * 60 * 60 * 1000))
+  return Math.max(0, days)
+}
+
+/**
+ * Resume a paused dream: push the end date back by the time spent paused, move the outstanding
+ * occurrences from today with an incremental reschedule (so rows keep their notes, artifacts and
+ * defer history), then clear paused_at. If any step fails the dream stays paused with its old end
+ * date, so resuming can be retried.
+ */
+export async function resumeDream(
+  dreamId: string,
+  userId: string,
+  userToken: string
+): Promise<ResumeDreamResult> {
+  const failed = (error: string): ResumeDreamResult => ({
+    success: false,
+    paused_days: 0,
+    scheduled_count: 0,
+    warnings: [],
+    errors: [error]
+  })
+
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    // RLS will automatically filter by user_id
+    const { data: dream, error: dreamError } = await sb
+      .from('dreams')
+      .select('id, end_date, paused_at')
+      .eq('id', dreamId)
+      .single()
+
+    if (dreamError || !dream) return failed('Dream not found')
+    if (!dream.paused_at) return failed('Dream is not paused')
+
+    const timezone = await fetchUserTimezone(sb, userId)
+    const days = pausedDays(localDateInTimezone(timezone, new Date(dream.paused_at)), localDateInTimezone(timezone))
+    const endDate = dream.end_date && days > 0 ? addDays(dream.end_date, days) : dream.end_date ?? undefined
+
+    const restoreEndDate = async () => {
+      if (endDate !== dream.end_date) {
+        await sb.from('dreams').update({ end_date: dream.end_date }).eq('id', dreamId)
+      }
+    }
+
+    const result = await rescheduleDreamActions(dreamId, userId, userToken, {
+      extendEndDate: endDate !== dream.end_date ? endDate : undefined,
+      mode: 'incremental'
+    })
+
+    if (!result.success) {
+      await restoreEndDate()
+      return failed(result.errors[0] || 'Failed to reschedule the dream')
+    }
+
+    const { error: updateError } = await sb
+      .from('dreams')
+      .update({ paused_at: null })
+      .eq('id', dreamId)
+
+    if (updateError) {
+      await restoreEndDate()
+      return failed('Failed to resume dream')
+    }
+
+    console.log(`▶️ Resumed dream ${dreamId} after ${days} days, end date ${dream.end_date} -> ${endDate}`)
+
+    return {
+      success: true,
+      paused_days: days,
+      end_date: endDate,
+      scheduled_count: result.scheduled_count,
+      warnings: result.warnings,
+      errors: result.errors
+    }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,216 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SchedulingPreferences, AwayPeriod, BusyDay, WeeklyPlan } from '../../database/types'
+
+// Defaults used when a user has never saved scheduling preferences
+export const DEFAULT_REST_DAYS = [0] // Sunday = 0
+export const DEFAULT_GLOBAL_DAILY_CAP = 5
+export const DEFAULT_PER_DREAM_CAP = 1
+
+// Bounds enforced on user-supplied values (mirrored by CHECK constraints in the database)
+export const MAX_GLOBAL_DAILY_CAP = 10
+export const MAX_PER_DREAM_CAP = 5
+
+/**
+ * Scheduling preferences in the shape the scheduler works with
+ */
+export interface ResolvedSchedulingPreferences {
+  rest_days: Set<number> // 0 = Sunday ... 6 = Saturday
+  away_dates: Set<string> // YYYY-MM-DD days inside the user's away periods
+  busy_days: Map<string, number> // YYYY-MM-DD -> share of the day's capacity left (0 = blocked)
+  global_daily_cap: number
+  per_dream_cap: number
+  focus_weeks: Map<string, string> // Monday (YYYY-MM-DD) -> the week's focus dream
+}
+
+/**
+ * Whether nothing may be scheduled on a day: a rest day, a day the user is away or a blocked busy day
+ */
+export function isDayOff(preferences: Pick<ResolvedSchedulingPreferences, 'rest_days' | 'away_dates' | 'busy_days'>, date: string): boolean {
+  return preferences.rest_days.has(new Date(date).getUTCDay()) || preferences.away_dates.has(date) || preferences.busy_days.get(date) === 0
+}
+
+/**
+ * Dates (other than rest days) with no capacity at all: away days and blocked busy days
+ */
+export function unavailableDates(preferences: Pick<ResolvedSchedulingPreferences, 'away_dates' | 'busy_days'>): Set<string> {
+  const dates = new Set(preferences.away_dates)
+  for (const [date, factor] of preferences.busy_days) {
+    if (factor === 0) dates.add(date)
+  }
+  return dates
+}
+
+/**
+ * Share of a normal day's capacity available on a day: 0 on days off, reduced on busy days, otherwise 1
+ */
+export function capacityFactor(preferences: Pick<ResolvedSchedulingPreferences, 'rest_days' | 'away_dates' | 'busy_days'>, date: string): number {
+  if (isDayOff(preferences, date)) return 0
+  return preferences.busy_days.get(date) ?? 1
+}
+
+/**
+ * The user-wide cap on a day: the global daily cap scaled down on busy days (a reduced day keeps
+ * at least one slot), and 0 on days off
+ */
+export function dailyCap(preferences: Pick<ResolvedSchedulingPreferences, 'rest_days' | 'away_dates' | 'busy_days' | 'global_daily_cap'>, date: string): number {
+  const factor = capacityFactor(preferences, date)
+  if (factor === 0) return 0
+  return Math.max(1, Math.floor(preferences.global_daily_cap * factor))
+}
+
+/**
+ * Monday on or before a YYYY-MM-DD date
+ */
+export function weekStartOf(date: string): string {
+  const day = new Date(date)
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().split('T')[0]
+}
+
+/**
+ * The per-dream cap on a day. A dream chosen as the focus of the week gets one more slot each day
+ * of that week, never more than the whole day has.
+ */
+export function perDreamCap(preferences: Pick<ResolvedSchedulingPreferences, 'per_dream_cap' | 'global_daily_cap' | 'focus_weeks'>, dreamId: string, date: string): number {
+  if (preferences.focus_weeks.get(weekStartOf(date)) !== dreamId) return preferences.per_dream_cap
+  return Math.min(preferences.per_dream_cap + 1, preferences.global_daily_cap)
+}
+
+/**
+ * Normalize stored (or missing) preferences into values the scheduler can use.
+ * Invalid values fall back to the defaults rather than failing scheduling.
+ */
+export function resolveSchedulingPreferences(
+  preferences?: Partial<Pick<SchedulingPreferences, 'rest_days' | 'global_daily_cap' | 'per_dream_cap'>> | null,
+  awayPeriods: Pick<AwayPeriod, 'start_date' | 'end_date'>[] = [],
+  busyDays: Pick<BusyDay, 'date' | 'capacity_percent'>[] = [],
+  weeklyPlans: Pick<WeeklyPlan, 'week_start' | 'focus_dream_id'>[] = []
+): ResolvedSchedulingPreferences {
+  const restDays = Array.isArray(preferences?.rest_days)
+    ? preferences!.rest_days.filter(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    : DEFAULT_REST_DAYS
+
+  // Every day being a rest day would leave nowhere to schedule
+  const requestedRestDays = new Set(restDays)
+  const restDaySet = requestedRestDays.size >= 7 ? new Set(DEFAULT_REST_DAYS) : requestedRestDays
+
+  const globalCap = clampCap(preferences?.global_daily_cap, DEFAULT_GLOBAL_DAILY_CAP, MAX_GLOBAL_DAILY_CAP)
+  const perDreamCap = clampCap(preferences?.per_dream_cap, DEFAULT_PER_DREAM_CAP, MAX_PER_DREAM_CAP)
+
+  return {
+    rest_days: restDaySet,
+    away_dates: expandAwayPeriods(awayPeriods),
+    busy_days: new Map(busyDays.map(day => [day.date, Math.max(0, Math.min(100, day.capacity_percent)) / 100])),
+    global_daily_cap: globalCap,
+    // A single dream can never use more slots than the whole day has
+    per_dream_cap: Math.min(perDreamCap, globalCap),
+    focus_weeks: new Map(weeklyPlans.filter(plan => plan.focus_dream_id).map(plan => [plan.week_start, plan.focus_dream_id!]))
+  }
+}
+
+/**
+ * Every day covered by the given away periods, as YYYY-MM-DD
+ */
+export function expandAwayPeriods(periods: Pick<AwayPeriod, 'start_date' | 'end_date'>[]): Set<string> {
+  const dates = new Set<string>()
+  for (const period of periods) {
+    const date = new Date(period.start_date)
+    const end = new Date(period.end_date)
+    // The database caps a period at a year; the guard only protects against bad input
+    for (let days = 0; date <= end && days < 366; days++) {
+      dates.add(date.toISOString().split('T')[0])
+      date.setUTCDate(date.getUTCDate() + 1)
+    }
+  }
+  return dates
+}
+
+function clampCap(value: number | undefined, fallback: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback
+  return Math.max(1, Math.min(max, Math.floor(value)))
+}
+
+/**
+ * Load a user's scheduling preferences, falling back to defaults if none are saved.
+ * Away periods, busy days and weekly focus dreams that haven't passed yet (give or take a day for
+ * timezones) are included.
+ */
+export async function fetchSchedulingPreferences(
+  sb: SupabaseClient,
+  userId: string
+): Promise<ResolvedSchedulingPreferences> {
+  const [awayPeriods, busyDays, weeklyPlans] = await Promise.all([
+    fetchAwayPeriods(sb, userId),
+    fetchBusyDays(sb, userId),
+    fetchWeeklyFocus(sb, userId)
+  ])
+
+  const { data, error } = await sb
+    .from('scheduling_preferences')
+    .select('rest_days, global_daily_cap, per_dream_cap')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to fetch scheduling preferences, using defaults:', error)
+    return resolveSchedulingPreferences(null, awayPeriods, busyDays, weeklyPlans)
+  }
+
+  return resolveSchedulingPreferences(data, awayPeriods, busyDays, weeklyPlans)
+}
+
+async function fetchAwayPeriods(sb: SupabaseClient, userId: string): Promise<Pick<AwayPeriod, 'start_date' | 'end_date'>[]> {
+  const yesterday = new Date()
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+
+  const { data, error } = await sb
+    .from('away_periods')
+    .select('start_date, end_date')
+    .eq('user_id', userId)
+    .gte('end_date', yesterday.toISOString().split('T')[0])
+
+  if (error) {
+    console.error('Failed to fetch away periods, ignoring them:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function fetchBusyDays(sb: SupabaseClient, userId: string): Promise<Pick<BusyDay, 'date' | 'capacity_percent'>[]> {
+  const yesterday = new Date()
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+
+  const { data, error } = await sb
+    .from('busy_days')
+    .select('date, capacity_percent')
+    .eq('user_id', userId)
+    .gte('date', yesterday.toISOString().split('T')[0])
+
+  if (error) {
+    console.error('Failed to fetch busy days, ignoring them:', error)
+    return []
+  }
+
+  return data || []
+}
+
+async function fetchWeeklyFocus(sb: SupabaseClient, userId: string): Promise<Pick<WeeklyPlan, 'week_start' | 'focus_dream_id'>[]> {
+  // The current week started at most six days ago, plus a day for timezones
+  const weekAgo = new Date()
+  weekAgo.setUTCDate(weekAgo.getUTCDate() - 7)
+
+  const { data, error } = await sb
+    .from('weekly_plans')
+    .select('week_start, focus_dream_id')
+    .eq('user_id', userId)
+    .not('focus_dream_id', 'is', null)
+    .gte('week_start', weekAgo.toISOString().split('T')[0])
+
+  if (error) {
+    console.error('Failed to fetch weekly focus dreams, ignoring them:', error)
+    return []
+  }
+
+  return data || []
+}
@@ -0,0 +1,100 @@
+import type { Action } from '../../database/types'
+
+type PrerequisiteNode = Pick<Action, 'id' | 'prerequisite_ids'>
+type DatedPlacement = { action_id: string; due_on?: string }
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * Order actions so every action comes after its prerequisites, otherwise keeping the given
+ * (position) order. Prerequisites outside the list are ignored. Actions in a cycle (or waiting
+ * on one) fall back to the given order and are returned in `cyclic`.
+ */
+export function orderByPrerequisites<T extends PrerequisiteNode>(actions: T[]): { ordered: T[]; cyclic: T[] } {
+  const ids = new Set(actions.map(action => action.id))
+  const remaining = new Map(actions.map(action => [
+    action.id,
+    new Set((action.prerequisite_ids || []).filter(id => ids.has(id) && id !== action.id))
+  ]))
+
+  const ordered: T[] = []
+  const placed = new Set<string>()
+
+  while (ordered.length < actions.length) {
+    // The first action (in the given order) whose prerequisites are all placed
+    const next = actions.find(action => !placed.has(action.id) &&
+      Array.from(remaining.get(action.id)!).every(id => placed.has(id)))
+    if (!next) break
+    ordered.push(next)
+    placed.add(next.id)
+  }
+
+  const cyclic = actions.filter(action => !placed.has(action.id))
+  return { ordered: [...ordered, ...cyclic], cyclic }
+}
+
+/**
+ * Latest due date among the placements of the action's prerequisites, or null when none are placed.
+ * Only prerequisites in `earlier` count, so cycles can't push actions after each other forever.
+ */
+export function lastPrerequisiteDate(
+  action: PrerequisiteNode,
+  placements: DatedPlacement[],
+  earlier?: Set<string>
+): string | null {
+  const prerequisites = new Set((action.prerequisite_ids || []).filter(id => !earlier || earlier.has(id)))
+  if (prerequisites.size === 0) return null
+
+  return placements.reduce<string | null>((latest, placement) => {
+    if (!prerequisites.has(placement.action_id) || !placement.due_on) return latest
+    return !latest || placement.due_on > latest ? placement.due_on : latest
+  }, null)
+}
+
+/**
+ * Shift the placements of one-off and finite actions that ended up on or before their last prerequisite's
+ * day (e.g. after balancing moved the prerequisite), keeping their spacing and skipping rest and away days.
+ * Placements in `fixedKeys` (existing occurrences) and recurring actions are left alone - habits are
+ * seeded after their prerequisites and repeat from there.
+ * Returns the actions that had to move.
+ */
+export function enforcePrerequisiteOrder<P extends { action_id: string; occurrence_no: number; due_on: string; planned_due_on: string }>(
+  placements: P[],
+  orderedActions: PrerequisiteNode[],
+  isRecurring: (actionId: string) => boolean,
+  restDays: Set<number>,
+  fixedKeys: Set<string> = new Set(),
+  awayDates: Set<string> = new Set()
+): string[] {
+  const moved: string[] = []
+  const earlier = new Set<string>()
+
+  for (const action of orderedActions) {
+    const notAfter = lastPrerequisiteDate(action, placements, earlier)
+    earlier.add(action.id)
+    if (!notAfter || isRecurring(action.id)) continue
+
+    const movable = placements
+      .filter(placement => placement.action_id === action.id && !fixedKeys.has(`${placement.action_id}-${placement.occurrence_no}`))
+      .sort((a, b) => a.due_on.localeCompare(b.due_on))
+    if (movable.length === 0 || movable[0].due_on > notAfter) continue
+
+    const shiftDays = Math.round((new Date(notAfter).getTime() - new Date(movable[0].due_on).getTime()) / (24 * 60 * 60 * 1000)) + 1
+    let previous = notAfter
+    for (const placement of movable) {
+      let dueOn = addDays(placement.due_on, shiftDays)
+      if (dueOn <= previous) dueOn = addDays(previous, 1)
+      while (restDays.has(new Date(dueOn).getUTCDay()) || awayDates.has(dueOn)) dueOn = addDays(dueOn, 1)
+      placement.due_on = dueOn
+      placement.planned_due_on = dueOn
+      previous = dueOn
+    }
+    moved.push(action.id)
+  }
+
+  return moved
+}
@@ -0,0 +1,346 @@
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { scheduleDreamActions } from './scheduler'
+import { fetchSchedulingPreferences, dailyCap, type ResolvedSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import { fetchOtherDreamOccurrences, type OtherDreamOccurrence, type OverloadedDay } from './capacity'
+import { planIncrementalReschedule, incrementalEndDate, habitsToContinue } from './incremental'
+import type { SchedulingDiagnostics } from './diagnostics'
+import type { Dream, Area, Action, ActionOccurrence } from '../../database/types'
+
+/**
+ * 'schedule' previews scheduling around the occurrences that already exist (as activation does),
+ * 'reschedule' previews re-placing the outstanding ones (as the reschedule endpoint does),
+ * 'incremental' previews the reschedule endpoint's incremental mode
+ */
+export type PreviewMode = 'schedule' | 'reschedule' | 'incremental'
+
+export interface PreviewOptions {
+  mode?: PreviewMode
+  extendEndDate?: string
+  contractEndDate?: string
+  resetCompleted?: boolean
+  timeCommitment?: { hours: number; minutes: number }
+}
+
+/**
+ * A proposed occurrence, keyed the same way as action_occurrences (action_id, occurrence_no)
+ */
+export interface ProposedOccurrence {
+  action_id: string
+  action_title: string
+  occurrence_no: number
+  due_on: string
+}
+
+export interface OccurrenceChange {
+  action_id: string
+  action_title: string
+  occurrence_no: number
+  from?: string // Current due date (moved, removed)
+  to?: string // Proposed due date (added, moved)
+}
+
+export interface ScheduleDiff {
+  added: OccurrenceChange[]
+  moved: OccurrenceChange[]
+  removed: OccurrenceChange[]
+  unchanged_count: number
+}
+
+export interface DayLoad {
+  date: string
+  this_dream: number
+  other_dreams: number
+  total: number
+  cap: number // The user's global daily cap (0 on rest days)
+}
+
+export interface SchedulePreview {
+  success: boolean
+  proposed: ProposedOccurrence[]
+  diff: ScheduleDiff
+  daily_load: DayLoad[]
+  warnings: string[]
+  errors: string[]
+  auto_compacted?: boolean
+  too_tight?: boolean
+  recommended_end?: string
+  overloaded_days?: OverloadedDay[]
+  diagnostics?: SchedulingDiagnostics
+}
+
+const occurrenceKey = (actionId: string, occurrenceNo: number) => `${actionId}-${occurrenceNo}`
+
+/**
+ * Compare a proposed schedule with the occurrences that exist now.
+ * Only `replaceable` current occurrences can be removed - the rest are kept by the real run regardless.
+ */
+export function diffOccurrences(
+  current: Pick<ActionOccurrence, 'action_id' | 'occurrence_no' | 'due_on'>[],
+  proposed: ProposedOccurrence[],
+  replaceable: Pick<ActionOccurrence, 'action_id' | 'occurrence_no'>[],
+  actionTitles: Map<string, string>
+): ScheduleDiff {
+  const currentByKey = new Map(current.map(occ => [occurrenceKey(occ.action_id, occ.occurrence_no), occ]))
+  const proposedKeys = new Set<string>()
+  const diff: ScheduleDiff = { added: [], moved: [], removed: [], unchanged_count: 0 }
+
+  for (const occ of proposed) {
+    const key = occurrenceKey(occ.action_id, occ.occurrence_no)
+    proposedKeys.add(key)
+    const existing = currentByKey.get(key)
+
+    if (!existing) {
+      diff.added.push({ action_id: occ.action_id, action_title: occ.action_title, occurrence_no: occ.occurrence_no, to: occ.due_on })
+    } else if (existing.due_on !== occ.due_on) {
+      diff.moved.push({ action_id: occ.action_id, action_title: occ.action_title, occurrence_no: occ.occurrence_no, from: existing.due_on, to: occ.due_on })
+    } else {
+      diff.unchanged_count++
+    }
+  }
+
+  for (const occ of replaceable) {
+    const key = occurrenceKey(occ.action_id, occ.occurrence_no)
+    if (proposedKeys.has(key)) continue
+    diff.removed.push({
+      action_id: occ.action_id,
+      action_title: actionTitles.get(occ.action_id) || 'Unknown action',
+      occurrence_no: occ.occurrence_no,
+      from: currentByKey.get(key)?.due_on
+    })
+  }
+
+  const byDate = (a: OccurrenceChange, b: OccurrenceChange) =>
+    (a.to || a.from || '').localeCompare(b.to || b.from || '')
+  diff.added.sort(byDate)
+  diff.moved.sort(byDate)
+  diff.removed.sort(byDate)
+
+  return diff
+}
+
+/**
+ * Per-day load from today onwards: this dream's proposed occurrences next to the other dreams' ones
+ */
+export function calculateDailyLoad(
+  proposed: ProposedOccurrence[],
+  otherDreamOccurrences: OtherDreamOccurrence[],
+  preferences: ResolvedSchedulingPreferences,
+  today: string
+): DayLoad[] {
+  const dreamLoad = new Map<string, number>()
+  for (const occ of proposed) {
+    if (occ.due_on < today) continue
+    dreamLoad.set(occ.due_on, (dreamLoad.get(occ.due_on) || 0) + 1)
+  }
+
+  const otherLoad = new Map<string, number>()
+  for (const occ of otherDreamOccurrences) {
+    if (!occ.due_on) continue
+    otherLoad.set(occ.due_on, (otherLoad.get(occ.due_on) || 0) + 1)
+  }
+
+  return Array.from(dreamLoad.entries())
+    .map(([date, thisDream]) => {
+      const otherDreams = otherLoad.get(date) || 0
+      return {
+        date,
+        this_dream: thisDream,
+        other_dreams: otherDreams,
+        total: thisDream + otherDreams,
+        cap: dailyCap(preferences, date)
+      }
+    })
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function failedPreview(errors: string[]): SchedulePreview {
+  return {
+    success: false,
+    proposed: [],
+    diff: { added: [], moved: [], removed: [], unchanged_count: 0 },
+    daily_load: [],
+    warnings: [],
+    errors
+  }
+}
+
+/**
+ * Dry-run the scheduler for a dream and report what would change. Nothing is written - the end date
+ * and time commitment overrides only apply to this run, mirroring what the reschedule endpoint would do.
+ */
+export async function previewDreamSchedule(
+  dreamId: string,
+  userId: string,
+  userToken: string,
+  options: PreviewOptions = {}
+): Promise<SchedulePreview> {
+  try {
+    const sb = supabaseServerAuth(userToken)
+    const mode = options.mode || 'schedule'
+
+    // Fetch current dream data - RLS will automatically filter by user_id
+    const { data: dream, error: dreamError } = await sb
+      .from('dreams')
+      .select('*')
+      .eq('id', dreamId)
+      .single()
+
+    if (dreamError || !dream) {
+      return failedPreview(['Dream not found'])
+    }
+
+    const newEndDate = options.extendEndDate || options.contractEndDate
+    if (newEndDate) {
+      dream.end_date = newEndDate
+    }
+
+    if (options.timeCommitment) {
+      dream.time_commitment = options.timeCommitment
+    }
+
+    const { data: areas, error: areasError } = await sb
+      .from('areas')
+      .select('*')
+      .eq('dream_id', dreamId)
+      .is('deleted_at', null)
+      .order('position')
+
+    if (areasError) {
+      return failedPreview(['Failed to fetch areas'])
+    }
+
+    const { data: actions, error: actionsError } = await sb
+      .from('actions')
+      .select('*')
+      .in('area_id', areas.map(area => area.id))
+      .is('deleted_at', null)
+      .eq('is_active', true)
+      .order('position')
+
+    if (actionsError) {
+      return failedPreview(['Failed to fetch actions'])
+    }
+
+    const { data: currentOccurrences, error: occurrencesError } = await sb
+      .from('action_occurrences')
+      .select('*')
+      .in('action_id', actions.map(action => action.id))
+
+    if (occurrencesError) {
+      return failedPreview(['Failed to fetch existing occurrences'])
+    }
+
+    // Occurrences the real run would delete and place again
+    let replaceable = mode === 'reschedule'
+      ? (options.resetCompleted ? currentOccurrences : currentOccurrences.filter(occ => !occ.completed_at))
+      : []
+    const replaceableIds = new Set(replaceable.map(occ => occ.id))
+    let kept = currentOccurrences.filter(occ => !replaceableIds.has(occ.id))
+
+    // Load the user's rest days, daily caps and timezone
+    const preferences = await fetchSchedulingPreferences(sb, userId)
+    const timezone = await fetchUserTimezone(sb, userId)
+
+    const today = localDateInTimezone(timezone)
+
+    // Other dreams' upcoming occurrences count against the same daily cap
+    const otherDreamOccurrences = await fetchOtherDreamOccurrences(sb, userId, dreamId, today)
+
+    const context = {
+      user_id: userId,
+      timezone,
+      today,
+      preferences
+    }
+
+    // Both reschedule modes plan from nothing; only activation schedules around what exists
+    const dreamData = {
+      dream: dream as Dream,
+      areas: areas as Area[],
+      actions: actions as Action[],
+      existing_occurrences: (mode === 'schedule' ? kept : []) as ActionOccurrence[],
+      other_dream_occurrences: otherDreamOccurrences
+    }
+
+    const schedulingResult = await scheduleDreamActions(context, dreamData)
+
+    if (!schedulingResult.success) {
+      return failedPreview(schedulingResult.errors)
+    }
+
+    let planned: Pick<ActionOccurrence, 'action_id' | 'occurrence_no' | 'due_on'>[] = schedulingResult.occurrences
+
+    // Incremental mode: the resulting plan is the current occurrences with the planner's changes applied
+    if (mode === 'incremental') {
+      const endDate = incrementalEndDate(dream, schedulingResult.occurrences)
+      const plan = planIncrementalReschedule(
+        currentOccurrences,
+        schedulingResult.occurrences,
+        { today, end_date: endDate },
+        preferences,
+        otherDreamOccurrences,
+        dream.priority,
+        habitsToContinue(dream, actions as Action[], currentOccurrences, endDate)
+      )
+      const deletedIds = new Set(plan.deletes)
+      const movedTo = new Map(plan.updates.map(update => [update.id, update.due_on]))
+
+      replaceable = currentOccurrences.filter(occ => deletedIds.has(occ.id))
+      kept = []
+      planned = [
+        ...currentOccurrences
+          .filter(occ => !deletedIds.has(occ.id))
+          .map(occ => ({ ...occ, due_on: movedTo.get(occ.id) ?? occ.due_on })),
+        ...plan.inserts
+      ]
+    }
+
+    const actionTitles = new Map<string, string>(actions.map(action => [action.id, action.title]))
+
+    // Deduplicate by (action_id, occurrence_no) the same way the upsert does
+    const proposedByKey = new Map<string, ProposedOccurrence>()
+    for (const occ of planned) {
+      const key = occurrenceKey(occ.action_id, occ.occurrence_no)
+      if (proposedByKey.has(key) || !occ.due_on) continue
+      proposedByKey.set(key, {
+        action_id: occ.action_id,
+        action_title: actionTitles.get(occ.action_id) || 'Unknown action',
+        occurrence_no: occ.occurrence_no,
+        due_on: occ.due_on
+      })
+    }
+
+    // Occurrences the run keeps as-is still belong in the resulting plan
+    for (const occ of kept) {
+      const key = occurrenceKey(occ.action_id, occ.occurrence_no)
+      if (proposedByKey.has(key) || !occ.due_on) continue
+      proposedByKey.set(key, {
+        action_id: occ.action_id,
+        action_title: actionTitles.get(occ.action_id) || 'Unknown action',
+        occurrence_no: occ.occurrence_no,
+        due_on: occ.due_on
+      })
+    }
+
+    const proposed = Array.from(proposedByKey.values())
+      .sort((a, b) => a.due_on.localeCompare(b.due_on) || a.action_title.localeCompare(b.action_title))
+
+    return {
+      success: true,
+      proposed,
+      diff: diffOccurrences(currentOccurrences, proposed, replaceable, actionTitles),
+      daily_load: calculateDailyLoad(proposed, otherDreamOccurrences, preferences, today),
+      warnings: schedulingResult.warnings,
+      errors: [],
+      auto_compacted: schedulingResult.auto_compacted,
+      too_tight: schedulingResult.too_tight,
+      recommended_end: schedulingResult.recommended_end,
+      overloaded_days: schedulingResult.overloaded_days,
+      diagnostics: schedulingResult.diagnostics
+    }
+
+  } catch (error) {
+    return failedPreview([error instanceof Error ? error.message : 'Unknown error'])
+  }
+}
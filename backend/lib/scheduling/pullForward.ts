@@ -0,0 +1,219 @@
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import { isPinned } from './incremental'
+import { isRecurring } from './recurrence'
+import type { Action, ActionOccurrence } from '../../database/types'
+
+export const MAX_PULL_FORWARD_COUNT = 5
+
+type CurrentOccurrence = Pick<ActionOccurrence, 'id' | 'action_id' | 'occurrence_no' | 'due_on' | 'completed_at' | 'pinned_at'>
+type PlanAction = Pick<Action, 'id' | 'recurrence' | 'repeat_every_days' | 'prerequisite_ids'>
+
+/**
+ * An occurrence moved by a pull-forward: either into today, or earlier to fill the gap that left
+ */
+export interface PullForwardMove {
+  occurrence_id: string
+  action_id: string
+  occurrence_no: number
+  from: string
+  to: string
+}
+
+export interface PullForwardPlan {
+  pulled: PullForwardMove[] // Moved into today
+  shifted: PullForwardMove[] // Later one-off occurrences moved up into the freed days
+  projected_end_before: string | null // Last day of outstanding one-off work
+  projected_end_after: string | null
+}
+
+export interface PullForwardResult extends PullForwardPlan {
+  success: boolean
+  end_date?: string // The dream's end date after the pull (only changes with shortenEndDate)
+  removed_count: number // Repeats dropped because they fell after a shortened end date
+  errors: string[]
+}
+
+/**
+ * Pull the next `count` upcoming one-off occurrences into today and move the rest of the one-off plan up.
+ *
+ * - Only incomplete, unpinned occurrences of non-repeating actions due after today take part
+ * - An occurrence can be pulled if it is its action's next outstanding one and no prerequisite has work left
+ * - The other occurrences keep their order and take over the days ahead of them, so the dream's
+ *   per-day load keeps the shape it had and the last `count` days of one-off work are freed
+ *
+ * Actions waiting on a prerequisite that doesn't take part (a habit or a pinned occurrence) stay where they are.
+ */
+export function planPullForward(
+  current: CurrentOccurrence[],
+  actions: PlanAction[],
+  today: string,
+  count: number
+): PullForwardPlan {
+  const actionsById = new Map(actions.map(action => [action.id, action]))
+  const outstanding = current.filter(occ => !occ.completed_at && occ.due_on)
+
+  const takesPart = (occ: CurrentOccurrence) => {
+    const action = actionsById.get(occ.action_id)
+    return !!action && !isRecurring(action) && !isPinned(occ) && occ.due_on! > today
+  }
+
+  const movableActionIds = new Set(outstanding.filter(takesPart).map(occ => occ.action_id))
+  const fixedActionIds = new Set(outstanding.filter(occ => !takesPart(occ)).map(occ => occ.action_id))
+  const hasWorkLeft = (actionId: string) => movableActionIds.has(actionId) || fixedActionIds.has(actionId)
+
+  // Keep actions in place when a prerequisite has work that won't move with them
+  const movable = outstanding
+    .filter(takesPart)
+    .filter(occ => !(actionsById.get(occ.action_id)!.prerequisite_ids || []).some(id => fixedActionIds.has(id)))
+    .sort((a, b) => a.due_on!.localeCompare(b.due_on!) || a.occurrence_no - b.occurrence_no)
+
+  // The next occurrence of each action that isn't blocked
+  const pulled: CurrentOccurrence[] = []
+  const seen = new Set<string>()
+  for (const occ of movable) {
+    if (pulled.length >= count) break
+    if (seen.has(occ.action_id)) continue
+    seen.add(occ.action_id)
+
+    const isNext = !outstanding.some(other => other.action_id === occ.action_id && other.id !== occ.id &&
+      (other.due_on! < occ.due_on! || (other.due_on === occ.due_on && other.occurrence_no < occ.occurrence_no)))
+    const blocked = (actionsById.get(occ.action_id)!.prerequisite_ids || []).some(hasWorkLeft)
+    if (isNext && !blocked) pulled.push(occ)
+  }
+
+  const pulledIds = new Set(pulled.map(occ => occ.id))
+  const slots = movable.map(occ => occ.due_on!)
+  const remaining = movable.filter(occ => !pulledIds.has(occ.id))
+
+  const shifted: PullForwardMove[] = []
+  remaining.forEach((occ, index) => {
+    if (slots[index] === occ.due_on) return
+    shifted.push({ occurrence_id: occ.id, action_id: occ.action_id, occurrence_no: occ.occurrence_no, from: occ.due_on!, to: slots[index] })
+  })
+
+  // Projected end: the last outstanding one-off occurrence, pinned ones included
+  const movedTo = new Map<string, string>(shifted.map(move => [move.occurrence_id, move.to]))
+  pulled.forEach(occ => movedTo.set(occ.id, today))
+  const oneOff = outstanding.filter(occ => actionsById.has(occ.action_id) && !isRecurring(actionsById.get(occ.action_id)!))
+  const lastDay = (dates: string[]) => dates.reduce<string | null>((latest, date) => (!latest || date > latest ? date : latest), null)
+
+  return {
+    pulled: pulled.map(occ => ({ occurrence_id: occ.id, action_id: occ.action_id, occurrence_no: occ.occurrence_no, from: occ.due_on!, to: today })),
+    shifted,
+    projected_end_before: lastDay(oneOff.map(occ => occ.due_on!)),
+    projected_end_after: lastDay(oneOff.map(occ => movedTo.get(occ.id) ?? occ.due_on!))
+  }
+}
+
+/**
+ * Pull upcoming one-off actions of a dream into today ("give me more").
+ * With `shortenEndDate` the dream's end date moves up to the new projected end, and repeats
+ * after it are removed. With `dryRun` nothing is written.
+ */
+export async function pullForwardDreamActions(
+  dreamId: string,
+  userId: string,
+  userToken: string,
+  options: { count?: number; shortenEndDate?: boolean; dryRun?: boolean } = {}
+): Promise<PullForwardResult> {
+  const failed = (error: string): PullForwardResult => ({
+    success: false,
+    pulled: [],
+    shifted: [],
+    projected_end_before: null,
+    projected_end_after: null,
+    removed_count: 0,
+    errors: [error]
+  })
+
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    // RLS will automatically filter by user_id
+    const { data: dream, error: dreamError } = await sb
+      .from('dreams')
+      .select('id, end_date, activated_at, archived_at, paused_at')
+      .eq('id', dreamId)
+      .single()
+
+    if (dreamError || !dream) return failed('Dream not found')
+    if (!dream.activated_at || dream.archived_at || dream.paused_at) return failed('Dream is not active')
+
+    const { data: actions, error: actionsError } = await sb
+      .from('actions')
+      .select('id, recurrence, repeat_every_days, prerequisite_ids, areas!inner(dream_id, deleted_at)')
+      .eq('areas.dream_id', dreamId)
+      .is('areas.deleted_at', null)
+      .is('deleted_at', null)
+      .eq('is_active', true)
+
+    if (actionsError) return failed('Failed to fetch actions')
+
+    const { data: occurrences, error: occurrencesError } = await sb
+      .from('action_occurrences')
+      .select('id, action_id, occurrence_no, due_on, completed_at, pinned_at')
+      .in('action_id', (actions || []).map(action => action.id))
+
+    if (occurrencesError) return failed('Failed to fetch existing occurrences')
+
+    const today = localDateInTimezone(await fetchUserTimezone(sb, userId))
+    const count = Math.max(1, Math.min(MAX_PULL_FORWARD_COUNT, Math.floor(options.count ?? 1)))
+    const plan = planPullForward(occurrences as CurrentOccurrence[], actions as PlanAction[], today, count)
+
+    const newEndDate = options.shortenEndDate && dream.end_date && plan.projected_end_after && plan.projected_end_after < dream.end_date
+      ? plan.projected_end_after
+      : undefined
+
+    // Repeats that would fall after the shortened end date (one-off work all ends by then)
+    const recurringIds = new Set((actions as PlanAction[]).filter(action => isRecurring(action)).map(action => action.id))
+    const toRemove = newEndDate
+      ? (occurrences as CurrentOccurrence[]).filter(occ => recurringIds.has(occ.action_id) &&
+          !occ.completed_at && !isPinned(occ) && occ.due_on && occ.due_on > newEndDate)
+      : []
+
+    const result: PullForwardResult = {
+      success: true,
+      ...plan,
+      end_date: newEndDate ?? dream.end_date ?? undefined,
+      removed_count: toRemove.length,
+      errors: []
+    }
+
+    if (options.dryRun || plan.pulled.length === 0) return result
+
+    // Like an incremental reschedule, the new date becomes the plan
+    const now = new Date().toISOString()
+    const updateResults = await Promise.all([...plan.pulled, ...plan.shifted].map(move =>
+      sb
+        .from('action_occurrences')
+        .update({ due_on: move.to, planned_due_on: move.to, updated_at: now })
+        .eq('id', move.occurrence_id)
+    ))
+
+    if (updateResults.some(update => update.error)) return failed('Failed to move occurrences')
+
+    if (newEndDate) {
+      const { error: endDateError } = await sb
+        .from('dreams')
+        .update({ end_date: newEndDate })
+        .eq('id', dreamId)
+
+      if (endDateError) return failed('Failed to update the end date')
+
+      if (toRemove.length > 0) {
+        const { error: deleteError } = await sb
+          .from('action_occurrences')
+          .delete()
+          .in('id', toRemove.map(occ => occ.id))
+
+        if (deleteError) return failed('Failed to remove occurrences after the new end date')
+      }
+    }
+
+    return result
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
@@ -0,0 +1,200 @@
+import type { Action, RecurrenceRule } from '../../database/types'
+
+export const MAX_INTERVAL_DAYS = 30
+export const MAX_TIMES_PER_WEEK = 7
+
+/**
+ * Picks `count` days out of a week's candidate days (in date order)
+ */
+export type WeekDayPicker = (candidates: Date[], count: number) => Date[]
+
+/**
+ * Validate a recurrence rule from user input, returning null when it is malformed
+ */
+export function parseRecurrenceRule(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== 'object') return null
+  const rule = value as Record<string, unknown>
+  const isWeekday = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6
+
+  switch (rule.type) {
+    case 'interval': {
+      const everyDays = rule.every_days
+      if (!Number.isInteger(everyDays) || (everyDays as number) < 1 || (everyDays as number) > MAX_INTERVAL_DAYS) return null
+      return { type: 'interval', every_days: everyDays as number }
+    }
+    case 'weekdays': {
+      if (!Array.isArray(rule.days) || rule.days.length === 0 || !rule.days.every(isWeekday)) return null
+      return { type: 'weekdays', days: Array.from(new Set(rule.days as number[])).sort((a, b) => a - b) }
+    }
+    case 'times_per_week': {
+      const count = rule.count
+      if (!Number.isInteger(count) || (count as number) < 1 || (count as number) > MAX_TIMES_PER_WEEK) return null
+      return { type: 'times_per_week', count: count as number }
+    }
+    case 'monthly': {
+      const week = rule.week
+      if (![1, 2, 3, 4, -1].includes(week as number) || !isWeekday(rule.weekday)) return null
+      return { type: 'monthly', week: week as 1 | 2 | 3 | 4 | -1, weekday: rule.weekday as number }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * The action's recurrence rule, treating a legacy repeat_every_days as a fixed interval
+ */
+export function resolveRecurrence(action: Pick<Action, 'recurrence' | 'repeat_every_days'>): RecurrenceRule | null {
+  const rule = parseRecurrenceRule(action.recurrence)
+  if (rule) return rule
+  if (action.repeat_every_days) return { type: 'interval', every_days: action.repeat_every_days }
+  return null
+}
+
+export function isRecurring(action: Pick<Action, 'recurrence' | 'repeat_every_days'>): boolean {
+  return resolveRecurrence(action) !== null
+}
+
+/**
+ * Default picker: spread the days evenly through the week
+ */
+export const spreadEvenly: WeekDayPicker = (candidates, count) => {
+  if (count >= candidates.length) return [...candidates]
+  return Array.from({ length: count }, (_, i) => candidates[Math.floor((i + 0.5) * candidates.length / count)])
+}
+
+const addUTCDays = (date: Date, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next
+}
+
+/**
+ * The nth weekday of a month (week -1 = the last one), at UTC midnight
+ */
+function nthWeekdayOfMonth(year: number, month: number, week: number, weekday: number): Date {
+  if (week === -1) {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0))
+    return addUTCDays(lastDay, -((lastDay.getUTCDay() - weekday + 7) % 7))
+  }
+  const firstDay = new Date(Date.UTC(year, month, 1))
+  return addUTCDays(firstDay, (weekday - firstDay.getUTCDay() + 7) % 7 + (week - 1) * 7)
+}
+
+/**
+ * Move a seed date onto the nearest day the rule allows (weekdays and monthly rules only),
+ * preferring later days up to the window end and falling back to earlier ones from the window start.
+ * Returns the date unchanged when the rule has no fixed days or nothing fits in the window.
+ */
+export function alignToRecurrence(
+  rule: RecurrenceRule,
+  date: Date,
+  window: { start_date: Date; end_date: Date },
+  restDays: Set<number>
+): Date {
+  if (rule.type !== 'weekdays' && rule.type !== 'monthly') return date
+
+  const isAllowed = (day: Date) => {
+    if (restDays.has(day.getUTCDay())) return false
+    if (rule.type === 'weekdays') return rule.days.includes(day.getUTCDay())
+    const target = nthWeekdayOfMonth(day.getUTCFullYear(), day.getUTCMonth(), rule.week, rule.weekday)
+    return target.getTime() === day.getTime()
+  }
+
+  for (let day = new Date(date); day <= window.end_date; day = addUTCDays(day, 1)) {
+    if (isAllowed(day)) return day
+  }
+  for (let day = addUTCDays(date, -1); day >= window.start_date; day = addUTCDays(day, -1)) {
+    if (isAllowed(day)) return day
+  }
+
+  return date
+}
+
+/**
+ * Dates of the repeats after the seed occurrence, up to and including the end date.
+ * Rest days are never used: interval and monthly repeats roll forward past them,
+ * weekday rules drop them, and times-per-week rules only pick from workdays.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  seedDate: Date,
+  endDate: Date,
+  restDays: Set<number>,
+  pickDays: WeekDayPicker = spreadEvenly
+): Date[] {
+  const dates: Date[] = []
+
+  switch (rule.type) {
+    case 'interval': {
+      let current = new Date(seedDate)
+      while (current <= endDate) {
+        current = addUTCDays(current, rule.every_days)
+        if (current > endDate) break
+
+        // Roll forward to the next non-rest day
+        while (restDays.has(current.getUTCDay()) && current <= endDate) {
+          current = addUTCDays(current, 1)
+        }
+        if (current > endDate) break
+
+        dates.push(new Date(current))
+      }
+      break
+    }
+
+    case 'weekdays': {
+      for (let day = addUTCDays(seedDate, 1); day <= endDate; day = addUTCDays(day, 1)) {
+        if (rule.days.includes(day.getUTCDay()) && !restDays.has(day.getUTCDay())) {
+          dates.push(day)
+        }
+      }
+      break
+    }
+
+    case 'times_per_week': {
+      // Weeks run Monday to Sunday; the seed counts towards its own week
+      let weekStart = addUTCDays(seedDate, -((seedDate.getUTCDay() + 6) % 7))
+      let isSeedWeek = true
+      while (weekStart <= endDate) {
+        const candidates: Date[] = []
+        for (let i = 0; i < 7; i++) {
+          const day = addUTCDays(weekStart, i)
+          if (day <= seedDate || day > endDate || restDays.has(day.getUTCDay())) continue
+          candidates.push(day)
+        }
+
+        const wanted = isSeedWeek ? rule.count - 1 : rule.count
+        if (wanted > 0 && candidates.length > 0) {
+          const picked = pickDays(candidates, Math.min(wanted, candidates.length))
+          dates.push(...picked.sort((a, b) => a.getTime() - b.getTime()))
+        }
+
+        weekStart = addUTCDays(weekStart, 7)
+        isSeedWeek = false
+      }
+      break
+    }
+
+    case 'monthly': {
+      let year = seedDate.getUTCFullYear()
+      let month = seedDate.getUTCMonth()
+      while (new Date(Date.UTC(year, month, 1)) <= endDate) {
+        let day = nthWeekdayOfMonth(year, month, rule.week, rule.weekday)
+        while (restDays.has(day.getUTCDay()) && day <= endDate) {
+          day = addUTCDays(day, 1)
+        }
+        if (day > seedDate && day <= endDate) dates.push(day)
+
+        month++
+        if (month > 11) {
+          month = 0
+          year++
+        }
+      }
+      break
+    }
+  }
+
+  return dates
+}
@@ -1,7 +1,18 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { supabaseServer, supabaseServerAuth } from '../../lib/supabaseServer'
 import { scheduleDreamActions } from './scheduler'
+import { fetchSchedulingPreferences, type ResolvedSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import { fetchOtherDreamOccurrences, type OtherDreamOccurrence, type OverloadedDay } from './capacity'
+import { planIncrementalReschedule, incrementalEndDate, habitsToContinue, type RescheduleChange } from './incremental'
 import type { Dream, Area, Action, ActionOccurrence } from '../../database/types'
 
+/**
+ * 'replace' deletes the outstanding occurrences and schedules them again from scratch,
+ * 'incremental' only moves what has to move and leaves dates the user picked alone
+ */
+export type RescheduleMode = 'replace' | 'incremental'
+
 /**
  * Reschedule actions for a dream - useful when users want to extend/contract
  * their due dates or when they've completed some actions and want to reschedule
@@ -14,14 +25,17 @@ export async function rescheduleDreamActions(
   options: {
     extendEndDate?: string
     contractEndDate?: string
-    resetCompleted?: boolean // Whether to reschedule completed actions too
+    resetCompleted?: boolean // Whether to reschedule completed actions too (replace mode only)
     timeCommitment?: { hours: number; minutes: number } // Optional time commitment override
+    mode?: RescheduleMode // Defaults to 'replace'
   } = {}
 ): Promise<{
   success: boolean
   scheduled_count: number
   warnings: string[]
   errors: string[]
+  overloaded_days?: OverloadedDay[]
+  changes?: RescheduleChange[] // Incremental mode only
 }> {
   try {
     const sb = supabaseServerAuth(userToken)
@@ -107,6 +121,35 @@ export async function rescheduleDreamActions(
       }
     }
 
+    // Load the user's rest days, daily caps and timezone
+    const preferences = await fetchSchedulingPreferences(sb, userId)
+    const timezone = await fetchUserTimezone(sb, userId)
+
+    const today = localDateInTimezone(timezone)
+
+    // Other dreams' upcoming occurrences count against the same daily cap
+    const otherDreamOccurrences = await fetchOtherDreamOccurrences(sb, userId, dreamId, today)
+
+    // Prepare scheduling context
+    const context = {
+      user_id: userId,
+      timezone,
+      today,
+      preferences
+    }
+
+    if (options.mode === 'incremental') {
+      return await applyIncrementalReschedule(sb, {
+        dream: dream as Dream,
+        areas: areas as Area[],
+        actions: actions as Action[],
+        existingOccurrences: existingOccurrences as ActionOccurrence[],
+        otherDreamOccurrences,
+        context,
+        userId
+      })
+    }
+
     // Filter out completed occurrences if resetCompleted is false
     const occurrencesToConsider = options.resetCompleted 
       ? existingOccurrences 
@@ -130,17 +173,12 @@ export async function rescheduleDreamActions(
       }
     }
 
-    // Prepare scheduling context
-    const context = {
-      user_id: userId,
-      timezone: 'Europe/London' // Could be made configurable
-    }
-
     const dreamData = {
       dream: dream as Dream,
       areas: areas as Area[],
       actions: actions as Action[],
-      existing_occurrences: [] // Start fresh since we deleted the ones to reschedule
+      existing_occurrences: [], // Start fresh since we deleted the ones to reschedule
+      other_dream_occurrences: otherDreamOccurrences
     }
 
     // Run scheduling algorithm
@@ -199,7 +237,8 @@ export async function rescheduleDreamActions(
       success: true,
       scheduled_count: schedulingResult.occurrences.length,
       warnings: schedulingResult.warnings,
-      errors: []
+      errors: [],
+      overloaded_days: schedulingResult.overloaded_days
     }
 
   } catch (error) {
@@ -212,12 +251,135 @@ export async function rescheduleDreamActions(
   }
 }
 
+/**
+ * Incremental mode: plan from a fresh schedule, then update/insert/delete only the occurrences that change
+ */
+async function applyIncrementalReschedule(
+  sb: SupabaseClient,
+  input: {
+    dream: Dream
+    areas: Area[]
+    actions: Action[]
+    existingOccurrences: ActionOccurrence[]
+    otherDreamOccurrences: OtherDreamOccurrence[]
+    context: { user_id: string; timezone: string; today: string; preferences: ResolvedSchedulingPreferences }
+    userId: string
+  }
+) {
+  const { dream, areas, actions, existingOccurrences, otherDreamOccurrences, context, userId } = input
+
+  const schedulingResult = await scheduleDreamActions(context, {
+    dream,
+    areas,
+    actions,
+    existing_occurrences: [], // Where everything would go today; the planner decides what actually moves
+    other_dream_occurrences: otherDreamOccurrences
+  })
+
+  if (!schedulingResult.success) {
+    return {
+      success: false,
+      scheduled_count: 0,
+      warnings: [],
+      errors: schedulingResult.errors
+    }
+  }
+
+  const endDate = incrementalEndDate(dream, schedulingResult.occurrences)
+  const plan = planIncrementalReschedule(
+    existingOccurrences,
+    schedulingResult.occurrences,
+    { today: context.today, end_date: endDate },
+    context.preferences,
+    otherDreamOccurrences,
+    dream.priority,
+    habitsToContinue(dream, actions, existingOccurrences, endDate)
+  )
+
+  if (plan.deletes.length > 0) {
+    const { error: deleteError } = await sb
+      .from('action_occurrences')
+      .delete()
+      .in('id', plan.deletes)
+
+    if (deleteError) {
+      return {
+        success: false,
+        scheduled_count: 0,
+        warnings: [],
+        errors: ['Failed to delete existing occurrences']
+      }
+    }
+  }
+
+  // Moves keep the row (and its notes, artifacts and defer history); the new date becomes the plan
+  const updateResults = await Promise.all(plan.updates.map(update =>
+    sb
+      .from('action_occurrences')
+      .update({ due_on: update.due_on, planned_due_on: update.due_on, updated_at: new Date().toISOString() })
+      .eq('id', update.id)
+  ))
+
+  if (updateResults.some(result => result.error)) {
+    return {
+      success: false,
+      scheduled_count: 0,
+      warnings: [],
+      errors: ['Failed to move existing occurrences']
+    }
+  }
+
+  if (plan.inserts.length > 0) {
+    const actionIdToAreaId = new Map(actions.map(a => [a.id, a.area_id]))
+
+    const { error: insertError } = await sb
+      .from('action_occurrences')
+      .insert(plan.inserts.map(occ => ({
+        action_id: occ.action_id,
+        area_id: actionIdToAreaId.get(occ.action_id)!,
+        dream_id: dream.id,
+        user_id: userId,
+        occurrence_no: occ.occurrence_no,
+        planned_due_on: occ.due_on,
+        due_on: occ.due_on,
+        defer_count: 0
+      })))
+
+    if (insertError) {
+      return {
+        success: false,
+        scheduled_count: 0,
+        warnings: [],
+        errors: ['Failed to insert new occurrences']
+      }
+    }
+  }
+
+  const warnings = [...schedulingResult.warnings]
+  if (plan.pinned_count > 0) {
+    warnings.push(`${plan.pinned_count} occurrence(s) you moved by hand were left where they are`)
+  }
+  const unplacedCount = plan.changes.filter(change => change.type === 'unplaced').length
+  if (unplacedCount > 0) {
+    warnings.push(`${unplacedCount} occurrence(s) had to move but no day up to the end date has room; they were left where they are`)
+  }
+
+  return {
+    success: true,
+    scheduled_count: plan.updates.length + plan.inserts.length,
+    warnings,
+    errors: [],
+    overloaded_days: schedulingResult.overloaded_days,
+    changes: plan.changes
+  }
+}
+
 /**
  * API endpoint handler for rescheduling
  */
 export async function handleRescheduleRequest(req: Request) {
   try {
-    const { dream_id, extend_end_date, contract_end_date, reset_completed, time_commitment } = await req.json()
+    const { dream_id, extend_end_date, contract_end_date, reset_completed, time_commitment, mode } = await req.json()
     
     if (!dream_id) {
       return {
@@ -226,6 +388,13 @@ export async function handleRescheduleRequest(req: Request) {
       }
     }
 
+    if (mode !== undefined && mode !== 'replace' && mode !== 'incremental') {
+      return {
+        success: false,
+        error: "mode must be 'replace' or 'incremental'"
+      }
+    }
+
     // Get user from auth
     const token = req.headers.get('authorization')?.replace('Bearer ','')
     if (!token) {
@@ -250,7 +419,8 @@ export async function handleRescheduleRequest(req: Request) {
       extendEndDate: extend_end_date,
       contractEndDate: contract_end_date,
       resetCompleted: reset_completed || false,
-      timeCommitment: time_commitment
+      timeCommitment: time_commitment,
+      mode
     })
 
     return result
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ActionOccurrence } from '../../database/types'
+import { fetchSchedulingPreferences, isDayOff, dailyCap, perDreamCap, type ResolvedSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+
+// How far ahead the job looks for a day with room before falling back to the least loaded day
+export const ROLL_FORWARD_HORIZON_DAYS = 14
+
+export type RollableOccurrence = Pick<ActionOccurrence, 'id' | 'action_id' | 'dream_id' | 'occurrence_no' | 'due_on' | 'defer_count'>
+type ScheduledOccurrence = Pick<ActionOccurrence, 'action_id' | 'dream_id' | 'due_on'>
+
+/**
+ * An overdue occurrence moved (or, when planning, to be moved) by the roll-forward job
+ */
+export interface RollForwardMove {
+  occurrence_id: string
+  action_id: string
+  dream_id: string
+  from_date: string
+  to_date: string
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * Pick a new day for each overdue occurrence, oldest first. Each goes on the first non-rest day
+ * from today that is under both daily caps, then the first under the global cap alone, and
+ * otherwise the least loaded day in the horizon. Days already holding an occurrence of the same
+ * action are skipped, and the load includes everything already due (from every dream) and each
+ * earlier move. Away and blocked days are never used, and busy days count with their reduced cap;
+ * if no day in the horizon is available nothing moves.
+ */
+export function planRollForward(
+  overdue: RollableOccurrence[],
+  scheduled: ScheduledOccurrence[],
+  today: string,
+  preferences: ResolvedSchedulingPreferences
+): RollForwardMove[] {
+  const dayLoad = new Map<string, number>()
+  const dreamLoad = new Map<string, number>()
+  const actionDays = new Set<string>()
+
+  const book = (occ: ScheduledOccurrence, date: string) => {
+    dayLoad.set(date, (dayLoad.get(date) || 0) + 1)
+    dreamLoad.set(`${occ.dream_id}-${date}`, (dreamLoad.get(`${occ.dream_id}-${date}`) || 0) + 1)
+    actionDays.add(`${occ.action_id}-${date}`)
+  }
+
+  for (const occ of scheduled) {
+    if (occ.due_on && occ.due_on >= today) book(occ, occ.due_on)
+  }
+
+  const days: string[] = []
+  for (let offset = 0; offset < ROLL_FORWARD_HORIZON_DAYS; offset++) {
+    const date = addDays(today, offset)
+    if (!isDayOff(preferences, date)) days.push(date)
+  }
+  if (days.length === 0) return []
+
+  const ordered = overdue
+    .filter(occ => occ.due_on && occ.due_on < today)
+    .sort((a, b) => a.due_on!.localeCompare(b.due_on!) || a.occurrence_no - b.occurrence_no)
+
+  const moves: RollForwardMove[] = []
+  for (const occ of ordered) {
+    const open = days.filter(date => !actionDays.has(`${occ.action_id}-${date}`))
+    const candidates = open.length > 0 ? open : days
+
+    const target =
+      candidates.find(date => (dayLoad.get(date) || 0) < dailyCap(preferences, date) &&
+        (dreamLoad.get(`${occ.dream_id}-${date}`) || 0) < perDreamCap(preferences, occ.dream_id, date)) ??
+      candidates.find(date => (dayLoad.get(date) || 0) < dailyCap(preferences, date)) ??
+      candidates.reduce((best, date) => (dayLoad.get(date) || 0) < (dayLoad.get(best) || 0) ? date : best)
+
+    book(occ, target)
+    moves.push({
+      occurrence_id: occ.id,
+      action_id: occ.action_id,
+      dream_id: occ.dream_id,
+      from_date: occ.due_on!,
+      to_date: target
+    })
+  }
+
+  return moves
+}
+
+/**
+ * Roll a user's overdue occurrences forward and log the moves. Pinned occurrences move too
+ * (their chosen day has passed) but stay pinned; planned_due_on is never changed.
+ * Returns the moves that were saved.
+ */
+export async function rollForwardOverdue(sb: SupabaseClient, userId: string): Promise<RollForwardMove[]> {
+  const [timezone, preferences] = await Promise.all([
+    fetchUserTimezone(sb, userId),
+    fetchSchedulingPreferences(sb, userId)
+  ])
+  const today = localDateInTimezone(timezone)
+  const horizonEnd = addDays(today, ROLL_FORWARD_HORIZON_DAYS)
+
+  const { data, error } = await sb
+    .from('action_occurrences')
+    .select('id, action_id, dream_id, occurrence_no, due_on, defer_count, dreams!inner(archived_at, paused_at), actions!inner(is_active, deleted_at)')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .not('due_on', 'is', null)
+    .lt('due_on', horizonEnd)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null) // Paused dreams are rebuilt when they resume
+    .eq('actions.is_active', true)
+    .is('actions.deleted_at', null)
+
+  if (error) throw new Error(`Failed to fetch occurrences: ${error.message}`)
+
+  const occurrences = (data || []) as unknown as RollableOccurrence[]
+  const overdue = occurrences.filter(occ => occ.due_on! < today)
+  if (overdue.length === 0) return []
+
+  const moves = planRollForward(overdue, occurrences, today, preferences)
+  const deferCounts = new Map(overdue.map(occ => [occ.id, occ.defer_count ?? 0]))
+
+  const saved: RollForwardMove[] = []
+  for (const move of moves) {
+    const { data: updated, error: updateError } = await sb
+      .from('action_occurrences')
+      .update({
+        due_on: move.to_date,
+        defer_count: deferCounts.get(move.occurrence_id)! + 1,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', move.occurrence_id)
+      .eq('due_on', move.from_date)
+      .is('completed_at', null) // Completed or moved since we looked - leave it
+      .select('id')
+
+    if (updateError) {
+      console.error(`Failed to roll occurrence ${move.occurrence_id} forward:`, updateError)
+      continue
+    }
+    if (updated && updated.length > 0) saved.push(move)
+  }
+
+  if (saved.length > 0) {
+    const { error: logError } = await sb
+      .from('occurrence_roll_forwards')
+      .insert(saved.map(move => ({
+        user_id: userId,
+        occurrence_id: move.occurrence_id,
+        dream_id: move.dream_id,
+        from_date: move.from_date,
+        to_date: move.to_date
+      })))
+
+    // The moves themselves went through; only the summary is missing
+    if (logError) console.error('Failed to log rolled forward occurrences:', logError)
+  }
+
+  return saved
+}
@@ -1,5 +1,10 @@
 import { supabaseServerAuth } from '../../lib/supabaseServer'
 import { scheduleDreamActions } from './scheduler'
+import { fetchSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import { fetchOtherDreamOccurrences, type OverloadedDay } from './capacity'
+import { moveWorkOutOf } from './away'
+import type { SchedulingDiagnostics } from './diagnostics'
 import type { Dream, Area, Action, ActionOccurrence } from '../../database/types'
 
 interface ScheduleActionsResult {
@@ -9,6 +14,8 @@ interface ScheduleActionsResult {
   auto_compacted?: boolean
   too_tight?: boolean
   recommended_end?: string
+  overloaded_days?: OverloadedDay[]
+  diagnostics?: SchedulingDiagnostics
   error?: string
   details?: any
 }
@@ -115,17 +122,29 @@ export async function scheduleActionsForDream(
       }
     }
 
+    // Load the user's rest days, daily caps and timezone
+    const preferences = await fetchSchedulingPreferences(sb, userId)
+    const timezone = await fetchUserTimezone(sb, userId)
+
+    const today = localDateInTimezone(timezone)
+
+    // Other dreams' upcoming occurrences count against the same daily cap
+    const otherDreamOccurrences = await fetchOtherDreamOccurrences(sb, userId, dreamId, today)
+
     // Prepare scheduling context
     const context = {
       user_id: userId,
-      timezone: 'Europe/London' // Default timezone, could be made configurable
+      timezone,
+      today,
+      preferences
     }
 
     const dreamData = {
       dream: dream as Dream,
       areas: areas as Area[],
       actions: actions as Action[],
-      existing_occurrences: existingOccurrences as ActionOccurrence[]
+      existing_occurrences: existingOccurrences as ActionOccurrence[],
+      other_dream_occurrences: otherDreamOccurrences
     }
 
     // Run scheduling algorithm
@@ -199,6 +218,18 @@ export async function scheduleActionsForDream(
       console.log('No occurrences to insert')
     }
 
+    // Lower-priority dreams give up the days this dream took: move their work on to days with room
+    const claimedDays = (schedulingResult.overloaded_days || []).filter(day => day.lower_priority)
+    if (claimedDays.length > 0) {
+      const { moved, errors } = await moveWorkOutOf(sb, userId, token, {
+        from: claimedDays[0].date,
+        to: claimedDays[claimedDays.length - 1].date,
+        reason: 'priority'
+      })
+      console.log(`⚖️ Moved ${moved.length} lower-priority occurrence(s) off ${claimedDays.length} day(s)`)
+      if (errors.length > 0) console.error('Failed to move some lower-priority occurrences:', errors)
+    }
+
     // Update dream with scheduling metadata if needed
     const dreamUpdates: Partial<Dream> = {}
     if (schedulingResult.auto_compacted) {
@@ -223,7 +254,9 @@ export async function scheduleActionsForDream(
       warnings: schedulingResult.warnings,
       auto_compacted: schedulingResult.auto_compacted,
       too_tight: schedulingResult.too_tight,
-      recommended_end: schedulingResult.recommended_end
+      recommended_end: schedulingResult.recommended_end,
+      overloaded_days: schedulingResult.overloaded_days,
+      diagnostics: schedulingResult.diagnostics
     }
 
   } catch (error) {
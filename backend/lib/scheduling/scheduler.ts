@@ -1,10 +1,14 @@
-import type { Dream, Area, Action, ActionOccurrence } from '../../database/types'
+import type { Dream, DreamPriority, Area, Action, ActionOccurrence } from '../../database/types'
+import { resolveSchedulingPreferences, isDayOff, capacityFactor, dailyCap, perDreamCap, unavailableDates, type ResolvedSchedulingPreferences } from './preferences'
+import { yieldsTo, type OtherDreamOccurrence, type OverloadedDay } from './capacity'
+import { resolveRecurrence, isRecurring, alignToRecurrence, expandRecurrence, spreadEvenly } from './recurrence'
+import { orderByPrerequisites, lastPrerequisiteDate, enforcePrerequisiteOrder } from './prerequisites'
+import { ESTIMATED_MINUTES_PER_ACTION, slotsForDay, suggestFixes, type SchedulingDiagnostics, type UnplacedAction } from './diagnostics'
 
 // Configuration constants
+// Rest days, the global daily cap and the per-dream cap come from the user's
+// scheduling preferences (see ./preferences.ts)
 const TARGET_PER_WEEK = 3
-const REST_DAYS = new Set([0]) // Sunday = 0
-const GLOBAL_DAILY_CAP = 5
-const PER_DREAM_CAP_DEFAULT = 1
 const PER_DREAM_CAP_MAX = 3
 const MIN_GAP_DAYS_BETWEEN_SEEDS = 1
 const DEFAULT_DAILY_TIME_MINUTES = 30 // Default if no time commitment specified
@@ -12,7 +16,9 @@ const DEFAULT_DAILY_TIME_MINUTES = 30 // Default if no time commitment specified
 // Types for scheduling
 interface SchedulingContext {
   user_id: string
-  timezone: string
+  timezone: string // IANA timezone the user's calendar dates are in
+  today?: string // User's local date (YYYY-MM-DD) in `timezone`; nothing is scheduled before it
+  preferences?: ResolvedSchedulingPreferences // Defaults are used when omitted
 }
 
 interface SchedulingResult {
@@ -23,11 +29,18 @@ interface SchedulingResult {
   auto_compacted?: boolean
   too_tight?: boolean
   recommended_end?: string
+  overloaded_days?: OverloadedDay[] // Days over the user-wide daily cap once this dream is added
+  diagnostics?: SchedulingDiagnostics // What didn't fit and what would make it fit; only set when something didn't
 }
 
 interface CapacityTracker {
   global_remaining: Map<string, number> // date -> remaining slots
   per_dream_remaining: Map<string, Map<string, number>> // date -> dream_id -> remaining slots
+  other_dream_load: Map<string, number> // date -> occurrences already scheduled by the user's other dreams of the same or higher priority
+  yielding_load: Map<string, number> // date -> occurrences from lower-priority dreams, which give up their slots to this dream
+  global_daily_cap: number // User-wide cap across all dreams
+  minutes_remaining: Map<string, number> // date -> minutes left of this dream's daily time commitment
+  daily_minutes: number // This dream's daily time commitment
 }
 
 interface ScheduledPlacement {
@@ -46,6 +59,7 @@ interface DreamSchedulingData {
   areas: Area[]
   actions: Action[]
   existing_occurrences: ActionOccurrence[]
+  other_dream_occurrences?: OtherDreamOccurrence[] // Load from the user's other active dreams
 }
 
 /**
@@ -55,18 +69,28 @@ export async function scheduleDreamActions(
   context: SchedulingContext,
   dreamData: DreamSchedulingData
 ): Promise<SchedulingResult> {
-  const { dream, areas, actions, existing_occurrences } = dreamData
+  const { dream, areas, actions, existing_occurrences, other_dream_occurrences = [] } = dreamData
   
   console.log('🎯 Starting scheduling for dream:', dream.title)
   console.log('📊 Input data:', {
     areasCount: areas.length,
     actionsCount: actions.length,
-    existingOccurrencesCount: existing_occurrences.length
+    existingOccurrencesCount: existing_occurrences.length,
+    otherDreamOccurrencesCount: other_dream_occurrences.length
   })
   
   try {
+    const preferences = getPreferences(context)
+    console.log('⚙️ Scheduling preferences:', {
+      timezone: context.timezone,
+      today: context.today,
+      restDays: Array.from(preferences.rest_days),
+      globalDailyCap: preferences.global_daily_cap,
+      perDreamCap: preferences.per_dream_cap
+    })
+
     // Step 1: Calculate scheduling window
-    const window = calculateSchedulingWindow(dream, actions)
+    const window = calculateSchedulingWindow(dream, actions, preferences.rest_days, context.today)
     console.log('📅 Scheduling window:', {
       start: window.start_date.toISOString().split('T')[0],
       end: window.end_date.toISOString().split('T')[0],
@@ -74,14 +98,26 @@ export async function scheduleDreamActions(
     })
     
     // Step 2: Build capacity tracker
-    const capacity = buildCapacityTracker(window.start_date, window.end_date, dream.time_commitment)
+    const capacity = buildCapacityTracker(
+      window.start_date,
+      window.end_date,
+      preferences,
+      dream.time_commitment,
+      other_dream_occurrences,
+      dream.priority
+    )
     console.log('📊 Capacity tracker initialized:', {
       totalDays: capacity.global_remaining.size,
+      daysWithOtherDreamLoad: capacity.other_dream_load.size,
       sampleDay: Array.from(capacity.global_remaining.entries())[0]
     })
     
     // Step 3: Sort actions by position (area.position, action.position)
-    const sortedActions = sortActionsByPosition(actions, areas)
+    // Prerequisites come first; otherwise the position order is kept
+    const { ordered: sortedActions, cyclic } = orderByPrerequisites(sortActionsByPosition(actions, areas))
+    if (cyclic.length > 0) {
+      console.log('⚠️ Circular prerequisites:', cyclic.map(a => a.title))
+    }
     console.log('📋 Areas with positions:', areas.map(a => `${a.title} (area pos: ${a.position})`))
     console.log('📋 Sorted actions:', sortedActions.map(a => {
       const area = areas.find(area => area.id === a.area_id)
@@ -135,6 +171,34 @@ export async function scheduleDreamActions(
       seedResults.tight_pending || []
     )
     
+    // Step 7b: Balancing and the fallback can move things out of order - put dependents back after their prerequisites
+    const existingKeys = new Set(existing_occurrences.map(occ => `${occ.action_id}-${occ.occurrence_no}`))
+    const actionMap = new Map(sortedActions.map(action => [action.id, action]))
+    const movedForPrerequisites = enforcePrerequisiteOrder(
+      finalResults.placements || [],
+      sortedActions,
+      actionId => !!actionMap.get(actionId) && isRecurring(actionMap.get(actionId)!),
+      preferences.rest_days,
+      existingKeys,
+      unavailableDates(preferences)
+    )
+    if (movedForPrerequisites.length > 0) {
+      console.log('🔗 Moved after their prerequisites:', movedForPrerequisites.map(id => actionMap.get(id)?.title))
+    }
+    if (cyclic.length > 0) {
+      finalResults.warnings.push(`Circular prerequisites between ${cyclic.map(a => `"${a.title}"`).join(', ')} - using their position order instead`)
+    }
+    
+    // Waiting for prerequisites can push actions past the end date
+    const windowEnd = window.end_date.toISOString().split('T')[0]
+    const pastEnd = new Set((finalResults.placements || [])
+      .filter(p => p.due_on > windowEnd && !existingKeys.has(`${p.action_id}-${p.occurrence_no}`))
+      .map(p => p.action_id))
+    if (pastEnd.size > 0) {
+      finalResults.too_tight = true
+      finalResults.warnings.push(`${pastEnd.size} action(s) can't start until their prerequisites are done and run past the end date`)
+    }
+    
     // Step 8: Convert to ActionOccurrence format
     const occurrences = (finalResults.placements || []).map(placement => ({
       id: '', // Will be generated by database
@@ -154,10 +218,41 @@ export async function scheduleDreamActions(
       updated_at: new Date().toISOString()
     }))
     
+    // Step 9: Report days where the user-wide cap had to give
+    const overloadedDays = findOverloadedDays(finalResults.placements || [], capacity, preferences)
+    // Days that only go over because of lower-priority work are settled by moving that work
+    const overCap = overloadedDays.filter(day => day.scheduled - (day.lower_priority || 0) > day.cap)
+    if (overCap.length > 0) {
+      finalResults.warnings.push(
+        `${overCap.length} day(s) exceed your limit of ${preferences.global_daily_cap} actions/day across all dreams`
+      )
+    }
+    const claimed = overloadedDays.filter(day => day.lower_priority)
+    if (claimed.length > 0) {
+      finalResults.warnings.push(
+        `${claimed.length} day(s) were taken from lower-priority dreams; their actions move to later days`
+      )
+    }
+    
+    // Step 10: Explain what didn't fit and the smallest changes that would make it fit
+    const diagnostics = buildDiagnostics(
+      finalResults.placements || [],
+      sortedActions,
+      [
+        ...finalResults.unplaced.map(action_id => ({ action_id, reason: 'no_room' as const })),
+        ...Array.from(pastEnd).map(action_id => ({ action_id, reason: 'waiting_on_prerequisites' as const }))
+      ],
+      window,
+      dream,
+      capacity,
+      preferences
+    )
+    
     console.log('✅ Scheduling completed:', {
       totalOccurrences: occurrences.length,
       autoCompacted: window.auto_compacted,
       tooTight: finalResults.too_tight,
+      overloadedDays: overloadedDays.length,
       warnings: finalResults.warnings.length
     })
     
@@ -168,7 +263,9 @@ export async function scheduleDreamActions(
       warnings: finalResults.warnings,
       auto_compacted: window.auto_compacted,
       too_tight: finalResults.too_tight,
-      recommended_end: window.recommended_end
+      recommended_end: window.recommended_end,
+      overloaded_days: overloadedDays,
+      ...(diagnostics && { diagnostics })
     }
     
   } catch (error) {
@@ -183,10 +280,21 @@ export async function scheduleDreamActions(
 }
 
 /**
- * Calculate the scheduling window for a dream
+ * Resolve the user's scheduling preferences from the context, falling back to defaults
+ */
+function getPreferences(context: SchedulingContext): ResolvedSchedulingPreferences {
+  return context.preferences ?? resolveSchedulingPreferences(null)
+}
+
+/**
+ * Calculate the scheduling window for a dream.
+ * Dates are calendar dates held as UTC midnights, so all day arithmetic uses the UTC accessors
+ * and never depends on the server's timezone. If the dream started before the user's local
+ * today, the window starts today instead.
  */
-function calculateSchedulingWindow(dream: Dream, actions: Action[]) {
-  const startDate = new Date(dream.start_date)
+function calculateSchedulingWindow(dream: Dream, actions: Action[], restDays: Set<number>, today?: string) {
+  const workDaysPerWeek = 7 - restDays.size
+  const startDate = new Date(today && today > (dream.start_date ?? '') ? today : dream.start_date)
   const endDate = dream.end_date ? new Date(dream.end_date) : null
   
   // Count seedable actions (one-offs + first occurrence of each repeater)
@@ -207,9 +315,10 @@ function calculateSchedulingWindow(dream: Dream, actions: Action[]) {
       if (action.slice_count_target) {
         // Finite series: total time = est_minutes * slice_count_target
         totalTimeNeeded += action.est_minutes * action.slice_count_target
-      } else if (action.repeat_every_days) {
+      } else if (resolveRecurrence(action)) {
         // Habit: estimate based on window length and repeat frequency
         // Respect repeat_until_date if set
+        const rule = resolveRecurrence(action)!
         let effectiveEndDate = endDate || new Date(startDate.getTime() + 90 * 24 * 60 * 60 * 1000) // Default 90 days if no end date
         if (action.repeat_until_date) {
           const actionEnd = new Date(action.repeat_until_date)
@@ -218,9 +327,16 @@ function calculateSchedulingWindow(dream: Dream, actions: Action[]) {
           }
         }
         
-        const windowDays = Math.ceil((effectiveEndDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
-        const workDays = Math.floor(windowDays * 6 / 7) // Rough estimate excluding Sundays
-        const occurrences = Math.max(1, Math.floor(workDays / action.repeat_every_days))
+        let occurrences: number
+        if (rule.type === 'interval') {
+          const windowDays = Math.ceil((effectiveEndDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+          const workDays = Math.floor(windowDays * workDaysPerWeek / 7) // Rough estimate excluding rest days
+          occurrences = Math.max(1, Math.floor(workDays / rule.every_days))
+        } else {
+          // Fixed-day rules: count the actual days (the seed plus its repeats)
+          const seedDate = alignToRecurrence(rule, startDate, { start_date: startDate, end_date: effectiveEndDate }, restDays)
+          occurrences = 1 + expandRecurrence(rule, seedDate, effectiveEndDate, restDays).length
+        }
         totalTimeNeeded += action.est_minutes * occurrences
       } else {
         // One-off action
@@ -230,12 +346,11 @@ function calculateSchedulingWindow(dream: Dream, actions: Action[]) {
   }
   
   // Calculate weeks needed based on time commitment
-  const workDaysPerWeek = 6 // Excluding Sundays
   const weeklyTimeMinutes = dailyTimeMinutes * workDaysPerWeek
   const weeksNeeded = Math.max(1, Math.ceil(totalTimeNeeded / weeklyTimeMinutes))
   
   const recommendedEnd = new Date(startDate)
-  recommendedEnd.setDate(startDate.getDate() + (weeksNeeded * 7) - 1)
+  recommendedEnd.setUTCDate(startDate.getUTCDate() + (weeksNeeded * 7) - 1)
   
   // Window end is the earlier of end_date or recommended_end
   const windowEnd = endDate && endDate < recommendedEnd ? endDate : recommendedEnd
@@ -258,11 +373,29 @@ function calculateSchedulingWindow(dream: Dream, actions: Action[]) {
 }
 
 /**
- * Build capacity tracker for the scheduling window
+ * Build capacity tracker for the scheduling window.
+ * Occurrences from the user's other dreams are preloaded so the global cap is user-wide. Those from
+ * lower-priority dreams are kept apart: this dream schedules as if their slots were free.
  */
-function buildCapacityTracker(startDate: Date, endDate: Date, timeCommitment?: { hours: number; minutes: number }): CapacityTracker {
+function buildCapacityTracker(
+  startDate: Date,
+  endDate: Date,
+  preferences: ResolvedSchedulingPreferences,
+  timeCommitment?: { hours: number; minutes: number },
+  otherDreamOccurrences: OtherDreamOccurrence[] = [],
+  priority: DreamPriority = 'normal'
+): CapacityTracker {
   const globalRemaining = new Map<string, number>()
   const perDreamRemaining = new Map<string, Map<string, number>>()
+  const otherDreamLoad = new Map<string, number>()
+  const yieldingLoad = new Map<string, number>()
+  const minutesRemaining = new Map<string, number>()
+  
+  for (const occurrence of otherDreamOccurrences) {
+    if (!occurrence.due_on) continue
+    const load = yieldsTo(occurrence, priority) ? yieldingLoad : otherDreamLoad
+    load.set(occurrence.due_on, (load.get(occurrence.due_on) || 0) + 1)
+  }
   
   // Calculate daily time budget
   const dailyTimeMinutes = timeCommitment 
@@ -270,41 +403,44 @@ function buildCapacityTracker(startDate: Date, endDate: Date, timeCommitment?: {
     : DEFAULT_DAILY_TIME_MINUTES
   
   // Calculate time-based capacity (estimate actions that can fit in daily time)
-  // Use a conservative estimate: assume average action takes 45 minutes
+  // Use a conservative estimate of how long an average action takes
   // This gives us a reasonable cap that respects time commitment
-  const estimatedTimePerAction = 45 // minutes
-  const timeBasedDailyCap = Math.max(1, Math.floor(dailyTimeMinutes / estimatedTimePerAction))
+  const timeBasedDailyCap = Math.max(1, Math.floor(dailyTimeMinutes / ESTIMATED_MINUTES_PER_ACTION))
   
   // Use the smaller of time-based cap or global cap to respect both constraints
-  const effectiveDailyCap = Math.min(timeBasedDailyCap, GLOBAL_DAILY_CAP)
+  const effectiveDailyCap = Math.min(timeBasedDailyCap, preferences.global_daily_cap)
   
   console.log('📊 Capacity calculation:', {
     dailyTimeMinutes,
     timeBasedDailyCap,
     effectiveDailyCap,
-    globalCap: GLOBAL_DAILY_CAP
+    globalCap: preferences.global_daily_cap
   })
   
   const currentDate = new Date(startDate)
   while (currentDate <= endDate) {
     const dateStr = currentDate.toISOString().split('T')[0]
-    const dayOfWeek = currentDate.getDay()
     
-    // Check if it's a rest day
-    if (REST_DAYS.has(dayOfWeek)) {
-      globalRemaining.set(dateStr, 0)
-    } else {
-      globalRemaining.set(dateStr, effectiveDailyCap)
-    }
+    // Rest, away and blocked days get nothing; otherwise this dream gets its own time-based cap, limited by
+    // what other dreams left of the user-wide cap. Busy days scale both down.
+    const factor = capacityFactor(preferences, dateStr)
+    globalRemaining.set(dateStr, slotsForDay(dateStr, Math.round(dailyTimeMinutes * factor), dailyCap(preferences, dateStr), otherDreamLoad, preferences.rest_days, preferences.away_dates))
+    // Days are measured in minutes as well as actions
+    minutesRemaining.set(dateStr, Math.round(dailyTimeMinutes * factor))
     
     perDreamRemaining.set(dateStr, new Map())
     
-    currentDate.setDate(currentDate.getDate() + 1)
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1)
   }
   
   return {
     global_remaining: globalRemaining,
-    per_dream_remaining: perDreamRemaining
+    per_dream_remaining: perDreamRemaining,
+    other_dream_load: otherDreamLoad,
+    yielding_load: yieldingLoad,
+    global_daily_cap: preferences.global_daily_cap,
+    minutes_remaining: minutesRemaining,
+    daily_minutes: dailyTimeMinutes
   }
 }
 
@@ -342,6 +478,7 @@ async function seedAllActions(
 ): Promise<{ placements: ScheduledPlacement[]; tight_pending: string[] }> {
   const placements: ScheduledPlacement[] = []
   const tightPending: string[] = []
+  const preferences = getPreferences(context)
   
   // Compute daily time budget for oversized detection
   const dailyTimeMinutes = dream.time_commitment 
@@ -349,7 +486,7 @@ async function seedAllActions(
     : DEFAULT_DAILY_TIME_MINUTES
   
   // Get eligible workdays
-  const eligibleDays = getEligibleWorkdays(window.start_date, window.end_date)
+  const eligibleDays = getEligibleWorkdays(window.start_date, window.end_date, preferences)
   
   console.log('📅 Eligible workdays:', {
     totalDays: eligibleDays.length,
@@ -363,7 +500,7 @@ async function seedAllActions(
   
   for (const action of sortedActions) {
     let count = 1 // Default to 1 occurrence
-    if (action.repeat_every_days) {
+    if (resolveRecurrence(action)) {
       // For habits, only seed the FIRST occurrence. Ongoing repeats are handled in expandRepeats.
       count = 1
     } else if (action.slice_count_target && action.slice_count_target > 1) {
@@ -393,25 +530,9 @@ async function seedAllActions(
   
   let currentOccurrenceIndex = 0
   
-  // Group actions by area to ensure we process all actions in an area before moving to the next
-  const actionsByArea = new Map<number, Action[]>()
+  // Process actions in order (area/action position, with prerequisites first)
+  const seeded = new Set<string>()
   for (const action of sortedActions) {
-    const area = areas.find(area => area.id === action.area_id)
-    const areaPosition = area?.position || 0
-    if (!actionsByArea.has(areaPosition)) {
-      actionsByArea.set(areaPosition, [])
-    }
-    actionsByArea.get(areaPosition)!.push(action)
-  }
-  
-  // Process areas in order
-  const sortedAreaPositions = Array.from(actionsByArea.keys()).sort((a, b) => a - b)
-  
-  for (const areaPosition of sortedAreaPositions) {
-    const areaActions = actionsByArea.get(areaPosition)!
-    console.log(`🏗️  Processing area ${areaPosition} with ${areaActions.length} actions`)
-    
-    for (const action of areaActions) {
     
     // Check if this action has existing occurrences
     const existingActionOccurrences = existingOccurrences.filter(occ => occ.action_id === action.id)
@@ -430,6 +551,7 @@ async function seedAllActions(
           is_fixed: false
         })
       }
+      seeded.add(action.id)
       continue
     }
     
@@ -459,7 +581,31 @@ async function seedAllActions(
         break
       }
       
-      const dateStr = targetDay.toISOString().split('T')[0]
+      // Keep the target day unless it's already full (e.g. by the user's other dreams),
+      // in which case use the nearest workday that still has room
+      let placementDay = eligibleDays[findNearestDayWithCapacity(eligibleDays, targetDayIndex, capacity, action.est_minutes || 0)]
+      if (placementDay !== targetDay) {
+        console.log(`  ↪️  ${targetDay.toISOString().split('T')[0]} is full, seeding on ${placementDay.toISOString().split('T')[0]} instead`)
+      }
+      
+      // Actions with prerequisites wait for the workday after the last prerequisite occurrence
+      const prerequisitesDone = lastPrerequisiteDate(action, placements, seeded)
+      let earliestDay = window.start_date
+      if (prerequisitesDone && placementDay.toISOString().split('T')[0] <= prerequisitesDone) {
+        placementDay = firstWorkdayAfter(prerequisitesDone, eligibleDays, capacity, preferences)
+        earliestDay = placementDay
+        console.log(`  🔗 Waiting for prerequisites of "${action.title}", seeding on ${placementDay.toISOString().split('T')[0]}`)
+      }
+      
+      // Habits on fixed days (e.g. Mon/Wed/Fri, first Saturday) start on their first allowed day
+      const recurrence = resolveRecurrence(action)
+      if (recurrence) {
+        placementDay = alignToRecurrence(recurrence, placementDay, { start_date: earliestDay, end_date: window.end_date }, preferences.rest_days)
+      }
+      const dateStr = placementDay.toISOString().split('T')[0]
+      if (!capacity.per_dream_remaining.has(dateStr)) {
+        capacity.per_dream_remaining.set(dateStr, new Map())
+      }
       
       // Create placement for this occurrence
       placements.push({
@@ -476,7 +622,7 @@ async function seedAllActions(
       
       // Update capacity (can go negative to track violations)
       const currentGlobal = capacity.global_remaining.get(dateStr) || 0
-      const currentPerDream = capacity.per_dream_remaining.get(dateStr)?.get(dream.id) || 0
+      const currentPerDream = capacity.per_dream_remaining.get(dateStr)?.get(dream.id) ?? perDreamCap(preferences, dream.id, dateStr)
       
       if (currentGlobal <= 0) {
         console.log(`  ⚠️  Global capacity violation on ${dateStr}`)
@@ -487,14 +633,12 @@ async function seedAllActions(
       
       capacity.global_remaining.set(dateStr, currentGlobal - 1)
       
-      if (!capacity.per_dream_remaining.get(dateStr)!.has(dream.id)) {
-        capacity.per_dream_remaining.get(dateStr)!.set(dream.id, PER_DREAM_CAP_DEFAULT)
-      }
       capacity.per_dream_remaining.get(dateStr)!.set(dream.id, currentPerDream - 1)
+      useMinutes(capacity, dateStr, action.est_minutes || 0)
       
       currentOccurrenceIndex++
     }
-    }
+    seeded.add(action.id)
   }
   
   return { placements, tight_pending: tightPending }
@@ -512,17 +656,18 @@ async function expandRepeats(
   seedPlacements: ScheduledPlacement[]
 ): Promise<{ placements: ScheduledPlacement[] }> {
   const placements: ScheduledPlacement[] = []
+  const preferences = getPreferences(context)
   
   for (const action of sortedActions) {
     const seedPlacement = seedPlacements.find(p => p.action_id === action.id)
     if (!seedPlacement) continue
     
-    // Only handle ongoing habits (repeat_every_days) - finite series are handled in seeding
-    if (action.repeat_every_days) {
-      console.log(`🔄 Creating ongoing repeats for habit: "${action.title}" (every ${action.repeat_every_days} days)`)
+    // Only handle ongoing habits - finite series are handled in seeding
+    const recurrence = resolveRecurrence(action)
+    if (recurrence) {
+      console.log(`🔄 Creating ongoing repeats for habit: "${action.title}" (${JSON.stringify(recurrence)})`)
       
       const seedDate = new Date(seedPlacement.due_on)
-      let currentDate = new Date(seedDate)
       let occurrenceNo = 2
       
       // Determine effective end date for this action
@@ -535,21 +680,25 @@ async function expandRepeats(
         }
       }
       
-      // Add repeat occurrences
-      while (currentDate <= effectiveEndDate) {
-        currentDate.setDate(currentDate.getDate() + action.repeat_every_days)
-        
-        if (currentDate > effectiveEndDate) break
-        
-        // Skip rest days
-        const dayOfWeek = currentDate.getDay()
-        if (REST_DAYS.has(dayOfWeek)) {
-          // Roll to next non-rest day
-          currentDate.setDate(currentDate.getDate() + 1)
-          if (currentDate > window.end_date) break
+      // "N times a week" habits take the days with the most room left, spread through the week
+      const pickDaysWithCapacity = (candidates: Date[], count: number) => {
+        const hasRoom = (day: Date) => (capacity.global_remaining.get(day.toISOString().split('T')[0]) ?? 0) > 0
+        const picked = new Set<Date>()
+        for (const preferred of spreadEvenly(candidates, count)) {
+          const day = hasRoom(preferred) && !picked.has(preferred)
+            ? preferred
+            : candidates.find(candidate => !picked.has(candidate) && hasRoom(candidate)) ?? candidates.find(candidate => !picked.has(candidate))!
+          picked.add(day)
         }
+        return Array.from(picked)
+      }
+      
+      // Add repeat occurrences
+      for (const repeatDate of expandRecurrence(recurrence, seedDate, effectiveEndDate, preferences.rest_days, pickDaysWithCapacity)) {
+        const dateStr = repeatDate.toISOString().split('T')[0]
         
-        const dateStr = currentDate.toISOString().split('T')[0]
+        // Habits are skipped while the user is away or blocked rather than piling up after
+        if (isDayOff(preferences, dateStr)) continue
         
         // Check capacity (advisory - we'll schedule even if violated)
         const globalRemaining = capacity.global_remaining.get(dateStr) || 0
@@ -558,7 +707,7 @@ async function expandRepeats(
         if (!capacity.per_dream_remaining.has(dateStr)) {
           capacity.per_dream_remaining.set(dateStr, new Map())
         }
-        const perDreamRemaining = capacity.per_dream_remaining.get(dateStr)?.get(dream.id) || 0
+        const perDreamRemaining = capacity.per_dream_remaining.get(dateStr)?.get(dream.id) ?? perDreamCap(preferences, dream.id, dateStr)
         
         placements.push({
           action_id: action.id,
@@ -574,6 +723,7 @@ async function expandRepeats(
         // Update capacity (can go negative to track violations)
         capacity.global_remaining.set(dateStr, globalRemaining - 1)
         capacity.per_dream_remaining.get(dateStr)!.set(dream.id, perDreamRemaining - 1)
+        useMinutes(capacity, dateStr, action.est_minutes || 0)
         
         occurrenceNo++
       }
@@ -596,6 +746,7 @@ async function globalBalancing(
 ): Promise<{ placements: ScheduledPlacement[]; warnings: string[] }> {
   const warnings: string[] = []
   const placements = [...allPlacements]
+  const preferences = getPreferences(context)
   
   // Get time commitment for capacity calculations
   const timeCommitment = dream.time_commitment
@@ -662,7 +813,8 @@ async function globalBalancing(
           
               const avoidDates = new Set<string>([
                 dateStr,
-                ...Array.from(usedTargetDates)
+                ...Array.from(usedTargetDates),
+                ...Array.from(unavailableDates(preferences))
               ])
                const newDate = findNextAvailableDate(
             placement,
@@ -671,13 +823,19 @@ async function globalBalancing(
             capacity,
             placements,
             actions,
+            preferences.rest_days,
                  dailyTimeMinutes,
                  avoidDates
           )
           
           if (newDate) {
-            placement.due_on = newDate.toISOString().split('T')[0]
-            placement.planned_due_on = newDate.toISOString().split('T')[0]
+            const newDateStr = newDate.toISOString().split('T')[0]
+            capacity.global_remaining.set(dateStr, (capacity.global_remaining.get(dateStr) ?? 0) + 1)
+            capacity.global_remaining.set(newDateStr, (capacity.global_remaining.get(newDateStr) ?? 0) - 1)
+            useMinutes(capacity, dateStr, -action.est_minutes)
+            useMinutes(capacity, newDateStr, action.est_minutes)
+            placement.due_on = newDateStr
+            placement.planned_due_on = newDateStr
             remainingTime -= action.est_minutes
             movedPlacements.add(placement.action_id)
                 usedTargetDates.add(placement.due_on)
@@ -692,7 +850,7 @@ async function globalBalancing(
         }
       }
       
-      currentDate.setDate(currentDate.getDate() + 1)
+      currentDate.setUTCDate(currentDate.getUTCDate() + 1)
     }
     
     // If no changes were made in this iteration, we're done
@@ -722,24 +880,30 @@ async function tightFallbackEscalation(
   capacity: CapacityTracker,
   placements: ScheduledPlacement[],
   tightPending: string[]
-): Promise<{ placements: ScheduledPlacement[]; warnings: string[]; too_tight?: boolean }> {
+): Promise<{ placements: ScheduledPlacement[]; warnings: string[]; too_tight?: boolean; unplaced: string[] }> {
   const warnings: string[] = []
+  const unplaced: string[] = []
   let tooTight = false
   
   if (tightPending.length === 0) {
-    return { placements, warnings }
+    return { placements, warnings, unplaced }
   }
   
-  // Try escalating per-dream cap to 2/day
+  const preferences = getPreferences(context)
+  const maxPerDreamCap = Math.max(PER_DREAM_CAP_MAX, preferences.per_dream_cap)
+  const escalatedPerDreamCap = Math.min(preferences.per_dream_cap + 1, maxPerDreamCap)
+  const eligibleDays = getEligibleWorkdays(window.start_date, window.end_date, preferences)
+  
+  // Try escalating per-dream cap by one slot/day
   const escalatedCapacity = { ...capacity }
   const currentDate = new Date(window.start_date)
   while (currentDate <= window.end_date) {
     const dateStr = currentDate.toISOString().split('T')[0]
     const perDreamMap = escalatedCapacity.per_dream_remaining.get(dateStr)
     if (perDreamMap) {
-      perDreamMap.set(dream.id, 2)
+      perDreamMap.set(dream.id, escalatedPerDreamCap)
     }
-    currentDate.setDate(currentDate.getDate() + 1)
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1)
   }
   
   // Try to place tight pending actions
@@ -757,23 +921,24 @@ async function tightFallbackEscalation(
       new Date(window.start_date),
       window.end_date,
       escalatedCapacity,
-      getEligibleWorkdays(window.start_date, window.end_date)
+      eligibleDays
     )
     
     if (placement) {
       placements.push(placement)
-      warnings.push(`Escalated per-dream cap to 2/day for ${dream.title}`)
+      useMinutes(capacity, placement.due_on, action.est_minutes || 0)
+      warnings.push(`Escalated per-dream cap to ${escalatedPerDreamCap}/day for ${dream.title}`)
     } else {
-      // Try 3/day as last resort
+      // Try the maximum per-dream cap as last resort
       const maxCapacity = { ...escalatedCapacity }
       const currentDate = new Date(window.start_date)
       while (currentDate <= window.end_date) {
         const dateStr = currentDate.toISOString().split('T')[0]
         const perDreamMap = maxCapacity.per_dream_remaining.get(dateStr)
         if (perDreamMap) {
-          perDreamMap.set(dream.id, PER_DREAM_CAP_MAX)
+          perDreamMap.set(dream.id, maxPerDreamCap)
         }
-        currentDate.setDate(currentDate.getDate() + 1)
+        currentDate.setUTCDate(currentDate.getUTCDate() + 1)
       }
       
       const maxPlacement = findFeasiblePlacement(
@@ -782,40 +947,212 @@ async function tightFallbackEscalation(
         new Date(window.start_date),
         window.end_date,
         maxCapacity,
-        getEligibleWorkdays(window.start_date, window.end_date)
+        eligibleDays
       )
       
       if (maxPlacement) {
         placements.push(maxPlacement)
-        warnings.push(`Escalated per-dream cap to 3/day for ${dream.title}`)
+        useMinutes(capacity, maxPlacement.due_on, action.est_minutes || 0)
+        warnings.push(`Escalated per-dream cap to ${maxPerDreamCap}/day for ${dream.title}`)
       } else {
         tooTight = true
+        unplaced.push(action.id)
         warnings.push(`Cannot fit all actions for ${dream.title} within window and caps`)
       }
     }
   }
   
-  return { placements, warnings, too_tight: tooTight }
+  return { placements, warnings, too_tight: tooTight, unplaced }
 }
 
 /**
- * Helper function to get eligible workdays (excluding rest days)
+ * Helper function to get eligible workdays (excluding rest days and away days)
  */
-function getEligibleWorkdays(startDate: Date, endDate: Date): Date[] {
+function getEligibleWorkdays(startDate: Date, endDate: Date, preferences: ResolvedSchedulingPreferences): Date[] {
   const workdays: Date[] = []
   const currentDate = new Date(startDate)
   
   while (currentDate <= endDate) {
-    const dayOfWeek = currentDate.getDay()
-    if (!REST_DAYS.has(dayOfWeek)) {
+    if (!isDayOff(preferences, currentDate.toISOString().split('T')[0])) {
       workdays.push(new Date(currentDate))
     }
-    currentDate.setDate(currentDate.getDate() + 1)
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1)
   }
   
   return workdays
 }
 
+/**
+ * Helper function to find the eligible day nearest to a target (later days first) that still
+ * has global capacity, preferring one that also has the minutes for the action. Falls back to
+ * the target itself when every day is full.
+ */
+function findNearestDayWithCapacity(eligibleDays: Date[], targetIndex: number, capacity: CapacityTracker, minutes = 0): number {
+  const hasSlot = (index: number) => {
+    const dateStr = eligibleDays[index].toISOString().split('T')[0]
+    return (capacity.global_remaining.get(dateStr) ?? 0) > 0
+  }
+  const hasSlotAndMinutes = (index: number) =>
+    hasSlot(index) && hasMinutesFor(capacity, eligibleDays[index].toISOString().split('T')[0], minutes)
+  
+  for (const hasCapacity of [hasSlotAndMinutes, hasSlot]) {
+    for (let distance = 0; distance < eligibleDays.length; distance++) {
+      const later = targetIndex + distance
+      const earlier = targetIndex - distance
+      if (later < eligibleDays.length && hasCapacity(later)) return later
+      if (earlier >= 0 && hasCapacity(earlier)) return earlier
+    }
+  }
+  
+  return targetIndex
+}
+
+/**
+ * Helper function to check a day has the minutes for an action. An action longer than the whole
+ * daily time commitment needs a day with nothing else on it.
+ */
+function hasMinutesFor(capacity: CapacityTracker, dateStr: string, minutes: number): boolean {
+  return (capacity.minutes_remaining.get(dateStr) ?? 0) >= Math.min(minutes, capacity.daily_minutes)
+}
+
+/**
+ * Helper function to take an action's minutes from a day (negative to give them back).
+ * Can go negative to track violations, like the slot counts.
+ */
+function useMinutes(capacity: CapacityTracker, dateStr: string, minutes: number) {
+  if (!capacity.minutes_remaining.has(dateStr)) return // Outside the scheduling window
+  capacity.minutes_remaining.set(dateStr, capacity.minutes_remaining.get(dateStr)! - minutes)
+}
+
+/**
+ * Helper function to find the first workday after a date, preferring one in the window with global
+ * capacity. Past the end of the window it returns the next workday regardless.
+ */
+function firstWorkdayAfter(date: string, eligibleDays: Date[], capacity: CapacityTracker, preferences: ResolvedSchedulingPreferences): Date {
+  const later = eligibleDays.filter(day => day.toISOString().split('T')[0] > date)
+  const withCapacity = later.find(day => (capacity.global_remaining.get(day.toISOString().split('T')[0]) ?? 0) > 0)
+  if (withCapacity || later.length > 0) return withCapacity ?? later[0]
+  
+  const next = new Date(date)
+  do {
+    next.setUTCDate(next.getUTCDate() + 1)
+  } while (isDayOff(preferences, next.toISOString().split('T')[0]))
+  return next
+}
+
+/**
+ * Helper function to list days in the window where this dream's placements plus the user's
+ * other dreams exceed the user-wide daily cap (any placement on a rest or away day counts too).
+ * Lower-priority work on the day counts towards the total; it's what gets moved to make room.
+ */
+function findOverloadedDays(
+  placements: ScheduledPlacement[],
+  capacity: CapacityTracker,
+  preferences: ResolvedSchedulingPreferences
+): OverloadedDay[] {
+  const dreamLoad = new Map<string, number>()
+  for (const placement of placements) {
+    dreamLoad.set(placement.due_on, (dreamLoad.get(placement.due_on) || 0) + 1)
+  }
+  
+  const overloaded: OverloadedDay[] = []
+  for (const [date, count] of dreamLoad) {
+    if (!capacity.global_remaining.has(date)) continue // Outside the scheduling window (e.g. past occurrences)
+    const lowerPriority = capacity.yielding_load.get(date) || 0
+    const otherDreams = (capacity.other_dream_load.get(date) || 0) + lowerPriority
+    const cap = dailyCap(preferences, date)
+    if (count + otherDreams > cap) {
+      overloaded.push({ date, scheduled: count + otherDreams, cap, other_dreams: otherDreams, ...(lowerPriority > 0 && { lower_priority: lowerPriority }) })
+    }
+  }
+  
+  return overloaded.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Helper function to build the diagnostics for a plan that doesn't fit: the actions left out or
+ * pushed past the end, the days where this dream went over its slots, and the fixes. Fixes are
+ * only offered when the dream's own end date bounds the window - a window the scheduler chose
+ * from the time commitment (auto-compacted) isn't something the user can extend.
+ * Returns undefined when everything fits.
+ */
+function buildDiagnostics(
+  placements: ScheduledPlacement[],
+  sortedActions: Action[],
+  unplaced: { action_id: string; reason: UnplacedAction['reason'] }[],
+  window: { start_date: Date; end_date: Date; auto_compacted: boolean },
+  dream: Dream,
+  capacity: CapacityTracker,
+  preferences: ResolvedSchedulingPreferences
+): SchedulingDiagnostics | undefined {
+  const startDate = window.start_date.toISOString().split('T')[0]
+  const endDate = window.end_date.toISOString().split('T')[0]
+  const dailyTimeMinutes = dream.time_commitment
+    ? dream.time_commitment.hours * 60 + dream.time_commitment.minutes
+    : DEFAULT_DAILY_TIME_MINUTES
+  const actionMap = new Map(sortedActions.map(action => [action.id, action]))
+  
+  const dreamLoad = new Map<string, { scheduled: number; minutes: number }>()
+  for (const placement of placements) {
+    if (placement.due_on < startDate || placement.due_on > endDate) continue
+    const day = dreamLoad.get(placement.due_on) ?? { scheduled: 0, minutes: 0 }
+    day.scheduled++
+    day.minutes += actionMap.get(placement.action_id)?.est_minutes || 0
+    dreamLoad.set(placement.due_on, day)
+  }
+  
+  const cappedDays = Array.from(dreamLoad)
+    .map(([date, { scheduled, minutes }]) => ({
+      date,
+      scheduled,
+      cap: slotsForDay(date, Math.round(dailyTimeMinutes * capacityFactor(preferences, date)), dailyCap(preferences, date), capacity.other_dream_load, preferences.rest_days, preferences.away_dates),
+      minutes,
+      minutes_cap: dailyTimeMinutes
+    }))
+    .filter(day => day.scheduled > day.cap || (day.minutes > day.minutes_cap && day.scheduled > 1))
+    .sort((a, b) => a.date.localeCompare(b.date))
+  
+  const unplacedActions = unplaced
+    .filter(({ action_id }) => actionMap.has(action_id))
+    .map(({ action_id, reason }) => ({ action_id, title: actionMap.get(action_id)!.title, reason }))
+  
+  if (unplacedActions.length === 0 && cappedDays.length === 0) return undefined
+  
+  // Actions waiting on prerequisites can't finish before their current day, however much room there is
+  const waiting = new Set(unplacedActions.filter(a => a.reason === 'waiting_on_prerequisites').map(a => a.action_id))
+  const totals = { one_off: { occurrences: 0, minutes: 0 }, recurring: { occurrences: 0, minutes: 0 } }
+  let latestDueOn: string | undefined
+  for (const placement of placements) {
+    const action = actionMap.get(placement.action_id)
+    if (!action || placement.due_on < startDate) continue
+    if (waiting.has(placement.action_id) && (!latestDueOn || placement.due_on > latestDueOn)) {
+      latestDueOn = placement.due_on
+    }
+    const bucket = isRecurring(action) ? totals.recurring : totals.one_off
+    bucket.occurrences++
+    bucket.minutes += action.est_minutes || 0
+  }
+  for (const { action_id, reason } of unplacedActions) {
+    if (reason !== 'no_room') continue
+    totals.one_off.occurrences++
+    totals.one_off.minutes += actionMap.get(action_id)!.est_minutes || 0
+  }
+  
+  const fixes = window.auto_compacted ? [] : suggestFixes({
+    start_date: startDate,
+    end_date: endDate,
+    rest_days: preferences.rest_days,
+    away_dates: unavailableDates(preferences),
+    daily_minutes: dailyTimeMinutes,
+    global_daily_cap: preferences.global_daily_cap,
+    other_dream_load: capacity.other_dream_load,
+    ...totals,
+    latest_due_on: latestDueOn
+  })
+  
+  return { unplaced_actions: unplacedActions, capped_days: cappedDays, fixes }
+}
+
 /**
  * Helper function to find feasible placement for an action
  */
@@ -829,28 +1166,31 @@ function findFeasiblePlacement(
 ): ScheduledPlacement | null {
   console.log(`🔍 Finding placement for "${action.title}" (min: ${minDate.toISOString().split('T')[0]}, max: ${maxDate.toISOString().split('T')[0]})`)
   
-  // First pass: Try to find a placement that respects capacity constraints
-  for (const day of eligibleDays) {
-    if (day < minDate) continue
-    if (day > maxDate) break
+  // First pass: Try to find a placement that respects capacity constraints, with the minutes
+  // for the action if any day has them and otherwise on slot counts alone
+  for (const checkMinutes of [true, false]) {
+    for (const day of eligibleDays) {
+      if (day < minDate) continue
+      if (day > maxDate) break
     
-    const dateStr = day.toISOString().split('T')[0]
-    const globalRemaining = capacity.global_remaining.get(dateStr) || 0
-    const perDreamRemaining = capacity.per_dream_remaining.get(dateStr)?.get(dreamId) || 0
+      const dateStr = day.toISOString().split('T')[0]
+      const globalRemaining = capacity.global_remaining.get(dateStr) || 0
+      const perDreamRemaining = capacity.per_dream_remaining.get(dateStr)?.get(dreamId) || 0
     
-    console.log(`  📅 ${dateStr}: global=${globalRemaining}, perDream=${perDreamRemaining}`)
+      console.log(`  📅 ${dateStr}: global=${globalRemaining}, perDream=${perDreamRemaining}, minutes=${capacity.minutes_remaining.get(dateStr) ?? 0}`)
     
-    if (globalRemaining > 0 && perDreamRemaining > 0) {
-      console.log(`  ✅ Found capacity-respecting placement on ${dateStr}`)
-      return {
-        action_id: action.id,
-        dream_id: dreamId,
-        area_id: action.area_id,
-        occurrence_no: 1,
-        planned_due_on: dateStr,
-        due_on: dateStr,
-        is_repeat: false,
-        is_fixed: false
+      if (globalRemaining > 0 && perDreamRemaining > 0 && (!checkMinutes || hasMinutesFor(capacity, dateStr, action.est_minutes || 0))) {
+        console.log(`  ✅ Found capacity-respecting placement on ${dateStr}`)
+        return {
+          action_id: action.id,
+          dream_id: dreamId,
+          area_id: action.area_id,
+          occurrence_no: 1,
+          planned_due_on: dateStr,
+          due_on: dateStr,
+          is_repeat: false,
+          is_fixed: false
+        }
       }
     }
   }
@@ -890,11 +1230,12 @@ function findNextAvailableDate(
   capacity: CapacityTracker,
   allPlacements: ScheduledPlacement[],
   actions: Action[],
+  restDays: Set<number>,
   dailyTimeMinutes?: number,
   avoidDates?: Set<string>
 ): Date | null {
   const currentDate = new Date(startDate)
-  currentDate.setDate(currentDate.getDate() + 1) // Start from next day
+  currentDate.setUTCDate(currentDate.getUTCDate() + 1) // Start from next day
   
   // Create action lookup map for time estimation
   const actionMap = new Map(actions.map(action => [action.id, action]))
@@ -904,19 +1245,23 @@ function findNextAvailableDate(
   // First pass: Try to find a date that respects capacity and, when reasonable, time constraints
   while (currentDate <= maxDate) {
     const dateStr = currentDate.toISOString().split('T')[0]
-    const dayOfWeek = currentDate.getDay()
+    const dayOfWeek = currentDate.getUTCDay()
     
     // Skip rest days
-    if (REST_DAYS.has(dayOfWeek)) {
-      currentDate.setDate(currentDate.getDate() + 1)
+    if (restDays.has(dayOfWeek)) {
+      currentDate.setUTCDate(currentDate.getUTCDate() + 1)
       continue
     }
     
-    const globalRemaining = capacity.global_remaining.get(dateStr) ?? 0
-    const perDreamRemaining = capacity.per_dream_remaining.get(dateStr)?.get(placement.dream_id) ?? 0
-    
-    // Capacity is advisory: do not block placement solely due to slot counts
-    // (We still prefer lower-load days in fallback)
+    // Per-dream slot counts are advisory here (we still prefer lower-load days in fallback),
+    // but days the user's other dreams have already filled to the user-wide cap are skipped.
+    // Lower-priority dreams don't fill a day for this one; their work there gets moved instead.
+    const userWideLoad = (capacity.other_dream_load.get(dateStr) || 0) +
+      allPlacements.filter(p => p.due_on === dateStr).length
+    if (userWideLoad >= capacity.global_daily_cap) {
+      currentDate.setUTCDate(currentDate.getUTCDate() + 1)
+      continue
+    }
     
     // Check time constraints if daily time budget is provided
     // If the single action itself exceeds the daily budget, allow placement (advisory constraint)
@@ -932,13 +1277,13 @@ function findNextAvailableDate(
       
       // Check if adding this action would exceed the time budget
       if (totalDayTime + currentActionTime > dailyTimeMinutes) {
-        currentDate.setDate(currentDate.getDate() + 1)
+        currentDate.setUTCDate(currentDate.getUTCDate() + 1)
         continue
       }
     }
     
     if (avoidDates && avoidDates.has(dateStr)) {
-      currentDate.setDate(currentDate.getDate() + 1)
+      currentDate.setUTCDate(currentDate.getUTCDate() + 1)
       continue
     }
     
@@ -954,17 +1299,17 @@ function findNextAvailableDate(
   const candidates: { date: Date; big: number; load: number }[] = []
   
   const scanDate = new Date(startDate)
-  scanDate.setDate(scanDate.getDate() + 1)
+  scanDate.setUTCDate(scanDate.getUTCDate() + 1)
   
   while (scanDate <= maxDate) {
-    const dayOfWeek = scanDate.getDay()
-    if (REST_DAYS.has(dayOfWeek)) {
-      scanDate.setDate(scanDate.getDate() + 1)
+    const dayOfWeek = scanDate.getUTCDay()
+    if (restDays.has(dayOfWeek)) {
+      scanDate.setUTCDate(scanDate.getUTCDate() + 1)
       continue
     }
     const dateStr = scanDate.toISOString().split('T')[0]
     if (avoidDates && avoidDates.has(dateStr)) {
-      scanDate.setDate(scanDate.getDate() + 1)
+      scanDate.setUTCDate(scanDate.getUTCDate() + 1)
       continue
     }
     const dayPlacements = allPlacements.filter(p => p.due_on === dateStr)
@@ -978,7 +1323,7 @@ function findNextAvailableDate(
       if (dailyTimeMinutes && mins > dailyTimeMinutes) bigCount++
     }
     candidates.push({ date: new Date(scanDate), big: bigCount, load: totalDayTime })
-    scanDate.setDate(scanDate.getDate() + 1)
+    scanDate.setUTCDate(scanDate.getUTCDate() + 1)
   }
   
   if (candidates.length > 0) {
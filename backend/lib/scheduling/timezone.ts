@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Used when a profile has no timezone yet (matches the profiles.timezone column default)
+export const DEFAULT_TIMEZONE = 'UTC'
+
+/**
+ * Check that a string is an IANA timezone the runtime understands
+ */
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || timezone.length === 0) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function resolveTimezone(timezone?: string | null): string {
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) for an instant as seen in the given timezone.
+ * Defaults to the current instant, i.e. the user's "today".
+ */
+export function localDateInTimezone(timezone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: resolveTimezone(timezone),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(at)
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value
+  return `${get('year')}-${get('month')}-${get('day')}`
+}
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+function timezoneOffsetMs(timezone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(at)
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return wallClock - Math.floor(at.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant a local date (YYYY-MM-DD) and time (HH:MM[:SS]) refer to in the given timezone.
+ * A time skipped by a DST change lands just after the change.
+ */
+export function localTimeToUtc(date: string, time: string, timezone: string): Date {
+  const zone = resolveTimezone(timezone)
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number)
+  const [year, month, day] = date.split('-').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+
+  // Guess with the offset at the wall-clock time, then correct it if that crossed a DST change
+  const guess = wallClock - timezoneOffsetMs(zone, new Date(wallClock))
+  return new Date(wallClock - timezoneOffsetMs(zone, new Date(guess)))
+}
+
+/**
+ * Load a user's timezone from their profile, falling back to the default
+ */
+export async function fetchUserTimezone(sb: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await sb
+    .from('profiles')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to fetch user timezone, using default:', error)
+    return DEFAULT_TIMEZONE
+  }
+
+  return resolveTimezone(data?.timezone)
+}
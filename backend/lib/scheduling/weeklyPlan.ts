@@ -0,0 +1,303 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabaseServerAuth } from '../../lib/supabaseServer'
+import { fetchSchedulingPreferences, isDayOff, dailyCap, weekStartOf, type ResolvedSchedulingPreferences } from './preferences'
+import { fetchUserTimezone, localDateInTimezone } from './timezone'
+import { planRollForward, ROLL_FORWARD_HORIZON_DAYS, type RollableOccurrence, type RollForwardMove } from './rollForward'
+import { moveOccurrence } from './move'
+import type { Action, ActionOccurrence, Dream, WeeklyPlan } from '../../database/types'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * An incomplete occurrence due in the planned week, with what the planning screen shows
+ */
+export type WeekOccurrence = Pick<ActionOccurrence, 'id' | 'action_id' | 'dream_id' | 'occurrence_no' | 'due_on' | 'defer_count' | 'pinned_at'> & {
+  action_title: string
+  est_minutes: number | null
+  dream_title: string
+}
+
+export interface WeekDayLoad {
+  date: string
+  total: number
+  cap: number // 0 on days off
+  day_off: boolean
+}
+
+export interface WeeklyPlanProposal {
+  success: boolean
+  week_start: string
+  days: WeekDayLoad[]
+  occurrences: WeekOccurrence[]
+  plan: WeeklyPlan | null // Set when the week has been planned before
+  errors: string[]
+}
+
+/**
+ * The user's decisions for the week. Occurrences left out of all three lists are left as they are.
+ */
+export interface WeeklyPlanInput {
+  week_start: string
+  focus_dream_id?: string | null
+  keep: string[] // Pinned where they are
+  move: { occurrence_id: string; due_on: string }[] // Moved by hand, like dragging them in the calendar
+  drop: string[] // Pushed out of the week
+}
+
+export interface SaveWeeklyPlanResult {
+  success: boolean
+  plan?: WeeklyPlan
+  dropped: RollForwardMove[] // Where the dropped occurrences went
+  warnings: string[] // From moves that put a day over capacity
+  errors: string[]
+  invalid?: boolean // The plan was rejected; nothing was saved
+}
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(date)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().split('T')[0]
+}
+
+/**
+ * The week planned on a given day: the current week on a Monday, otherwise the week starting next Monday
+ */
+export function planningWeekStart(today: string): string {
+  const monday = weekStartOf(today)
+  return monday === today ? today : addDays(monday, 7)
+}
+
+/**
+ * Each day of the week with what's due and how much it can hold
+ */
+export function summarizeWeekLoad(
+  weekStart: string,
+  occurrences: Pick<ActionOccurrence, 'due_on'>[],
+  preferences: ResolvedSchedulingPreferences
+): WeekDayLoad[] {
+  return Array.from({ length: 7 }, (_, offset) => {
+    const date = addDays(weekStart, offset)
+    return {
+      date,
+      total: occurrences.filter(occ => occ.due_on === date).length,
+      cap: dailyCap(preferences, date),
+      day_off: isDayOff(preferences, date)
+    }
+  })
+}
+
+/**
+ * New days for occurrences dropped from the week. They roll forward from the Monday after it, the
+ * same way overdue occurrences do: the first day with room under both caps, skipping days off.
+ * `scheduled` is what's already due from then on.
+ */
+export function planWeekDrops(
+  dropped: RollableOccurrence[],
+  scheduled: RollableOccurrence[],
+  weekStart: string,
+  preferences: ResolvedSchedulingPreferences
+): RollForwardMove[] {
+  return planRollForward(dropped, scheduled, addDays(weekStart, 7), preferences)
+}
+
+/**
+ * Check the decisions against the week's occurrences. Returns an error message, or null when they're fine.
+ */
+export function validateWeeklyPlan(input: WeeklyPlanInput, weekOccurrenceIds: Set<string>, today: string): string | null {
+  if (!DATE_PATTERN.test(input.week_start) || isNaN(new Date(input.week_start).getTime()) || weekStartOf(input.week_start) !== input.week_start) {
+    return 'week_start must be a Monday (YYYY-MM-DD)'
+  }
+  if (input.week_start < weekStartOf(today)) return 'That week is already over'
+
+  const ids = [...input.keep, ...input.move.map(move => move.occurrence_id), ...input.drop]
+  if (new Set(ids).size !== ids.length) return 'Each action can only be kept, moved or dropped once'
+  if (ids.some(id => !weekOccurrenceIds.has(id))) return "Some of those actions aren't due that week anymore"
+
+  return null
+}
+
+async function fetchWeekOccurrences(sb: SupabaseClient, userId: string, from: string, to: string) {
+  const { data, error } = await sb
+    .from('action_occurrences')
+    .select('id, action_id, dream_id, occurrence_no, due_on, defer_count, pinned_at, dreams!inner(title, archived_at, paused_at), actions!inner(title, est_minutes, is_active, deleted_at)')
+    .eq('user_id', userId)
+    .is('completed_at', null)
+    .gte('due_on', from)
+    .lte('due_on', to)
+    .is('dreams.archived_at', null)
+    .is('dreams.paused_at', null)
+    .eq('actions.is_active', true)
+    .is('actions.deleted_at', null)
+    .order('due_on', { ascending: true })
+
+  if (error) throw new Error(`Failed to fetch occurrences: ${error.message}`)
+
+  type OccurrenceRow = Pick<ActionOccurrence, 'id' | 'action_id' | 'dream_id' | 'occurrence_no' | 'due_on' | 'defer_count' | 'pinned_at'> & {
+    dreams: Pick<Dream, 'title'>
+    actions: Pick<Action, 'title' | 'est_minutes'>
+  }
+  return ((data || []) as unknown as OccurrenceRow[]).map(({ dreams, actions, ...occurrence }): WeekOccurrence => ({
+    ...occurrence,
+    action_title: actions.title,
+    est_minutes: actions.est_minutes ?? null,
+    dream_title: dreams.title
+  }))
+}
+
+/**
+ * What the planning screen shows: the week ahead, its load per day and the plan saved for it, if any
+ */
+export async function getWeeklyPlan(userId: string, userToken: string): Promise<WeeklyPlanProposal> {
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    const [timezone, preferences] = await Promise.all([
+      fetchUserTimezone(sb, userId),
+      fetchSchedulingPreferences(sb, userId)
+    ])
+    const weekStart = planningWeekStart(localDateInTimezone(timezone))
+
+    const occurrences = await fetchWeekOccurrences(sb, userId, weekStart, addDays(weekStart, 6))
+
+    const { data: plan, error: planError } = await sb
+      .from('weekly_plans')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('week_start', weekStart)
+      .maybeSingle()
+
+    if (planError) throw new Error(`Failed to fetch weekly plan: ${planError.message}`)
+
+    return {
+      success: true,
+      week_start: weekStart,
+      days: summarizeWeekLoad(weekStart, occurrences, preferences),
+      occurrences,
+      plan: (plan as WeeklyPlan) ?? null,
+      errors: []
+    }
+  } catch (error) {
+    return { success: false, week_start: '', days: [], occurrences: [], plan: null, errors: [error instanceof Error ? error.message : 'Unknown error'] }
+  }
+}
+
+/**
+ * Apply the user's weekly plan and save it. Kept occurrences are pinned, moved ones go through
+ * moveOccurrence (so days off are refused and over-capacity days only warn), and dropped ones roll
+ * forward out of the week, counting as deferred and pinned on their new day. The focus dream is
+ * saved with the plan; from then on it gets an extra slot per day that week whenever scheduling runs.
+ */
+export async function saveWeeklyPlan(
+  userId: string,
+  userToken: string,
+  input: WeeklyPlanInput
+): Promise<SaveWeeklyPlanResult> {
+  const failed = (error: string): SaveWeeklyPlanResult => ({ success: false, dropped: [], warnings: [], errors: [error] })
+
+  try {
+    const sb = supabaseServerAuth(userToken)
+
+    const [timezone, preferences] = await Promise.all([
+      fetchUserTimezone(sb, userId),
+      fetchSchedulingPreferences(sb, userId)
+    ])
+    const today = localDateInTimezone(timezone)
+
+    if (typeof input.week_start !== 'string') return { ...failed('week_start must be a Monday (YYYY-MM-DD)'), invalid: true }
+    const weekEnd = addDays(input.week_start, 6)
+    const occurrences = await fetchWeekOccurrences(sb, userId, input.week_start, weekEnd)
+
+    const invalid = validateWeeklyPlan(input, new Set(occurrences.map(occ => occ.id)), today)
+    if (invalid) return { ...failed(invalid), invalid: true }
+
+    if (input.focus_dream_id) {
+      const { data: dream, error: dreamError } = await sb
+        .from('dreams')
+        .select('id')
+        .eq('id', input.focus_dream_id)
+        .eq('user_id', userId)
+        .is('archived_at', null)
+        .maybeSingle()
+
+      if (dreamError) return failed('Failed to check the focus dream')
+      if (!dream) return { ...failed('Focus dream not found'), invalid: true }
+    }
+
+    const now = new Date().toISOString()
+    const errors: string[] = []
+    const warnings: string[] = []
+
+    if (input.keep.length > 0) {
+      const { error: keepError } = await sb
+        .from('action_occurrences')
+        .update({ pinned_at: now, updated_at: now })
+        .in('id', input.keep)
+        .eq('user_id', userId)
+
+      if (keepError) errors.push('Failed to keep some actions where they are')
+    }
+
+    for (const move of input.move) {
+      const result = await moveOccurrence(userId, userToken, move.occurrence_id, move.due_on)
+      if (!result.success) errors.push(...result.errors)
+      warnings.push(...result.warnings)
+    }
+
+    // Dropped occurrences land after the week, among whatever is already due then
+    const dropped: RollForwardMove[] = []
+    if (input.drop.length > 0) {
+      const after = await fetchWeekOccurrences(sb, userId, addDays(weekEnd, 1), addDays(weekEnd, ROLL_FORWARD_HORIZON_DAYS))
+      const dropIds = new Set(input.drop)
+      const toDrop = occurrences.filter(occ => dropIds.has(occ.id))
+
+      for (const move of planWeekDrops(toDrop, after, input.week_start, preferences)) {
+        const occurrence = toDrop.find(occ => occ.id === move.occurrence_id)!
+        const { error: dropError } = await sb
+          .from('action_occurrences')
+          .update({
+            due_on: move.to_date,
+            defer_count: (occurrence.defer_count ?? 0) + 1,
+            pinned_at: now,
+            updated_at: now
+          })
+          .eq('id', move.occurrence_id)
+          .is('completed_at', null)
+
+        if (dropError) {
+          errors.push('Failed to move a dropped action out of the week')
+          continue
+        }
+        dropped.push(move)
+      }
+      if (dropped.length < toDrop.length && errors.length === 0) {
+        errors.push('No room was found for some dropped actions; they stay in the week')
+      }
+    }
+
+    const { data: plan, error: planError } = await sb
+      .from('weekly_plans')
+      .upsert(
+        {
+          user_id: userId,
+          week_start: input.week_start,
+          focus_dream_id: input.focus_dream_id || null,
+          kept_count: input.keep.length,
+          moved_count: input.move.length,
+          dropped_count: dropped.length,
+          completed_at: now
+        },
+        { onConflict: 'user_id,week_start' }
+      )
+      .select()
+      .single()
+
+    if (planError || !plan) return { success: false, dropped, warnings, errors: [...errors, 'Failed to save the weekly plan'] }
+
+    console.log(`🗓️ Weekly plan for ${input.week_start}: kept ${input.keep.length}, moved ${input.move.length}, dropped ${dropped.length}${input.focus_dream_id ? `, focus ${input.focus_dream_id}` : ''}`)
+
+    return { success: errors.length === 0, plan: plan as WeeklyPlan, dropped, warnings, errors }
+
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : 'Unknown error')
+  }
+}
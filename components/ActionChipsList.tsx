@@ -10,6 +10,11 @@ import { SheetHeader } from './SheetHeader'
 import { triggerHaptic } from '../utils/haptics'
 import { useTheme } from '../contexts/ThemeContext'
 import { Theme } from '../utils/theme'
+import { toLocalDateString } from '../utils/dates'
+import { getRecurrence, describeRecurrence, toRepeatFields } from '../utils/recurrence'
+import { RecurrencePicker } from './RecurrencePicker'
+import { describeBlockers } from '../utils/prerequisites'
+import type { RecurrenceRule } from '../backend/database/types'
 
 interface ActionCard {
   id: string
@@ -17,6 +22,7 @@ interface ActionCard {
   est_minutes: number
   difficulty?: 'easy' | 'medium' | 'hard'
   repeat_every_days?: number
+  recurrence?: RecurrenceRule | null
   slice_count_target?: number
   acceptance_criteria?: { title: string; description: string }[]
   acceptance_intro?: string
@@ -29,6 +35,7 @@ interface ActionCard {
   completed_at?: string
   is_overdue?: boolean
   is_done?: boolean
+  blocked_by?: string[] // Titles of unfinished prerequisites
   // For hiding buttons
   hideEditButtons?: boolean
 }
@@ -64,6 +71,8 @@ interface ActionChipsListProps {
   dreamEndDate?: string
   showLinkToControls?: boolean
   showAddButton?: boolean
+  timeLabels?: Record<string, { label: string; fixed: boolean }> // Shows each action against a time of day
+  onTimePress?: (id: string) => void
 }
 
 export function ActionChip({
@@ -310,11 +319,11 @@ export function ActionChip({
             </Text>
           </View>
           
-          {action.repeat_every_days && (
+          {getRecurrence(action) && (
             <View style={styles.metaItem}>
               <Ionicons name="refresh-outline" size={12} color={theme.colors.icon.default} style={styles.metaIcon} />
               <Text style={styles.metaText}>
-                {action.repeat_every_days} days
+                {describeRecurrence(getRecurrence(action))}
               </Text>
             </View>
           )}
@@ -327,6 +336,15 @@ export function ActionChip({
               </Text>
             </View>
           )}
+          
+          {!action.is_done && action.blocked_by && action.blocked_by.length > 0 && (
+            <View style={styles.metaItem}>
+              <Ionicons name="lock-closed-outline" size={12} color={theme.colors.icon.default} style={styles.metaIcon} />
+              <Text style={styles.metaText} numberOfLines={1}>
+                {describeBlockers(action.blocked_by)}
+              </Text>
+            </View>
+          )}
         </View>
       </View>
     </TouchableOpacity>
@@ -495,36 +513,43 @@ function EditActionModal({ visible, action, onClose, onSave }: EditActionModalPr
           </View>
 
 
-          {/* Repeat Every Days */}
+          {/* Repeat */}
           <View style={{ marginBottom: 16 }}>
-            <Text style={styles.modalLabel}>Repeat Every</Text>
-            <View style={styles.pillRow}>
+            <Text style={styles.modalLabel}>Repeat</Text>
+            <View style={[styles.pillRow, { marginBottom: 8 }]}>
               {[
-                { value: undefined, label: 'None' },
-                { value: 1, label: '1 day' },
-                { value: 2, label: '2 days' },
-                { value: 3, label: '3 days' }
+                { value: false, label: 'None' },
+                { value: true, label: 'Repeats' }
               ].map((option) => (
                 <TouchableOpacity
                   key={option.label}
                   onPress={() => {
                     triggerHaptic();
-                    setFormData(prev => ({ ...prev, repeat_every_days: option.value }));
+                    const rule: RecurrenceRule | null = option.value ? { type: 'interval', every_days: 1 } : null;
+                    if (!!getRecurrence(formData) !== option.value) {
+                      setFormData(prev => ({ ...prev, ...toRepeatFields(rule) } as ActionCard));
+                    }
                   }}
                   style={[
                     styles.pill,
-                    formData.repeat_every_days === option.value ? styles.pillActive : styles.pillInactive
+                    !!getRecurrence(formData) === option.value ? styles.pillActive : styles.pillInactive
                   ]}
                 >
                   <Text style={[
                     styles.pillText,
-                    formData.repeat_every_days === option.value ? styles.pillTextActive : styles.pillTextInactive
+                    !!getRecurrence(formData) === option.value ? styles.pillTextActive : styles.pillTextInactive
                   ]}>
                     {option.label}
                   </Text>
                 </TouchableOpacity>
               ))}
             </View>
+            {getRecurrence(formData) && (
+              <RecurrencePicker
+                value={getRecurrence(formData)}
+                onChange={(rule) => setFormData(prev => ({ ...prev, ...toRepeatFields(rule) } as ActionCard))}
+              />
+            )}
           </View>
 
           {/* Slice Count Target */}
@@ -683,7 +708,7 @@ export function AddActionModal({ visible, onClose, onSave, dreamEndDate, showLin
     const newAction = {
       ...formData,
       id: Date.now().toString(), // Generate unique ID
-      due_on: dueDate.toISOString().split('T')[0],
+      due_on: toLocalDateString(dueDate),
       // Pass optional linking hints for TodayPage handler
       __linkMode: showLinkToControls ? linkMode : undefined,
       __dreamId: showLinkToControls ? selectedDreamId : undefined,
@@ -1006,7 +1031,7 @@ export function AddActionModal({ visible, onClose, onSave, dreamEndDate, showLin
                     triggerHaptic();
                     setActionType(option.value);
                     if (option.value === 'one-off') {
-                      setFormData(prev => ({ ...prev, repeat_every_days: undefined, slice_count_target: undefined }));
+                      setFormData(prev => ({ ...prev, repeat_every_days: undefined, recurrence: undefined, slice_count_target: undefined }));
                     }
                   }}
                   style={[
@@ -1025,39 +1050,14 @@ export function AddActionModal({ visible, onClose, onSave, dreamEndDate, showLin
             </View>
           </View>
 
-          {/* Repeat Every Days - shown only when repeating */}
+          {/* Repeat pattern - shown only when repeating */}
           {actionType === 'repeating' && (
             <View style={{ marginBottom: 16 }}>
-              <Text style={styles.modalLabel}>Repeat Every</Text>
-              <View style={styles.pillRow}>
-                {[
-                  { value: 1, label: '1 day' },
-                  { value: 2, label: '2 days' },
-                  { value: 3, label: '3 days' }
-                ].map((option) => (
-                  <TouchableOpacity
-                    key={option.value}
-                    onPress={() => {
-                      triggerHaptic();
-                      setFormData(prev => ({ 
-                        ...prev, 
-                        repeat_every_days: option.value as 1 | 2 | 3
-                      }));
-                    }}
-                    style={[
-                      styles.pill,
-                      formData.repeat_every_days === option.value ? styles.pillActive : styles.pillInactive
-                    ]}
-                  >
-                    <Text style={[
-                      styles.pillText,
-                      formData.repeat_every_days === option.value ? styles.pillTextActive : styles.pillTextInactive
-                    ]}>
-                      {option.label}
-                    </Text>
-                  </TouchableOpacity>
-                ))}
-              </View>
+              <Text style={styles.modalLabel}>Repeat</Text>
+              <RecurrencePicker
+                value={getRecurrence(formData)}
+                onChange={(rule) => setFormData(prev => ({ ...prev, ...toRepeatFields(rule) } as ActionCard))}
+              />
             </View>
           )}
 
@@ -1123,6 +1123,24 @@ export function AddActionModal({ visible, onClose, onSave, dreamEndDate, showLin
 }
 
 const createStyles = (theme: Theme) => StyleSheet.create({
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  timelineTime: {
+    width: 52,
+    paddingTop: 12,
+    paddingRight: 8,
+  },
+  timelineTimeText: {
+    fontSize: 13,
+    color: theme.colors.text.tertiary,
+    textAlign: 'right',
+  },
+  timelineTimeFixed: {
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+  },
   actionCard: {
     borderRadius: 12,
     position: 'relative',
@@ -1406,7 +1424,9 @@ const createStyles = (theme: Theme) => StyleSheet.create({
 })
 
 // Main ActionChipsList component
-export function ActionChipsList({ actions, onEdit, onRemove, onAdd, onReorder, onPress, style, dreamEndDate, showAddButton = true }: ActionChipsListProps) {
+export function ActionChipsList({ actions, onEdit, onRemove, onAdd, onReorder, onPress, style, dreamEndDate, showAddButton = true, timeLabels, onTimePress }: ActionChipsListProps) {
+  const { theme } = useTheme()
+  const styles = useMemo(() => createStyles(theme), [theme])
   const [editingAction, setEditingAction] = useState<ActionCard | null>(null)
   const [showAddModal, setShowAddModal] = useState(false)
 
@@ -1455,20 +1475,39 @@ export function ActionChipsList({ actions, onEdit, onRemove, onAdd, onReorder, o
 
   return (
     <View style={[{ gap: 0 }, style]}>
-      {actions.map((action, index) => (
-        <ActionChip
-          key={action.id}
-          action={action}
-          onEdit={handleEdit}
-          onRemove={onRemove}
-          onMoveUp={handleMoveUp}
-          onMoveDown={handleMoveDown}
-          showReorderButtons={true}
-          isFirst={index === 0}
-          isLast={index === actions.length - 1}
-          onPress={onPress}
-        />
-      ))}
+      {actions.map((action, index) => {
+        const chip = (
+          <ActionChip
+            key={action.id}
+            action={action}
+            onEdit={handleEdit}
+            onRemove={onRemove}
+            onMoveUp={handleMoveUp}
+            onMoveDown={handleMoveDown}
+            showReorderButtons={true}
+            isFirst={index === 0}
+            isLast={index === actions.length - 1}
+            onPress={onPress}
+            style={timeLabels ? { flex: 1 } : undefined}
+          />
+        )
+        const time = timeLabels?.[action.id]
+        if (!time) return chip
+
+        return (
+          <View key={action.id} style={styles.timelineRow}>
+            <TouchableOpacity
+              style={styles.timelineTime}
+              onPress={() => onTimePress?.(action.id)}
+              disabled={!onTimePress}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.timelineTimeText, time.fixed && styles.timelineTimeFixed]}>{time.label}</Text>
+            </TouchableOpacity>
+            {chip}
+          </View>
+        )
+      })}
       
       {showAddButton && <AddActionChip onPress={handleAdd} />}
 
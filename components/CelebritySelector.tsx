@@ -1,10 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react'
-import { Modal, View, Text, TouchableOpacity, FlatList, TextInput, StyleSheet, ActivityIndicator, Platform, KeyboardAvoidingView, ScrollView, Keyboard } from 'react-native'
+import { Modal, View, Text, TouchableOpacity, FlatList, TextInput, StyleSheet, ActivityIndicator, Platform, KeyboardAvoidingView, ScrollView, Keyboard, Alert } from 'react-native'
 import { Image } from 'expo-image'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useTheme } from '../contexts/ThemeContext'
 import { Theme } from '../utils/theme'
-import { getDefaultCelebrities, generateCelebrityDreams, getGeneratedDreams, type CelebrityProfile, type GeneratedDreamSuggestion } from '../frontend-services/backend-bridge'
+import { getDefaultCelebrities, generateCelebrityDreams, getGeneratedDreams, AIQuotaExceededError, type CelebrityProfile, type GeneratedDreamSuggestion } from '../frontend-services/backend-bridge'
 import { supabaseClient } from '../lib/supabaseClient'
 import { EmojiListRow } from './EmojiListRow'
 import { Button } from './Button'
@@ -434,6 +434,7 @@ export const CelebritySelector: React.FC<CelebritySelectorProps> = ({ visible, o
       setGenerating(false)
     } catch (e) {
       console.error('❌ Error generating dreams:', e)
+      if (e instanceof AIQuotaExceededError) Alert.alert('Daily limit reached', e.message)
       setGenerating(false)
     }
   }
@@ -95,7 +95,7 @@ const DreamChip: React.FC<DreamChipProps> = ({ dream, onPress, style }) => {
           {/* Day Progress and Streak */}
           <View style={styles.progressRow}>
             <Text style={styles.dayProgress}>
-              Day {dayProgress.current}{dayProgress.total ? ` of ${dayProgress.total}` : ''}
+              {dream.paused_at ? 'Paused' : `Day ${dayProgress.current}${dayProgress.total ? ` of ${dayProgress.total}` : ''}`}
             </Text>
             {streak > 0 && (
               <View style={styles.streakContainer}>
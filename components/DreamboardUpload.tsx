@@ -4,7 +4,7 @@ import { Image } from 'expo-image'
 import * as ImagePicker from 'expo-image-picker'
 import { useTheme } from '../contexts/ThemeContext'
 import { Theme } from '../utils/theme'
-import { analyzeDreamboard, getGeneratedDreams, type GeneratedDreamSuggestion } from '../frontend-services/backend-bridge'
+import { analyzeDreamboard, getGeneratedDreams, AIQuotaExceededError, type GeneratedDreamSuggestion } from '../frontend-services/backend-bridge'
 import { supabaseClient } from '../lib/supabaseClient'
 import { EmojiListRow } from './EmojiListRow'
 import { SheetHeader } from './SheetHeader'
@@ -110,6 +110,7 @@ export const DreamboardUpload: React.FC<DreamboardUploadProps> = ({ visible, onC
       console.log('💾 Cached dreamboard image and', ds.length, 'results')
     } catch (e) {
       console.error('Error analyzing dreamboard:', e)
+      if (e instanceof AIQuotaExceededError) Alert.alert('Daily limit reached', e.message)
     } finally {
       setAnalyzing(false)
     }
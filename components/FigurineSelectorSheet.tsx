@@ -10,7 +10,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { Theme } from '../utils/theme';
 import { SheetHeader } from './SheetHeader';
-import { getPrecreatedFigurines, uploadSelfieForFigurine, type Figurine } from '../frontend-services/backend-bridge';
+import { getPrecreatedFigurines, uploadSelfieForFigurine, AIQuotaExceededError, type Figurine } from '../frontend-services/backend-bridge';
 import { supabaseClient } from '../lib/supabaseClient';
 
 interface FigurineSelectorSheetProps {
@@ -253,7 +253,11 @@ export const FigurineSelectorSheet: React.FC<FigurineSelectorSheetProps> = ({
       }
     } catch (error) {
       console.error('Error uploading selfie:', error);
-      Alert.alert('Error', 'Failed to generate figurine. Please try again.');
+      if (error instanceof AIQuotaExceededError) {
+        Alert.alert('Daily limit reached', error.message);
+      } else {
+        Alert.alert('Error', 'Failed to generate figurine. Please try again.');
+      }
       // Restore previous figurine on error
       if (previousFigurine) {
         setUserGeneratedFigurine(previousFigurine);
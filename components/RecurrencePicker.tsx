@@ -0,0 +1,166 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { Theme } from '../utils/theme';
+import { triggerHaptic } from '../utils/haptics';
+import { WEEKDAY_SHORT_LABELS } from '../utils/recurrence';
+import type { RecurrenceRule } from '../backend/database/types';
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+type PatternType = RecurrenceRule['type'];
+
+const PATTERNS: { value: PatternType; label: string }[] = [
+  { value: 'interval', label: 'Every' },
+  { value: 'weekdays', label: 'Days' },
+  { value: 'times_per_week', label: 'Per week' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const MONTH_WEEKS: { value: 1 | 2 | 3 | 4 | -1; label: string }[] = [
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: '4th' },
+  { value: -1, label: 'Last' },
+];
+
+// Starting rule when switching to a pattern
+const DEFAULT_RULES: Record<PatternType, RecurrenceRule> = {
+  interval: { type: 'interval', every_days: 1 },
+  weekdays: { type: 'weekdays', days: [1, 3, 5] },
+  times_per_week: { type: 'times_per_week', count: 3 },
+  monthly: { type: 'monthly', week: 1, weekday: 6 },
+};
+
+/**
+ * Picker for how a repeating action recurs: every N days, on specific weekdays,
+ * N times a week on any days, or on the nth weekday of each month
+ */
+export const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ value, onChange }) => {
+  const { theme } = useTheme();
+  const styles = useMemo(() => createStyles(theme), [theme]);
+  const rule = value ?? DEFAULT_RULES.interval;
+
+  const select = (next: RecurrenceRule) => {
+    triggerHaptic();
+    onChange(next);
+  };
+
+  const renderPill = (key: string, label: string, active: boolean, onPress: () => void, compact = false) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.pill, compact && styles.pillCompact, active ? styles.pillActive : styles.pillInactive]}
+    >
+      <Text style={[styles.pillText, active ? styles.pillTextActive : styles.pillTextInactive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const toggleWeekday = (day: number) => {
+    if (rule.type !== 'weekdays') return;
+    const days = rule.days.includes(day) ? rule.days.filter(d => d !== day) : [...rule.days, day].sort((a, b) => a - b);
+    // Keep at least one day selected
+    if (days.length > 0) select({ type: 'weekdays', days });
+  };
+
+  return (
+    <View>
+      <View style={[styles.pillRow, styles.section]}>
+        {PATTERNS.map(pattern =>
+          renderPill(pattern.value, pattern.label, rule.type === pattern.value, () => {
+            if (rule.type !== pattern.value) select(DEFAULT_RULES[pattern.value]);
+          })
+        )}
+      </View>
+
+      {rule.type === 'interval' && (
+        <View style={styles.pillRow}>
+          {[1, 2, 3].map(days =>
+            renderPill(String(days), days === 1 ? '1 day' : `${days} days`, rule.every_days === days, () =>
+              select({ type: 'interval', every_days: days })
+            )
+          )}
+        </View>
+      )}
+
+      {rule.type === 'weekdays' && (
+        <View style={styles.pillRow}>
+          {WEEKDAY_SHORT_LABELS.map((label, day) =>
+            renderPill(label, label.charAt(0), rule.days.includes(day), () => toggleWeekday(day), true)
+          )}
+        </View>
+      )}
+
+      {rule.type === 'times_per_week' && (
+        <View style={styles.pillRow}>
+          {[1, 2, 3, 4, 5, 6].map(count =>
+            renderPill(String(count), `${count}×`, rule.count === count, () =>
+              select({ type: 'times_per_week', count }), true
+            )
+          )}
+        </View>
+      )}
+
+      {rule.type === 'monthly' && (
+        <View>
+          <View style={[styles.pillRow, styles.section]}>
+            {MONTH_WEEKS.map(week =>
+              renderPill(week.label, week.label, rule.week === week.value, () =>
+                select({ ...rule, week: week.value }), true
+              )
+            )}
+          </View>
+          <View style={styles.pillRow}>
+            {WEEKDAY_SHORT_LABELS.map((label, day) =>
+              renderPill(label, label.charAt(0), rule.weekday === day, () =>
+                select({ ...rule, weekday: day }), true
+              )
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  pillRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pill: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+  },
+  pillCompact: {
+    paddingHorizontal: 0,
+  },
+  pillActive: {
+    backgroundColor: theme.colors.border.selected,
+    borderColor: theme.colors.border.selected,
+  },
+  pillInactive: {
+    backgroundColor: theme.colors.background.card,
+    borderColor: theme.colors.border.default,
+  },
+  pillText: {
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  pillTextActive: {
+    color: theme.colors.text.inverse,
+  },
+  pillTextInactive: {
+    color: theme.colors.text.primary,
+  },
+});
@@ -21,6 +21,7 @@ import { getPendingOnboardingDream, clearPendingOnboardingDream } from '../utils
 import { createDreamFromOnboardingData } from '../utils/onboardingDreamCreation';
 import { supabaseClient } from '../lib/supabaseClient';
 import { identifyUser, resetUser, setUserProperties, identifySessionReplay } from '../lib/mixpanel';
+import { syncProfileTimezone } from '../lib/timezone';
 
 /**
  * Extended AuthHook interface that includes onboarding dream creation state
@@ -85,6 +86,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, [auth.isAuthenticated, auth.loading, auth.user?.email, auth.error, auth.user?.id]);
 
+  // Keep the profile timezone in sync with the device so "today" matches on the server
+  useEffect(() => {
+    if (auth.isAuthenticated && auth.user?.id && !auth.loading) {
+      syncProfileTimezone(auth.user.id);
+    }
+  }, [auth.isAuthenticated, auth.user?.id, auth.loading]);
+
   // Check for pending onboarding data on authentication
   useEffect(() => {
     const checkPendingData = async () => {
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useMemo, useCallback, useState } from 'react'
-import type { Dream, Area, Action, ActionWithDueDate } from '../backend/database/types'
+import type { Dream, DreamPriority, Area, Action, ActionWithDueDate } from '../backend/database/types'
 import type { FeasibilityResponse, GoalFeasibilityResponse, TimelineFeasibilityResponse, DreamImage } from '../frontend-services/backend-bridge'
 
 // Create dream state types
@@ -18,6 +18,7 @@ export interface CreateDreamState {
   obstacles?: string // What's most likely going to cause you not to achieve this
   enjoyment?: string // What's most likely to cause you to enjoy the journey
   timeCommitment?: { hours: number; minutes: number } // Daily time commitment
+  priority?: DreamPriority // Main, normal or side dream; 'normal' when unset
   
   // AI analysis results
   goalFeasibility?: GoalFeasibilityResponse
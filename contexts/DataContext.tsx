@@ -24,7 +24,11 @@ import {
   deleteDream as deleteDreamAPI, 
   archiveDream as archiveDreamAPI, 
   unarchiveDream as unarchiveDreamAPI, 
+  pauseDream as pauseDreamAPI,
+  resumeDream as resumeDreamAPI,
+  type ResumeDreamResult,
   deferOccurrence as deferOccurrenceAPI, 
+  moveOccurrence as moveOccurrenceAPI,
   unmarkOccurrence as unmarkOccurrenceAPI,
   updateArea as updateAreaAPI, 
   deleteArea as deleteAreaAPI,
@@ -33,7 +37,7 @@ import {
   type AchievementsResponse 
 } from '../frontend-services/backend-bridge';
 import { useAuthContext } from './AuthContext';
-import { type Achievement, type UserAchievement, type AchievementUnlockResult } from '../backend/database/types';
+import { type Achievement, type UserAchievement, type AchievementUnlockResult, type RecurrenceRule } from '../backend/database/types';
 import { 
   CACHE_KEYS, 
   CACHE_TTL, 
@@ -46,16 +50,19 @@ import {
   type DreamsWithStatsPayload,
   type TodayPayload,
   type DreamDetailPayload,
-  type ProgressPayload
+  type ProgressPayload,
+  type OccurrenceRangePayload
 } from './dataCache';
 import {
   fetchDreamsSummary,
   fetchDreamsWithStats,
   fetchToday,
+  fetchOccurrenceRange,
   fetchProgress,
   fetchDreamDetail
 } from './dataFetchers';
 import { getScreenshotMockState } from '../utils/screenshotMockData';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
 
 /**
  * TYPE DEFINITIONS
@@ -73,6 +80,8 @@ type State = {
   // Store today data for different dates (simplified - only current day)
   todayByDate: Record<string, TodayPayload>;
   loadingTodayByDate: Record<string, boolean>;
+  // Calendar week and month views, keyed by "from:to"
+  occurrenceRanges: Record<string, OccurrenceRangePayload>;
   unlockedAchievements: AchievementUnlockResult[]; // Queue of newly unlocked achievements to display
 };
 
@@ -90,6 +99,7 @@ type Ctx = {
   getDreamsSummary: (opts?: { force?: boolean }) => Promise<void>;
   getDreamsWithStats: (opts?: { force?: boolean }) => Promise<void>;
   getToday: (opts?: { force?: boolean; date?: Date }) => Promise<void>;
+  getOccurrenceRange: (from: Date, to: Date, opts?: { force?: boolean }) => Promise<void>;
   getProgress: (opts?: { force?: boolean }) => Promise<void>;
   getDreamDetail: (dreamId: string, opts?: { force?: boolean }) => Promise<void>;
   
@@ -97,10 +107,13 @@ type Ctx = {
   completeOccurrence: (occurrenceId: string) => Promise<void>;
   unmarkOccurrence: (occurrenceId: string) => Promise<void>;
   deferOccurrence: (occurrenceId: string, newDueDate?: string) => Promise<void>;
+  moveOccurrence: (occurrenceId: string, dueOn: string) => Promise<{ warnings: string[] }>;
   deleteDream: (dreamId: string) => Promise<void>;
   archiveDream: (dreamId: string) => Promise<void>;
   unarchiveDream: (dreamId: string) => Promise<void>;
-  updateAction: (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number; slice_count_target?: number; acceptance_criteria?: string[] }) => Promise<void>;
+  pauseDream: (dreamId: string) => Promise<void>;
+  resumeDream: (dreamId: string) => Promise<ResumeDreamResult>;
+  updateAction: (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number; recurrence?: RecurrenceRule | null; slice_count_target?: number; acceptance_criteria?: string[] }) => Promise<void>;
   deleteActionOccurrence: (occurrenceId: string) => Promise<void>;
   updateArea: (areaId: string, updates: { title?: string; icon?: string; position?: number }) => Promise<void>;
   deleteArea: (areaId: string, dreamId: string) => Promise<void>;
@@ -135,7 +148,7 @@ const DataContext = createContext<Ctx | null>(null);
  */
 export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
   // Initialize state with empty objects for dynamic keys
-  const [state, setState] = useState<State>({ dreamDetail: {}, todayByDate: {}, loadingTodayByDate: {}, unlockedAchievements: [] });
+  const [state, setState] = useState<State>({ dreamDetail: {}, todayByDate: {}, loadingTodayByDate: {}, occurrenceRanges: {}, unlockedAchievements: [] });
   const [isScreenshotMode, setIsScreenshotMode] = useState(false);
   const appState = useRef<AppStateStatus>(AppState.currentState);
   const { isAuthenticated, loading: authLoading } = useAuthContext();
@@ -155,7 +168,7 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
   // Clear all data when user signs out
   const clearAllData = useCallback(() => {
     console.log('Clearing all data due to sign out');
-    setState({ dreamDetail: {}, todayByDate: {}, loadingTodayByDate: {}, unlockedAchievements: [] });
+    setState({ dreamDetail: {}, todayByDate: {}, loadingTodayByDate: {}, occurrenceRanges: {}, unlockedAchievements: [] });
     lastFetchedAt.current = 0;
     isRefreshing.current = false;
     
@@ -349,8 +362,8 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     }
     
     const targetDate = date || new Date();
-    const dateStr = targetDate.toISOString().slice(0, 10);
-    const isCurrentDate = dateStr === new Date().toISOString().slice(0, 10);
+    const dateStr = toLocalDateString(targetDate);
+    const isCurrentDate = dateStr === toLocalDateString();
     
     // For current date, use the legacy 'today' cache, for other dates use date-specific cache
     const cacheKey = isCurrentDate ? CACHE_KEYS.today : `cache:today:${dateStr}`;
@@ -397,6 +410,40 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     }
   }, [fetchToday, state.today, state.todayByDate]);
 
+  // Get the occurrences due in a date range (calendar views), showing the stored copy while fresh data loads
+  const getOccurrenceRange: Ctx['getOccurrenceRange'] = useCallback(async (from, to, { force } = {}) => {
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      console.log('getOccurrenceRange: User not authenticated, skipping fetch');
+      return;
+    }
+    
+    const fromStr = toLocalDateString(from);
+    const toStr = toLocalDateString(to);
+    const rangeKey = `${fromStr}:${toStr}`;
+    
+    let cached: OccurrenceRangePayload | undefined = state.occurrenceRanges[rangeKey];
+    if (!cached) {
+      cached = await loadJSON<OccurrenceRangePayload>(CACHE_KEYS.range(fromStr, toStr));
+      if (cached) {
+        const stored = cached;
+        setState(s => ({ ...s, occurrenceRanges: { ...s.occurrenceRanges, [rangeKey]: stored } }));
+      }
+    }
+    
+    if (!force && !isStale(cached?.fetchedAt, CACHE_TTL.SHORT)) {
+      console.log(`getOccurrenceRange: Using cached data for ${rangeKey}`);
+      return;
+    }
+    
+    const payload = await fetchOccurrenceRange(from, to);
+    if (payload) {
+      setState(s => ({ ...s, occurrenceRanges: { ...s.occurrenceRanges, [rangeKey]: payload } }));
+      saveJSON(CACHE_KEYS.range(fromStr, toStr), payload);
+      lastFetchedAt.current = Math.max(lastFetchedAt.current, payload.fetchedAt);
+    }
+  }, [fetchOccurrenceRange, state.occurrenceRanges]);
+
   // Get progress data including stats and photos
   const getProgress: Ctx['getProgress'] = useCallback(async ({ force } = {}) => {
     // Check authentication directly from Supabase instead of relying on closure
@@ -691,10 +738,10 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       throw new Error('Not authenticated');
     }
 
-    const currentDate = newDueDate ? new Date(newDueDate) : new Date();
+    const currentDate = newDueDate ? parseLocalDate(newDueDate) : new Date();
     const tomorrow = new Date(currentDate);
     tomorrow.setDate(tomorrow.getDate() + 1);
-    const newDateStr = tomorrow.toISOString().split('T')[0];
+    const newDateStr = toLocalDateString(tomorrow);
 
     // Optimistic: remove from Today and update dream detail
     setState(s => {
@@ -735,6 +782,46 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     }
   }, [refresh, getDreamsWithStats]);
 
+  // Move an action occurrence to another day (calendar drag and drop) with optimistic update
+  const moveOccurrence: Ctx['moveOccurrence'] = useCallback(async (occurrenceId: string, dueOn: string) => {
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    // Optimistic: move it in the calendar ranges and dream details, and drop it from the day lists until they reload
+    setState(s => {
+      const moveIn = <T extends { id: string; due_on?: string | null }>(occurrences: T[]) =>
+        occurrences.map(o => o.id === occurrenceId ? { ...o, due_on: dueOn } : o);
+      const next: State = { ...s, dreamDetail: { ...s.dreamDetail }, occurrenceRanges: {} };
+      for (const [key, range] of Object.entries(s.occurrenceRanges)) {
+        next.occurrenceRanges[key] = { ...range, occurrences: moveIn(range.occurrences) };
+      }
+      for (const k of Object.keys(next.dreamDetail)) {
+        const dd = next.dreamDetail[k]!;
+        next.dreamDetail[k] = { ...dd, occurrences: moveIn(dd.occurrences) };
+      }
+      if (s.today && dueOn !== toLocalDateString()) {
+        next.today = { ...s.today, occurrences: s.today.occurrences.filter(o => o.id !== occurrenceId) };
+        saveJSON(CACHE_KEYS.today, next.today);
+      }
+      next.todayByDate = Object.fromEntries(Object.entries(s.todayByDate).map(([date, day]) =>
+        [date, { ...day, occurrences: day.occurrences.filter(o => o.id !== occurrenceId) }]
+      ));
+      return next;
+    });
+
+    try {
+      const result = await moveOccurrenceAPI(occurrenceId, dueOn, session.access_token);
+      refresh(true);
+      return { warnings: result.warnings ?? [] };
+    } catch (error) {
+      console.error('Error moving occurrence:', error);
+      await refresh(true);
+      throw error;
+    }
+  }, [refresh]);
+
   // Delete a dream with optimistic removal from all caches
   const deleteDream: Ctx['deleteDream'] = useCallback(async (dreamId: string) => {
     const { data: { session } } = await supabaseClient.auth.getSession();
@@ -883,8 +970,81 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
     refresh();
   }, [refresh]);
 
+  // Set paused_at on the dream in every cache that holds it
+  const setDreamPausedAt = useCallback((dreamId: string, pausedAt: string | undefined) => {
+    setState(s => {
+      const next: State = { 
+        ...s, 
+        dreamDetail: { ...s.dreamDetail },
+        dreamsSummary: s.dreamsSummary ? {
+          ...s.dreamsSummary,
+          dreams: s.dreamsSummary.dreams.map(d => 
+            d.id === dreamId ? { ...d, paused_at: pausedAt } : d
+          )
+        } : undefined,
+        dreamsWithStats: s.dreamsWithStats ? {
+          ...s.dreamsWithStats,
+          dreams: s.dreamsWithStats.dreams.map(d => 
+            d.id === dreamId ? { ...d, paused_at: pausedAt } : d
+          )
+        } : undefined
+      };
+      
+      if (next.dreamDetail[dreamId]) {
+        next.dreamDetail[dreamId] = {
+          ...next.dreamDetail[dreamId]!,
+          dream: next.dreamDetail[dreamId]!.dream ? {
+            ...next.dreamDetail[dreamId]!.dream!,
+            paused_at: pausedAt
+          } : null
+        };
+      }
+      
+      if (next.dreamsSummary) {
+        saveJSON(CACHE_KEYS.dreams, next.dreamsSummary);
+      }
+      if (next.dreamsWithStats) {
+        saveJSON(CACHE_KEYS.dreams, next.dreamsWithStats);
+      }
+      if (next.dreamDetail[dreamId]) {
+        saveJSON(CACHE_KEYS.detail(dreamId), next.dreamDetail[dreamId]);
+      }
+      
+      return next;
+    });
+  }, []);
+
+  // Pause a dream with optimistic update; Today and the streaks are refetched since both change
+  const pauseDream: Ctx['pauseDream'] = useCallback(async (dreamId: string) => {
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    await pauseDreamAPI(dreamId, session.access_token);
+
+    setDreamPausedAt(dreamId, new Date().toISOString());
+    refresh(true);
+  }, [refresh, setDreamPausedAt]);
+
+  // Resume a dream; the backend rebuilds its plan, so the detail is refetched along with everything else
+  const resumeDream: Ctx['resumeDream'] = useCallback(async (dreamId: string) => {
+    const { data: { session } } = await supabaseClient.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    const result = await resumeDreamAPI(dreamId, session.access_token);
+
+    setDreamPausedAt(dreamId, undefined);
+    refresh(true);
+    getDreamDetail(dreamId, { force: true });
+
+    return result;
+  }, [refresh, setDreamPausedAt, getDreamDetail]);
+
   // Update action properties with optimistic update
-  const updateAction: Ctx['updateAction'] = useCallback(async (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number; slice_count_target?: number; acceptance_criteria?: string[] }) => {
+  const updateAction: Ctx['updateAction'] = useCallback(async (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number; recurrence?: RecurrenceRule | null; slice_count_target?: number; acceptance_criteria?: string[] }) => {
     // Optimistically update action in all relevant caches
     setState(s => {
       const next: State = { ...s, dreamDetail: { ...s.dreamDetail } };
@@ -1135,14 +1295,18 @@ export const DataProvider: React.FC<React.PropsWithChildren> = ({ children }) =>
       getDreamsSummary,
       getDreamsWithStats,
       getToday,
+      getOccurrenceRange,
       getProgress,
       getDreamDetail,
       completeOccurrence,
       unmarkOccurrence,
       deferOccurrence,
+      moveOccurrence,
       deleteDream,
       archiveDream,
       unarchiveDream,
+      pauseDream,
+      resumeDream,
       updateAction,
       deleteActionOccurrence,
       updateArea,
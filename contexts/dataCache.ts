@@ -32,6 +32,9 @@ export type DreamsWithStatsPayload = { dreams: DreamWithStats[]; fetchedAt: numb
 // Today's action occurrences for a specific date
 export type TodayPayload = { occurrences: ActionOccurrenceStatus[]; fetchedAt: number };
 
+// Action occurrences due in a date range (inclusive), for the week and month calendar views
+export type OccurrenceRangePayload = { from: string; to: string; occurrences: ActionOccurrenceStatus[]; fetchedAt: number };
+
 // Complete dream details including areas, actions, and occurrences
 export type DreamDetailPayload = { 
   dream: Dream | null; 
@@ -57,6 +60,8 @@ export type ProgressPayload = {
     actionsDone: number;
     actionsOverdue: number;
   };
+  // The 7 days up to and including today, whatever day of the week it is
+  lastSevenDaysStats: { actionsComplete: number; activeDays: number; actionsOverdue: number; };
   historyStats: {
     week: { actionsComplete: number; activeDays: number; actionsOverdue: number; };
     month: { actionsComplete: number; activeDays: number; actionsOverdue: number; };
@@ -96,6 +101,7 @@ export const CACHE_KEYS = {
   today: 'cache:today',                      // Today's action occurrences
   progress: 'cache:progress',                // Progress data and photos
   detail: (id: string) => `cache:dreamDetail:${id}`, // Individual dream details
+  range: (from: string, to: string) => `cache:range:${from}:${to}`, // Calendar week or month
 };
 
 // TTL constants for different data freshness requirements
@@ -161,9 +167,9 @@ export const clearCache = async () => {
       CACHE_KEYS.progress,
     ]);
     
-    // Clear dream detail caches (these have dynamic keys)
+    // Clear dream detail and calendar range caches (these have dynamic keys)
     const allKeys = await AsyncStorage.getAllKeys();
-    const detailKeys = allKeys.filter(key => key.startsWith('cache:dreamDetail:'));
+    const detailKeys = allKeys.filter(key => key.startsWith('cache:dreamDetail:') || key.startsWith('cache:range:'));
     if (detailKeys.length > 0) {
       await AsyncStorage.multiRemove(detailKeys);
     }
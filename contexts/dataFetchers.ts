@@ -7,7 +7,7 @@
  * 
  * Key responsibilities:
  * - Fetch dreams (basic and with stats)
- * - Fetch today's action occurrences
+ * - Fetch today's action occurrences (and date ranges for the calendar)
  * - Fetch progress data and photos
  * - Fetch detailed dream information
  * - Handle user authentication for all queries
@@ -19,12 +19,14 @@
 
 import { supabaseClient } from '../lib/supabaseClient';
 import { now } from './dataCache';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
 import type { 
   DreamsSummaryPayload, 
   DreamsWithStatsPayload, 
   TodayPayload, 
   DreamDetailPayload, 
-  ProgressPayload 
+  ProgressPayload,
+  OccurrenceRangePayload
 } from './dataCache';
 
 /**
@@ -152,13 +154,16 @@ export const fetchDreamsWithStats = async (): Promise<DreamsWithStatsPayload | u
           .is('deleted_at', null)
           .eq('is_active', true);
 
-        // Get today's completed count
-        const todayStr = new Date().toISOString().slice(0, 10);
+        // Get today's completed count (completions between local midnights)
+        const startOfToday = parseLocalDate(toLocalDateString());
+        const startOfTomorrow = new Date(startOfToday);
+        startOfTomorrow.setDate(startOfToday.getDate() + 1);
         const { data: todayData } = await supabaseClient
           .from('action_occurrences')
           .select('id')
           .eq('dream_id', dream.id)
-          .eq('completed_at::date', todayStr);
+          .gte('completed_at', startOfToday.toISOString())
+          .lt('completed_at', startOfTomorrow.toISOString());
 
         // Get total completed actions count (actions where ALL occurrences are completed)
         // First, get all action IDs for this dream
@@ -211,39 +216,50 @@ export const fetchDreamsWithStats = async (): Promise<DreamsWithStatsPayload | u
 };
 
 /**
- * TODAY FETCHER
+ * TODAY FETCHERS
  * 
- * Function for fetching action occurrences for a specific date.
+ * Functions for fetching action occurrences for a specific date or a range of dates.
  */
 
+// Occurrence columns plus the action, area and dream they belong to
+const OCCURRENCE_WITH_ACTION_SELECT = `
+  *,
+  actions!inner(
+    title,
+    est_minutes,
+    difficulty,
+    repeat_every_days,
+    recurrence,
+    slice_count_target,
+    acceptance_criteria,
+    area_id,
+    areas!inner(
+      title,
+      icon,
+      dream_id,
+      dreams!inner(
+        title,
+        image_url,
+        paused_at
+      )
+    )
+  )
+`;
+
+// Paused dreams drop out of today and the days ahead; past days still show what was done
+const hidePausedFromToday = (occurrences: any[]) => {
+  const todayStr = toLocalDateString();
+  return occurrences.filter(occ => occ.due_on < todayStr || !occ.actions?.areas?.dreams?.paused_at);
+};
+
 // Fetch today's action occurrences (or any specified date)
 export const fetchToday = async (date?: Date): Promise<TodayPayload | undefined> => {
   const targetDate = date || new Date();
-  const dateStr = targetDate.toISOString().slice(0, 10);
+  const dateStr = toLocalDateString(targetDate);
   
   const { data, error } = await supabaseClient
     .from('v_action_occurrence_status')
-    .select(`
-      *,
-      actions!inner(
-        title,
-        est_minutes,
-        difficulty,
-        repeat_every_days,
-        slice_count_target,
-        acceptance_criteria,
-        area_id,
-        areas!inner(
-          title,
-          icon,
-          dream_id,
-          dreams!inner(
-            title,
-            image_url
-          )
-        )
-      )
-    `)
+    .select(OCCURRENCE_WITH_ACTION_SELECT)
     .eq('due_on', dateStr)
     .order('due_on', { ascending: true })
     .limit(500);
@@ -253,7 +269,28 @@ export const fetchToday = async (date?: Date): Promise<TodayPayload | undefined>
     return undefined;
   }
   
-  return { occurrences: data, fetchedAt: now() };
+  return { occurrences: hidePausedFromToday(data), fetchedAt: now() };
+};
+
+// Fetch the action occurrences due from one date through another (inclusive), e.g. a calendar week or month
+export const fetchOccurrenceRange = async (from: Date, to: Date): Promise<OccurrenceRangePayload | undefined> => {
+  const fromStr = toLocalDateString(from);
+  const toStr = toLocalDateString(to);
+  
+  const { data, error } = await supabaseClient
+    .from('v_action_occurrence_status')
+    .select(OCCURRENCE_WITH_ACTION_SELECT)
+    .gte('due_on', fromStr)
+    .lte('due_on', toStr)
+    .order('due_on', { ascending: true })
+    .limit(2000);
+    
+  if (error) {
+    console.error(`Error fetching occurrences for ${fromStr} to ${toStr}:`, error);
+    return undefined;
+  }
+  
+  return { from: fromStr, to: toStr, occurrences: hidePausedFromToday(data), fetchedAt: now() };
 };
 
 /**
@@ -280,9 +317,10 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
     const endOfWeek = new Date(startOfWeek);
     endOfWeek.setDate(startOfWeek.getDate() + 6); // Sunday
     
-    const startOfWeekStr = startOfWeek.toISOString().slice(0, 10);
-    const endOfWeekStr = endOfWeek.toISOString().slice(0, 10);
-    const todayStr = today.toISOString().slice(0, 10);
+    // Compare calendar dates in the device's timezone, not UTC
+    const startOfWeekStr = toLocalDateString(startOfWeek);
+    const endOfWeekStr = toLocalDateString(endOfWeek);
+    const todayStr = toLocalDateString(today);
 
     console.log('Date ranges:', { startOfWeekStr, endOfWeekStr, todayStr });
 
@@ -389,13 +427,13 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
     // Get all completions that happened this week (regardless of when they were due)
     const completedThisWeek = allCompleted?.filter(o => {
       const completedDate = new Date(o.completed_at!);
-      const completedDateStr = completedDate.toISOString().slice(0, 10);
+      const completedDateStr = toLocalDateString(completedDate);
       return completedDateStr >= startOfWeekStr && completedDateStr <= endOfWeekStr;
     }) || [];
     
     completedThisWeek.forEach(o => {
       const date = new Date(o.completed_at!);
-      activeDays.add(date.toISOString().slice(0, 10));
+      activeDays.add(toLocalDateString(date));
     });
 
     // Generate weekly progress array
@@ -419,7 +457,7 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
 
     // Mark active days
     activeDays.forEach(dateStr => {
-      const date = new Date(dateStr);
+      const date = parseLocalDate(dateStr);
       const dayOfWeek = date.getDay();
       const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
       const dayName = dayNames[dayOfWeek] as keyof typeof weeklyProgress;
@@ -464,14 +502,14 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
       const uniqueActiveDays = new Set<string>();
       filtered.forEach(o => {
         const date = new Date(o.completed_at!);
-        uniqueActiveDays.add(date.toISOString().slice(0, 10));
+        uniqueActiveDays.add(toLocalDateString(date));
       });
       
       // Calculate overdue actions for this period
       // Count occurrences that are overdue and have due_on within the period
       const overdueCount = allOccurrences?.filter(o => {
         if (!o.is_overdue) return false;
-        const dueDate = new Date(o.due_on);
+        const dueDate = parseLocalDate(o.due_on);
         const isAfterStart = dueDate >= startDate;
         const isBeforeEnd = !endDate || dueDate <= endDate;
         return isAfterStart && isBeforeEnd;
@@ -491,7 +529,7 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
       const completionDates = new Set<string>();
       allCompleted.forEach(o => {
         const date = new Date(o.completed_at!);
-        completionDates.add(date.toISOString().slice(0, 10));
+        completionDates.add(toLocalDateString(date));
       });
       
       // Find the most recent completion date
@@ -499,15 +537,15 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
       if (sortedDates.length === 0) return 0;
       
       let streak = 0;
-      const today = new Date().toISOString().slice(0, 10);
+      const today = toLocalDateString();
       const mostRecentCompletion = sortedDates[0];
       
       // Start counting from the most recent completion date (not necessarily today)
-      let currentDate = new Date(mostRecentCompletion);
+      let currentDate = parseLocalDate(mostRecentCompletion);
       
       // Count consecutive days backwards from the most recent completion
       for (let i = 0; i < 365; i++) {
-        const dateStr = currentDate.toISOString().slice(0, 10);
+        const dateStr = toLocalDateString(currentDate);
         if (completionDates.has(dateStr)) {
           streak++;
           currentDate.setDate(currentDate.getDate() - 1);
@@ -530,10 +568,12 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
     const startOfWeekForHistory = new Date(nowDate);
     startOfWeekForHistory.setDate(nowDate.getDate() - nowDate.getDay() + 1);
     
+    const startOfLastSevenDays = new Date(nowDate.getFullYear(), nowDate.getMonth(), nowDate.getDate() - 6);
     const startOfMonth = new Date(nowDate.getFullYear(), nowDate.getMonth(), 1);
     const startOfYear = new Date(nowDate.getFullYear(), 0, 1);
 
     const weekStats = calculateStatsForPeriod(startOfWeekForHistory);
+    const lastSevenDaysStats = calculateStatsForPeriod(startOfLastSevenDays);
     const monthStats = calculateStatsForPeriod(startOfMonth);
     const yearStats = calculateStatsForPeriod(startOfYear);
     const allTimeStats = calculateStatsForPeriod(new Date(0));
@@ -547,6 +587,7 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
         actionsDone,
         actionsOverdue,
       },
+      lastSevenDaysStats,
       historyStats: {
         week: weekStats,
         month: monthStats,
@@ -570,6 +611,7 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
       actionsDone,
       actionsOverdue,
       weekStats,
+      lastSevenDaysStats,
       monthStats,
       yearStats,
       allTimeStats,
@@ -595,6 +637,7 @@ export const fetchProgress = async (): Promise<ProgressPayload | undefined> => {
         actionsDone: 0,
         actionsOverdue: 0,
       },
+      lastSevenDaysStats: { actionsComplete: 0, activeDays: 0, actionsOverdue: 0 },
       historyStats: {
         week: { actionsComplete: 0, activeDays: 0, actionsOverdue: 0 },
         month: { actionsComplete: 0, activeDays: 0, actionsOverdue: 0 },
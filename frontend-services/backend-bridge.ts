@@ -5,8 +5,10 @@
  * It makes HTTP requests to the backend API endpoints.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as Crypto from 'expo-crypto'
 import { supabaseClient } from '../lib/supabaseClient'
-import type { Dream, Area, Action, Achievement, UserAchievement, AchievementUnlockResult } from '../backend/database/types'
+import type { Dream, Area, Action, Achievement, UserAchievement, AchievementUnlockResult, RecurrenceRule } from '../backend/database/types'
 
 const API_BASE = process.env.EXPO_PUBLIC_BACKEND_URL! // e.g. https://api.yourapp.com
 
@@ -21,6 +23,7 @@ export interface UpsertDreamRequest {
   obstacles?: string | null
   enjoyment?: string | null
   time_commitment?: { hours: number; minutes: number } | null
+  priority?: 'high' | 'normal' | 'low' // Which dream wins a day when the daily cap is contested
 }
 
 export interface UpsertDreamResponse {
@@ -159,6 +162,78 @@ export interface UpsertActionsResponse {
   actions: Action[]
 }
 
+export interface AIResponseIssue {
+  path: string // e.g. "actions[3].difficulty"
+  message: string
+}
+
+/**
+ * The AI's answer didn't match the expected format, even after the backend asked again.
+ * Usually worth retrying.
+ */
+export class AIResponseError extends Error {
+  code: 'ai_invalid_response'
+  issues: AIResponseIssue[]
+
+  constructor(message: string, issues: AIResponseIssue[]) {
+    super(message)
+    this.name = 'AIResponseError'
+    this.code = 'ai_invalid_response'
+    this.issues = issues
+  }
+}
+
+/**
+ * Today's limit for this kind of AI request is used up (429 with code 'ai_quota_exceeded').
+ * The message is safe to show as is.
+ */
+export class AIQuotaExceededError extends Error {
+  code: 'ai_quota_exceeded'
+  kind: string // e.g. 'image', 'celebrity-dreams'
+  tier: 'anonymous' | 'trial' | 'pro'
+  limit: number
+  resetAt: string // When the limit resets (next UTC midnight)
+
+  constructor(kind: string, tier: 'anonymous' | 'trial' | 'pro', limit: number, resetAt: string) {
+    super(
+      tier === 'trial'
+        ? "You've reached today's limit for this. Try again tomorrow, or upgrade to Pro for a higher limit."
+        : "You've reached today's limit for this. Please try again tomorrow."
+    )
+    this.name = 'AIQuotaExceededError'
+    this.code = 'ai_quota_exceeded'
+    this.kind = kind
+    this.tier = tier
+    this.limit = limit
+    this.resetAt = resetAt
+  }
+}
+
+// A typed error when the backend flagged an AI problem, otherwise an Error with the raw body
+function toRequestError(errorText: string): Error {
+  try {
+    const body = JSON.parse(errorText)
+    if (body?.code === 'ai_invalid_response') return new AIResponseError(body.error, body.issues ?? [])
+    if (body?.code === 'ai_quota_exceeded') return new AIQuotaExceededError(body.kind, body.tier, body.limit, body.reset_at)
+  } catch {
+    // Not JSON
+  }
+  return new Error(errorText)
+}
+
+let deviceId: string | null = null
+
+// Stable per-install id; the backend counts AI quotas for calls without an account by it
+async function getDeviceId(): Promise<string> {
+  if (deviceId) return deviceId
+  deviceId = await AsyncStorage.getItem('device_id')
+  if (!deviceId) {
+    deviceId = Crypto.randomUUID()
+    await AsyncStorage.setItem('device_id', deviceId)
+  }
+  return deviceId
+}
+
 async function post(path: string, body: unknown, token?: string) {
   // Normalize URL to avoid double slashes
   const baseUrl = API_BASE.endsWith('/') ? API_BASE.slice(0, -1) : API_BASE
@@ -173,6 +248,7 @@ async function post(path: string, body: unknown, token?: string) {
   
   const headers: Record<string, string> = { 'Content-Type': 'application/json' }
   if (token) headers['Authorization'] = `Bearer ${token}`
+  else headers['X-Device-Id'] = await getDeviceId()
   
   try {
     // Add timeout to fetch request (180 seconds for AI generation - actions can take longer)
@@ -193,7 +269,7 @@ async function post(path: string, body: unknown, token?: string) {
     if (!res.ok) {
       const errorText = await res.text()
       console.log('❌ [BACKEND-BRIDGE] API Error:', errorText)
-      throw new Error(errorText)
+      throw toRequestError(errorText)
     }
     
     const result = await res.json()
@@ -370,14 +446,222 @@ export const archiveDream = (dreamId: string, token?: string): Promise<{ success
 export const unarchiveDream = (dreamId: string, token?: string): Promise<{ success: boolean }> => 
   patch('/api/dreams', { id: dreamId, action: 'unarchive' }, token)
 
+export const pauseDream = (dreamId: string, token?: string): Promise<{ success: boolean }> => 
+  patch('/api/dreams', { id: dreamId, action: 'pause' }, token)
+
+// Resuming rebuilds the rest of the plan with the end date pushed back by the paused days
+export interface ResumeDreamResult {
+  success: boolean;
+  paused_days: number;
+  end_date?: string;
+  scheduled_count: number;
+  warnings: string[];
+}
+
+export const resumeDream = (dreamId: string, token?: string): Promise<ResumeDreamResult> => 
+  patch('/api/dreams', { id: dreamId, action: 'resume' }, token)
+
 export const deferOccurrence = (occurrenceId: string, newDueDate: string, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
   post('/api/action-occurrences/defer', { occurrenceId, newDueDate }, token)
 
-export const scheduleActions = (dreamId: string, token?: string): Promise<{ success: boolean; scheduled_count: number; warnings?: string[] }> => 
+// startTime is local HH:MM; null lets the Today timeline fit the occurrence in anywhere
+export const setOccurrenceStartTime = (occurrenceId: string, startTime: string | null, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
+  post('/api/action-occurrences/start-time', { occurrenceId, startTime }, token)
+
+// A day that exceeds the user's daily cap across all dreams after scheduling
+export interface OverloadedDay {
+  date: string;
+  scheduled: number;
+  cap: number;
+  other_dreams: number;
+  lower_priority?: number; // Other dreams' actions moved off the day because this dream has priority
+}
+
+export const scheduleActions = (dreamId: string, token?: string): Promise<{ success: boolean; scheduled_count: number; warnings?: string[]; overloaded_days?: OverloadedDay[] }> => 
   post('/api/create/schedule-actions', { dream_id: dreamId }, token)
 
-export const rescheduleActions = (dreamId: string, token?: string, options?: { extendEndDate?: string; contractEndDate?: string; resetCompleted?: boolean; timeCommitment?: { hours: number; minutes: number } }): Promise<{ success: boolean; scheduled_count: number; warnings?: string[] }> => 
-  post('/api/create/reschedule-actions', { dream_id: dreamId, extend_end_date: options?.extendEndDate, contract_end_date: options?.contractEndDate, reset_completed: options?.resetCompleted, time_commitment: options?.timeCommitment }, token)
+// One change made by an incremental reschedule
+export interface RescheduleChange {
+  type: 'added' | 'moved' | 'removed' | 'unplaced';
+  occurrence_id?: string;
+  action_id: string;
+  occurrence_no: number;
+  from?: string;
+  to?: string;
+  reason?: 'overdue' | 'after_end_date' | 'rest_day' | 'away' | 'busy' | 'priority';
+}
+
+export const rescheduleActions = (dreamId: string, token?: string, options?: { extendEndDate?: string; contractEndDate?: string; resetCompleted?: boolean; timeCommitment?: { hours: number; minutes: number }; mode?: 'replace' | 'incremental' }): Promise<{ success: boolean; scheduled_count: number; warnings?: string[]; overloaded_days?: OverloadedDay[]; changes?: RescheduleChange[] }> => 
+  post('/api/create/reschedule-actions', { dream_id: dreamId, extend_end_date: options?.extendEndDate, contract_end_date: options?.contractEndDate, reset_completed: options?.resetCompleted, time_commitment: options?.timeCommitment, mode: options?.mode }, token)
+
+// Why a plan doesn't fit, with changes that would each make it fit
+export interface SchedulingFix {
+  type: 'extend_end_date' | 'increase_time_commitment';
+  end_date?: string;
+  extra_days?: number;
+  time_commitment?: { hours: number; minutes: number };
+}
+
+export interface SchedulingDiagnostics {
+  unplaced_actions: { action_id: string; title: string; reason: 'no_room' | 'waiting_on_prerequisites' }[];
+  capped_days: { date: string; scheduled: number; cap: number; minutes: number; minutes_cap: number }[];
+  fixes: SchedulingFix[];
+}
+
+// Dry-run result from the schedule preview endpoint: the proposed plan and how it differs from today's
+export interface ScheduleChange {
+  action_id: string;
+  action_title: string;
+  occurrence_no: number;
+  from?: string;
+  to?: string;
+}
+
+export interface SchedulePreview {
+  success: boolean;
+  proposed: { action_id: string; action_title: string; occurrence_no: number; due_on: string }[];
+  diff: { added: ScheduleChange[]; moved: ScheduleChange[]; removed: ScheduleChange[]; unchanged_count: number };
+  daily_load: { date: string; this_dream: number; other_dreams: number; total: number; cap: number }[];
+  warnings: string[];
+  too_tight?: boolean;
+  recommended_end?: string;
+  overloaded_days?: OverloadedDay[];
+  diagnostics?: SchedulingDiagnostics;
+}
+
+export const previewSchedule = (dreamId: string, token?: string, options?: { mode?: 'schedule' | 'reschedule' | 'incremental'; extendEndDate?: string; contractEndDate?: string; resetCompleted?: boolean; timeCommitment?: { hours: number; minutes: number } }): Promise<SchedulePreview> => 
+  post('/api/create/preview-schedule', { dream_id: dreamId, mode: options?.mode, extend_end_date: options?.extendEndDate, contract_end_date: options?.contractEndDate, reset_completed: options?.resetCompleted, time_commitment: options?.timeCommitment }, token)
+
+// Result of pulling a dream's next actions into today (or a dry run of it)
+export interface PullForwardMove {
+  occurrence_id: string;
+  action_id: string;
+  occurrence_no: number;
+  from: string;
+  to: string;
+}
+
+export interface PullForwardResult {
+  success: boolean;
+  pulled: PullForwardMove[];
+  shifted: PullForwardMove[];
+  projected_end_before: string | null;
+  projected_end_after: string | null;
+  end_date?: string;
+  removed_count: number;
+}
+
+export const pullForwardActions = (dreamId: string, token?: string, options?: { count?: number; shortenEndDate?: boolean; dryRun?: boolean }): Promise<PullForwardResult> => 
+  post('/api/create/pull-forward', { dream_id: dreamId, count: options?.count, shorten_end_date: options?.shortenEndDate, dry_run: options?.dryRun }, token)
+
+// Result of adding an away period: the saved period and the occurrences moved out of it
+export interface AddAwayPeriodResult {
+  success: boolean;
+  period?: { id: string; start_date: string; end_date: string; note?: string | null };
+  moved: (RescheduleChange & { dream_id: string })[];
+  errors: string[];
+}
+
+export const addAwayPeriod = (startDate: string, endDate: string, token?: string, note?: string): Promise<AddAwayPeriodResult> => 
+  post('/api/away-periods', { start_date: startDate, end_date: endDate, note }, token)
+
+export interface ImportBusyDaysResult {
+  success: boolean;
+  days: { id: string; date: string; capacity_percent: number; title?: string | null }[];
+  skipped_count: number;
+  skipped_recurring: string[]; // Recurring events that only counted their first day
+  moved: (RescheduleChange & { dream_id: string })[];
+  errors: string[];
+}
+
+// ics is the text of an .ics file
+export const importBusyDays = (ics: string, token?: string): Promise<ImportBusyDaysResult> =>
+  post('/api/busy-days/import', { ics }, token)
+
+export interface UpdateBusyDayResult {
+  success: boolean;
+  day?: { id: string; date: string; capacity_percent: number; title?: string | null };
+  moved: (RescheduleChange & { dream_id: string })[];
+  errors: string[];
+}
+
+// Moves occurrences off the day when it no longer has room for them, like an import does
+export const updateBusyDay = (id: string, capacityPercent: number, token?: string): Promise<UpdateBusyDayResult> =>
+  patch('/api/busy-days', { id, capacity_percent: capacityPercent }, token)
+
+// The week ahead for weekly planning (next Monday's week, or this week on a Monday)
+export interface WeeklyPlanProposal {
+  success: boolean;
+  week_start: string;
+  days: { date: string; total: number; cap: number; day_off: boolean }[];
+  occurrences: {
+    id: string;
+    action_id: string;
+    dream_id: string;
+    occurrence_no: number;
+    due_on: string;
+    defer_count?: number;
+    pinned_at?: string | null;
+    action_title: string;
+    est_minutes: number | null;
+    dream_title: string;
+  }[];
+  plan: { week_start: string; focus_dream_id?: string | null; kept_count: number; moved_count: number; dropped_count: number; completed_at: string } | null;
+}
+
+export const getWeeklyPlan = (token: string): Promise<WeeklyPlanProposal> => {
+  console.log('🌐 [BACKEND-BRIDGE] Getting weekly plan')
+
+  const headers: Record<string, string> = {}
+  if (token) headers['Authorization'] = `Bearer ${token}`
+
+  return fetch(`${API_BASE}/api/weekly-plan`, {
+    method: 'GET',
+    headers
+  })
+    .then(async (res) => {
+      console.log('📡 [BACKEND-BRIDGE] Get weekly plan response status:', res.status)
+
+      if (!res.ok) {
+        const errorText = await res.text()
+        console.log('❌ [BACKEND-BRIDGE] Get weekly plan Error:', errorText)
+        throw new Error(errorText)
+      }
+
+      const result = await res.json()
+      console.log('✅ [BACKEND-BRIDGE] Get weekly plan Success:', result)
+      return result
+    })
+    .catch((error) => {
+      console.log('💥 [BACKEND-BRIDGE] Get weekly plan Network/Parse Error:', error)
+      throw error
+    })
+}
+
+export interface SaveWeeklyPlanResult {
+  success: boolean;
+  dropped: { occurrence_id: string; from_date: string; to_date: string }[];
+  warnings: string[];
+  errors: string[];
+}
+
+// Occurrences left out of keep, move and drop stay as they are
+export const saveWeeklyPlan = (plan: { week_start: string; focus_dream_id?: string | null; keep: string[]; move: { occurrence_id: string; due_on: string }[]; drop: string[] }, token?: string): Promise<SaveWeeklyPlanResult> =>
+  post('/api/weekly-plan', plan, token)
+
+// Creates the calendar feed token, or replaces it (old links stop working)
+export const regenerateCalendarFeed = (token?: string): Promise<{ success: boolean; token: string }> => 
+  post('/api/calendar-feed', {}, token)
+
+export const revokeCalendarFeed = (token?: string): Promise<{ success: boolean }> => 
+  del('/api/calendar-feed', token)
+
+// The URL calendar apps subscribe to (webcal:// opens the subscribe dialog on iOS and macOS)
+export const calendarFeedUrl = (feedToken: string, scheme: 'https' | 'webcal' = 'https'): string => {
+  const baseUrl = API_BASE.endsWith('/') ? API_BASE.slice(0, -1) : API_BASE
+  const url = `${baseUrl}/api/calendar-feed/${feedToken}.ics`
+  return scheme === 'webcal' ? url.replace(/^https?:\/\//, 'webcal://') : url
+}
 
 export const deleteAccount = (token?: string): Promise<{ success: boolean; message?: string; error?: string }> => 
   del('/api/account/delete', token)
@@ -385,13 +669,18 @@ export const deleteAccount = (token?: string): Promise<{ success: boolean; messa
 export const deleteActionOccurrence = (occurrenceId: string, token?: string): Promise<{ success: boolean; message: string }> => 
   del('/api/action-occurrences/delete', token, { occurrenceId })
 
-export const updateActionOccurrence = (occurrenceId: string, updates: { note?: string; due_on?: string; completed_at?: string | null }, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
+// A new due_on is pinned; warnings list days the move put over the user's caps
+export const updateActionOccurrence = (occurrenceId: string, updates: { note?: string; due_on?: string; completed_at?: string | null }, token?: string): Promise<{ success: boolean; data: any; warnings?: string[]; message: string }> => 
   put('/api/action-occurrences/update', { occurrenceId, updates }, token)
 
+// Move to any day from today on, earlier or later; rest and away days are rejected
+export const moveOccurrence = (occurrenceId: string, dueOn: string, token?: string) => 
+  updateActionOccurrence(occurrenceId, { due_on: dueOn }, token)
+
 export const unmarkOccurrence = (occurrenceId: string, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
   updateActionOccurrence(occurrenceId, { completed_at: null }, token)
 
-export const updateAction = (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number; slice_count_target?: number; acceptance_criteria?: { title: string; description: string }[] }, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
+export const updateAction = (actionId: string, updates: { title?: string; est_minutes?: number; difficulty?: string; repeat_every_days?: number | null; recurrence?: RecurrenceRule | null; repeat_until_date?: string | null; slice_count_target?: number | null; prerequisite_ids?: string[]; acceptance_criteria?: { title: string; description: string }[] }, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
   put('/api/actions/update', { actionId, updates }, token)
 
 export const updateArea = (areaId: string, updates: { title?: string; icon?: string; position?: number }, token?: string): Promise<{ success: boolean; data: any; message: string }> => 
@@ -734,7 +1023,7 @@ export const uploadSelfieForFigurine = async (file: any, token: string): Promise
     if (!res.ok) {
       const errorText = await res.text()
       console.log('❌ [BACKEND-BRIDGE] Upload selfie Error:', errorText)
-      throw new Error(errorText)
+      throw toRequestError(errorText)
     }
 
     const result = await res.json()
@@ -800,7 +1089,7 @@ export const generateDreamImage = async (figurineUrl: string, dreamTitle: string
     if (!res.ok) {
       const errorText = await res.text()
       console.log('❌ [BACKEND-BRIDGE] Generate dream image Error:', errorText)
-      throw new Error(errorText)
+      throw toRequestError(errorText)
     }
 
     const result = await res.json()
@@ -836,7 +1125,7 @@ export const generateAreaImage = async (dreamImageUrl: string, areaTitle: string
     if (!res.ok) {
       const errorText = await res.text()
       console.log('❌ [BACKEND-BRIDGE] Generate area image Error:', errorText)
-      throw new Error(errorText)
+      throw toRequestError(errorText)
     }
 
     const result = await res.json()
@@ -851,24 +1140,25 @@ export const generateAreaImage = async (dreamImageUrl: string, areaTitle: string
 export const generateCelebrityDreams = async (name: string, token?: string): Promise<{ success: boolean; data: { dreams: GeneratedDreamSuggestion[] } }> => {
   const headers: Record<string, string> = { 'Content-Type': 'application/json' };
   if (token) headers['Authorization'] = `Bearer ${token}`;
+  else headers['X-Device-Id'] = await getDeviceId();
   const res = await fetch(`${API_BASE}/api/dreams/celebrities/generate`, {
     method: 'POST',
     headers,
     body: JSON.stringify({ custom_name: name })
   });
-  if (!res.ok) throw new Error(await res.text());
+  if (!res.ok) throw toRequestError(await res.text());
   return res.json();
 }
 
 // Onboarding version (unauthenticated)
 export const generateOnboardingCelebrityDreams = async (name: string): Promise<{ success: boolean; data: { dreams: GeneratedDreamSuggestion[] } }> => {
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'X-Device-Id': await getDeviceId() };
   const res = await fetch(`${API_BASE}/api/dreams/celebrities/generate`, {
     method: 'POST',
     headers,
     body: JSON.stringify({ custom_name: name })
   });
-  if (!res.ok) throw new Error(await res.text());
+  if (!res.ok) throw toRequestError(await res.text());
   return res.json();
 }
 
@@ -882,12 +1172,13 @@ export const analyzeDreamboard = async (file: any, token?: string): Promise<{ su
   }
   const headers: Record<string, string> = {};
   if (token) headers['Authorization'] = `Bearer ${token}`;
+  else headers['X-Device-Id'] = await getDeviceId();
   const res = await fetch(`${API_BASE}/api/dreams/dreamboard/analyze`, {
     method: 'POST',
     headers,
     body: formData
   });
-  if (!res.ok) throw new Error(await res.text());
+  if (!res.ok) throw toRequestError(await res.text());
   return res.json();
 }
 
@@ -900,13 +1191,13 @@ export const analyzeOnboardingDreamboard = async (file: any): Promise<{ success:
   } else {
     formData.append('file', file);
   }
-  const headers: Record<string, string> = {};
+  const headers: Record<string, string> = { 'X-Device-Id': await getDeviceId() };
   const res = await fetch(`${API_BASE}/api/dreams/dreamboard/analyze`, {
     method: 'POST',
     headers,
     body: formData
   });
-  if (!res.ok) throw new Error(await res.text());
+  if (!res.ok) throw toRequestError(await res.text());
   return res.json();
 }
 
@@ -1147,7 +1438,7 @@ export const generateEvolution = async (
     if (!res.ok) {
       const errorText = await res.text()
       console.log('❌ [BACKEND-BRIDGE] Evolution generate Error:', errorText)
-      throw new Error(errorText)
+      throw toRequestError(errorText)
     }
 
     const result = await res.json()
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toLocalDateString } from '../utils/dates';
 
 export const STORAGE_KEY = 'lastDailyWelcomeDate';
 
@@ -24,7 +25,7 @@ export const useDailyWelcome = () => {
   const checkEligibility = useCallback(async () => {
     try {
       const lastDate = await AsyncStorage.getItem(STORAGE_KEY);
-      const today = new Date().toISOString().split('T')[0];
+      const today = toLocalDateString();
       
       if (lastDate !== today) {
         setShouldShow(true);
@@ -40,7 +41,7 @@ export const useDailyWelcome = () => {
 
   const markAsSeen = useCallback(async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = toLocalDateString();
       await AsyncStorage.setItem(STORAGE_KEY, today);
       setShouldShow(false);
     } catch (error) {
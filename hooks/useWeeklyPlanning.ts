@@ -0,0 +1,54 @@
+import { useState, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getSchedulingPreferences } from '../lib/schedulingPreferences';
+import { getPlanningWeekStart } from '../utils/calendar';
+import { toLocalDateString } from '../utils/dates';
+
+// Monday (YYYY-MM-DD) of the last week the user planned or dismissed the prompt for
+export const STORAGE_KEY = 'lastWeeklyPlanningWeek';
+
+/**
+ * Stop prompting for the given week, once it has been planned or the prompt dismissed
+ */
+export const markWeekPlanned = async (weekStart: string) => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, weekStart);
+  } catch (error) {
+    console.error('Error marking week as planned:', error);
+  }
+};
+
+/**
+ * Whether to prompt for weekly planning: it's the user's planning day and the week ahead
+ * hasn't been planned (or the prompt dismissed) yet. Call `check` when the screen comes into focus.
+ */
+export const useWeeklyPlanning = (userId?: string) => {
+  const [shouldPrompt, setShouldPrompt] = useState(false);
+  const weekStart = toLocalDateString(getPlanningWeekStart());
+
+  const check = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [preferences, lastWeek] = await Promise.all([
+        getSchedulingPreferences(userId),
+        AsyncStorage.getItem(STORAGE_KEY),
+      ]);
+      const planningDay = preferences?.planning_day;
+      setShouldPrompt(planningDay !== null && planningDay !== undefined && planningDay === new Date().getDay() && lastWeek !== weekStart);
+    } catch (error) {
+      console.error('Error checking weekly planning prompt:', error);
+    }
+  }, [userId, weekStart]);
+
+  const dismiss = useCallback(async () => {
+    await markWeekPlanned(weekStart);
+    setShouldPrompt(false);
+  }, [weekStart]);
+
+  return {
+    shouldPrompt,
+    weekStart,
+    check,
+    dismiss,
+  };
+};
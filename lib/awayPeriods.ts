@@ -0,0 +1,62 @@
+/**
+ * Away Periods
+ *
+ * Lists and removes the user's away periods (vacation mode). Adding one goes through the
+ * backend (addAwayPeriod in backend-bridge), which also moves occurrences out of the range.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
+import type { AwayPeriod } from '../backend/database/types';
+
+export type AwayPeriodItem = Pick<AwayPeriod, 'id' | 'start_date' | 'end_date' | 'note'>;
+
+// Current and upcoming periods, soonest first
+export const getAwayPeriods = async (userId: string): Promise<AwayPeriodItem[]> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('away_periods')
+      .select('id, start_date, end_date, note')
+      .eq('user_id', userId)
+      .gte('end_date', toLocalDateString())
+      .order('start_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching away periods:', error);
+      return [];
+    }
+
+    return data ?? [];
+  } catch (error) {
+    console.error('Error fetching away periods:', error);
+    return [];
+  }
+};
+
+// Occurrences that were moved out stay where they are
+export const deleteAwayPeriod = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabaseClient
+      .from('away_periods')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting away period:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting away period:', error);
+    return false;
+  }
+};
+
+// e.g. "Mar 3 – Mar 10", or "Mar 3" for a single day
+export const describeAwayPeriod = (period: Pick<AwayPeriod, 'start_date' | 'end_date'>): string => {
+  const format = (date: string) => parseLocalDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return period.start_date === period.end_date
+    ? format(period.start_date)
+    : `${format(period.start_date)} – ${format(period.end_date)}`;
+};
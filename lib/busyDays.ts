@@ -0,0 +1,70 @@
+/**
+ * Busy Days
+ *
+ * Lists and removes the user's busy days. Importing them from an .ics file and changing a day's
+ * capacity go through the backend (importBusyDays / updateBusyDay in backend-bridge), which also
+ * moves occurrences off them.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import { toLocalDateString, parseLocalDate } from '../utils/dates';
+import type { BusyDay } from '../backend/database/types';
+
+export type BusyDayItem = Pick<BusyDay, 'id' | 'date' | 'capacity_percent' | 'title'>;
+
+// The capacities the app offers when editing a day
+export const BLOCKED_PERCENT = 0;
+export const HALF_DAY_PERCENT = 50;
+
+// Today and later, soonest first
+export const getBusyDays = async (userId: string): Promise<BusyDayItem[]> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('busy_days')
+      .select('id, date, capacity_percent, title')
+      .eq('user_id', userId)
+      .gte('date', toLocalDateString())
+      .order('date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching busy days:', error);
+      return [];
+    }
+
+    return data ?? [];
+  } catch (error) {
+    console.error('Error fetching busy days:', error);
+    return [];
+  }
+};
+
+// Occurrences that were moved off the day stay where they are
+export const deleteBusyDay = async (id: string): Promise<boolean> => {
+  try {
+    const { error } = await supabaseClient
+      .from('busy_days')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting busy day:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error deleting busy day:', error);
+    return false;
+  }
+};
+
+// e.g. "Tue, Mar 3"
+export const describeBusyDate = (day: Pick<BusyDay, 'date'>): string =>
+  parseLocalDate(day.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+// e.g. "Blocked", "Half day"
+export const describeBusyCapacity = (day: Pick<BusyDay, 'capacity_percent'>): string => {
+  if (day.capacity_percent === BLOCKED_PERCENT) return 'Blocked';
+  if (day.capacity_percent === HALF_DAY_PERCENT) return 'Half day';
+  return `${day.capacity_percent}% of a normal day`;
+};
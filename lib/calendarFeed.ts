@@ -0,0 +1,85 @@
+/**
+ * Calendar Feed
+ *
+ * Reads the user's calendar feed token. Creating, replacing and turning off the feed go through
+ * the backend (regenerateCalendarFeed / revokeCalendarFeed in backend-bridge).
+ * Also loads occurrences opened from a feed event's link.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import { toLocalDateString } from '../utils/dates';
+
+// null when the feed is off
+export const getCalendarFeedToken = async (userId: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching calendar feed:', error);
+      return null;
+    }
+
+    return data?.token ?? null;
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    return null;
+  }
+};
+
+/**
+ * Navigation params for an occurrence opened from a link (e.g. a feed event). Those are usually
+ * weeks out, so not in the Today or dream detail caches the occurrence page reads from; this loads
+ * the title, dream and area it shows. Falls back to just the id if the occurrence can't be read.
+ */
+export const getOccurrenceLinkParams = async (occurrenceId: string): Promise<Record<string, any>> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('action_occurrences')
+      .select(`
+        id, due_on, completed_at, note, occurrence_no,
+        actions!inner(
+          title, est_minutes, difficulty, slice_count_target, acceptance_criteria, acceptance_intro, acceptance_outro,
+          areas!inner(title, icon, image_url, dreams!inner(title, image_url))
+        )
+      `)
+      .eq('id', occurrenceId)
+      .maybeSingle();
+
+    if (error || !data) {
+      if (error) console.error('Error fetching linked occurrence:', error);
+      return { occurrenceId };
+    }
+
+    const action: any = data.actions;
+    const area = action?.areas;
+    return {
+      occurrenceId,
+      actionTitle: action?.title || 'Untitled Action',
+      dreamTitle: area?.dreams?.title || 'My Dream',
+      areaName: area?.title || 'Area',
+      areaEmoji: area?.icon,
+      areaImageUrl: area?.image_url,
+      actionDescription: 'Complete this action to progress toward your goal.',
+      dueDate: data.due_on,
+      estimatedTime: action?.est_minutes || 30,
+      difficulty: action?.difficulty,
+      dreamImage: area?.dreams?.image_url || '🎯',
+      sliceCountTarget: action?.slice_count_target,
+      occurrenceNo: data.occurrence_no,
+      isCompleted: !!data.completed_at,
+      isOverdue: !data.completed_at && data.due_on < toLocalDateString(),
+      completedAt: data.completed_at,
+      note: data.note,
+      acceptanceCriteria: action?.acceptance_criteria,
+      acceptanceIntro: action?.acceptance_intro,
+      acceptanceOutro: action?.acceptance_outro,
+    };
+  } catch (error) {
+    console.error('Error fetching linked occurrence:', error);
+    return { occurrenceId };
+  }
+};
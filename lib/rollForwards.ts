@@ -0,0 +1,61 @@
+/**
+ * Roll-Forwards
+ *
+ * Reads the log of overdue actions the backend moved forward automatically
+ * (see scheduling_preferences.auto_roll_forward) so the app can summarise them once.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import type { OccurrenceRollForward } from '../backend/database/types';
+
+export type RollForwardSummaryItem = Pick<OccurrenceRollForward, 'id' | 'dream_id' | 'from_date' | 'to_date'>;
+
+export const getUnseenRollForwards = async (userId: string): Promise<RollForwardSummaryItem[]> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('occurrence_roll_forwards')
+      .select('id, dream_id, from_date, to_date')
+      .eq('user_id', userId)
+      .is('seen_at', null)
+      .order('rolled_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching roll-forwards:', error);
+      return [];
+    }
+
+    return data ?? [];
+  } catch (error) {
+    console.error('Error fetching roll-forwards:', error);
+    return [];
+  }
+};
+
+export const markRollForwardsSeen = async (ids: string[]): Promise<boolean> => {
+  if (ids.length === 0) return true;
+
+  try {
+    const { error } = await supabaseClient
+      .from('occurrence_roll_forwards')
+      .update({ seen_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error marking roll-forwards seen:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error marking roll-forwards seen:', error);
+    return false;
+  }
+};
+
+// e.g. "We moved 3 overdue actions from 2 dreams to the coming days."
+export const describeRollForwards = (items: RollForwardSummaryItem[]): string => {
+  const actions = items.length === 1 ? '1 overdue action' : `${items.length} overdue actions`;
+  const dreamCount = new Set(items.map(item => item.dream_id)).size;
+  const dreams = dreamCount > 1 ? ` from ${dreamCount} dreams` : '';
+  return `We moved ${actions}${dreams} to the coming days.`;
+};
@@ -0,0 +1,73 @@
+/**
+ * Scheduling Preferences
+ *
+ * Reads and writes the user's scheduling preferences (rest days, daily caps, overdue roll-forward,
+ * when the Today timeline starts and which day the app prompts for weekly planning).
+ * The backend scheduler reads the same row when scheduling or rescheduling a dream.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import type { SchedulingPreferences } from '../backend/database/types';
+
+// Keep in sync with backend/lib/scheduling/preferences.ts
+export const DEFAULT_SCHEDULING_PREFERENCES = {
+  rest_days: [0],
+  global_daily_cap: 5,
+  per_dream_cap: 1,
+  auto_roll_forward: false,
+  day_start_time: '09:00',
+  planning_day: 0 as number | null, // Sunday; null turns the weekly planning prompt off
+};
+
+export const MAX_GLOBAL_DAILY_CAP = 10;
+export const MAX_PER_DREAM_CAP = 5;
+
+export type EditableSchedulingPreferences = Pick<SchedulingPreferences, 'rest_days' | 'global_daily_cap' | 'per_dream_cap' | 'auto_roll_forward' | 'day_start_time' | 'planning_day'>;
+
+export const getSchedulingPreferences = async (userId: string): Promise<EditableSchedulingPreferences | null> => {
+  try {
+    const { data, error } = await supabaseClient
+      .from('scheduling_preferences')
+      .select('rest_days, global_daily_cap, per_dream_cap, auto_roll_forward, day_start_time, planning_day')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching scheduling preferences:', error);
+      return null;
+    }
+
+    return data ?? { ...DEFAULT_SCHEDULING_PREFERENCES };
+  } catch (error) {
+    console.error('Error fetching scheduling preferences:', error);
+    return null;
+  }
+};
+
+export const updateSchedulingPreferences = async (
+  userId: string,
+  preferences: Partial<EditableSchedulingPreferences>
+): Promise<boolean> => {
+  try {
+    const { error } = await supabaseClient
+      .from('scheduling_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          ...preferences,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' }
+      );
+
+    if (error) {
+      console.error('Error updating scheduling preferences:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error updating scheduling preferences:', error);
+    return false;
+  }
+};
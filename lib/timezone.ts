@@ -0,0 +1,40 @@
+/**
+ * Profile Timezone Sync
+ *
+ * Keeps profiles.timezone in line with the device so the backend scheduler and the
+ * overdue views agree with the app about which day "today" is.
+ */
+
+import { supabaseClient } from './supabaseClient';
+import { getDeviceTimezone } from '../utils/dates';
+
+export const syncProfileTimezone = async (userId: string): Promise<void> => {
+  try {
+    const timezone = getDeviceTimezone();
+
+    const { data: profile, error: fetchError } = await supabaseClient
+      .from('profiles')
+      .select('timezone')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error fetching profile timezone:', fetchError);
+      return;
+    }
+
+    // No profile yet (still being created) or already up to date
+    if (!profile || profile.timezone === timezone) return;
+
+    const { error } = await supabaseClient
+      .from('profiles')
+      .update({ timezone })
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error updating profile timezone:', error);
+    }
+  } catch (error) {
+    console.error('Error syncing profile timezone:', error);
+  }
+};
@@ -0,0 +1,25 @@
+-- AI generation cache.
+-- generateJson calls that opt in with `cache` store their validated answer under a SHA-256 of the
+-- provider, model, system prompt, schema and messages. An identical request before expires_at is
+-- answered from here without calling the model, and its ai_events row is marked as a cache hit.
+CREATE TABLE IF NOT EXISTS public.ai_cache (
+  key text PRIMARY KEY,
+  response jsonb NOT NULL,
+  usage jsonb,
+  model text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_cache_expires_at ON public.ai_cache(expires_at);
+
+-- Service role only: entries aren't tied to a user, so there are no policies
+ALTER TABLE public.ai_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_cache FORCE ROW LEVEL SECURITY;
+
+ALTER TABLE public.ai_events
+ADD COLUMN IF NOT EXISTS cache_hit boolean NOT NULL DEFAULT false;
+
+COMMENT ON TABLE public.ai_cache IS 'Cached generateJson answers, keyed by a hash of the request';
+COMMENT ON COLUMN public.ai_cache.usage IS 'Token usage of the call that produced the answer';
+COMMENT ON COLUMN public.ai_events.cache_hit IS 'Answered from ai_cache; no tokens were used';
@@ -0,0 +1,11 @@
+-- Failed AI calls in ai_events.
+-- generateJson and generateImage record every call a route passes `event` for, including the ones
+-- that throw (provider errors, timeouts, responses that stay invalid after the re-ask). Those rows
+-- have the error message and no tokens, so the admin AI report can show error rates per model and kind.
+ALTER TABLE public.ai_events
+ADD COLUMN IF NOT EXISTS error text;
+
+-- The report filters by date and groups by model
+CREATE INDEX IF NOT EXISTS idx_ai_events_created_at_model ON public.ai_events(created_at, model);
+
+COMMENT ON COLUMN public.ai_events.error IS 'Why the call failed; null for successful calls';
@@ -0,0 +1,46 @@
+-- AI quotas.
+-- Every AI route counts its calls per subject ('user:<id>' or, for onboarding without an account,
+-- 'device:<id>'), route kind and UTC day before calling the model. consume_ai_quota checks the
+-- limit and counts the call in one statement, so parallel requests can't go over it.
+CREATE TABLE IF NOT EXISTS public.ai_quota_usage (
+  subject text NOT NULL,
+  kind text NOT NULL,
+  day date NOT NULL,
+  count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (subject, kind, day)
+);
+
+-- Service role only: written by the API, never read by the app
+ALTER TABLE public.ai_quota_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_quota_usage FORCE ROW LEVEL SECURITY;
+
+-- Returns the new count, or NULL when the limit was already reached
+CREATE OR REPLACE FUNCTION public.consume_ai_quota(p_subject text, p_kind text, p_limit integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF p_limit <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO ai_quota_usage (subject, kind, day, count)
+  VALUES (p_subject, p_kind, (now() AT TIME ZONE 'utc')::date, 1)
+  ON CONFLICT (subject, kind, day) DO UPDATE
+    SET count = ai_quota_usage.count + 1
+    WHERE ai_quota_usage.count < p_limit
+  RETURNING count INTO v_count;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_ai_quota(text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_ai_quota(text, text, integer) TO service_role;
+
+COMMENT ON TABLE public.ai_quota_usage IS 'AI calls per subject, route kind and UTC day, for the per-tier daily quotas';
+COMMENT ON COLUMN public.ai_quota_usage.subject IS 'user:<user_id> for signed-in users, device:<id> (or ip:<address>) for onboarding';
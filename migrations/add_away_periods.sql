@@ -0,0 +1,205 @@
+-- Away periods (vacation mode).
+-- Date ranges where the user is away: the scheduler gives them no capacity, occurrences in the
+-- range are moved out when the period is added, and overdue work due on those days doesn't
+-- break streaks.
+CREATE TABLE IF NOT EXISTS public.away_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date),
+  CHECK (end_date - start_date < 366)
+);
+
+CREATE INDEX IF NOT EXISTS idx_away_periods_user_end
+  ON public.away_periods (user_id, end_date);
+
+-- Enable RLS
+ALTER TABLE public.away_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.away_periods FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can access own away periods" ON public.away_periods;
+CREATE POLICY "Users can access own away periods" ON public.away_periods
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS trigger_away_periods_updated_at ON public.away_periods;
+CREATE TRIGGER trigger_away_periods_updated_at
+  BEFORE UPDATE ON public.away_periods
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.away_periods TO authenticated;
+
+COMMENT ON TABLE public.away_periods IS 'Date ranges where the user is away; nothing is scheduled and streaks are frozen';
+COMMENT ON COLUMN public.away_periods.start_date IS 'First away day (user''s local calendar date)';
+COMMENT ON COLUMN public.away_periods.end_date IS 'Last away day, inclusive';
+
+-- Whether a day falls inside one of the user's away periods
+CREATE OR REPLACE FUNCTION is_user_away(p_user_id uuid, p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1
+    FROM away_periods
+    WHERE user_id = p_user_id
+      AND p_date BETWEEN start_date AND end_date
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_user_away(uuid, date) TO authenticated;
+
+-- current_streak ignores occurrences due on away days, so going away never breaks a streak.
+-- longest_streak takes the best current_streak, so it follows.
+CREATE OR REPLACE FUNCTION current_streak(p_user_id uuid, p_dream_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_today date := user_local_date(p_user_id);
+  v_has_overdue boolean;
+  v_last_overdue_date date;
+  v_streak_count integer;
+BEGIN
+  -- 1. Check if there's ANY overdue action outside an away period - if so, streak is 0
+  SELECT EXISTS(
+    SELECT 1
+    FROM action_occurrences ao
+    JOIN actions act ON act.id = ao.action_id
+    JOIN areas a ON a.id = act.area_id
+    JOIN dreams d ON d.id = a.dream_id
+    WHERE d.user_id = p_user_id
+      AND d.id = p_dream_id
+      AND ao.completed_at IS NULL
+      AND ao.due_on < v_today
+      AND NOT is_user_away(p_user_id, ao.due_on)
+      AND a.deleted_at IS NULL
+      AND act.deleted_at IS NULL
+      AND act.is_active = true
+      AND d.archived_at IS NULL
+  ) INTO v_has_overdue;
+
+  IF v_has_overdue THEN
+    RETURN 0;
+  END IF;
+
+  -- 2. Find the due_on date of the most recent overdue occurrence for this dream
+  SELECT MAX(ao.due_on) INTO v_last_overdue_date
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NULL
+    AND ao.due_on < v_today
+    AND NOT is_user_away(p_user_id, ao.due_on)
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  -- 3. Count completed occurrences that were due AFTER the last overdue date
+  SELECT COUNT(*) INTO v_streak_count
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NOT NULL
+    AND (v_last_overdue_date IS NULL OR ao.due_on > v_last_overdue_date)
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  RETURN v_streak_count;
+END;
+$$;
+
+-- historical_longest_streak: an incomplete occurrence due on an away day doesn't end a streak
+CREATE OR REPLACE FUNCTION historical_longest_streak(p_user_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_longest_streak integer := 0;
+  v_current_streak integer := 0;
+  v_prev_completion_date date;
+  v_current_completion_date date;
+  v_completion_record record;
+  v_has_overdue_between boolean;
+BEGIN
+  v_prev_completion_date := NULL;
+  v_current_streak := 0;
+
+  FOR v_completion_record IN
+    SELECT DISTINCT
+      ao.completed_at::date as completion_date,
+      ao.due_on as due_date
+    FROM action_occurrences ao
+    JOIN actions act ON act.id = ao.action_id
+    JOIN areas a ON a.id = act.area_id
+    JOIN dreams d ON d.id = a.dream_id
+    WHERE d.user_id = p_user_id
+      AND ao.completed_at IS NOT NULL
+      AND a.deleted_at IS NULL
+      AND act.deleted_at IS NULL
+      AND act.is_active = true
+      AND d.archived_at IS NULL
+    ORDER BY ao.completed_at::date ASC, ao.due_on ASC
+  LOOP
+    v_current_completion_date := v_completion_record.completion_date;
+
+    IF v_prev_completion_date IS NULL THEN
+      v_current_streak := 1;
+      v_prev_completion_date := v_current_completion_date;
+    ELSE
+      -- Any incomplete occurrence due between the two completions, outside an away period, breaks the streak
+      SELECT EXISTS(
+        SELECT 1
+        FROM action_occurrences ao2
+        JOIN actions act2 ON act2.id = ao2.action_id
+        JOIN areas a2 ON a2.id = act2.area_id
+        JOIN dreams d2 ON d2.id = a2.dream_id
+        WHERE d2.user_id = p_user_id
+          AND ao2.completed_at IS NULL
+          AND ao2.due_on IS NOT NULL
+          AND ao2.due_on < v_current_completion_date
+          AND ao2.due_on >= v_prev_completion_date
+          AND NOT is_user_away(p_user_id, ao2.due_on)
+          AND a2.deleted_at IS NULL
+          AND act2.deleted_at IS NULL
+          AND act2.is_active = true
+          AND d2.archived_at IS NULL
+      ) INTO v_has_overdue_between;
+
+      IF v_has_overdue_between THEN
+        IF v_current_streak > v_longest_streak THEN
+          v_longest_streak := v_current_streak;
+        END IF;
+        v_current_streak := 1;
+      ELSE
+        v_current_streak := v_current_streak + 1;
+      END IF;
+
+      v_prev_completion_date := v_current_completion_date;
+    END IF;
+  END LOOP;
+
+  IF v_current_streak > v_longest_streak THEN
+    v_longest_streak := v_current_streak;
+  END IF;
+
+  RETURN v_longest_streak;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Busy days.
+-- Days the user has less time than usual, imported from an .ics file (or adjusted in the app).
+-- The scheduler scales the day's capacity by capacity_percent; 0 blocks the day like an away day.
+CREATE TABLE IF NOT EXISTS public.busy_days (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  date date NOT NULL,
+  capacity_percent integer NOT NULL DEFAULT 0 CHECK (capacity_percent BETWEEN 0 AND 100),
+  title text,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('ics', 'manual')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, date)
+);
+
+-- Enable RLS
+ALTER TABLE public.busy_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.busy_days FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can access own busy days" ON public.busy_days;
+CREATE POLICY "Users can access own busy days" ON public.busy_days
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS trigger_busy_days_updated_at ON public.busy_days;
+CREATE TRIGGER trigger_busy_days_updated_at
+  BEFORE UPDATE ON public.busy_days
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.busy_days TO authenticated;
+
+COMMENT ON TABLE public.busy_days IS 'Days with reduced or no scheduling capacity, e.g. imported calendar events';
+COMMENT ON COLUMN public.busy_days.date IS 'The busy day (user''s local calendar date)';
+COMMENT ON COLUMN public.busy_days.capacity_percent IS 'Share of the usual daily capacity left: 0 = blocked, 50 = half';
+COMMENT ON COLUMN public.busy_days.title IS 'Event name(s) that made the day busy';
@@ -0,0 +1,24 @@
+-- Calendar feeds.
+-- One secret token per user; GET /api/calendar-feed/<token> serves their upcoming occurrences as
+-- an ICS feed calendar apps can subscribe to. Regenerating replaces the token, so old links stop
+-- working; deleting the row turns the feed off.
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES profiles(user_id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_fetched_at timestamptz
+);
+
+-- Enable RLS
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calendar_feeds FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can access own calendar feed" ON public.calendar_feeds;
+CREATE POLICY "Users can access own calendar feed" ON public.calendar_feeds
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.calendar_feeds TO authenticated;
+
+COMMENT ON TABLE public.calendar_feeds IS 'Secret tokens for the per-user ICS feed of upcoming occurrences';
+COMMENT ON COLUMN public.calendar_feeds.token IS 'Random URL-safe token; anyone with the feed URL can read the feed';
+COMMENT ON COLUMN public.calendar_feeds.last_fetched_at IS 'When a calendar app last fetched the feed';
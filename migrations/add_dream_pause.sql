@@ -0,0 +1,101 @@
+-- Paused dreams.
+-- A paused dream keeps its plan but drops out of Today, the overdue counts and the capacity
+-- other dreams are scheduled around, and its streak is frozen. Resuming rebuilds the remaining
+-- plan from the resume date with the end date pushed back by the time spent paused.
+ALTER TABLE public.dreams
+ADD COLUMN IF NOT EXISTS paused_at timestamptz;
+
+COMMENT ON COLUMN public.dreams.paused_at IS 'When the dream was paused; null while it is active';
+
+-- Recreate overdue counts without paused dreams
+DROP VIEW IF EXISTS v_overdue_counts;
+
+CREATE VIEW v_overdue_counts WITH (security_invoker = on) AS
+SELECT
+  d.user_id,
+  d.id as dream_id,
+  COUNT(*) as overdue_count
+FROM dreams d
+JOIN areas a ON a.dream_id = d.id AND a.deleted_at IS NULL
+JOIN actions act ON act.area_id = a.id AND act.deleted_at IS NULL AND act.is_active = true
+JOIN action_occurrences ao ON ao.action_id = act.id
+WHERE d.archived_at IS NULL  -- Exclude archived dreams
+  AND d.paused_at IS NULL  -- Exclude paused dreams
+  AND ao.completed_at IS NULL
+  AND ao.due_on IS NOT NULL  -- Only count occurrences with due dates
+  AND ao.due_on < user_local_date(d.user_id)
+GROUP BY d.user_id, d.id;
+
+GRANT SELECT ON v_overdue_counts TO authenticated;
+
+-- Freeze current_streak while a dream is paused: occurrences due from the day it was paused
+-- don't count as overdue. Away days are still ignored (see add_away_periods.sql).
+CREATE OR REPLACE FUNCTION current_streak(p_user_id uuid, p_dream_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_today date := user_local_date(p_user_id);
+  v_has_overdue boolean;
+  v_last_overdue_date date;
+  v_streak_count integer;
+BEGIN
+  -- 1. Check if there's ANY overdue action outside an away period or pause - if so, streak is 0
+  SELECT EXISTS(
+    SELECT 1
+    FROM action_occurrences ao
+    JOIN actions act ON act.id = ao.action_id
+    JOIN areas a ON a.id = act.area_id
+    JOIN dreams d ON d.id = a.dream_id
+    WHERE d.user_id = p_user_id
+      AND d.id = p_dream_id
+      AND ao.completed_at IS NULL
+      AND ao.due_on < v_today
+      AND NOT is_user_away(p_user_id, ao.due_on)
+      AND (d.paused_at IS NULL OR ao.due_on < d.paused_at::date)
+      AND a.deleted_at IS NULL
+      AND act.deleted_at IS NULL
+      AND act.is_active = true
+      AND d.archived_at IS NULL
+  ) INTO v_has_overdue;
+
+  IF v_has_overdue THEN
+    RETURN 0;
+  END IF;
+
+  -- 2. Find the due_on date of the most recent overdue occurrence for this dream
+  SELECT MAX(ao.due_on) INTO v_last_overdue_date
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NULL
+    AND ao.due_on < v_today
+    AND NOT is_user_away(p_user_id, ao.due_on)
+    AND (d.paused_at IS NULL OR ao.due_on < d.paused_at::date)
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  -- 3. Count completed occurrences that were due AFTER the last overdue date
+  SELECT COUNT(*) INTO v_streak_count
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NOT NULL
+    AND (v_last_overdue_date IS NULL OR ao.due_on > v_last_overdue_date)
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  RETURN v_streak_count;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Dream priority.
+-- A high-priority ("main") dream wins days it shares with lower-priority ("side") dreams: when
+-- it is scheduled, their work on those days doesn't count against its capacity and is moved to
+-- the next day with room.
+ALTER TABLE public.dreams
+ADD COLUMN IF NOT EXISTS priority text NOT NULL DEFAULT 'normal' CHECK (priority IN ('high', 'normal', 'low'));
+
+COMMENT ON COLUMN public.dreams.priority IS 'high | normal | low - which dream wins a day when the user-wide daily cap is contested';
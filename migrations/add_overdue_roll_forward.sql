@@ -0,0 +1,40 @@
+-- Automatic overdue roll-forward (opt-in).
+-- A daily cron job moves incomplete occurrences that fell due before the user's local today
+-- onto the next day with room, and records every move so the app can summarise what changed.
+ALTER TABLE public.scheduling_preferences
+ADD COLUMN IF NOT EXISTS auto_roll_forward boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.scheduling_preferences.auto_roll_forward IS 'Move overdue occurrences to the next day with room every day, instead of waiting for the user to defer them';
+
+CREATE TABLE IF NOT EXISTS public.occurrence_roll_forwards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  occurrence_id uuid NOT NULL REFERENCES action_occurrences(id) ON DELETE CASCADE,
+  dream_id uuid NOT NULL REFERENCES dreams(id) ON DELETE CASCADE,
+  from_date date NOT NULL,
+  to_date date NOT NULL CHECK (to_date > from_date),
+  rolled_at timestamptz NOT NULL DEFAULT now(),
+  seen_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_occurrence_roll_forwards_user_unseen
+  ON public.occurrence_roll_forwards (user_id, rolled_at)
+  WHERE seen_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.occurrence_roll_forwards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.occurrence_roll_forwards FORCE ROW LEVEL SECURITY;
+
+-- Rows are written by the cron job (service role); users read them and mark them seen
+DROP POLICY IF EXISTS "Users can read own roll forwards" ON public.occurrence_roll_forwards;
+CREATE POLICY "Users can read own roll forwards" ON public.occurrence_roll_forwards
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own roll forwards" ON public.occurrence_roll_forwards;
+CREATE POLICY "Users can update own roll forwards" ON public.occurrence_roll_forwards
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, UPDATE ON public.occurrence_roll_forwards TO authenticated;
+
+COMMENT ON TABLE public.occurrence_roll_forwards IS 'Log of overdue occurrences moved by the automatic roll-forward job';
+COMMENT ON COLUMN public.occurrence_roll_forwards.seen_at IS 'When the user dismissed the summary that included this move';
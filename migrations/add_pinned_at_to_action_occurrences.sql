@@ -0,0 +1,12 @@
+-- Mark occurrences whose due date the user chose by hand (defer / edit) so rescheduling leaves them alone
+ALTER TABLE public.action_occurrences
+ADD COLUMN IF NOT EXISTS pinned_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.action_occurrences.pinned_at IS 'When the user last set this occurrence''s due date by hand. Incremental rescheduling never moves pinned occurrences';
+
+-- Before this column existed, only users moved due_on away from planned_due_on
+UPDATE public.action_occurrences
+SET pinned_at = updated_at
+WHERE completed_at IS NULL
+  AND pinned_at IS NULL
+  AND due_on IS DISTINCT FROM planned_due_on;
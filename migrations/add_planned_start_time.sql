@@ -0,0 +1,28 @@
+-- Time-of-day slotting.
+-- Occurrences can carry a start time the user picked; the Today timeline lays the rest of the day
+-- out back to back from the user's day start time.
+ALTER TABLE public.action_occurrences
+ADD COLUMN IF NOT EXISTS planned_start_time time;
+
+COMMENT ON COLUMN public.action_occurrences.planned_start_time IS 'Time of day the user plans to start this occurrence (local time). NULL = fitted into the day wherever there is room';
+
+ALTER TABLE public.scheduling_preferences
+ADD COLUMN IF NOT EXISTS day_start_time time NOT NULL DEFAULT '09:00';
+
+COMMENT ON COLUMN public.scheduling_preferences.day_start_time IS 'When the Today timeline starts placing occurrences that have no start time';
+
+-- Recreate the status view so ao.* picks up the new columns (and pinned_at)
+DROP VIEW IF EXISTS v_action_occurrence_status;
+
+CREATE VIEW v_action_occurrence_status WITH (security_invoker = on) AS
+SELECT
+  ao.*,
+  CASE WHEN ao.completed_at IS NOT NULL THEN true ELSE false END as is_done,
+  CASE WHEN ao.completed_at IS NULL AND ao.due_on < user_local_date(ao.user_id) THEN true ELSE false END as is_overdue,
+  CASE WHEN ao.completed_at IS NULL AND ao.due_on < user_local_date(ao.user_id)
+    THEN user_local_date(ao.user_id) - ao.due_on
+    ELSE 0
+  END as overdue_days
+FROM action_occurrences ao;
+
+GRANT SELECT ON v_action_occurrence_status TO authenticated;
@@ -0,0 +1,105 @@
+-- Prerequisites: actions that have to be finished before this one can start.
+-- Only actions from the same dream count. The scheduler seeds an action after the last
+-- occurrence of each of its prerequisites, so areas no longer have to run as one chain.
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS prerequisite_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.actions
+DROP CONSTRAINT IF EXISTS actions_prerequisite_not_self_check;
+
+ALTER TABLE public.actions
+ADD CONSTRAINT actions_prerequisite_not_self_check
+CHECK (NOT (id = ANY(prerequisite_ids)));
+
+COMMENT ON COLUMN public.actions.prerequisite_ids IS 'Actions in the same dream that have to be completed before this one can start';
+
+-- Lookup of the actions waiting on a given action
+CREATE INDEX IF NOT EXISTS idx_actions_prerequisite_ids ON public.actions USING GIN (prerequisite_ids);
+
+-- Unlock dependent actions when their last prerequisite is completed.
+-- An action is blocked while any of its prerequisites has an outstanding occurrence. Once the
+-- last one is done, the dependent's outstanding occurrences that fell due while it was blocked
+-- shift forward (keeping their spacing) so the first lands the day after the completion.
+-- Completed and pinned occurrences never move, and shifted dates roll past the user's rest days.
+CREATE OR REPLACE FUNCTION handle_occurrence_complete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  completed_on date;
+  user_rest_days smallint[];
+  dependent record;
+  occurrence record;
+  first_due date;
+  shift_days integer;
+  new_due date;
+BEGIN
+  -- Only process if this is a new completion
+  IF NEW.completed_at IS NOT NULL AND (OLD.completed_at IS NULL OR OLD.completed_at IS DISTINCT FROM NEW.completed_at) THEN
+    -- Nothing unlocks until every occurrence of this action is done
+    IF EXISTS (
+      SELECT 1 FROM action_occurrences
+      WHERE action_id = NEW.action_id AND completed_at IS NULL
+    ) THEN
+      RETURN NEW;
+    END IF;
+
+    completed_on := user_local_date(NEW.user_id);
+
+    SELECT sp.rest_days INTO user_rest_days
+    FROM scheduling_preferences sp
+    WHERE sp.user_id = NEW.user_id;
+    user_rest_days := COALESCE(user_rest_days, '{0}');
+
+    FOR dependent IN
+      SELECT a.id
+      FROM actions a
+      WHERE NEW.action_id = ANY(a.prerequisite_ids)
+        AND a.dream_id = NEW.dream_id
+        AND a.is_active = true
+        AND a.deleted_at IS NULL
+        -- Still waiting on another prerequisite: it unlocks when that one is done
+        AND NOT EXISTS (
+          SELECT 1
+          FROM actions p
+          JOIN action_occurrences po ON po.action_id = p.id
+          WHERE p.id = ANY(a.prerequisite_ids)
+            AND p.id <> NEW.action_id
+            AND p.is_active = true
+            AND p.deleted_at IS NULL
+            AND po.completed_at IS NULL
+        )
+    LOOP
+      SELECT MIN(due_on) INTO first_due
+      FROM action_occurrences
+      WHERE action_id = dependent.id AND completed_at IS NULL AND pinned_at IS NULL;
+
+      -- Prerequisite finished in time - the dependent's schedule still works
+      IF first_due IS NULL OR first_due > completed_on THEN
+        CONTINUE;
+      END IF;
+
+      shift_days := (completed_on + 1) - first_due;
+
+      FOR occurrence IN
+        SELECT id, due_on
+        FROM action_occurrences
+        WHERE action_id = dependent.id AND completed_at IS NULL AND pinned_at IS NULL
+        ORDER BY occurrence_no
+      LOOP
+        new_due := occurrence.due_on + shift_days;
+        WHILE EXTRACT(DOW FROM new_due)::smallint = ANY(user_rest_days) LOOP
+          new_due := new_due + 1;
+        END LOOP;
+
+        UPDATE action_occurrences
+        SET due_on = new_due, updated_at = now()
+        WHERE id = occurrence.id;
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
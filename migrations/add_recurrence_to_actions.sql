@@ -0,0 +1,17 @@
+-- Recurrence rules for repeating actions beyond a fixed day interval:
+--   {"type": "interval", "every_days": 2}
+--   {"type": "weekdays", "days": [1, 3, 5]}         -- 0 = Sunday ... 6 = Saturday
+--   {"type": "times_per_week", "count": 3}          -- any days of the week
+--   {"type": "monthly", "week": 1, "weekday": 6}    -- first Saturday; week -1 = last
+-- When set it takes precedence over repeat_every_days, which is kept for existing actions.
+ALTER TABLE public.actions
+ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+ALTER TABLE public.actions
+DROP CONSTRAINT IF EXISTS actions_recurrence_type_check;
+
+ALTER TABLE public.actions
+ADD CONSTRAINT actions_recurrence_type_check
+CHECK (recurrence IS NULL OR recurrence->>'type' IN ('interval', 'weekdays', 'times_per_week', 'monthly'));
+
+COMMENT ON COLUMN public.actions.recurrence IS 'Recurrence rule for repeating actions (interval, weekdays, times_per_week or monthly). Takes precedence over repeat_every_days';
@@ -0,0 +1,132 @@
+-- Add timezone column to profiles so "today" and "overdue" follow the user's local calendar
+-- instead of the database's UTC CURRENT_DATE. Existing users keep UTC until their device syncs.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA timezone of the user''s device (e.g. Europe/London), used for scheduling and overdue detection';
+
+-- The user's local calendar date. Falls back to UTC for unknown users or unrecognised timezones.
+CREATE OR REPLACE FUNCTION user_local_date(p_user_id uuid)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_timezone text;
+BEGIN
+  SELECT timezone INTO v_timezone FROM profiles WHERE user_id = p_user_id;
+
+  IF v_timezone IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    v_timezone := 'UTC';
+  END IF;
+
+  RETURN (now() AT TIME ZONE v_timezone)::date;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION user_local_date(uuid) TO authenticated;
+
+-- Recreate status view with overdue computed against the user's local date
+DROP VIEW IF EXISTS v_action_occurrence_status;
+
+CREATE VIEW v_action_occurrence_status WITH (security_invoker = on) AS
+SELECT
+  ao.*,
+  CASE WHEN ao.completed_at IS NOT NULL THEN true ELSE false END as is_done,
+  CASE WHEN ao.completed_at IS NULL AND ao.due_on < user_local_date(ao.user_id) THEN true ELSE false END as is_overdue,
+  CASE WHEN ao.completed_at IS NULL AND ao.due_on < user_local_date(ao.user_id)
+    THEN user_local_date(ao.user_id) - ao.due_on
+    ELSE 0
+  END as overdue_days
+FROM action_occurrences ao;
+
+GRANT SELECT ON v_action_occurrence_status TO authenticated;
+
+-- Recreate overdue counts view against the user's local date
+DROP VIEW IF EXISTS v_overdue_counts;
+
+CREATE VIEW v_overdue_counts WITH (security_invoker = on) AS
+SELECT
+  d.user_id,
+  d.id as dream_id,
+  COUNT(*) as overdue_count
+FROM dreams d
+JOIN areas a ON a.dream_id = d.id AND a.deleted_at IS NULL
+JOIN actions act ON act.area_id = a.id AND act.deleted_at IS NULL AND act.is_active = true
+JOIN action_occurrences ao ON ao.action_id = act.id
+WHERE d.archived_at IS NULL  -- Exclude archived dreams
+  AND ao.completed_at IS NULL
+  AND ao.due_on IS NOT NULL  -- Only count occurrences with due dates
+  AND ao.due_on < user_local_date(d.user_id)
+GROUP BY d.user_id, d.id;
+
+GRANT SELECT ON v_overdue_counts TO authenticated;
+
+-- Update current_streak so an action only breaks the streak once the user's local day has passed
+CREATE OR REPLACE FUNCTION current_streak(p_user_id uuid, p_dream_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_today date := user_local_date(p_user_id);
+  v_has_overdue boolean;
+  v_last_overdue_date date;
+  v_streak_count integer;
+BEGIN
+  -- 1. Check if there's ANY overdue action - if so, streak is 0
+  SELECT EXISTS(
+    SELECT 1
+    FROM action_occurrences ao
+    JOIN actions act ON act.id = ao.action_id
+    JOIN areas a ON a.id = act.area_id
+    JOIN dreams d ON d.id = a.dream_id
+    WHERE d.user_id = p_user_id
+      AND d.id = p_dream_id
+      AND ao.completed_at IS NULL
+      AND ao.due_on < v_today
+      AND a.deleted_at IS NULL
+      AND act.deleted_at IS NULL
+      AND act.is_active = true
+      AND d.archived_at IS NULL
+  ) INTO v_has_overdue;
+
+  IF v_has_overdue THEN
+    RETURN 0;
+  END IF;
+
+  -- 2. Find the due_on date of the most recent overdue occurrence for this dream
+  SELECT MAX(ao.due_on) INTO v_last_overdue_date
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NULL
+    AND ao.due_on < v_today
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  -- 3. Count completed occurrences that were due AFTER the last overdue date
+  SELECT COUNT(*) INTO v_streak_count
+  FROM action_occurrences ao
+  JOIN actions act ON act.id = ao.action_id
+  JOIN areas a ON a.id = act.area_id
+  JOIN dreams d ON d.id = a.dream_id
+  WHERE d.user_id = p_user_id
+    AND d.id = p_dream_id
+    AND ao.completed_at IS NOT NULL
+    AND (v_last_overdue_date IS NULL OR ao.due_on > v_last_overdue_date)
+    AND a.deleted_at IS NULL
+    AND act.deleted_at IS NULL
+    AND act.is_active = true
+    AND d.archived_at IS NULL;
+
+  RETURN v_streak_count;
+END;
+$$;
@@ -0,0 +1,43 @@
+-- Weekly planning.
+-- Once a week (on the user's planning day) the app walks them through the week ahead: they keep,
+-- move or drop its occurrences and can pick a focus dream, which gets an extra slot per day
+-- that week when scheduling.
+ALTER TABLE public.scheduling_preferences
+ADD COLUMN IF NOT EXISTS planning_day smallint DEFAULT 0 CHECK (planning_day BETWEEN 0 AND 6);
+
+COMMENT ON COLUMN public.scheduling_preferences.planning_day IS 'Weekday the app prompts the user to plan the week ahead (0 = Sunday ... 6 = Saturday); NULL = never';
+
+CREATE TABLE IF NOT EXISTS public.weekly_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(user_id) ON DELETE CASCADE,
+  week_start date NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  focus_dream_id uuid REFERENCES dreams(id) ON DELETE SET NULL,
+  kept_count integer NOT NULL DEFAULT 0,
+  moved_count integer NOT NULL DEFAULT 0,
+  dropped_count integer NOT NULL DEFAULT 0,
+  completed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+-- Enable RLS
+ALTER TABLE public.weekly_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.weekly_plans FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can access own weekly plans" ON public.weekly_plans;
+CREATE POLICY "Users can access own weekly plans" ON public.weekly_plans
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS trigger_weekly_plans_updated_at ON public.weekly_plans;
+CREATE TRIGGER trigger_weekly_plans_updated_at
+  BEFORE UPDATE ON public.weekly_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.weekly_plans TO authenticated;
+
+COMMENT ON TABLE public.weekly_plans IS 'The outcome of each weekly planning session';
+COMMENT ON COLUMN public.weekly_plans.week_start IS 'Monday of the planned week (user''s local calendar date)';
+COMMENT ON COLUMN public.weekly_plans.focus_dream_id IS 'Dream that gets an extra slot per day during the week';
+COMMENT ON COLUMN public.weekly_plans.completed_at IS 'When the user last saved the plan';
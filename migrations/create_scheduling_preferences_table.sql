@@ -0,0 +1,36 @@
+-- Create scheduling_preferences table
+-- Per-user rest days and daily caps used by the backend scheduler.
+-- Users without a row get the defaults (Sunday rest day, 5/day overall, 1/day per dream).
+CREATE TABLE IF NOT EXISTS scheduling_preferences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES profiles(user_id) ON DELETE CASCADE,
+  rest_days smallint[] NOT NULL DEFAULT '{0}'
+    CHECK (rest_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[] AND cardinality(rest_days) < 7),
+  global_daily_cap integer NOT NULL DEFAULT 5
+    CHECK (global_daily_cap BETWEEN 1 AND 10),
+  per_dream_cap integer NOT NULL DEFAULT 1
+    CHECK (per_dream_cap BETWEEN 1 AND 5),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE scheduling_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduling_preferences FORCE ROW LEVEL SECURITY;
+
+-- Create RLS policy
+CREATE POLICY "Users can access own scheduling preferences" ON scheduling_preferences
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Add trigger for updated_at
+CREATE TRIGGER trigger_scheduling_preferences_updated_at
+  BEFORE UPDATE ON scheduling_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION set_updated_at();
+
+-- Grant permissions to authenticated role
+GRANT SELECT, INSERT, UPDATE, DELETE ON scheduling_preferences TO authenticated;
+
+COMMENT ON COLUMN scheduling_preferences.rest_days IS 'Weekdays with no scheduled actions (0 = Sunday ... 6 = Saturday)';
+COMMENT ON COLUMN scheduling_preferences.global_daily_cap IS 'Maximum scheduled actions per day across all dreams';
+COMMENT ON COLUMN scheduling_preferences.per_dream_cap IS 'Default maximum scheduled actions per day for a single dream';
@@ -21,13 +21,14 @@ import { useCreateDream } from '../contexts/CreateDreamContext';
 
 // Import create flow screens
 import TitleStep from '../app/create/index';
-// Note: Some screens (CreateFigurine, PersonalizeBaseline, PersonalizeObstacles, PersonalizeEnjoyment, PlanPreview) 
+// Note: Some screens (CreateFigurine, PersonalizeBaseline, PersonalizeObstacles, PersonalizeEnjoyment) 
 // don't exist yet or were removed - uncomment when they're available
 import TimeCommitmentStep from '../app/create/time-commitment';
 import GoalFeasibilityStep from '../app/create/goal-feasibility';
 import TimelineFeasibilityStep from '../app/create/timeline-feasibility';
 import DreamConfirmStep from '../app/create/dream-confirm';
 import ActionsConfirmStep from '../app/create/actions-confirm';
+import PlanPreviewStep from '../app/create/plan-preview';
 import ActionOccurrencePage from '../app/ActionOccurrencePage';
 
 // Create stack navigator for create flow
@@ -187,14 +188,14 @@ const CreateNavigator = () => {
             headerRight: () => renderCloseButton(navigation, headerTintColor),
           })}
         />
-        {/* <CreateStack.Screen 
+        <CreateStack.Screen 
           name="PlanPreview" 
           component={PlanPreviewStep}
           options={({ navigation }) => ({
             headerLeft: () => renderBackButton(navigation, headerTintColor),
-            headerRight: () => renderCloseButton(navigation, headerTintColor),
+            headerRight: () => renderCloseButton(navigation, headerTintColor, reset),
           })}
-        /> */}
+        />
         <CreateStack.Screen 
           name="ActionsConfirm" 
           component={ActionsConfirmStep}
@@ -53,6 +53,9 @@ import SubscriptionLockoutPage from '../app/SubscriptionLockoutPage';
 import ScreenshotMenuPage from '../app/ScreenshotMenuPage';
 import NotificationSettingsPage from '../app/NotificationSettingsPage';
 import DisplaySettingsPage from '../app/DisplaySettingsPage';
+import SchedulingSettingsPage from '../app/SchedulingSettingsPage';
+import CalendarPage from '../app/CalendarPage';
+import WeeklyPlanningPage from '../app/WeeklyPlanningPage';
 import { DailyWelcomeContainer } from '../components/DailyWelcome/DailyWelcomeContainer';
 import { AchievementUnlockedPage } from '../app/AchievementUnlockedPage';
 import { AchievementListener } from '../components/AchievementListener';
@@ -72,6 +75,7 @@ import { useTheme } from '../contexts/ThemeContext';
 // import { OnboardingProvider } from '../contexts/OnboardingContext'; // Moved to App.tsx
 import { theme } from '../utils/theme';
 import { trackEvent } from '../lib/mixpanel';
+import { getOccurrenceLinkParams } from '../lib/calendarFeed';
 
 // Create stack navigators
 const AuthStack = createNativeStackNavigator();
@@ -133,7 +137,7 @@ const DreamsStackNavigator = () => {
 /**
  * TodayStackNavigator - Stack navigator for Today tab
  * 
- * Contains TodayPage and ActionOccurrence so the tab bar remains visible
+ * Contains TodayPage, the Calendar and weekly planning so the tab bar remains visible
  * when navigating between these screens.
  */
 const TodayStackNavigator = () => {
@@ -142,6 +146,8 @@ const TodayStackNavigator = () => {
       <TodayStack.Screen name="TodayList">
         {(props) => <TodayPage {...props} scrollRef={scrollRefs.Today} />}
       </TodayStack.Screen>
+      <TodayStack.Screen name="Calendar" component={CalendarPage} />
+      <TodayStack.Screen name="WeeklyPlanning" component={WeeklyPlanningPage} />
     </TodayStack.Navigator>
   );
 };
@@ -315,6 +321,27 @@ let mainStackNavigation: any = null;
  */
 export const getMainStackNavigation = () => mainStackNavigation;
 
+// Occurrence link (dreamer://occurrence/<id>, e.g. from the calendar feed) that arrived before
+// the main stack was ready; opened as soon as it is
+let pendingOccurrenceId: string | null = null;
+
+// Linked occurrences are usually not cached yet, so load what the page shows before opening it
+const navigateToOccurrence = async (navigation: any, occurrenceId: string) => {
+  navigation.navigate('ActionOccurrence', await getOccurrenceLinkParams(occurrenceId));
+};
+
+const openOccurrenceLink = (url: string) => {
+  const match = url.match(/occurrence\/([0-9a-f-]{36})/i);
+  if (!match) return;
+
+  trackEvent('occurrence_link_opened', { occurrence_id: match[1] });
+  if (mainStackNavigation) {
+    navigateToOccurrence(mainStackNavigation, match[1]);
+  } else {
+    pendingOccurrenceId = match[1];
+  }
+};
+
 /**
  * MainNavigator - Stack navigation for authenticated users
  * 
@@ -352,6 +379,10 @@ const MainNavigator = ({
             React.useEffect(() => {
               mainStackNavigation = props.navigation;
               console.log('✅ [MainNavigator] Navigation captured from Tabs screen');
+              if (pendingOccurrenceId) {
+                navigateToOccurrence(props.navigation, pendingOccurrenceId);
+                pendingOccurrenceId = null;
+              }
             }, [props.navigation]);
             return <TabNavigator {...props} />;
           }}
@@ -411,6 +442,11 @@ const MainNavigator = ({
           component={DisplaySettingsPage}
           options={{ presentation: 'card' }}
         />
+        <MainStack.Screen 
+          name="SchedulingSettings" 
+          component={SchedulingSettingsPage}
+          options={{ presentation: 'card' }}
+        />
         <MainStack.Screen 
           name="CreateFlow" 
           component={CreateNavigator}
@@ -492,6 +528,8 @@ const AppNavigator = () => {
       if (event.url.includes('auth/callback')) {
         // console.log('Processing auth callback URL...');
         await handleAuthRedirect(event.url);
+      } else if (event.url.includes('occurrence/')) {
+        openOccurrenceLink(event.url);
       }
     };
 
@@ -508,6 +546,8 @@ const AppNavigator = () => {
         // Check if this is an auth callback URL
         if (initialUrl.includes('auth/callback')) {
           await handleAuthRedirect(initialUrl);
+        } else if (initialUrl.includes('occurrence/')) {
+          openOccurrenceLink(initialUrl);
         }
       }
     };
@@ -0,0 +1,114 @@
+/**
+ * Date math for the week and month calendar views.
+ *
+ * Weeks run Monday to Sunday. A month is shown as whole weeks, so its grid starts on the Monday on
+ * or before the 1st and ends on the Sunday on or after the last day. Dates are local calendar dates.
+ */
+
+import type { Theme } from './theme';
+
+export type CalendarView = 'week' | 'month';
+
+export interface CalendarRange {
+  from: Date;
+  to: Date;
+  days: Date[];
+}
+
+type DayOccurrence = {
+  due_on: string;
+  is_done?: boolean;
+  is_overdue?: boolean;
+  actions?: { areas?: { dream_id?: string } };
+};
+
+export interface CalendarDaySummary {
+  total: number;
+  done: number;
+  overdue: number;
+  dreamIds: string[]; // In order of first appearance
+}
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Monday on or before the date
+const startOfWeek = (date: Date) => addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+
+// The days shown for the week or month containing the anchor date
+export const getCalendarRange = (anchor: Date, view: CalendarView): CalendarRange => {
+  const from = view === 'week'
+    ? startOfWeek(anchor)
+    : startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  const lastDay = view === 'week'
+    ? addDays(from, 6)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const to = addDays(startOfWeek(lastDay), 6);
+
+  const days: Date[] = [];
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return { from, to, days };
+};
+
+// The week planned on a given day: the current week on a Monday, otherwise the one starting next Monday
+export const getPlanningWeekStart = (today: Date = new Date()): Date => {
+  const monday = startOfWeek(today);
+  return monday.getTime() === startOfDay(today).getTime() ? monday : addDays(monday, 7);
+};
+
+// The anchor one week or month earlier or later
+export const shiftAnchor = (anchor: Date, view: CalendarView, direction: 'prev' | 'next'): Date => {
+  const step = direction === 'next' ? 1 : -1;
+  return view === 'week'
+    ? addDays(anchor, step * 7)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+};
+
+// e.g. "October 2026" or "Oct 12 – 18"
+export const formatCalendarTitle = (anchor: Date, view: CalendarView): string => {
+  if (view === 'month') {
+    return anchor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const { from, to } = getCalendarRange(anchor, 'week');
+  const start = from.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const end = to.getMonth() === from.getMonth()
+    ? String(to.getDate())
+    : to.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${start} – ${end}`;
+};
+
+// Counts and dreams per due date (YYYY-MM-DD)
+export const summarizeDays = (occurrences: DayOccurrence[]): Map<string, CalendarDaySummary> => {
+  const summaries = new Map<string, CalendarDaySummary>();
+  for (const occurrence of occurrences) {
+    const summary = summaries.get(occurrence.due_on) ?? { total: 0, done: 0, overdue: 0, dreamIds: [] };
+    summary.total += 1;
+    if (occurrence.is_done) summary.done += 1;
+    if (occurrence.is_overdue) summary.overdue += 1;
+    const dreamId = occurrence.actions?.areas?.dream_id;
+    if (dreamId && !summary.dreamIds.includes(dreamId)) summary.dreamIds.push(dreamId);
+    summaries.set(occurrence.due_on, summary);
+  }
+  return summaries;
+};
+
+// A stable color per dream, picked from the theme's accent colors
+export const dreamColor = (dreamId: string, theme: Theme): string => {
+  const palette = [
+    theme.colors.blue[500],
+    theme.colors.pink[500],
+    theme.colors.success[500],
+    theme.colors.purple[500],
+    theme.colors.warning[500],
+    theme.colors.indigo[500],
+    theme.colors.primary[500],
+  ];
+  let hash = 0;
+  for (let i = 0; i < dreamId.length; i++) {
+    hash = (hash * 31 + dreamId.charCodeAt(i)) | 0;
+  }
+  return palette[Math.abs(hash) % palette.length];
+};
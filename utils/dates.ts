@@ -0,0 +1,30 @@
+/**
+ * Date helpers for calendar dates (YYYY-MM-DD).
+ *
+ * Occurrence due dates are plain calendar dates in the user's timezone. Converting a Date with
+ * toISOString() gives the UTC date instead, which is a day off around midnight for anyone
+ * east or west of UTC, so always go through these helpers.
+ */
+
+// Calendar date of a Date in the device's local timezone
+export const toLocalDateString = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Parse a YYYY-MM-DD string as local midnight (new Date('YYYY-MM-DD') would be UTC midnight)
+export const parseLocalDate = (dateStr: string): Date => {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// IANA timezone of the device, e.g. 'Europe/London'
+export const getDeviceTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
@@ -0,0 +1,28 @@
+/**
+ * Helpers for dream priority (dreams.priority).
+ *
+ * When the user's daily cap is contested, a higher-priority dream gets the day and
+ * lower-priority dreams' work moves to the next day with room.
+ */
+import type { DreamPriority } from '../backend/database/types';
+
+// In the order the priority picker shows them
+export const DREAM_PRIORITIES: DreamPriority[] = ['high', 'normal', 'low'];
+
+export const DREAM_PRIORITY_LABELS: Record<DreamPriority, string> = {
+  high: 'Main',
+  normal: 'Normal',
+  low: 'Side',
+};
+
+// One line under the picker explaining what the selected priority does
+export const describePriority = (priority: DreamPriority): string => {
+  switch (priority) {
+    case 'high':
+      return 'Gets first pick of your days. Other dreams make room for it when a day is full.';
+    case 'low':
+      return 'Fits around your other dreams, moving to later days when a day is full.';
+    default:
+      return 'Shares your days evenly with other normal dreams.';
+  }
+};
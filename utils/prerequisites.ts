@@ -0,0 +1,30 @@
+/**
+ * Helpers for action prerequisites (actions.prerequisite_ids).
+ *
+ * An action is blocked while any of its prerequisites still has an outstanding occurrence.
+ * Prerequisites that were deleted or aren't loaded are ignored.
+ */
+
+type PrerequisiteAction = { id: string; title: string; prerequisite_ids?: string[] | null };
+type OccurrenceStatus = { action_id: string; completed_at?: string | null };
+
+// The prerequisites that still have work left, in the order they were listed
+export const getBlockingActions = <T extends PrerequisiteAction>(
+  action: { prerequisite_ids?: string[] | null },
+  actions: T[],
+  occurrences: OccurrenceStatus[]
+): T[] => {
+  const ids = action.prerequisite_ids || [];
+  if (ids.length === 0) return [];
+
+  const outstanding = new Set(occurrences.filter(occ => !occ.completed_at).map(occ => occ.action_id));
+  return ids
+    .map(id => actions.find(a => a.id === id))
+    .filter((a): a is T => !!a && outstanding.has(a.id));
+};
+
+// Short label for chips, e.g. "After Buy shoes" or "After Buy shoes +2"
+export const describeBlockers = (titles: string[]): string | null => {
+  if (titles.length === 0) return null;
+  return titles.length === 1 ? `After ${titles[0]}` : `After ${titles[0]} +${titles.length - 1}`;
+};
@@ -0,0 +1,42 @@
+/**
+ * Helpers for action recurrence rules (see RecurrenceRule in backend/database/types).
+ *
+ * Actions created before recurrence rules only have repeat_every_days, so always read the rule
+ * through getRecurrence and write it back with toRepeatFields.
+ */
+
+import type { RecurrenceRule } from '../backend/database/types';
+
+export const WEEKDAY_SHORT_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MONTH_WEEK_LABELS: Record<string, string> = { '1': 'First', '2': 'Second', '3': 'Third', '4': 'Fourth', '-1': 'Last' };
+
+// The action's rule, treating a legacy repeat_every_days as a fixed interval
+export const getRecurrence = (action: { recurrence?: RecurrenceRule | null; repeat_every_days?: number | null }): RecurrenceRule | null => {
+  if (action.recurrence) return action.recurrence;
+  if (action.repeat_every_days) return { type: 'interval', every_days: action.repeat_every_days };
+  return null;
+};
+
+// Fields to save for a rule. Plain 1-3 day intervals keep the legacy column only; richer rules
+// also set repeat_every_days so older app versions still show the action as a habit.
+export const toRepeatFields = (rule: RecurrenceRule | null): { repeat_every_days: number | null; recurrence: RecurrenceRule | null } => {
+  if (!rule) return { repeat_every_days: null, recurrence: null };
+  if (rule.type === 'interval' && rule.every_days <= 3) return { repeat_every_days: rule.every_days, recurrence: null };
+  return { repeat_every_days: rule.type === 'interval' ? Math.min(rule.every_days, 3) : 1, recurrence: rule };
+};
+
+// Short label for chips, e.g. "Every 2 days", "Mon, Wed, Fri", "3× a week", "First Sat monthly"
+export const describeRecurrence = (rule: RecurrenceRule | null): string | null => {
+  if (!rule) return null;
+  switch (rule.type) {
+    case 'interval':
+      return rule.every_days === 1 ? 'Daily' : `Every ${rule.every_days} days`;
+    case 'weekdays':
+      return rule.days.length === 7 ? 'Daily' : rule.days.map(day => WEEKDAY_SHORT_LABELS[day]).join(', ');
+    case 'times_per_week':
+      return `${rule.count}× a week`;
+    case 'monthly':
+      return `${MONTH_WEEK_LABELS[String(rule.week)]} ${WEEKDAY_SHORT_LABELS[rule.weekday]} monthly`;
+  }
+};
@@ -250,6 +250,7 @@ const mockProgress: ProgressPayload = {
     actionsDone: 4,
     actionsOverdue: 0
   },
+  lastSevenDaysStats: { actionsComplete: 6, activeDays: 6, actionsOverdue: 0 },
   historyStats: {
     week: { actionsComplete: 4, activeDays: 4, actionsOverdue: 0 },
     month: { actionsComplete: 28, activeDays: 13, actionsOverdue: 1 },
@@ -1074,6 +1075,7 @@ export const getScreenshotMockState = () => ({
   today: { occurrences: mockOccurrences, fetchedAt: NOW },
   todayByDate: { [TODAY_STR]: { occurrences: mockOccurrences, fetchedAt: NOW } },
   loadingTodayByDate: {},
+  occurrenceRanges: {},
   progress: mockProgress,
   dreamDetail: {
     'mock-dream-1': mockDreamDetail,
@@ -318,6 +318,10 @@ const icons = {
     library: 'MaterialIcons' as const,
     name: 'remove-circle'
   },
+  remove: {
+    library: 'MaterialIcons' as const,
+    name: 'remove'
+  },
   radio_button_unchecked: {
     library: 'MaterialIcons' as const,
     name: 'radio-button-unchecked'
@@ -402,6 +406,10 @@ const icons = {
     library: 'MaterialIcons' as const,
     name: 'today'
   },
+  event: {
+    library: 'MaterialIcons' as const,
+    name: 'event'
+  },
   more_vert: {
     library: 'MaterialIcons' as const,
     name: 'more-vert'
@@ -0,0 +1,74 @@
+/**
+ * Lays a day's occurrences out as a simple timeline (action_occurrences.planned_start_time).
+ *
+ * Occurrences with a start time keep it. The rest go back to back from the day start, each in the
+ * earliest gap long enough for it, in the order given. Times are minutes since midnight, local time.
+ */
+
+type TimelineItem = { id: string; est_minutes?: number | null; planned_start_time?: string | null };
+
+export interface TimelineSlot {
+  id: string;
+  start: number;
+  end: number;
+  fixed: boolean; // The user picked the start time
+}
+
+export const DEFAULT_DAY_START_TIME = '09:00';
+const DEFAULT_ACTION_MINUTES = 30;
+
+// "09:30" or "09:30:00" -> 570; null when it isn't a time
+export const parseClockTime = (value?: string | null): number | null => {
+  const match = value?.match(/^(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// 570 -> "09:30", as the backend expects it
+export const toClockTime = (minutes: number): string => {
+  const clamped = Math.max(0, Math.min(24 * 60 - 1, Math.round(minutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+};
+
+// 570 -> "9:30"
+export const formatClockTime = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${Math.floor(wrapped / 60)}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+export const layoutDay = <T extends TimelineItem>(items: T[], dayStartTime?: string | null): TimelineSlot[] => {
+  const dayStart = parseClockTime(dayStartTime) ?? parseClockTime(DEFAULT_DAY_START_TIME)!;
+  const duration = (item: T) => (item.est_minutes && item.est_minutes > 0 ? item.est_minutes : DEFAULT_ACTION_MINUTES);
+
+  const fixed: TimelineSlot[] = [];
+  const flexible: T[] = [];
+  for (const item of items) {
+    const start = parseClockTime(item.planned_start_time);
+    if (start === null) {
+      flexible.push(item);
+    } else {
+      fixed.push({ id: item.id, start, end: start + duration(item), fixed: true });
+    }
+  }
+
+  const taken = [...fixed].sort((a, b) => a.start - b.start);
+  const slots = [...fixed];
+  for (const item of flexible) {
+    const length = duration(item);
+    let start = dayStart;
+    // Walk past every booked block this one would overlap
+    for (const block of taken) {
+      if (block.end <= start) continue;
+      if (block.start >= start + length) break;
+      start = block.end;
+    }
+    const slot = { id: item.id, start, end: start + length, fixed: false };
+    slots.push(slot);
+    taken.push(slot);
+    taken.sort((a, b) => a.start - b.start);
+  }
+
+  return slots.sort((a, b) => a.start - b.start || Number(b.fixed) - Number(a.fixed));
+};